@@ -118,6 +118,9 @@ const externals = [
 	'url',
 	'worker_threads',
 	'child_process',
+	'zlib',
+	'dns',
+	'assert',
 	'node:fs',
 	'node:fs/promises',
 	'node:path',
@@ -126,6 +129,8 @@ const externals = [
 	'node:url',
 	'node:worker_threads',
 	'node:child_process',
+	// ssh2 (SFTP) 的可选原生模块，缺失时 ssh2 使用纯 JS 实现
+	'cpu-features',
 ];
 
 const buildOptions = {
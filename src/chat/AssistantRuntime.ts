@@ -0,0 +1,184 @@
+/**
+ * Friday Assistant Runtime
+ * 不依赖 Wiki：直接与设置中的 AI Provider 对话（流式输出）
+ * 系统提示词和温度来自设置，模型可在 Chat 中切换；附加的笔记 / 选区 / 标签作为上下文
+ * 回答中的 <friday-edit> 块作为修改建议（diff 工具块）输出，由用户在 View 中应用或拒绝
+ */
+
+import type { StreamChunk, PreparedChatTurn } from './core/runtime/ChatRuntime';
+import type { RuntimeCapabilities } from './core/runtime/types';
+import type { ChatHistoryMessage } from './ChatHistory';
+import { FridayRuntimeBase } from './ChatRuntimeBase';
+import { attachmentLabel, buildContextMessages, resolveAttachments, toContextSources } from './ChatContext';
+import type { ContextAttachment, ContextDocument } from './ChatContext';
+import { createProposal, EditBlockParser, NOTE_EDIT_INSTRUCTIONS } from './NoteEdits';
+import type { EditStreamPiece } from './NoteEdits';
+import { DEFAULT_ASSISTANT_SYSTEM_PROMPT, DEFAULT_ASSISTANT_TEMPERATURE, LLMClient } from '../services/llm';
+import { selectRecentTurns, toConversationTurns } from '../services/wiki/followUp';
+
+/** 带进 prompt 的历史问答轮数（回答按 selectRecentTurns 截断） */
+const MAX_HISTORY_TURNS = 10;
+
+export class FridayAssistantRuntime extends FridayRuntimeBase {
+	readonly providerId = 'friday-assistant';
+
+	/** 正在输出的修改块对应的工具块 */
+	private editToolId: string | null = null;
+	private editCount = 0;
+
+	async *query(
+		turn: PreparedChatTurn,
+		conversationHistory: ChatHistoryMessage[] = []
+	): AsyncGenerator<StreamChunk> {
+		const text = turn.request.text.trim();
+		const attachments: ContextAttachment[] = turn.request.attachments ?? [];
+		this.abortController = new AbortController();
+
+		try {
+			// /wiki、/publish 等命令属于 Wiki 模式
+			if (text.startsWith('/')) {
+				yield { type: 'text', content: this.t('assistant_command', { cmd: text.split(' ')[0] }) };
+				return;
+			}
+
+			const client = LLMClient.fromSettings(this.plugin);
+			if (!client) {
+				yield { type: 'text', content: this.t('assistant_no_provider') };
+				return;
+			}
+
+			const documents: ContextDocument[] = [];
+			if (attachments.length > 0) {
+				const found: ContextDocument[] | null = yield* this.readAttachments(attachments);
+				if (!found) return;
+				documents.push(...found);
+			}
+
+			// 历史最后是当前问题（还没有回答），toConversationTurns 只取完整的问答对
+			const recentTurns = selectRecentTurns(toConversationTurns(conversationHistory), MAX_HISTORY_TURNS);
+			const { aiAssistantSystemPrompt, aiAssistantTemperature, aiAssistantModel } = this.plugin.settings;
+			const messages = buildContextMessages(
+				documents,
+				text,
+				recentTurns,
+				`${aiAssistantSystemPrompt?.trim() || DEFAULT_ASSISTANT_SYSTEM_PROMPT}\n\n${NOTE_EDIT_INSTRUCTIONS}`
+			);
+
+			const parser = new EditBlockParser();
+			let answer = '';
+			try {
+				for await (const chunk of client.stream(messages, {
+					model: aiAssistantModel || undefined,
+					temperature: aiAssistantTemperature ?? DEFAULT_ASSISTANT_TEMPERATURE,
+					signal: this.abortController.signal,
+				})) {
+					for (const piece of parser.push(chunk)) {
+						if (piece.type === 'text') answer += piece.text;
+						yield* this.handlePiece(piece, documents);
+					}
+				}
+			} finally {
+				// An unfinished block (stopped or never closed) is not proposed
+				if (this.editToolId) {
+					yield { type: 'tool_call_result', id: this.editToolId, result: this.t('edit_incomplete'), isError: true };
+					this.editToolId = null;
+				}
+			}
+			for (const piece of parser.flush()) {
+				if (piece.type === 'text') answer += piece.text;
+				yield* this.handlePiece(piece, documents);
+			}
+
+			if (documents.length > 0) {
+				const sources = toContextSources(documents, answer);
+				if (sources.length > 0) {
+					yield { type: 'sources', sources };
+				}
+			}
+		} catch (error) {
+			// 停止时保留已输出的内容，由 View 标记为已中断
+			if (this.isCancelled()) return;
+			yield {
+				type: 'text',
+				content: `\n\n❌ **Error**: ${(error as Error).message}`,
+			};
+		} finally {
+			this.abortController = null;
+		}
+	}
+
+	/**
+	 * 普通文本直接输出；修改块开始时打开工具块，结束时校验并输出 diff
+	 */
+	private async *handlePiece(piece: EditStreamPiece, documents: ContextDocument[]): AsyncGenerator<StreamChunk> {
+		if (piece.type === 'text') {
+			yield { type: 'text', content: piece.text };
+			return;
+		}
+
+		if (piece.type === 'edit_start') {
+			this.editToolId = `edit-${Date.now()}-${++this.editCount}`;
+			yield { type: 'tool_call_start', id: this.editToolId, name: 'note_edit', input: { path: piece.path, action: piece.action } };
+			yield { type: 'tool_call_delta', id: this.editToolId, delta: this.t('edit_drafting', { path: piece.path || '…' }) };
+			return;
+		}
+
+		const toolId = this.editToolId ?? `edit-${Date.now()}-${++this.editCount}`;
+		this.editToolId = null;
+		const proposal = await createProposal(this.plugin.app, documents, piece.action, piece.path, piece.content);
+		if ('error' in proposal) {
+			yield { type: 'tool_call_result', id: toolId, result: this.t(`edit_${proposal.error}`, { path: piece.path }), isError: true };
+			return;
+		}
+
+		yield { type: 'note_edit', id: toolId, proposal };
+		const { added, removed } = proposal.diff.stats;
+		yield {
+			type: 'tool_call_result',
+			id: toolId,
+			result: this.t(proposal.action === 'create' ? 'edit_proposed_create' : 'edit_proposed', { path: proposal.path, added, removed }),
+		};
+	}
+
+	/**
+	 * 读取附加的上下文，在工具块中显示进度；没有可用内容时返回 null
+	 */
+	private async *readAttachments(attachments: ContextAttachment[]): AsyncGenerator<StreamChunk, ContextDocument[] | null> {
+		const toolId = `context-${Date.now()}`;
+		yield { type: 'tool_call_start', id: toolId, name: 'context_read', input: { context: attachments.map(attachmentLabel) } };
+		yield { type: 'tool_call_delta', id: toolId, delta: this.t('context_reading', { count: attachments.length }) };
+
+		const documents = await resolveAttachments(this.plugin.app, attachments);
+		if (documents.length === 0) {
+			yield { type: 'tool_call_result', id: toolId, result: this.t('context_empty'), isError: true };
+			return null;
+		}
+
+		const truncated = documents.filter(document => document.truncated).length;
+		yield {
+			type: 'tool_call_result',
+			id: toolId,
+			result: this.t(truncated > 0 ? 'context_loaded_truncated' : 'context_loaded', { count: documents.length, truncated }),
+		};
+		return documents;
+	}
+
+	getCapabilities(): RuntimeCapabilities {
+		return {
+			providerId: 'friday-assistant',
+			supportsPersistentRuntime: true,
+			supportsNativeHistory: true,
+			supportsPlanMode: false,
+			supportsRewind: false,
+			supportsFork: false,
+			supportsProviderCommands: false,
+			supportsImageAttachments: false,
+			supportsNoteAttachments: true,
+			supportsSelectionAttachments: true,
+			supportsTagAttachments: true,
+			supportsInstructionMode: false,
+			supportsMcpTools: false,
+			reasoningControl: 'none' as const,
+		};
+	}
+}
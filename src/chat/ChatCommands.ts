@@ -32,6 +32,13 @@ export const FRIDAY_CHAT_COMMANDS: SlashCommand[] = [
 		syntax: '/save [title]',
 		example: '/save DDD Introduction',
 	},
+	{
+		id: 'friday:wiki-watch',
+		name: '/watch',
+		description: '👀 Auto-ingest changes to the current wiki folder',
+		syntax: '/watch on|off',
+		example: '/watch on',
+	},
 	{
 		id: 'friday:publish-wiki',
 		name: '/publish',
@@ -0,0 +1,298 @@
+/**
+ * Friday Chat Context Attachments
+ * Notes, editor selections and tag queries attached to the input as chips.
+ * Questions with attachments are answered from those notes with the configured
+ * LLM directly — no wiki ingest needed.
+ */
+
+import { getAllTags, TFile, type App } from 'obsidian';
+import type { LLMMessage } from '../services/llm';
+import type { ConversationTurn } from '../services/wiki/types';
+import type { WikiSource } from '../services/wiki/citations';
+import type { SemanticIndex } from '../services/search/semanticIndex';
+import { tokenize } from '../services/search/tokenize';
+
+export type ContextAttachment =
+	| { type: 'note'; path: string }
+	| { type: 'selection'; path: string; text: string; fromLine: number; toLine: number }
+	| { type: 'tag'; tag: string };
+
+export type ContextAttachmentType = ContextAttachment['type'];
+
+/**
+ * Capability flag a runtime sets in getCapabilities() to accept each attachment
+ * type, alongside `supportsImageAttachments`.
+ */
+export const ATTACHMENT_CAPABILITIES = {
+	note:      'supportsNoteAttachments',
+	selection: 'supportsSelectionAttachments',
+	tag:       'supportsTagAttachments',
+} as const;
+
+export type AttachmentCapabilities = Partial<Record<typeof ATTACHMENT_CAPABILITIES[ContextAttachmentType], boolean>>;
+
+/** A resolved attachment: the text handed to the LLM. */
+export interface ContextDocument {
+	path: string;
+	title: string;
+	/** Line range for selections, e.g. `12-18` */
+	lines?: string;
+	content: string;
+	/** Content was cut to fit the context budget */
+	truncated: boolean;
+	/** Wiki page or source note, for retrieved wiki context (attachments are notes) */
+	kind?: WikiSource['kind'];
+	/** Heading of the best matching passage */
+	heading?: string;
+}
+
+// ─── Limits ───────────────────────────────────────────────────────────────────
+/** Notes included for a tag query (most recently modified first) */
+const MAX_TAG_NOTES = 20;
+/** Characters kept per document */
+const MAX_DOCUMENT_CHARS = 12000;
+/** Characters of note content per question, roughly 12k tokens */
+const MAX_CONTEXT_CHARS = 48000;
+/** Sources listed under a context answer */
+const MAX_CONTEXT_SOURCES = 5;
+/** Terms a note must share with the answer to be listed as a source */
+const MIN_SOURCE_OVERLAP = 2;
+/** Terms kept per source for `[n]` paragraph matching */
+const MAX_SOURCE_TERMS = 400;
+/** Wiki pages and source notes retrieved for a wiki question */
+const MAX_WIKI_DOCUMENTS = 6;
+
+const CONTEXT_SYSTEM_PROMPT = [
+	'You are Friday, an assistant answering questions about the user\'s Obsidian notes.',
+	'Answer using the notes provided below. If they do not contain the answer, say so briefly.',
+	'Answer in the language of the question, using Markdown.',
+].join(' ');
+
+// ─── Attachment helpers ───────────────────────────────────────────────────────
+
+export function canAttach(capabilities: AttachmentCapabilities, type: ContextAttachmentType): boolean {
+	return !!capabilities[ATTACHMENT_CAPABILITIES[type]];
+}
+
+/** Identity used to avoid attaching the same thing twice. */
+export function attachmentKey(attachment: ContextAttachment): string {
+	switch (attachment.type) {
+		case 'note':      return `note:${attachment.path}`;
+		case 'selection': return `selection:${attachment.path}:${attachment.fromLine}-${attachment.toLine}`;
+		case 'tag':       return `tag:${attachment.tag}`;
+	}
+}
+
+/** Short chip label. */
+export function attachmentLabel(attachment: ContextAttachment): string {
+	switch (attachment.type) {
+		case 'note':      return basename(attachment.path);
+		case 'selection': return `${basename(attachment.path)}:${lineRange(attachment.fromLine, attachment.toLine)}`;
+		case 'tag':       return `#${attachment.tag}`;
+	}
+}
+
+/** Links typed as `@[[Note]]` or `@[[Note|alias]]` in the message. */
+export function parseNoteMentions(text: string): string[] {
+	return [...text.matchAll(/@\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g)].map(match => match[1].trim());
+}
+
+// ─── Resolve ──────────────────────────────────────────────────────────────────
+
+/**
+ * Reads the attached notes, selections and tag matches, deduplicated by path
+ * and cut to the context budget. Attachments whose note no longer exists are skipped.
+ */
+export async function resolveAttachments(app: App, attachments: ContextAttachment[]): Promise<ContextDocument[]> {
+	const documents: ContextDocument[] = [];
+	const seenPaths = new Set<string>();
+	let budget = MAX_CONTEXT_CHARS;
+
+	const add = (document: Omit<ContextDocument, 'truncated'>) => {
+		if (budget <= 0) return;
+		const limit = Math.min(MAX_DOCUMENT_CHARS, budget);
+		const truncated = document.content.length > limit;
+		const content = truncated ? document.content.slice(0, limit) : document.content;
+		budget -= content.length;
+		documents.push({ ...document, content, truncated });
+	};
+
+	const addNote = async (file: TFile) => {
+		if (seenPaths.has(file.path)) return;
+		seenPaths.add(file.path);
+		add({ path: file.path, title: file.basename, content: await app.vault.cachedRead(file) });
+	};
+
+	// Selections first: they are the most specific context
+	for (const attachment of attachments) {
+		if (attachment.type !== 'selection') continue;
+		add({
+			path: attachment.path,
+			title: basename(attachment.path),
+			lines: lineRange(attachment.fromLine, attachment.toLine),
+			content: attachment.text,
+		});
+	}
+
+	for (const attachment of attachments) {
+		if (attachment.type === 'note') {
+			const file = app.vault.getAbstractFileByPath(attachment.path);
+			if (file instanceof TFile) await addNote(file);
+		} else if (attachment.type === 'tag') {
+			for (const file of findTaggedNotes(app, attachment.tag)) {
+				await addNote(file);
+			}
+		}
+	}
+
+	return documents;
+}
+
+/** Notes carrying the tag or one of its nested tags (`#project` matches `#project/friday`). */
+export function findTaggedNotes(app: App, tag: string, limit = MAX_TAG_NOTES): TFile[] {
+	const wanted = tag.replace(/^#/, '').toLowerCase();
+	return app.vault.getMarkdownFiles()
+		.filter(file => {
+			const cache = app.metadataCache.getFileCache(file);
+			const tags = cache ? getAllTags(cache) ?? [] : [];
+			return tags.some(t => {
+				const name = t.replace(/^#/, '').toLowerCase();
+				return name === wanted || name.startsWith(`${wanted}/`);
+			});
+		})
+		.sort((a, b) => b.stat.mtime - a.stat.mtime)
+		.slice(0, limit);
+}
+
+// ─── Prompt & sources ─────────────────────────────────────────────────────────
+
+/**
+ * Prompt for answering from attached notes: system instructions with the note
+ * contents, the recent Q&A turns, then the question.
+ */
+export function buildContextMessages(
+	documents: ContextDocument[],
+	question: string,
+	turns: ConversationTurn[] = [],
+	systemPrompt = CONTEXT_SYSTEM_PROMPT
+): LLMMessage[] {
+	const system = documents.length > 0
+		? `${systemPrompt}\n\n${formatContextDocuments(documents)}`
+		: systemPrompt;
+
+	const messages: LLMMessage[] = [{ role: 'system', content: system }];
+	for (const turn of turns) {
+		messages.push({ role: 'user', content: turn.question });
+		messages.push({ role: 'assistant', content: turn.answer });
+	}
+	messages.push({ role: 'user', content: question });
+	return messages;
+}
+
+/**
+ * `## Notes` section listing each document under its number, title and path.
+ * The number is the `[n]` of the sources block (toContextSources).
+ */
+function formatContextDocuments(documents: ContextDocument[]): string {
+	const notes = documents.map((document, i) => {
+		const heading = document.lines
+			? `[${i + 1}] ${document.title} (${document.path}, lines ${document.lines})`
+			: `[${i + 1}] ${document.title} (${document.path})`;
+		const suffix = document.truncated ? '\n[…truncated]' : '';
+		return `### ${heading}\n\n${document.content.trim()}${suffix}`;
+	});
+	const instruction = 'Cite the notes you use by their number in square brackets, like [1].';
+	return `## Notes\n\n${instruction}\n\n${notes.join('\n\n---\n\n')}`;
+}
+
+/**
+ * Documents the answer draws on, in the same shape as wiki sources so the View
+ * can link `[n]` markers and add the sources block. Numbers are the ones the
+ * documents had in the prompt: the notes the answer cites, or, when it cites
+ * none, the notes sharing the most terms with it.
+ */
+export function toContextSources(documents: ContextDocument[], answer: string): WikiSource[] {
+	const answerTerms = new Set(tokenize(answer));
+	const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1])));
+	const candidates = documents.map((document, i) => ({
+		document,
+		index: i + 1,
+		shared: [...new Set(tokenize(`${document.title} ${document.content}`))].filter(term => answerTerms.has(term)),
+	}));
+
+	const used = candidates.some(({ index }) => cited.has(index))
+		? candidates.filter(({ index }) => cited.has(index))
+		: candidates
+			.filter(({ shared }) => shared.length >= MIN_SOURCE_OVERLAP)
+			.sort((a, b) => b.shared.length - a.shared.length)
+			.slice(0, MAX_CONTEXT_SOURCES)
+			.sort((a, b) => a.index - b.index);
+
+	return used.map(({ document, index, shared }) => ({
+		index,
+		path: document.path,
+		title: document.title,
+		heading: document.heading,
+		kind: document.kind ?? 'note',
+		terms: shared.slice(0, MAX_SOURCE_TERMS),
+	}));
+}
+
+// ─── Wiki retrieval ───────────────────────────────────────────────────────────
+
+/**
+ * Folders searched for a wiki question: the generated wiki pages and the source notes
+ */
+export function wikiSearchFolders(folderPath: string): [wikiFolder: string, sourceFolder: string] {
+	return [`${folderPath} wiki/`, `${folderPath}/`];
+}
+
+/**
+ * Retrieval for a wiki question: the best passages of the wiki pages
+ * (`<folder> wiki`) and the source notes, from the semantic index.
+ * These are what the model answers from, so the sources listed under the
+ * answer are the pages it was actually given.
+ */
+export async function retrieveWikiDocuments(
+	index: SemanticIndex,
+	folderPath: string,
+	question: string,
+	signal?: AbortSignal
+): Promise<ContextDocument[]> {
+	const [wikiFolder, sourceFolder] = wikiSearchFolders(folderPath);
+	const response = await index.search(question, 'hybrid', MAX_WIKI_DOCUMENTS, {
+		filter: path => path.startsWith(wikiFolder) || path.startsWith(sourceFolder),
+		signal,
+	});
+
+	const documents: ContextDocument[] = [];
+	let budget = MAX_CONTEXT_CHARS;
+	for (const note of response.notes) {
+		if (budget <= 0) break;
+		const text = note.passages
+			.map(passage => passage.heading ? `#### ${passage.heading}\n\n${passage.text}` : passage.text)
+			.join('\n\n');
+		const limit = Math.min(MAX_DOCUMENT_CHARS, budget);
+		const truncated = text.length > limit;
+		const content = truncated ? text.slice(0, limit) : text;
+		budget -= content.length;
+		documents.push({
+			path: note.path,
+			title: note.title,
+			content,
+			truncated,
+			kind: note.path.startsWith(wikiFolder) ? 'wiki' : 'note',
+			heading: note.passages[0]?.heading,
+		});
+	}
+	return documents;
+}
+
+function lineRange(fromLine: number, toLine: number): string {
+	// Editor lines are 0-based
+	return fromLine === toLine ? `${fromLine + 1}` : `${fromLine + 1}-${toLine + 1}`;
+}
+
+function basename(path: string): string {
+	return path.split('/').pop()!.replace(/\.md$/, '');
+}
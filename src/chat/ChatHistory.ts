@@ -0,0 +1,188 @@
+/**
+ * Friday Chat History
+ * Persists chat conversations in the plugin folder:
+ *   chat-history/index.json   — conversation list (metadata only)
+ *   chat-history/<id>.json    — messages of one conversation
+ */
+
+import type FridayPlugin from '../main';
+import type { ContextAttachment } from './ChatContext';
+import type { NoteEditRecord } from './NoteEdits';
+
+export interface ChatHistoryMessage {
+	role: 'user' | 'assistant';
+	content: string;
+	/** Answer stopped by the user before it finished */
+	interrupted?: boolean;
+	/** Context chips sent with a question */
+	attachments?: ContextAttachment[];
+	/** Note changes proposed in an answer and whether they were applied */
+	edits?: NoteEditRecord[];
+}
+
+/** Conversation metadata shown in the history list. */
+export interface ConversationSummary {
+	id: string;
+	title: string;
+	/** Wiki folder bound by `/wiki @folder` (FridayWikiRuntime.currentFolderPath) */
+	folderPath: string | null;
+	createdAt: number;
+	updatedAt: number;
+	messageCount: number;
+}
+
+export interface StoredConversation extends ConversationSummary {
+	messages: ChatHistoryMessage[];
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+export class ChatHistoryStore {
+	private plugin: FridayPlugin;
+	private summaries: ConversationSummary[] = [];
+	private loaded = false;
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Conversations, most recently updated first. */
+	async list(): Promise<ConversationSummary[]> {
+		await this.ensureLoaded();
+		return [...this.summaries].sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	async get(id: string): Promise<StoredConversation | null> {
+		await this.ensureLoaded();
+		const summary = this.summaries.find(s => s.id === id);
+		if (!summary) return null;
+
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			const path = this.conversationPath(id);
+			const messages = (await adapter.exists(path))
+				? JSON.parse(await adapter.read(path))
+				: [];
+			return { ...summary, messages: Array.isArray(messages) ? messages : [] };
+		} catch (error) {
+			console.warn(`[Friday Chat] Failed to load conversation ${id}:`, error);
+			return { ...summary, messages: [] };
+		}
+	}
+
+	/** Creates a conversation titled after its first message. */
+	async create(firstMessage: string, folderPath: string | null): Promise<ConversationSummary> {
+		await this.ensureLoaded();
+		const now = Date.now();
+		const summary: ConversationSummary = {
+			id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			title: makeTitle(firstMessage),
+			folderPath,
+			createdAt: now,
+			updatedAt: now,
+			messageCount: 0,
+		};
+		this.summaries.push(summary);
+		await this.writeIndex();
+		return summary;
+	}
+
+	async saveMessages(id: string, messages: ChatHistoryMessage[], folderPath: string | null): Promise<void> {
+		await this.ensureLoaded();
+		const summary = this.summaries.find(s => s.id === id);
+		if (!summary) return;
+
+		summary.messageCount = messages.length;
+		summary.folderPath = folderPath;
+		summary.updatedAt = Date.now();
+
+		try {
+			await this.ensureFolder();
+			await this.plugin.app.vault.adapter.write(this.conversationPath(id), JSON.stringify(messages));
+		} catch (error) {
+			console.warn(`[Friday Chat] Failed to save conversation ${id}:`, error);
+		}
+		await this.writeIndex();
+	}
+
+	async rename(id: string, title: string): Promise<void> {
+		await this.ensureLoaded();
+		const summary = this.summaries.find(s => s.id === id);
+		const trimmed = title.trim();
+		if (!summary || !trimmed) return;
+
+		summary.title = trimmed;
+		await this.writeIndex();
+	}
+
+	async delete(id: string): Promise<void> {
+		await this.ensureLoaded();
+		this.summaries = this.summaries.filter(s => s.id !== id);
+
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			const path = this.conversationPath(id);
+			if (await adapter.exists(path)) {
+				await adapter.remove(path);
+			}
+		} catch (error) {
+			console.warn(`[Friday Chat] Failed to delete conversation ${id}:`, error);
+		}
+		await this.writeIndex();
+	}
+
+	// ─────────────────────────────────────────
+	// Storage
+	// ─────────────────────────────────────────
+
+	private async ensureLoaded(): Promise<void> {
+		if (this.loaded) return;
+		this.loaded = true;
+
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (await adapter.exists(this.indexPath)) {
+				const data = JSON.parse(await adapter.read(this.indexPath));
+				this.summaries = Array.isArray(data) ? data : [];
+			}
+		} catch (error) {
+			console.warn('[Friday Chat] Failed to load chat history:', error);
+			this.summaries = [];
+		}
+	}
+
+	private async writeIndex(): Promise<void> {
+		try {
+			await this.ensureFolder();
+			await this.plugin.app.vault.adapter.write(this.indexPath, JSON.stringify(this.summaries, null, 2));
+		} catch (error) {
+			console.warn('[Friday Chat] Failed to save chat history:', error);
+		}
+	}
+
+	private async ensureFolder(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(await adapter.exists(this.folderPath))) {
+			await adapter.mkdir(this.folderPath);
+		}
+	}
+
+	private get folderPath(): string {
+		return `${this.plugin.pluginDir}/chat-history`;
+	}
+
+	private get indexPath(): string {
+		return `${this.folderPath}/index.json`;
+	}
+
+	private conversationPath(id: string): string {
+		return `${this.folderPath}/${id}.json`;
+	}
+}
+
+function makeTitle(text: string): string {
+	const firstLine = text.trim().split('\n')[0];
+	return firstLine.length > TITLE_MAX_LENGTH
+		? firstLine.slice(0, TITLE_MAX_LENGTH) + '…'
+		: firstLine;
+}
@@ -0,0 +1,41 @@
+/**
+ * Friday Chat Modes
+ * Runtimes selectable from the chat header. Each mode owns one runtime
+ * instance per view, so switching keeps the wiki folder binding.
+ */
+
+import type FridayPlugin from '../main';
+import type { FridayRuntimeBase } from './ChatRuntimeBase';
+import { FridayWikiRuntime } from './ChatRuntime';
+import { FridayAssistantRuntime } from './AssistantRuntime';
+
+export type ChatMode = 'wiki' | 'assistant';
+
+export interface ChatModeDefinition {
+	id: ChatMode;
+	/** i18n key under `chat.` */
+	labelKey: string;
+	icon: string;
+	/** Slash commands and `@folder` mentions are offered in the input */
+	commands: boolean;
+	create: (plugin: FridayPlugin) => FridayRuntimeBase;
+}
+
+export const CHAT_MODES: ChatModeDefinition[] = [
+	{
+		id: 'wiki',
+		labelKey: 'mode_wiki',
+		icon: 'book-open',
+		commands: true,
+		create: (plugin) => new FridayWikiRuntime(plugin),
+	},
+	{
+		id: 'assistant',
+		labelKey: 'mode_assistant',
+		icon: 'bot',
+		commands: false,
+		create: (plugin) => new FridayAssistantRuntime(plugin),
+	},
+];
+
+export const DEFAULT_CHAT_MODE: ChatMode = 'wiki';
@@ -3,64 +3,74 @@
  * 实现 ChatRuntime 接口，连接 Chat UI 和 Wiki Service
  */
 
-import type { ChatRuntime, StreamChunk, PreparedChatTurn, ChatTurnRequest } from './core/runtime/ChatRuntime';
-import type { ChatMessage } from './core/types/chat';
+import type { StreamChunk, PreparedChatTurn } from './core/runtime/ChatRuntime';
+import type { ChatHistoryMessage } from './ChatHistory';
+import { FridayRuntimeBase } from './ChatRuntimeBase';
 import type { RuntimeCapabilities } from './core/runtime/types';
 import { WikiService } from '../services/wiki';
+import { DEFAULT_FOLLOW_UP_TURNS, selectRecentTurns, toConversationTurns } from '../services/wiki/followUp';
+import { LLMClient } from '../services/llm';
+import { attachmentLabel, buildContextMessages, resolveAttachments, retrieveWikiDocuments, toContextSources, wikiSearchFolders } from './ChatContext';
+import type { ContextAttachment, ContextDocument } from './ChatContext';
 import { parseFolderPath } from './ChatCommands';
 import type FridayPlugin from '../main';
 import { VIEW_TYPE_FRIDAY_CHAT } from '../main';
 import * as path from 'path';
+import { joinPath } from '../utils/path';
 
 export { VIEW_TYPE_FRIDAY_CHAT };
 
-export class FridayWikiRuntime implements ChatRuntime {
+export class FridayWikiRuntime extends FridayRuntimeBase {
 	readonly providerId = 'friday-wiki';
 	
 	private wikiService: WikiService;
 	private currentFolderPath: string | null = null;
 	
-	constructor(private plugin: FridayPlugin) {
+	constructor(plugin: FridayPlugin) {
+		super(plugin);
 		this.wikiService = new WikiService(plugin);
 	}
-	
-	private t(key: string, params?: Record<string, any>): string {
-		return this.plugin.i18n.t(`chat.${key}`, params);
-	}
 
 	/**
 	 * 核心：流式查询方法
 	 */
 	async *query(
 		turn: PreparedChatTurn,
-		conversationHistory: ChatMessage[] = []
+		conversationHistory: ChatHistoryMessage[] = []
 	): AsyncGenerator<StreamChunk> {
 		const text = turn.request.text.trim();
+		// Chips from the input area (ChatView passes them with the turn request)
+		const attachments: ContextAttachment[] = turn.request.attachments ?? [];
+		this.abortController = new AbortController();
 		
 		try {
 			// 命令路由
 			if (text.startsWith('/wiki ')) {
 				yield* this.handleWikiIngest(text.slice(6));
+			} else if (text.startsWith('/watch')) {
+				yield* this.handleWatch(text.slice(6).trim());
 			} else if (text.startsWith('/publish')) {
 				yield* this.handlePublish();
 			} else if (text.startsWith('/save')) {
 				const title = text.slice(5).trim();
 				yield* this.handleSaveConversation(title, conversationHistory);
 			} else if (text.startsWith('/ask ')) {
-				yield* this.handleWikiQuery(text.slice(5), conversationHistory);
+				yield* this.handleQuestion(text.slice(5), attachments, conversationHistory);
 			} else if (text.startsWith('/')) {
 				yield {
 					type: 'text',
 					content: this.t('unknown_cmd', { cmd: text.split(' ')[0] }),
 				};
 			} else {
-				yield* this.handleWikiQuery(text, conversationHistory);
+				yield* this.handleQuestion(text, attachments, conversationHistory);
 			}
 		} catch (error) {
 			yield {
 				type: 'text',
 				content: `\n\n❌ **Error**: ${error.message}`,
 			};
+		} finally {
+			this.abortController = null;
 		}
 	}
 	
@@ -84,10 +94,10 @@ export class FridayWikiRuntime implements ChatRuntime {
 		
 		try {
 			yield { type: 'tool_call_delta', id: toolId, delta: this.t('ingest_init_workspace') };
-			await this.ensureWorkspaceInitialized();
+			await this.wikiService.ensureWorkspaceInitialized();
 			
 			yield { type: 'tool_call_delta', id: toolId, delta: this.t('ingest_configure_llm', { provider: this.plugin.settings.aiProviderType || '?' }) };
-			await this.configureLLM();
+			await this.wikiService.configureLLM();
 			
 			yield { type: 'tool_call_delta', id: toolId, delta: this.t('ingest_get_project') };
 			const projectName = await this.plugin.getOrCreateProjectForFolder(folderPath);
@@ -96,19 +106,24 @@ export class FridayWikiRuntime implements ChatRuntime {
 			yield { type: 'tool_call_delta', id: toolId, delta: this.t('ingest_processing') };
 			
 			const keyProgress: string[] = [];
-			const result = await this.wikiService.ingest(projectName, (event) => {
-				if (event.type === 'ingest:file:complete') {
+			const signal = this.abortController?.signal;
+			const result = await this.wikiService.ingest(projectName, {
+				sourceFolder: joinPath(this.plugin.vaultBasePath, folderPath),
+				onProgress: (event) => {
+					if (event.type === 'ingest:file:complete') {
+						const progressText = event.progress
+							? ` [${event.progress.current}/${event.progress.total}]`
+							: '';
+						keyProgress.push(`✓ File processed${progressText}`);
+					} else if (event.type === 'ingest:pages:complete') {
+						keyProgress.push(`✓ Generated ${event.metadata?.pageCount || 0} wiki pages`);
+					}
 					const progressText = event.progress
-						? ` [${event.progress.current}/${event.progress.total}]`
+						? ` [${event.progress.current}/${event.progress.total}] (${event.progress.percentage}%)`
 						: '';
-					keyProgress.push(`✓ File processed${progressText}`);
-				} else if (event.type === 'ingest:pages:complete') {
-					keyProgress.push(`✓ Generated ${event.metadata?.pageCount || 0} wiki pages`);
-				}
-				const progressText = event.progress
-					? ` [${event.progress.current}/${event.progress.total}] (${event.progress.percentage}%)`
-					: '';
-				console.log(`[${event.type}] ${event.message}${progressText}`);
+					console.log(`[${event.type}] ${event.message}${progressText}`);
+				},
+				signal,
 			});
 			
 			for (const line of keyProgress) {
@@ -116,6 +131,8 @@ export class FridayWikiRuntime implements ChatRuntime {
 			}
 			
 			const resultLines = [
+				result.changes ? this.t('ingest_changes', { ...result.changes }) : '',
+				result.removedKnowledge ? this.t('ingest_removed_knowledge', { count: result.removedKnowledge }) : '',
 				`Entities: ${result.extractedEntities}`,
 				`Concepts: ${result.extractedConcepts}`,
 				`Connections: ${result.extractedConnections}`,
@@ -125,8 +142,17 @@ export class FridayWikiRuntime implements ChatRuntime {
 			
 			yield { type: 'tool_call_result', id: toolId, result: resultLines.join('\n') };
 			yield { type: 'text', content: this.t('ingest_ready') };
+
+			// 后台为问答建立检索索引，第一个问题不必等待；提问时仍会再同步一次
+			void this.plugin.semanticIndex?.updateFolders(wikiSearchFolders(folderPath))
+				.catch(error => console.warn('[Friday Chat] Failed to index the wiki folder:', error));
 			
 		} catch (error) {
+			if (this.isCancelled()) {
+				// 已处理的文件保留在 Wiki 中，重新执行 /wiki @folder 即可继续
+				yield { type: 'tool_call_result', id: toolId, result: this.t('ingest_cancelled'), isError: true };
+				return;
+			}
 			yield {
 				type: 'tool_call_result',
 				id: toolId,
@@ -136,12 +162,91 @@ export class FridayWikiRuntime implements ChatRuntime {
 		}
 	}
 	
+	/**
+	 * 有附加的上下文时直接用这些笔记回答，否则查询 Wiki
+	 */
+	private handleQuestion(
+		question: string,
+		attachments: ContextAttachment[],
+		history: ChatHistoryMessage[]
+	): AsyncGenerator<StreamChunk> {
+		return attachments.length > 0
+			? this.handleContextQuery(question, attachments, history)
+			: this.handleWikiQuery(question, history);
+	}
+	
+	/**
+	 * 附加笔记 / 选区 / 标签 - 用配置的 LLM 直接回答，不需要 ingest
+	 */
+	private async *handleContextQuery(
+		question: string,
+		attachments: ContextAttachment[],
+		history: ChatHistoryMessage[]
+	): AsyncGenerator<StreamChunk> {
+		const toolId = `context-${Date.now()}`;
+		yield { type: 'tool_call_start', id: toolId, name: 'context_query', input: { question, context: attachments.map(attachmentLabel) } };
+		
+		try {
+			const client = LLMClient.fromSettings(this.plugin);
+			if (!client) {
+				yield { type: 'tool_call_result', id: toolId, result: this.t('context_no_provider'), isError: true };
+				return;
+			}
+			
+			yield { type: 'tool_call_delta', id: toolId, delta: this.t('context_reading', { count: attachments.length }) };
+			const documents = await resolveAttachments(this.plugin.app, attachments);
+			if (documents.length === 0) {
+				yield { type: 'tool_call_result', id: toolId, result: this.t('context_empty'), isError: true };
+				return;
+			}
+			const truncated = documents.filter(document => document.truncated).length;
+			yield {
+				type: 'tool_call_delta',
+				id: toolId,
+				delta: this.t(truncated > 0 ? 'context_loaded_truncated' : 'context_loaded', { count: documents.length, truncated }),
+			};
+			
+			const windowSize = this.plugin.settings.aiFollowUpTurns ?? DEFAULT_FOLLOW_UP_TURNS;
+			const recentTurns = selectRecentTurns(toConversationTurns(history), windowSize);
+			
+			yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_querying') };
+			let answer = '';
+			for await (const chunk of client.stream(buildContextMessages(documents, question, recentTurns), {
+				temperature: 0.3,
+				signal: this.abortController?.signal,
+			})) {
+				answer += chunk;
+				yield { type: 'text', content: chunk };
+			}
+			
+			const sources = toContextSources(documents, answer);
+			if (sources.length > 0) {
+				yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_sources_found', { count: sources.length }) };
+				yield { type: 'sources', sources };
+			}
+			
+			yield { type: 'tool_call_result', id: toolId, result: 'Done' };
+			
+		} catch (error) {
+			if (this.isCancelled()) {
+				yield { type: 'tool_call_result', id: toolId, result: this.t('query_cancelled'), isError: true };
+				return;
+			}
+			yield {
+				type: 'tool_call_result',
+				id: toolId,
+				result: `Query error: ${(error as Error).message}`,
+				isError: true,
+			};
+		}
+	}
+	
 	/**
 	 * 直接输入 - Query
 	 */
 	private async *handleWikiQuery(
 		question: string,
-		history: ChatMessage[]
+		history: ChatHistoryMessage[]
 	): AsyncGenerator<StreamChunk> {
 		if (!this.currentFolderPath) {
 			yield { type: 'text', content: this.t('query_no_wiki') };
@@ -155,20 +260,68 @@ export class FridayWikiRuntime implements ChatRuntime {
 		try {
 			const projectName = await this.plugin.getOrCreateProjectForFolder(this.currentFolderPath);
 
+			// 追问：用最近几轮问答改写为独立问题，并把这几轮问答带进 prompt
+			const signal = this.abortController?.signal;
+			const windowSize = this.plugin.settings.aiFollowUpTurns ?? DEFAULT_FOLLOW_UP_TURNS;
+			const recentTurns = selectRecentTurns(toConversationTurns(history), windowSize);
+			let standaloneQuestion = question;
+			if (recentTurns.length > 0) {
+				yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_condensing') };
+				try {
+					standaloneQuestion = await this.wikiService.condenseFollowUp(question, recentTurns, signal);
+				} catch (error) {
+					if (this.isCancelled()) throw error;
+					console.warn('[Friday Chat] Failed to condense follow-up question:', error);
+				}
+				if (standaloneQuestion !== question) {
+					yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_condensed', { question: standaloneQuestion }) };
+				}
+			}
+
+			// 检索：当前 Wiki 页面和源笔记的段落（检索前同步这两个文件夹的语义索引），编号后放进 prompt，
+			// 答案中的 [n] 和来源列表对应同一份检索结果
+			const client = LLMClient.fromSettings(this.plugin);
+			const documents = client ? await this.retrieveWikiContext(this.currentFolderPath, standaloneQuestion, signal) : [];
+
 			yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_querying') };
 
 			// Stream LLM answer as `text` chunks so the View renders them as Markdown.
 			// We do NOT close the tool block yet — the spinner keeps running.
-			for await (const chunk of this.wikiService.queryStream(projectName, question, (event) => {
-				console.log(`[${event.type}] ${event.message}`);
-			})) {
-				yield { type: 'text', content: chunk };
+			let answer = '';
+			if (client && documents.length > 0) {
+				for await (const chunk of client.stream(buildContextMessages(documents, standaloneQuestion, recentTurns), {
+					temperature: 0.3,
+					signal,
+				})) {
+					answer += chunk;
+					yield { type: 'text', content: chunk };
+				}
+
+				// 来源：View 据此链接 [n] 并在答案末尾列出链接
+				const sources = toContextSources(documents, answer);
+				if (sources.length > 0) {
+					yield { type: 'tool_call_delta', id: toolId, delta: this.t('query_sources_found', { count: sources.length }) };
+					yield { type: 'sources', sources };
+				}
+			} else {
+				// 没有 AI Provider 或没有检索到内容时由 Foundry 检索并回答；Foundry 不返回用到的页面，因此不列出来源
+				for await (const chunk of this.wikiService.queryStream(projectName, standaloneQuestion, {
+					signal,
+					conversationHistory: recentTurns,
+				})) {
+					answer += chunk;
+					yield { type: 'text', content: chunk };
+				}
 			}
 
 			// Only now close the tool block with ✓ — after all text has streamed
 			yield { type: 'tool_call_result', id: toolId, result: 'Done' };
 
 		} catch (error) {
+			if (this.isCancelled()) {
+				yield { type: 'tool_call_result', id: toolId, result: this.t('query_cancelled'), isError: true };
+				return;
+			}
 			yield {
 				type: 'tool_call_result',
 				id: toolId,
@@ -178,12 +331,74 @@ export class FridayWikiRuntime implements ChatRuntime {
 		}
 	}
 	
+	/**
+	 * 检索 Wiki 问题的上下文：先同步 Wiki 文件夹和源文件夹的语义索引（不需要先打开语义搜索），
+	 * 再从中检索；索引不可用或检索失败时返回空
+	 */
+	private async retrieveWikiContext(folderPath: string, question: string, signal?: AbortSignal): Promise<ContextDocument[]> {
+		const index = this.plugin.semanticIndex;
+		if (!index) {
+			return [];
+		}
+		try {
+			await index.updateFolders(wikiSearchFolders(folderPath), signal);
+			return await retrieveWikiDocuments(index, folderPath, question, signal);
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			console.warn('[Friday Chat] Wiki retrieval failed:', error);
+			return [];
+		}
+	}
+	
+	/**
+	 * /watch on|off - 后台自动 ingest 当前 Wiki 文件夹的变化
+	 */
+	private async *handleWatch(args: string): AsyncGenerator<StreamChunk> {
+		if (!this.currentFolderPath) {
+			yield { type: 'text', content: this.t('watch_no_wiki') };
+			return;
+		}
+		
+		const manager = this.plugin.autoIngestManager;
+		if (!manager) {
+			yield { type: 'text', content: this.t('watch_unavailable') };
+			return;
+		}
+		
+		const folder = this.currentFolderPath;
+		const projectName = await this.plugin.getOrCreateProjectForFolder(folder);
+		const config = await manager.getConfig(projectName);
+		
+		if (args !== 'on' && args !== 'off') {
+			yield { type: 'text', content: this.t(config.enabled ? 'watch_status_on' : 'watch_status_off', { folder }) };
+			return;
+		}
+		
+		const enabled = args === 'on';
+		const saved = await manager.saveConfig(projectName, { ...config, enabled });
+		if (!saved) {
+			yield { type: 'text', content: this.t('watch_save_failed') };
+			return;
+		}
+		
+		if (enabled) {
+			// 立即补上开启前的变化
+			manager.enqueue(projectName);
+		}
+		yield {
+			type: 'text',
+			content: enabled
+				? this.t('watch_enabled', { folder, seconds: config.debounceSeconds })
+				: this.t('watch_disabled', { folder }),
+		};
+	}
+	
 	/**
 	 * /save - 保存对话
 	 */
 	private async *handleSaveConversation(
 		title: string,
-		history: ChatMessage[]
+		history: ChatHistoryMessage[]
 	): AsyncGenerator<StreamChunk> {
 		if (!this.currentFolderPath) {
 			yield { type: 'text', content: this.t('save_no_wiki') };
@@ -195,7 +410,7 @@ export class FridayWikiRuntime implements ChatRuntime {
 		
 		try {
 			const projectName = await this.plugin.getOrCreateProjectForFolder(this.currentFolderPath);
-			const conversationHistory = this.convertToWikiFormat(history);
+			const conversationHistory = toConversationTurns(history);
 			
 			const result = await this.wikiService.saveConversation(
 				projectName,
@@ -253,118 +468,6 @@ export class FridayWikiRuntime implements ChatRuntime {
 		}
 	}
 	
-	/**
-	 * 辅助方法：确保工作空间已初始化
-	 */
-	private async ensureWorkspaceInitialized(): Promise<void> {
-		// 直接使用 plugin 的 workspaceService
-		if (!this.plugin.workspaceService) {
-			throw new Error('Workspace service not initialized');
-		}
-		
-		const existsResult = await this.plugin.workspaceService.workspaceExists(this.plugin.absWorkspacePath);
-		
-		if (existsResult.success && !existsResult.data) {
-			// Workspace doesn't exist, initialize it
-			const initResult = await this.plugin.workspaceService.initWorkspace(this.plugin.absWorkspacePath);
-			
-			if (!initResult.success) {
-				throw new Error(`Failed to initialize workspace: ${initResult.error}`);
-			}
-		} else if (!existsResult.success) {
-			throw new Error(`Failed to check workspace existence: ${existsResult.error}`);
-		}
-	}
-	
-	/**
-	 * 辅助方法：配置 LLM
-	 * 
-	 * 从 plugin.settings 读取用户配置的 AI Provider，写入 foundry global config。
-	 * 如果用户尚未配置，则抛出错误提示用户先完成配置。
-	 */
-	private async configureLLM(): Promise<void> {
-		if (!this.plugin.foundryGlobalConfigService) {
-			throw new Error('Global config service not initialized');
-		}
-
-		const { aiProviderType, aiProviderBaseUrl, aiProviderApiKey, aiProviderModel } = this.plugin.settings;
-
-		if (!aiProviderType) {
-			throw new Error('AI provider not configured. Please open Settings → AI Provider Settings to configure an AI model.');
-		}
-
-		// Cloud providers require an API key
-		const cloudProviders = ['openai', 'glm', 'deepseek', 'moonshot'];
-		if (cloudProviders.includes(aiProviderType) && !aiProviderApiKey) {
-			throw new Error(`${aiProviderType} requires an API key. Please configure it in Settings → AI Provider Settings.`);
-		}
-
-		// Build the LLM config (compatible with LLMServiceConfig + wiki adapter field names)
-		const llmConfig: Record<string, any> = {
-			type: aiProviderType,
-			baseURL: aiProviderBaseUrl,
-			model: aiProviderModel,
-			defaultModel: aiProviderModel,
-			maxTokens: 32768,
-		};
-		if (aiProviderApiKey) {
-			llmConfig.apiKey = aiProviderApiKey;
-		}
-
-		await this.plugin.foundryGlobalConfigService.set(this.plugin.absWorkspacePath, 'llm', llmConfig);
-
-		// Configure embedding — activated when a provider type is selected
-		const { aiEmbeddingType, aiEmbeddingBaseUrl, aiEmbeddingApiKey, aiEmbeddingModel } = this.plugin.settings;
-		if (aiEmbeddingType && aiEmbeddingType !== 'none') {
-			const embeddingConfig: Record<string, any> = {
-				type: aiEmbeddingType,
-				baseURL: aiEmbeddingBaseUrl,
-				model: aiEmbeddingModel,
-			};
-			if (aiEmbeddingApiKey) {
-				embeddingConfig.apiKey = aiEmbeddingApiKey;
-			}
-			await this.plugin.foundryGlobalConfigService.set(this.plugin.absWorkspacePath, 'llm.embedding', embeddingConfig);
-		}
-
-		// Output language — use user setting, auto-detect from Obsidian language if not set
-		await this.plugin.foundryGlobalConfigService.set(
-			this.plugin.absWorkspacePath,
-			'wiki.outputLanguage',
-			this.plugin.resolveOutputLanguage()
-		);
-	}
-	
-	/**
-	 * 辅助方法：转换对话格式
-	 * ✅ 过滤掉命令消息（/wiki, /publish, /save 等）
-	 */
-	private convertToWikiFormat(history: ChatMessage[]): Array<{ question: string; answer: string }> {
-		const result: Array<{ question: string; answer: string }> = [];
-		
-		for (let i = 0; i < history.length; i += 2) {
-			const user = history[i];
-			const assistant = history[i + 1];
-			
-			if (user?.role === 'user' && assistant?.role === 'assistant') {
-				// ✅ 过滤掉命令消息
-				const userText = user.content.trim();
-				if (userText.startsWith('/wiki') || 
-				    userText.startsWith('/publish') || 
-				    userText.startsWith('/save')) {
-					continue; // 跳过命令消息
-				}
-				
-				result.push({
-					question: user.content,
-					answer: assistant.content,
-				});
-			}
-		}
-		
-		return result;
-	}
-	
 	// ========== ChatRuntime 接口必需方法 ==========
 	
 	getCapabilities(): RuntimeCapabilities {
@@ -377,80 +480,34 @@ export class FridayWikiRuntime implements ChatRuntime {
 			supportsFork: false,
 			supportsProviderCommands: false,
 			supportsImageAttachments: false,
+			supportsNoteAttachments: true,
+			supportsSelectionAttachments: true,
+			supportsTagAttachments: true,
 			supportsInstructionMode: false,
 			supportsMcpTools: false,
 			reasoningControl: 'none' as const,
 		};
 	}
 	
-	prepareTurn(request: ChatTurnRequest): PreparedChatTurn {
-		return {
-			persistedContent: request.text,
-			request,
-			isCompact: false,
-		};
-	}
-	
-	cancel(): void {
-		// 可以添加取消逻辑
-	}
-	
 	resetSession(): void {
 		this.currentFolderPath = null;
 	}
 	
-	getSessionId(): string | null {
+	/**
+	 * 当前绑定的 Wiki 文件夹（/wiki @folder），随对话历史一起保存
+	 */
+	getFolderPath(): string | null {
 		return this.currentFolderPath;
 	}
 	
-	isReady(): boolean {
-		return true;
-	}
-	
-	cleanup(): void {}
-	
-	consumeSessionInvalidation(): boolean {
-		return false;
-	}
-	
-	onReadyStateChange() {
-		return () => {};
-	}
-	
-	setResumeCheckpoint() {}
-	syncConversationState() {}
-	reloadMcpServers() { return Promise.resolve(); }
-	ensureReady() { return Promise.resolve(true); }
-	consumeTurnMetadata() {
-		return {
-			userMessageId: undefined,
-			assistantMessageId: undefined,
-			wasSent: false,
-			planCompleted: false,
-		};
-	}
-	
-	setApprovalCallback() {}
-	setApprovalDismisser() {}
-	setAskUserQuestionCallback() {}
-	setExitPlanModeCallback() {}
-	setPermissionModeSyncCallback() {}
-	setSubagentHookProvider() {}
-	setAutoTurnCallback() {}
-	
-	buildSessionUpdates() {
-		return {
-			created: [],
-			resumed: [],
-			invalidated: [],
-		};
-	}
-	
-	resolveSessionIdForFork() {
-		return null;
+	/**
+	 * 恢复历史对话时重新绑定 Wiki 文件夹，/ask 可以直接使用
+	 */
+	setFolderPath(folderPath: string | null): void {
+		this.currentFolderPath = folderPath;
 	}
 	
-	async rewind() {
-		throw new Error('Rewind not supported');
+	getSessionId(): string | null {
+		return this.currentFolderPath;
 	}
 }
@@ -0,0 +1,115 @@
+/**
+ * Friday Runtime Base
+ * Shared plumbing for the Friday chat runtimes (Wiki / Assistant):
+ * turn preparation, cancellation and the ChatRuntime interface methods
+ * Friday does not use.
+ */
+
+import type { ChatRuntime, StreamChunk, PreparedChatTurn, ChatTurnRequest } from './core/runtime/ChatRuntime';
+import type { RuntimeCapabilities } from './core/runtime/types';
+import type { ChatHistoryMessage } from './ChatHistory';
+import type FridayPlugin from '../main';
+
+export abstract class FridayRuntimeBase implements ChatRuntime {
+	abstract readonly providerId: string;
+
+	/** 当前轮次的取消控制器，cancel() 时中断进行中的 LLM 请求 */
+	protected abortController: AbortController | null = null;
+
+	constructor(protected plugin: FridayPlugin) {}
+
+	protected t(key: string, params?: Record<string, any>): string {
+		return this.plugin.i18n.t(`chat.${key}`, params);
+	}
+
+	abstract query(turn: PreparedChatTurn, conversationHistory?: ChatHistoryMessage[]): AsyncGenerator<StreamChunk>;
+
+	abstract getCapabilities(): RuntimeCapabilities;
+
+	prepareTurn(request: ChatTurnRequest): PreparedChatTurn {
+		return {
+			persistedContent: request.text,
+			request,
+			isCompact: false,
+		};
+	}
+
+	/**
+	 * 停止当前轮次：中断进行中的 LLM 请求，已输出的内容保留
+	 */
+	cancel(): void {
+		this.abortController?.abort();
+	}
+
+	protected isCancelled(): boolean {
+		return !!this.abortController?.signal.aborted;
+	}
+
+	/**
+	 * 绑定的 Wiki 文件夹，随对话历史一起保存；只有 Wiki 模式绑定文件夹
+	 */
+	getFolderPath(): string | null {
+		return null;
+	}
+
+	setFolderPath(_folderPath: string | null): void {}
+
+	resetSession(): void {}
+
+	getSessionId(): string | null {
+		return null;
+	}
+
+	isReady(): boolean {
+		return true;
+	}
+
+	cleanup(): void {
+		this.cancel();
+	}
+
+	consumeSessionInvalidation(): boolean {
+		return false;
+	}
+
+	onReadyStateChange() {
+		return () => {};
+	}
+
+	setResumeCheckpoint() {}
+	syncConversationState() {}
+	reloadMcpServers() { return Promise.resolve(); }
+	ensureReady() { return Promise.resolve(true); }
+	consumeTurnMetadata() {
+		return {
+			userMessageId: undefined,
+			assistantMessageId: undefined,
+			wasSent: false,
+			planCompleted: false,
+		};
+	}
+
+	setApprovalCallback() {}
+	setApprovalDismisser() {}
+	setAskUserQuestionCallback() {}
+	setExitPlanModeCallback() {}
+	setPermissionModeSyncCallback() {}
+	setSubagentHookProvider() {}
+	setAutoTurnCallback() {}
+
+	buildSessionUpdates() {
+		return {
+			created: [],
+			resumed: [],
+			invalidated: [],
+		};
+	}
+
+	resolveSessionIdForFork() {
+		return null;
+	}
+
+	async rewind() {
+		throw new Error('Rewind not supported');
+	}
+}
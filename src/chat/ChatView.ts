@@ -5,13 +5,27 @@
  */
 
 import type { WorkspaceLeaf, TFolder } from 'obsidian';
-import { ItemView, MarkdownRenderer, Notice, setIcon } from 'obsidian';
-import { FridayWikiRuntime } from './ChatRuntime';
+import { ItemView, Keymap, MarkdownRenderer, MarkdownView, Menu, Notice, setIcon } from 'obsidian';
+import type { FridayRuntimeBase } from './ChatRuntimeBase';
+import { CHAT_MODES, DEFAULT_CHAT_MODE } from './ChatModes';
+import type { ChatMode, ChatModeDefinition } from './ChatModes';
 import type FridayPlugin from '../main';
 import { VIEW_TYPE_FRIDAY_CHAT } from '../main';
 import { CommandPicker } from './features/input/CommandPicker';
 import { FolderPicker } from './features/input/FolderPicker';
+import { ContextPicker } from './features/input/ContextPicker';
+import type { ContextPickerItem } from './features/input/ContextPicker';
 import type { SlashCommand } from './ChatCommands';
+import { ChatHistoryStore } from './ChatHistory';
+import type { ChatHistoryMessage, ConversationSummary } from './ChatHistory';
+import { annotateAnswer, parseCitationTargets } from '../services/wiki/citations';
+import type { WikiSource } from '../services/wiki/citations';
+import { attachmentKey, attachmentLabel, canAttach, parseNoteMentions } from './ChatContext';
+import type { AttachmentCapabilities, ContextAttachment, ContextAttachmentType } from './ChatContext';
+import { LLMClient } from '../services/llm';
+import { applyNoteEdit, toEditRecord } from './NoteEdits';
+import type { NoteEditProposal, NoteEditRecord, NoteEditStatus } from './NoteEdits';
+import type { DiffLine } from './core/types/diff';
 
 export { VIEW_TYPE_FRIDAY_CHAT };
 
@@ -21,11 +35,24 @@ const TOOL_ICONS: Record<string, string> = {
 	wiki_query:   'search',
 	wiki_publish: 'upload',
 	wiki_save:    'save',
+	context_query: 'file-search',
+	context_read:  'file-search',
+	note_edit:     'file-pen',
 };
 function getToolIcon(name: string): string {
 	return TOOL_ICONS[name] ?? 'wrench';
 }
 
+// ─── Context chip icons by attachment type ────────────────────────────────────
+const ATTACHMENT_ICONS: Record<ContextAttachmentType, string> = {
+	note:      'file-text',
+	selection: 'text-cursor-input',
+	tag:       'hash',
+};
+
+/** Unchanged lines shown around each change in a note edit diff */
+const DIFF_CONTEXT_LINES = 3;
+
 // ─── Tool call DOM refs ───────────────────────────────────────────────────────
 interface ToolBlock {
 	toolEl:    HTMLElement;
@@ -40,7 +67,9 @@ interface ToolBlock {
 
 export class ChatView extends ItemView {
 	private plugin: FridayPlugin;
-	private runtime: FridayWikiRuntime | null = null;
+	/** One runtime per chat mode, created on open; switching keeps each runtime's state */
+	private runtimes = new Map<ChatMode, FridayRuntimeBase>();
+	private mode: ChatMode = DEFAULT_CHAT_MODE;
 
 	// DOM refs
 	private messagesEl:      HTMLElement | null = null;
@@ -49,31 +78,59 @@ export class ChatView extends ItemView {
 	private inputWrapperEl:  HTMLElement | null = null;
 	private sendBtn:         HTMLButtonElement | null = null;
 	private scrollBtn:       HTMLElement | null = null;
+	private historyPanelEl:  HTMLElement | null = null;
+	private chipsEl:         HTMLElement | null = null;
+	private modeButtons = new Map<ChatMode, HTMLElement>();
+	private modelSelectEl:   HTMLSelectElement | null = null;
 
 	// State
-	private conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+	private conversationHistory: ChatHistoryMessage[] = [];
+	private historyStore: ChatHistoryStore;
+	/** Id of the saved conversation, created on the first message */
+	private conversationId: string | null = null;
 	private isStreaming = false;
+	/** Set when the user presses Stop during the current turn */
+	private stopRequested = false;
 	/** Tool blocks keyed by tool-call id */
 	private toolBlocks = new Map<string, ToolBlock>();
+	/** Context chips; they stay attached for follow-up questions until removed */
+	private attachments: ContextAttachment[] = [];
+	/** Provider whose models fill the model picker */
+	private modelsLoadedFor: string | null = null;
 
 	// Pickers
 	private commandPicker: CommandPicker | null = null;
 	private folderPicker:  FolderPicker | null = null;
+	private contextPicker: ContextPicker | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: FridayPlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.historyStore = new ChatHistoryStore(plugin);
 	}
 
 	getViewType():   string { return VIEW_TYPE_FRIDAY_CHAT; }
 	getDisplayText(): string { return this.plugin.i18n.t('chat.title'); }
 	getIcon():       string { return 'message-square'; }
 
+	private get runtime(): FridayRuntimeBase | null {
+		return this.runtimes.get(this.mode) ?? null;
+	}
+
+	private get modeDefinition(): ChatModeDefinition {
+		return CHAT_MODES.find(def => def.id === this.mode) ?? CHAT_MODES[0];
+	}
+
 	async onOpen(): Promise<void> {
 		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 		container.addClass('friday-chat-view');
-		this.runtime = new FridayWikiRuntime(this.plugin);
+		for (const def of CHAT_MODES) {
+			this.runtimes.set(def.id, def.create(this.plugin));
+		}
+		this.mode = this.runtimes.has(this.plugin.settings.aiChatMode)
+			? this.plugin.settings.aiChatMode
+			: DEFAULT_CHAT_MODE;
 		this.buildHeader(container);
 
 		if (!this.plugin.settings.aiProviderType) {
@@ -82,11 +139,19 @@ export class ChatView extends ItemView {
 
 		this.buildMessagesArea(container);
 		this.buildInputArea(container);
+		this.applyMode();
+
+		// Close the history panel when clicking anywhere outside it
+		this.registerDomEvent(document, 'click', () => this.closeHistoryPanel());
 	}
 
 	async onClose(): Promise<void> {
-		this.runtime?.cleanup();
+		for (const runtime of this.runtimes.values()) {
+			runtime.cleanup();
+		}
+		this.runtimes.clear();
 		this.destroyPickers();
+		this.closeHistoryPanel();
 	}
 
 	// ─────────────────────────────────────────
@@ -104,8 +169,30 @@ export class ChatView extends ItemView {
 		});
 		titleContainer.createSpan({ cls: 'friday-chat-title', text: t('title') });
 
+		const modeSwitchEl = headerEl.createDiv({ cls: 'friday-chat-mode-switch' });
+		for (const def of CHAT_MODES) {
+			const btn = modeSwitchEl.createDiv({
+				cls: 'friday-chat-mode-btn',
+				attr: { role: 'button', 'aria-label': t(def.labelKey) },
+			});
+			setIcon(btn.createSpan({ cls: 'friday-chat-mode-icon' }), def.icon);
+			btn.createSpan({ text: t(def.labelKey) });
+			btn.addEventListener('click', () => this.switchMode(def.id));
+			this.modeButtons.set(def.id, btn);
+		}
+
 		const actionsEl = headerEl.createDiv({ cls: 'friday-chat-actions' });
 
+		const historyBtn = actionsEl.createDiv({
+			cls: 'friday-chat-icon-btn',
+			attr: { title: t('history'), 'aria-label': t('history') },
+		});
+		setIcon(historyBtn, 'history');
+		historyBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.toggleHistoryPanel(headerEl);
+		});
+
 		const newBtn = actionsEl.createDiv({
 			cls: 'friday-chat-icon-btn',
 			attr: { title: t('new_conversation'), 'aria-label': t('new_conversation') },
@@ -159,6 +246,7 @@ export class ChatView extends ItemView {
 		this.scrollBtn.addEventListener('click', () => this.scrollToBottom());
 
 		this.messagesEl.addEventListener('scroll', () => this.updateScrollBtn());
+		this.registerInternalLinks(this.messagesEl);
 
 		this.appendWelcomeMessage();
 	}
@@ -172,6 +260,9 @@ export class ChatView extends ItemView {
 		const inputContainerEl = container.createDiv({ cls: 'friday-chat-input-container' });
 		this.inputWrapperEl = inputContainerEl.createDiv({ cls: 'friday-chat-input-wrapper' });
 
+		this.chipsEl = this.inputWrapperEl.createDiv({ cls: 'friday-chat-context-chips' });
+		this.renderChips();
+
 		this.inputEl = this.inputWrapperEl.createEl('textarea', {
 			cls: 'friday-chat-input',
 			attr: {
@@ -181,10 +272,28 @@ export class ChatView extends ItemView {
 		});
 
 		const toolbar = this.inputWrapperEl.createDiv({ cls: 'friday-chat-input-toolbar' });
-		toolbar.createSpan({ cls: 'friday-chat-input-hint', text: t('input_hint') });
+		const toolsEl = toolbar.createDiv({ cls: 'friday-chat-input-tools' });
+		if (this.acceptsAnyAttachment()) {
+			const attachBtn = toolsEl.createDiv({
+				cls: 'friday-chat-icon-btn',
+				attr: { title: t('attach'), 'aria-label': t('attach') },
+			});
+			setIcon(attachBtn, 'paperclip');
+			attachBtn.addEventListener('click', (e) => this.openAttachMenu(e));
+		}
+		this.modelSelectEl = toolsEl.createEl('select', {
+			cls: 'dropdown friday-chat-model-select',
+			attr: { title: t('model_picker'), 'aria-label': t('model_picker') },
+		});
+		this.modelSelectEl.addEventListener('change', () => this.handleModelChange());
+		toolsEl.createSpan({ cls: 'friday-chat-input-hint', text: t('input_hint') });
 		this.sendBtn = toolbar.createEl('button', { cls: 'friday-chat-send-btn', text: t('send') });
 
-		this.sendBtn.addEventListener('click', () => this.handleSend());
+		// Send turns into Stop while a response is streaming
+		this.sendBtn.addEventListener('click', () => {
+			if (this.isStreaming) this.handleStop();
+			else this.handleSend();
+		});
 		this.inputEl.addEventListener('keydown', (e) => this.handleInputKeydown(e));
 		this.inputEl.addEventListener('input', () => {
 			this.handleInputChange();
@@ -201,6 +310,10 @@ export class ChatView extends ItemView {
 		const t = (k: string) => this.plugin.i18n.t(`chat.${k}`);
 		const el = this.messagesEl.createDiv({ cls: 'friday-chat-welcome' });
 		el.createDiv({ cls: 'friday-chat-welcome-greeting', text: t('welcome_greeting') });
+		if (!this.modeDefinition.commands) {
+			el.createDiv({ cls: 'friday-chat-welcome-hint', text: t('welcome_hint_assistant') });
+			return;
+		}
 		el.createDiv({ cls: 'friday-chat-welcome-hint', text: t('welcome_hint') });
 		const cmds = el.createDiv({ cls: 'friday-chat-welcome-commands' });
 		const items: [string, string][] = [
@@ -221,8 +334,8 @@ export class ChatView extends ItemView {
 	// ─────────────────────────────────────────
 
 	private handleInputKeydown(e: KeyboardEvent): void {
-		if (this.commandPicker || this.folderPicker) {
-			const picker = this.commandPicker ?? this.folderPicker!;
+		if (this.commandPicker || this.folderPicker || this.contextPicker) {
+			const picker = this.commandPicker ?? this.folderPicker ?? this.contextPicker!;
 			if (e.key === 'ArrowUp')   { e.preventDefault(); picker.selectPrevious(); return; }
 			if (e.key === 'ArrowDown') { e.preventDefault(); picker.selectNext(); return; }
 			if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); picker.confirm(); return; }
@@ -241,11 +354,18 @@ export class ChatView extends ItemView {
 		const cursorPos = this.inputEl.selectionStart ?? 0;
 		const beforeCursor = text.substring(0, cursorPos);
 
+		const commands = this.modeDefinition.commands;
 		const slashMatch = beforeCursor.match(/\/(\w*)$/);
-		if (slashMatch) { this.showCommandPicker(slashMatch[1]); return; }
+		if (slashMatch && commands) { this.showCommandPicker(slashMatch[1]); return; }
+
+		const noteMatch = beforeCursor.match(/@\[\[([^\]]*)$/);
+		if (noteMatch && this.canAttach('note')) { this.showContextPicker('note', noteMatch[1]); return; }
+
+		const tagMatch = beforeCursor.match(/@#([^\s#]*)$/);
+		if (tagMatch && this.canAttach('tag')) { this.showContextPicker('tag', tagMatch[1]); return; }
 
 		const atMatch = beforeCursor.match(/@([\w/-]*)$/);
-		if (atMatch) { this.showFolderPicker(atMatch[1]); return; }
+		if (atMatch && commands) { this.showFolderPicker(atMatch[1]); return; }
 
 		this.destroyPickers();
 	}
@@ -282,6 +402,18 @@ export class ChatView extends ItemView {
 		this.folderPicker.filter(query);
 	}
 
+	private showContextPicker(type: ContextPickerItem['type'], query: string): void {
+		if (!this.inputWrapperEl) return;
+		this.destroyPickers();
+		this.contextPicker = new ContextPicker(this.inputWrapperEl, {
+			app: this.plugin.app,
+			type,
+			onSelect: (item: ContextPickerItem) => { this.insertContextItem(item); this.destroyPickers(); },
+			onCancel: () => this.destroyPickers(),
+		});
+		this.contextPicker.filter(query);
+	}
+
 	private insertCommand(command: SlashCommand): void {
 		if (!this.inputEl) return;
 		const text = this.inputEl.value;
@@ -304,9 +436,161 @@ export class ChatView extends ItemView {
 		this.resizeInput();
 	}
 
+	/** Replaces the typed `@[[query` / `@#query` with a context chip. */
+	private insertContextItem(item: ContextPickerItem): void {
+		if (!this.inputEl) return;
+		const text = this.inputEl.value;
+		const pos  = this.inputEl.selectionStart ?? 0;
+		const newBefore = text.substring(0, pos).replace(/@(\[\[[^\]]*|#[^\s#]*)$/, '');
+		this.inputEl.value = newBefore + text.substring(pos);
+		this.inputEl.selectionStart = this.inputEl.selectionEnd = newBefore.length;
+		this.inputEl.focus();
+		this.resizeInput();
+
+		this.addAttachment(item.type === 'note'
+			? { type: 'note', path: item.file.path }
+			: { type: 'tag', tag: item.tag });
+	}
+
 	private destroyPickers(): void {
 		this.commandPicker?.destroy(); this.commandPicker = null;
 		this.folderPicker?.destroy();  this.folderPicker = null;
+		this.contextPicker?.destroy(); this.contextPicker = null;
+	}
+
+	// ─────────────────────────────────────────
+	// Context attachments
+	// ─────────────────────────────────────────
+
+	private getAttachmentCapabilities(): AttachmentCapabilities {
+		return (this.runtime?.getCapabilities() ?? {}) as AttachmentCapabilities;
+	}
+
+	private canAttach(type: ContextAttachmentType): boolean {
+		return canAttach(this.getAttachmentCapabilities(), type);
+	}
+
+	private acceptsAnyAttachment(): boolean {
+		return (Object.keys(ATTACHMENT_ICONS) as ContextAttachmentType[]).some(type => this.canAttach(type));
+	}
+
+	private addAttachment(attachment: ContextAttachment): void {
+		if (!this.canAttach(attachment.type)) return;
+		const key = attachmentKey(attachment);
+		if (this.attachments.some(a => attachmentKey(a) === key)) return;
+		this.attachments.push(attachment);
+		this.renderChips();
+	}
+
+	private removeAttachment(attachment: ContextAttachment): void {
+		const key = attachmentKey(attachment);
+		this.attachments = this.attachments.filter(a => attachmentKey(a) !== key);
+		this.renderChips();
+	}
+
+	private renderChips(): void {
+		if (!this.chipsEl) return;
+		this.chipsEl.empty();
+		this.chipsEl.toggle(this.attachments.length > 0);
+		for (const attachment of this.attachments) {
+			const chipEl = this.createChip(this.chipsEl, attachment);
+			const removeBtn = chipEl.createSpan({
+				cls: 'friday-chat-context-chip-remove',
+				attr: { 'aria-label': this.plugin.i18n.t('chat.attach_remove') },
+			});
+			setIcon(removeBtn, 'x');
+			removeBtn.addEventListener('click', () => this.removeAttachment(attachment));
+		}
+	}
+
+	private createChip(parentEl: HTMLElement, attachment: ContextAttachment): HTMLElement {
+		const title = attachment.type === 'tag' ? `#${attachment.tag}` : attachment.path;
+		const chipEl = parentEl.createDiv({ cls: 'friday-chat-context-chip', attr: { title } });
+		setIcon(chipEl.createSpan({ cls: 'friday-chat-context-chip-icon' }), ATTACHMENT_ICONS[attachment.type]);
+		chipEl.createSpan({ cls: 'friday-chat-context-chip-label', text: attachmentLabel(attachment) });
+		return chipEl;
+	}
+
+	private openAttachMenu(evt: MouseEvent): void {
+		const t = (k: string) => this.plugin.i18n.t(`chat.${k}`);
+		const menu = new Menu();
+
+		if (this.canAttach('note')) {
+			const file = this.plugin.app.workspace.getActiveFile();
+			const note = file?.extension === 'md' ? file : null;
+			menu.addItem(item => item
+				.setTitle(note
+					? this.plugin.i18n.t('chat.attach_current_note_named', { name: note.basename })
+					: t('attach_current_note'))
+				.setIcon('file-text')
+				.setDisabled(!note)
+				.onClick(() => { if (note) this.addAttachment({ type: 'note', path: note.path }); }));
+		}
+		if (this.canAttach('selection')) {
+			const selection = this.getEditorSelection();
+			menu.addItem(item => item
+				.setTitle(t('attach_selection'))
+				.setIcon('text-cursor-input')
+				.setDisabled(!selection)
+				.onClick(() => { if (selection) this.addAttachment(selection); }));
+		}
+		if (this.canAttach('note')) {
+			menu.addItem(item => item
+				.setTitle(t('attach_note'))
+				.setIcon('files')
+				.onClick(() => this.startMention('@[[')));
+		}
+		if (this.canAttach('tag')) {
+			menu.addItem(item => item
+				.setTitle(t('attach_tag'))
+				.setIcon('hash')
+				.onClick(() => this.startMention('@#')));
+		}
+
+		menu.showAtMouseEvent(evt);
+	}
+
+	/** Types a mention trigger at the cursor so the note / tag picker opens. */
+	private startMention(trigger: string): void {
+		if (!this.inputEl) return;
+		const text = this.inputEl.value;
+		const pos  = this.inputEl.selectionStart ?? text.length;
+		const before = text.substring(0, pos);
+		const newBefore = before + (before && !/\s$/.test(before) ? ' ' : '') + trigger;
+		this.inputEl.value = newBefore + text.substring(pos);
+		this.inputEl.selectionStart = this.inputEl.selectionEnd = newBefore.length;
+		this.inputEl.focus();
+		this.handleInputChange();
+	}
+
+	/** Selection in the editor of the most recently active note (kept while the chat has focus). */
+	private getEditorSelection(): ContextAttachment | null {
+		const file = this.plugin.app.workspace.getActiveFile();
+		if (!file) return null;
+
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (!(view instanceof MarkdownView) || view.file?.path !== file.path) continue;
+			const text = view.editor.getSelection();
+			if (!text.trim()) continue;
+			return {
+				type: 'selection',
+				path: file.path,
+				text,
+				fromLine: view.editor.getCursor('from').line,
+				toLine: view.editor.getCursor('to').line,
+			};
+		}
+		return null;
+	}
+
+	/** Notes typed out as `@[[Note]]` become chips when the message is sent. */
+	private attachMentionedNotes(text: string): void {
+		if (!this.canAttach('note')) return;
+		for (const link of parseNoteMentions(text)) {
+			const file = this.plugin.app.metadataCache.getFirstLinkpathDest(link, '');
+			if (file) this.addAttachment({ type: 'note', path: file.path });
+		}
 	}
 
 	// ─────────────────────────────────────────
@@ -319,17 +603,25 @@ export class ChatView extends ItemView {
 		if (!text) return;
 
 		this.destroyPickers();
+		this.attachMentionedNotes(text);
+		const attachments = [...this.attachments];
 		this.inputEl.value = '';
 		this.resizeInput();
 		this.setStreaming(true);
+		this.stopRequested = false;
 		this.toolBlocks.clear();
 
-		this.appendUserMessage(text);
-		this.conversationHistory.push({ role: 'user', content: text });
+		this.appendUserMessage(text, attachments);
+		this.conversationHistory.push({
+			role: 'user',
+			content: text,
+			...(attachments.length > 0 ? { attachments } : {}),
+		});
 
 		const assistantEl = this.messagesEl.createDiv({ cls: 'friday-chat-message assistant' });
 		const contentEl   = assistantEl.createDiv({ cls: 'friday-chat-message-content' });
 		let   assistantText = '';
+		const edits: NoteEditRecord[] = [];
 
 		// Thinking indicator (shown before first chunk)
 		const thinkingEl = contentEl.createDiv({ cls: 'friday-thinking' });
@@ -350,7 +642,7 @@ export class ChatView extends ItemView {
 		};
 
 		try {
-			const turn = this.runtime.prepareTurn({ text });
+			const turn = this.runtime.prepareTurn({ text, attachments });
 
 			for await (const chunk of this.runtime.query(turn, this.conversationHistory)) {
 				thinkingEl.remove(); // no-op after first call
@@ -373,6 +665,19 @@ export class ChatView extends ItemView {
 					this.appendToolDelta(c.id as string, delta);
 					this.scrollToBottom();
 
+				} else if (c.type === 'note_edit') {
+					const proposal = c.proposal as NoteEditProposal;
+					const record = toEditRecord(proposal);
+					edits.push(record);
+					this.renderEditProposal(c.id as string, proposal, record);
+					this.scrollToBottom();
+
+				} else if (c.type === 'sources') {
+					if (mdRenderTimer) clearTimeout(mdRenderTimer);
+					assistantText = this.annotateWithSources(assistantText, c.sources as WikiSource[]);
+					await this.renderMarkdown(contentEl, assistantText);
+					this.scrollToBottom();
+
 				} else if (c.type === 'tool_call_result') {
 					const result  = (c.result as string) ?? '';
 					const isError = !!(c.isError as boolean);
@@ -388,18 +693,33 @@ export class ChatView extends ItemView {
 				await this.renderMarkdown(contentEl, assistantText);
 			}
 
-			if (assistantText.trim()) {
-				this.conversationHistory.push({ role: 'assistant', content: assistantText.trim() });
-			}
-
 		} catch (error) {
 			if (mdRenderTimer) clearTimeout(mdRenderTimer);
 			thinkingEl.remove();
-			contentEl.empty();
-			contentEl.createSpan({ text: `Error: ${(error as Error).message}`, cls: 'friday-error' });
-			console.error('[Friday Chat] Query error:', error);
+			if (!this.stopRequested) {
+				contentEl.empty();
+				contentEl.createSpan({ text: `Error: ${(error as Error).message}`, cls: 'friday-error' });
+				console.error('[Friday Chat] Query error:', error);
+			} else if (assistantText.trim()) {
+				await this.renderMarkdown(contentEl, assistantText);
+			}
+		}
+
+		// A stopped turn keeps its partial answer, marked as interrupted
+		const interrupted = this.stopRequested;
+		if (interrupted) {
+			this.appendInterruptedMarker(assistantEl);
+		}
+		if ((assistantText.trim() || edits.length > 0) && (interrupted || !contentEl.querySelector('.friday-error'))) {
+			this.conversationHistory.push({
+				role: 'assistant',
+				content: assistantText.trim(),
+				...(interrupted ? { interrupted: true } : {}),
+				...(edits.length > 0 ? { edits } : {}),
+			});
 		}
 
+		await this.saveConversation();
 		this.setStreaming(false);
 		this.scrollToBottom();
 	}
@@ -582,6 +902,103 @@ export class ChatView extends ItemView {
 		this.toolBlocks.delete(id);
 	}
 
+	// ─────────────────────────────────────────
+	// Note edits
+	// ─────────────────────────────────────────
+
+	/**
+	 * Shows a proposed note change inside its tool block: the diff, then
+	 * Apply / Reject. Only an applied change touches the vault.
+	 */
+	private renderEditProposal(id: string, proposal: NoteEditProposal, record: NoteEditRecord): void {
+		const block = this.toolBlocks.get(id);
+		const contentEl = block?.linesEl.parentElement;
+		if (!block || !contentEl) return;
+		const t = (k: string, params?: Record<string, any>) => this.plugin.i18n.t(`chat.${k}`, params);
+
+		this.renderDiffLines(contentEl.createDiv({ cls: 'friday-edit-diff' }), proposal.diff.diffLines);
+
+		const actionsEl = contentEl.createDiv({ cls: 'friday-edit-actions' });
+		const applyBtn  = actionsEl.createEl('button', { cls: 'mod-cta', text: t('edit_apply') });
+		const rejectBtn = actionsEl.createEl('button', { text: t('edit_reject') });
+
+		applyBtn.addEventListener('click', async () => {
+			applyBtn.disabled = rejectBtn.disabled = true;
+			try {
+				const result = await applyNoteEdit(this.plugin.app, proposal);
+				if (result === 'applied') {
+					this.setEditStatus(actionsEl, record, 'applied');
+					return;
+				}
+				new Notice(t(`edit_apply_${result}`, { path: proposal.path }));
+			} catch (error) {
+				new Notice(t('edit_apply_failed', { error: (error as Error).message }));
+			}
+			applyBtn.disabled = rejectBtn.disabled = false;
+		});
+		rejectBtn.addEventListener('click', () => this.setEditStatus(actionsEl, record, 'rejected'));
+	}
+
+	/** Replaces the buttons with the outcome and saves it with the conversation. */
+	private setEditStatus(actionsEl: HTMLElement, record: NoteEditRecord, status: NoteEditStatus): void {
+		record.status = status;
+		actionsEl.empty();
+		const statusEl = actionsEl.createSpan({
+			cls: `friday-edit-status is-${status}`,
+			text: this.plugin.i18n.t(`chat.edit_status_${status}`),
+		});
+		if (status === 'applied') {
+			statusEl.appendText(' ');
+			const linkEl = statusEl.createEl('a', { cls: 'internal-link', text: record.path });
+			linkEl.addEventListener('click', (evt) => {
+				evt.preventDefault();
+				void this.plugin.app.workspace.openLinkText(record.path, '', Keymap.isModEvent(evt));
+			});
+		}
+		void this.saveConversation();
+	}
+
+	/** Unified diff with long unchanged stretches collapsed. */
+	private renderDiffLines(el: HTMLElement, lines: DiffLine[]): void {
+		const changed = lines.map(line => line.type !== 'equal');
+		const nearChange = (i: number) => changed
+			.slice(Math.max(0, i - DIFF_CONTEXT_LINES), i + DIFF_CONTEXT_LINES + 1)
+			.some(Boolean);
+
+		let hidden = 0;
+		const flushHidden = () => {
+			if (hidden === 0) return;
+			el.createDiv({
+				cls: 'friday-edit-diff-line is-collapsed',
+				text: this.plugin.i18n.t('chat.edit_unchanged_lines', { count: hidden }),
+			});
+			hidden = 0;
+		};
+
+		lines.forEach((line, i) => {
+			if (line.type === 'equal' && !nearChange(i)) {
+				hidden++;
+				return;
+			}
+			flushHidden();
+			const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+			el.createDiv({ cls: `friday-edit-diff-line is-${line.type}`, text: `${prefix} ${line.text}` });
+		});
+		flushHidden();
+	}
+
+	/** Collapsed tool block for a change in a resumed conversation. */
+	private appendEditRecord(containerEl: HTMLElement, record: NoteEditRecord, id: string): void {
+		const t = (k: string, params?: Record<string, any>) => this.plugin.i18n.t(`chat.${k}`, params);
+		this.beginToolBlock(containerEl, id, 'note_edit');
+		this.finalizeToolBlock(id, t('edit_record', {
+			path: record.path,
+			added: record.stats.added,
+			removed: record.stats.removed,
+			status: t(`edit_status_${record.status}`),
+		}), false);
+	}
+
 	/** Sets status element to CSS-animated spinner (loader-2 + spin class). */
 	private setStatusSpinner(statusEl: HTMLElement): void {
 		statusEl.empty();
@@ -593,11 +1010,23 @@ export class ChatView extends ItemView {
 	// Message rendering
 	// ─────────────────────────────────────────
 
-	private appendUserMessage(text: string): void {
+	private appendUserMessage(text: string, attachments: ContextAttachment[] = []): void {
 		if (!this.messagesEl) return;
 		const messageEl = this.messagesEl.createDiv({ cls: 'friday-chat-message user' });
 		messageEl.createDiv({ cls: 'friday-chat-message-content', text });
 
+		if (attachments.length > 0) {
+			const contextEl = messageEl.createDiv({ cls: 'friday-chat-message-context' });
+			for (const attachment of attachments) {
+				const chipEl = this.createChip(contextEl, attachment);
+				if (attachment.type === 'tag') continue;
+				chipEl.addClass('is-clickable');
+				chipEl.addEventListener('click', (evt) => {
+					void this.plugin.app.workspace.openLinkText(attachment.path, '', Keymap.isModEvent(evt));
+				});
+			}
+		}
+
 		const actions = messageEl.createDiv({ cls: 'friday-chat-user-actions' });
 		const copyBtn = actions.createSpan({ attr: { title: 'Copy' } });
 		setIcon(copyBtn, 'copy');
@@ -630,6 +1059,7 @@ export class ChatView extends ItemView {
 		// Render Markdown into a fresh container placed after any tool blocks
 		const mdEl = el.createDiv({ cls: 'friday-md-content' });
 		await MarkdownRenderer.render(this.plugin.app, content, mdEl, '', this);
+		this.linkCitations(mdEl, content);
 	}
 
 	/** Lightweight streaming-text render — keeps tool blocks, shows plain text immediately. */
@@ -657,6 +1087,88 @@ export class ChatView extends ItemView {
 		});
 	}
 
+	// ─────────────────────────────────────────
+	// Citations & internal links
+	// ─────────────────────────────────────────
+
+	private annotateWithSources(answer: string, sources: WikiSource[]): string {
+		return annotateAnswer(answer, sources, {
+			sources: this.plugin.i18n.t('chat.sources'),
+			wiki:    this.plugin.i18n.t('chat.source_wiki'),
+			note:    this.plugin.i18n.t('chat.source_note'),
+		});
+	}
+
+	/**
+	 * Turn `[n]` markers into internal links to the n-th entry of the answer's
+	 * sources block. Works on resumed conversations too, since the block is
+	 * part of the stored answer.
+	 */
+	private linkCitations(mdEl: HTMLElement, content: string): void {
+		const targets = parseCitationTargets(content);
+		if (targets.size === 0) return;
+
+		const walker = document.createTreeWalker(mdEl, NodeFilter.SHOW_TEXT);
+		const textNodes: Text[] = [];
+		while (walker.nextNode()) {
+			const node = walker.currentNode as Text;
+			if (/\[\d+\]/.test(node.data) && !node.parentElement?.closest('a, code, pre')) {
+				textNodes.push(node);
+			}
+		}
+
+		for (const node of textNodes) {
+			const fragment = document.createDocumentFragment();
+			let last = 0;
+			for (const match of node.data.matchAll(/\[(\d+)\]/g)) {
+				const target = targets.get(Number(match[1]));
+				if (!target) continue;
+				fragment.append(node.data.slice(last, match.index));
+				fragment.append(createEl('a', {
+					cls: 'internal-link friday-citation',
+					text: match[0],
+					href: target,
+					attr: { 'data-href': target },
+				}));
+				last = (match.index ?? 0) + match[0].length;
+			}
+			if (last === 0) continue;
+			fragment.append(node.data.slice(last));
+			node.replaceWith(fragment);
+		}
+	}
+
+	/**
+	 * Internal links rendered in messages (sources block and `[n]` citations):
+	 * click opens the note at the linked heading, hover shows the page preview.
+	 */
+	private registerInternalLinks(container: HTMLElement): void {
+		const linkFrom = (evt: MouseEvent): HTMLAnchorElement | null =>
+			(evt.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a.internal-link') ?? null;
+
+		this.registerDomEvent(container, 'click', (evt) => {
+			const link = linkFrom(evt);
+			const linktext = link?.dataset.href;
+			if (!linktext) return;
+			evt.preventDefault();
+			void this.plugin.app.workspace.openLinkText(linktext, '', Keymap.isModEvent(evt));
+		});
+
+		this.registerDomEvent(container, 'mouseover', (evt) => {
+			const link = linkFrom(evt);
+			const linktext = link?.dataset.href;
+			if (!link || !linktext) return;
+			this.plugin.app.workspace.trigger('hover-link', {
+				event: evt,
+				source: VIEW_TYPE_FRIDAY_CHAT,
+				hoverParent: this,
+				targetEl: link,
+				linktext,
+				sourcePath: '',
+			});
+		});
+	}
+
 	// ─────────────────────────────────────────
 	// Scroll
 	// ─────────────────────────────────────────
@@ -680,25 +1192,313 @@ export class ChatView extends ItemView {
 	private setStreaming(active: boolean): void {
 		this.isStreaming = active;
 		if (this.sendBtn) {
-			this.sendBtn.disabled = active;
+			this.sendBtn.disabled = false;
+			this.sendBtn.toggleClass('is-stop', active);
 			this.sendBtn.textContent = active
-				? this.plugin.i18n.t('chat.sending')
+				? this.plugin.i18n.t('chat.stop')
 				: this.plugin.i18n.t('chat.send');
 		}
 		if (this.inputEl) this.inputEl.disabled = active;
 	}
 
+	/** Aborts the running ingest / answer; the partial output stays in the transcript. */
+	private handleStop(): void {
+		if (!this.isStreaming || this.stopRequested) return;
+		this.stopRequested = true;
+		if (this.sendBtn) {
+			this.sendBtn.disabled = true;
+			this.sendBtn.textContent = this.plugin.i18n.t('chat.stopping');
+		}
+		this.runtime?.cancel();
+	}
+
+	// ─────────────────────────────────────────
+	// Chat mode & model
+	// ─────────────────────────────────────────
+
+	/** Switches between the wiki and assistant runtimes; the conversation stays. */
+	private async switchMode(mode: ChatMode): Promise<void> {
+		if (mode === this.mode) return;
+		if (this.isStreaming) {
+			new Notice(this.plugin.i18n.t('chat.mode_switch_busy'));
+			return;
+		}
+		this.destroyPickers();
+		this.mode = mode;
+		this.applyMode();
+
+		// Refresh the welcome screen of an empty conversation
+		if (this.messagesEl && this.conversationHistory.length === 0) {
+			this.messagesEl.empty();
+			this.appendWelcomeMessage();
+		}
+
+		this.plugin.settings.aiChatMode = mode;
+		await this.plugin.saveSettings();
+	}
+
+	/** Updates the mode switch, placeholder and model picker for the current mode. */
+	private applyMode(): void {
+		const t = (k: string) => this.plugin.i18n.t(`chat.${k}`);
+		for (const [mode, btn] of this.modeButtons) {
+			btn.toggleClass('is-active', mode === this.mode);
+			btn.setAttribute('aria-pressed', String(mode === this.mode));
+		}
+		this.inputEl?.setAttribute('placeholder', t(this.modeDefinition.commands ? 'input_placeholder' : 'input_placeholder_assistant'));
+
+		const showModels = this.mode === 'assistant';
+		this.modelSelectEl?.toggle(showModels);
+		if (showModels) void this.loadModels();
+	}
+
+	/**
+	 * Fills the model picker with the provider's models; the selected model
+	 * is kept even when the provider does not list it.
+	 */
+	private async loadModels(): Promise<void> {
+		const select = this.modelSelectEl;
+		const client = LLMClient.fromSettings(this.plugin);
+		if (!select) return;
+		if (!client) {
+			select.toggle(false);
+			return;
+		}
+
+		const { aiProviderType, aiProviderBaseUrl, aiProviderModel } = this.plugin.settings;
+		const providerKey = `${aiProviderType}|${aiProviderBaseUrl}|${aiProviderModel}`;
+		if (this.modelsLoadedFor === providerKey) return;
+		this.modelsLoadedFor = providerKey;
+
+		const t = (k: string, params?: Record<string, any>) => this.plugin.i18n.t(`chat.${k}`, params);
+		let selected = this.plugin.settings.aiAssistantModel || '';
+		const renderOptions = (models: string[]) => {
+			select.empty();
+			select.createEl('option', { value: '', text: t('model_default', { model: client.model }) });
+			for (const model of models) {
+				if (model !== client.model) select.createEl('option', { value: model, text: model });
+			}
+			select.value = selected;
+		};
+
+		renderOptions(selected ? [selected] : []);
+		select.disabled = true;
+		select.title = t('models_loading');
+		try {
+			const models = await client.listModels();
+			// A model the provider no longer offers (e.g. after switching providers) falls back to the default
+			if (selected && !models.includes(selected)) {
+				selected = '';
+				this.plugin.settings.aiAssistantModel = '';
+				await this.plugin.saveSettings();
+			}
+			renderOptions(models);
+		} catch (error) {
+			// Provider without a model list: only the configured model is offered
+			console.warn('[Friday Chat] Failed to list models:', error);
+		} finally {
+			select.disabled = false;
+			select.title = t('model_picker');
+		}
+	}
+
+	private async handleModelChange(): Promise<void> {
+		if (!this.modelSelectEl) return;
+		this.plugin.settings.aiAssistantModel = this.modelSelectEl.value;
+		await this.plugin.saveSettings();
+	}
+
+	private appendInterruptedMarker(messageEl: HTMLElement): void {
+		const markerEl = messageEl.createDiv({ cls: 'friday-chat-interrupted' });
+		setIcon(markerEl.createSpan(), 'circle-slash');
+		markerEl.appendText(this.plugin.i18n.t('chat.interrupted'));
+	}
+
 	private startNewConversation(): void {
 		if (this.isStreaming) return;
+		this.closeHistoryPanel();
+		this.resetConversation();
+		this.inputEl?.focus();
+	}
+
+	/** Clears the messages in view so the next save starts a new conversation. */
+	private resetConversation(): void {
 		this.conversationHistory = [];
+		this.conversationId = null;
 		this.toolBlocks.clear();
+		this.attachments = [];
+		this.renderChips();
 		if (this.messagesEl) {
 			this.messagesEl.empty();
 			this.appendWelcomeMessage();
 		}
+	}
+
+	// ─────────────────────────────────────────
+	// Conversation history
+	// ─────────────────────────────────────────
+
+	/** Saves the current conversation, creating it on the first completed turn. */
+	private async saveConversation(): Promise<void> {
+		if (!this.runtime || this.conversationHistory.length === 0) return;
+		// Only the wiki runtime binds a folder; keep it while chatting in another mode
+		const folderPath = [...this.runtimes.values()]
+			.map(runtime => runtime.getFolderPath())
+			.find(path => path !== null) ?? null;
+
+		if (!this.conversationId) {
+			const first = this.conversationHistory[0].content;
+			this.conversationId = (await this.historyStore.create(first, folderPath)).id;
+		}
+		await this.historyStore.saveMessages(this.conversationId, this.conversationHistory, folderPath);
+	}
+
+	/** Restores a saved conversation, including the wiki folder it was bound to. */
+	private async resumeConversation(id: string): Promise<void> {
+		if (this.isStreaming || !this.messagesEl || !this.runtime) return;
+		const conversation = await this.historyStore.get(id);
+		if (!conversation) return;
+
+		this.closeHistoryPanel();
+		this.conversationId = conversation.id;
+		this.conversationHistory = [...conversation.messages];
+		this.toolBlocks.clear();
+		for (const runtime of this.runtimes.values()) {
+			runtime.setFolderPath(conversation.folderPath);
+		}
+		// Follow-ups keep using the context of the last question
+		const lastQuestion = [...conversation.messages].reverse().find(m => m.role === 'user');
+		this.attachments = [...(lastQuestion?.attachments ?? [])];
+		this.renderChips();
+
+		this.messagesEl.empty();
+		if (conversation.messages.length === 0) {
+			this.appendWelcomeMessage();
+		}
+		for (const message of conversation.messages) {
+			if (message.role === 'user') {
+				this.appendUserMessage(message.content, message.attachments);
+			} else {
+				const messageEl = this.messagesEl.createDiv({ cls: 'friday-chat-message assistant' });
+				const contentEl = messageEl.createDiv({ cls: 'friday-chat-message-content' });
+				message.edits?.forEach((record, i) => this.appendEditRecord(contentEl, record, `${conversation.id}-edit-${i}`));
+				await this.renderMarkdown(contentEl, message.content);
+				if (message.interrupted) this.appendInterruptedMarker(messageEl);
+			}
+		}
+		this.scrollToBottom();
 		this.inputEl?.focus();
 	}
 
+	private toggleHistoryPanel(headerEl: HTMLElement): void {
+		if (this.historyPanelEl) {
+			this.closeHistoryPanel();
+			return;
+		}
+
+		const t = (k: string) => this.plugin.i18n.t(`chat.${k}`);
+		const panel = headerEl.createDiv({ cls: 'friday-chat-history' });
+		this.historyPanelEl = panel;
+		panel.addEventListener('click', (e) => e.stopPropagation());
+
+		const searchEl = panel.createEl('input', {
+			cls: 'friday-chat-history-search',
+			attr: { type: 'search', placeholder: t('history_search') },
+		});
+		const listEl = panel.createDiv({ cls: 'friday-chat-history-list' });
+
+		const render = async () => {
+			const query = searchEl.value.trim().toLowerCase();
+			const conversations = (await this.historyStore.list()).filter(c =>
+				!query
+				|| c.title.toLowerCase().includes(query)
+				|| (c.folderPath ?? '').toLowerCase().includes(query)
+			);
+
+			listEl.empty();
+			if (conversations.length === 0) {
+				listEl.createDiv({ cls: 'friday-chat-history-empty', text: t('history_empty') });
+				return;
+			}
+			for (const conversation of conversations) {
+				this.renderHistoryItem(listEl, conversation, render);
+			}
+		};
+
+		searchEl.addEventListener('input', () => void render());
+
+		void render();
+		searchEl.focus();
+	}
+
+	private renderHistoryItem(
+		listEl: HTMLElement,
+		conversation: ConversationSummary,
+		refresh: () => Promise<void>
+	): void {
+		const t = (k: string) => this.plugin.i18n.t(`chat.${k}`);
+		const itemEl = listEl.createDiv({ cls: 'friday-chat-history-item' });
+		itemEl.toggleClass('is-active', conversation.id === this.conversationId);
+
+		const infoEl = itemEl.createDiv({ cls: 'friday-chat-history-info' });
+		const titleEl = infoEl.createDiv({ cls: 'friday-chat-history-title', text: conversation.title });
+		const meta = [
+			conversation.folderPath ? `@${conversation.folderPath}` : '',
+			new Date(conversation.updatedAt).toLocaleString(),
+		].filter(Boolean);
+		infoEl.createDiv({ cls: 'friday-chat-history-meta', text: meta.join(' · ') });
+		infoEl.addEventListener('click', () => void this.resumeConversation(conversation.id));
+
+		const renameBtn = itemEl.createDiv({
+			cls: 'friday-chat-icon-btn',
+			attr: { title: t('history_rename'), 'aria-label': t('history_rename') },
+		});
+		setIcon(renameBtn, 'pencil');
+		renameBtn.addEventListener('click', () => {
+			const inputEl = createEl('input', {
+				cls: 'friday-chat-history-rename',
+				attr: { type: 'text', value: conversation.title },
+			});
+			titleEl.replaceWith(inputEl);
+			inputEl.focus();
+			inputEl.select();
+
+			let done = false;
+			const finish = async (save: boolean) => {
+				if (done) return;
+				done = true;
+				if (save) await this.historyStore.rename(conversation.id, inputEl.value);
+				await refresh();
+			};
+			inputEl.addEventListener('click', (e) => e.stopPropagation());
+			inputEl.addEventListener('keydown', (e) => {
+				if (e.key === 'Enter')  { e.preventDefault(); void finish(true); }
+				if (e.key === 'Escape') { e.preventDefault(); void finish(false); }
+			});
+			inputEl.addEventListener('blur', () => void finish(true));
+		});
+
+		const deleteBtn = itemEl.createDiv({
+			cls: 'friday-chat-icon-btn',
+			attr: { title: t('history_delete'), 'aria-label': t('history_delete') },
+		});
+		setIcon(deleteBtn, 'trash-2');
+		deleteBtn.addEventListener('click', async () => {
+			const isActive = conversation.id === this.conversationId;
+			// The answer being streamed would save the conversation again
+			if (isActive && this.isStreaming) return;
+			await this.historyStore.delete(conversation.id);
+			if (isActive) {
+				this.resetConversation();
+			}
+			await refresh();
+		});
+	}
+
+	private closeHistoryPanel(): void {
+		this.historyPanelEl?.remove();
+		this.historyPanelEl = null;
+	}
+
 	private switchToManualMode(): void {
 		this.plugin.activateView();
 		new Notice(this.plugin.i18n.t('chat.switch_to_manual'));
@@ -0,0 +1,242 @@
+/**
+ * Friday Chat Note Edits
+ * The assistant proposes note changes as `<friday-edit>` blocks in its answer.
+ * Each block becomes a tool block showing the diff; nothing is written to the
+ * vault until the user applies it.
+ */
+
+import { normalizePath, TFile, type App } from 'obsidian';
+import { diff_match_patch, DIFF_DELETE, DIFF_INSERT } from 'diff-match-patch';
+import type { DiffLine, DiffStats } from './core/types/diff';
+import type { ToolDiffData } from './core/types/tools';
+import type { ContextDocument } from './ChatContext';
+
+/** `edit` replaces an attached note, `create` adds a new one */
+export type NoteEditAction = 'edit' | 'create';
+
+export interface NoteEditProposal {
+	action: NoteEditAction;
+	path: string;
+	/** Note content when the proposal was made; null for new notes */
+	original: string | null;
+	content: string;
+	diff: ToolDiffData;
+}
+
+export type NoteEditStatus = 'pending' | 'applied' | 'rejected';
+
+/** What is kept of a proposal in the chat history. */
+export interface NoteEditRecord {
+	action: NoteEditAction;
+	path: string;
+	stats: DiffStats;
+	status: NoteEditStatus;
+}
+
+/** Why a proposal could not be applied. */
+export type NoteEditApplyResult = 'applied' | 'changed' | 'missing' | 'exists';
+
+/** Appended to the assistant system prompt. */
+export const NOTE_EDIT_INSTRUCTIONS = [
+	'You can propose changes to the user\'s notes; the user reviews each change before it is applied.',
+	'To change a note provided below, write its complete new content inside',
+	'<friday-edit path="path/of/note.md">…</friday-edit>.',
+	'To create a note, use <friday-edit path="Folder/New note.md" action="create">…</friday-edit>.',
+	'Only edit notes provided in full, keep the parts you do not change exactly as they are,',
+	'and explain each change briefly outside the block.',
+].join(' ');
+
+const OPEN_TAG = '<friday-edit';
+const CLOSE_TAG = '</friday-edit>';
+
+// ─── Streaming parser ─────────────────────────────────────────────────────────
+
+export type EditStreamPiece =
+	| { type: 'text'; text: string }
+	| { type: 'edit_start'; action: NoteEditAction; path: string }
+	| { type: 'edit_end'; action: NoteEditAction; path: string; content: string };
+
+/**
+ * Splits streamed answer text into plain text and `<friday-edit>` blocks.
+ * Text that may be the start of a tag is held back until the next chunk.
+ */
+export class EditBlockParser {
+	private buffer = '';
+	private current: { action: NoteEditAction; path: string } | null = null;
+
+	push(chunk: string): EditStreamPiece[] {
+		this.buffer += chunk;
+		const pieces: EditStreamPiece[] = [];
+
+		for (;;) {
+			if (this.current) {
+				const end = this.buffer.indexOf(CLOSE_TAG);
+				if (end === -1) break;
+				pieces.push({ type: 'edit_end', ...this.current, content: trimBlockContent(this.buffer.slice(0, end)) });
+				this.buffer = this.buffer.slice(end + CLOSE_TAG.length);
+				this.current = null;
+				continue;
+			}
+
+			const start = this.buffer.indexOf(OPEN_TAG);
+			if (start === -1) {
+				// Keep a possible partial `<friday-edit` at the end for the next chunk
+				const keep = partialTagLength(this.buffer);
+				this.pushText(pieces, this.buffer.slice(0, this.buffer.length - keep));
+				this.buffer = this.buffer.slice(this.buffer.length - keep);
+				break;
+			}
+
+			const tagEnd = this.buffer.indexOf('>', start);
+			this.pushText(pieces, this.buffer.slice(0, start));
+			this.buffer = this.buffer.slice(start);
+			if (tagEnd === -1) break;
+
+			const attrs = parseAttributes(this.buffer.slice(OPEN_TAG.length, tagEnd - start));
+			this.buffer = this.buffer.slice(tagEnd - start + 1);
+			this.current = {
+				action: attrs.action === 'create' ? 'create' : 'edit',
+				path: attrs.path ?? '',
+			};
+			pieces.push({ type: 'edit_start', ...this.current });
+		}
+
+		return pieces;
+	}
+
+	/** Remaining text at the end of the stream; an unclosed block is dropped. */
+	flush(): EditStreamPiece[] {
+		const pieces: EditStreamPiece[] = [];
+		if (!this.current) this.pushText(pieces, this.buffer);
+		this.buffer = '';
+		this.current = null;
+		return pieces;
+	}
+
+	private pushText(pieces: EditStreamPiece[], text: string): void {
+		if (text) pieces.push({ type: 'text', text });
+	}
+}
+
+function partialTagLength(text: string): number {
+	for (let length = Math.min(OPEN_TAG.length - 1, text.length); length > 0; length--) {
+		if (OPEN_TAG.startsWith(text.slice(-length))) return length;
+	}
+	return 0;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+	const attrs: Record<string, string> = {};
+	for (const match of source.matchAll(/(\w+)\s*=\s*"([^"]*)"/g)) {
+		attrs[match[1].toLowerCase()] = match[2].trim();
+	}
+	return attrs;
+}
+
+/** Drops the newline after the opening tag and before the closing tag. */
+function trimBlockContent(content: string): string {
+	return content.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+}
+
+// ─── Proposals ────────────────────────────────────────────────────────────────
+
+/**
+ * Checks a finished block against the vault. Edits are only accepted for notes
+ * attached in full, so the proposed content cannot silently drop text the
+ * assistant never saw. Returns the reason as an i18n key suffix on failure.
+ */
+export async function createProposal(
+	app: App,
+	documents: ContextDocument[],
+	action: NoteEditAction,
+	rawPath: string,
+	content: string
+): Promise<NoteEditProposal | { error: 'no_path' | 'not_attached' | 'exists' }> {
+	if (!rawPath) return { error: 'no_path' };
+
+	if (action === 'create') {
+		const path = normalizePath(rawPath.endsWith('.md') ? rawPath : `${rawPath}.md`);
+		if (app.vault.getAbstractFileByPath(path)) return { error: 'exists' };
+		return { action, path, original: null, content, diff: buildDiff(path, '', content) };
+	}
+
+	const file = findAttachedNote(app, documents, rawPath);
+	if (!file) return { error: 'not_attached' };
+	const original = await app.vault.read(file);
+	// The block drops the final newline; keep the note's own line ending
+	const updated = original.endsWith('\n') && !content.endsWith('\n') ? `${content}\n` : content;
+	return { action, path: file.path, original, content: updated, diff: buildDiff(file.path, original, updated) };
+}
+
+function findAttachedNote(app: App, documents: ContextDocument[], rawPath: string): TFile | null {
+	const target = normalizePath(rawPath);
+	const document = documents.find(doc =>
+		!doc.lines && !doc.truncated &&
+		(doc.path === target || doc.path === `${target}.md` || doc.title === target)
+	);
+	if (!document) return null;
+	const file = app.vault.getAbstractFileByPath(document.path);
+	return file instanceof TFile ? file : null;
+}
+
+/**
+ * Writes an applied proposal. Edits go through `vault.modify` and are refused
+ * when the note changed after the proposal was made.
+ */
+export async function applyNoteEdit(app: App, proposal: NoteEditProposal): Promise<NoteEditApplyResult> {
+	const existing = app.vault.getAbstractFileByPath(proposal.path);
+
+	if (proposal.action === 'create') {
+		if (existing) return 'exists';
+		const folder = proposal.path.split('/').slice(0, -1).join('/');
+		if (folder && !app.vault.getAbstractFileByPath(folder)) {
+			await app.vault.createFolder(folder);
+		}
+		await app.vault.create(proposal.path, proposal.content);
+		return 'applied';
+	}
+
+	if (!(existing instanceof TFile)) return 'missing';
+	if (await app.vault.read(existing) !== proposal.original) return 'changed';
+	await app.vault.modify(existing, proposal.content);
+	return 'applied';
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+/** Line diff between the current and proposed note content. */
+export function buildDiff(filePath: string, before: string, after: string): ToolDiffData {
+	const dmp = new diff_match_patch();
+	const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(withTrailingNewline(before), withTrailingNewline(after));
+	const diffs = dmp.diff_main(chars1, chars2, false);
+	dmp.diff_charsToLines_(diffs, lineArray);
+
+	const diffLines: DiffLine[] = [];
+	const stats: DiffStats = { added: 0, removed: 0 };
+	let oldLineNum = 1;
+	let newLineNum = 1;
+
+	for (const [op, text] of diffs) {
+		for (const line of text.replace(/\n$/, '').split('\n')) {
+			if (op === DIFF_INSERT) {
+				diffLines.push({ type: 'insert', text: line, newLineNum: newLineNum++ });
+				stats.added++;
+			} else if (op === DIFF_DELETE) {
+				diffLines.push({ type: 'delete', text: line, oldLineNum: oldLineNum++ });
+				stats.removed++;
+			} else {
+				diffLines.push({ type: 'equal', text: line, oldLineNum: oldLineNum++, newLineNum: newLineNum++ });
+			}
+		}
+	}
+
+	return { filePath, diffLines, stats };
+}
+
+function withTrailingNewline(text: string): string {
+	return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+}
+
+export function toEditRecord(proposal: NoteEditProposal): NoteEditRecord {
+	return { action: proposal.action, path: proposal.path, stats: proposal.diff.stats, status: 'pending' };
+}
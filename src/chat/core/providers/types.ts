@@ -30,6 +30,10 @@ export interface ProviderCapabilities {
   supportsFork: boolean;
   supportsProviderCommands: boolean;
   supportsImageAttachments: boolean;
+  /** Vault notes, editor selections and tag queries attached as chat context. */
+  supportsNoteAttachments?: boolean;
+  supportsSelectionAttachments?: boolean;
+  supportsTagAttachments?: boolean;
   supportsInstructionMode: boolean;
   supportsMcpTools: boolean;
   supportsTurnSteer?: boolean;
@@ -0,0 +1,29 @@
+/** Diff-related type definitions. */
+
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+  oldLineNum?: number;
+  newLineNum?: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/** Hunk from the SDK's structuredPatch format. */
+export interface StructuredPatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/** Shape of the SDK's tool_use_result object for Write/Edit operations. */
+export interface SDKToolUseResult {
+  structuredPatch?: StructuredPatchHunk[];
+  filePath?: string;
+  [key: string]: unknown;
+}
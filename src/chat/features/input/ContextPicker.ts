@@ -0,0 +1,165 @@
+/**
+ * Context Picker - @[[ and @# autocomplete for note and tag attachments
+ */
+
+import type { App, TFile } from 'obsidian';
+import { getAllTags, setIcon } from 'obsidian';
+
+export type ContextPickerItem =
+	| { type: 'note'; file: TFile }
+	| { type: 'tag'; tag: string; count: number };
+
+export interface ContextPickerOptions {
+	app: App;
+	type: ContextPickerItem['type'];
+	onSelect: (item: ContextPickerItem) => void;
+	onCancel: () => void;
+}
+
+/** Items shown at once */
+const MAX_VISIBLE_ITEMS = 10;
+
+export class ContextPicker {
+	private containerEl: HTMLElement;
+	private listEl: HTMLElement;
+	private items: ContextPickerItem[];
+	private filteredItems: ContextPickerItem[];
+	private selectedIndex: number = 0;
+	private options: ContextPickerOptions;
+
+	constructor(parentEl: HTMLElement, options: ContextPickerOptions) {
+		this.options = options;
+		this.items = options.type === 'note' ? this.getNotes() : this.getTags();
+		this.filteredItems = [...this.items];
+
+		// Reuses the folder picker look
+		this.containerEl = parentEl.createDiv({ cls: 'friday-folder-picker' });
+		this.listEl = this.containerEl.createDiv({ cls: 'friday-folder-list' });
+
+		this.render();
+	}
+
+	/**
+	 * Markdown notes, most recently modified first
+	 */
+	private getNotes(): ContextPickerItem[] {
+		return this.options.app.vault.getMarkdownFiles()
+			.sort((a, b) => b.stat.mtime - a.stat.mtime)
+			.map(file => ({ type: 'note', file }));
+	}
+
+	/**
+	 * Tags used in the vault (including nested tags), most used first
+	 */
+	private getTags(): ContextPickerItem[] {
+		const counts = new Map<string, number>();
+		for (const file of this.options.app.vault.getMarkdownFiles()) {
+			const cache = this.options.app.metadataCache.getFileCache(file);
+			const tags = new Set((cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, '')));
+			for (const tag of tags) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+		return [...counts.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.map(([tag, count]) => ({ type: 'tag', tag, count }));
+	}
+
+	/**
+	 * Filter items by query
+	 */
+	public filter(query: string): void {
+		const lowerQuery = query.toLowerCase();
+		this.filteredItems = this.items.filter(item =>
+			item.type === 'note'
+				? item.file.basename.toLowerCase().includes(lowerQuery) || item.file.path.toLowerCase().includes(lowerQuery)
+				: item.tag.toLowerCase().includes(lowerQuery)
+		);
+		this.selectedIndex = 0;
+		this.render();
+	}
+
+	public selectPrevious(): void {
+		this.selectedIndex = Math.max(0, this.selectedIndex - 1);
+		this.render();
+	}
+
+	public selectNext(): void {
+		this.selectedIndex = Math.min(
+			Math.min(this.filteredItems.length, MAX_VISIBLE_ITEMS) - 1,
+			this.selectedIndex + 1
+		);
+		this.render();
+	}
+
+	public confirm(): void {
+		const selected = this.filteredItems[this.selectedIndex];
+		if (selected) {
+			this.options.onSelect(selected);
+		}
+	}
+
+	public cancel(): void {
+		this.options.onCancel();
+	}
+
+	private render(): void {
+		this.listEl.empty();
+
+		if (this.filteredItems.length === 0) {
+			this.listEl.createDiv({
+				cls: 'friday-folder-item-empty',
+				text: this.options.type === 'note' ? 'No notes found' : 'No tags found'
+			});
+			return;
+		}
+
+		this.filteredItems.slice(0, MAX_VISIBLE_ITEMS).forEach((item, index) => {
+			const itemEl = this.listEl.createDiv({
+				cls: `friday-folder-item ${index === this.selectedIndex ? 'selected' : ''}`
+			});
+
+			const iconEl = itemEl.createDiv({ cls: 'friday-folder-icon' });
+			setIcon(iconEl, item.type === 'note' ? 'file-text' : 'hash');
+
+			const textEl = itemEl.createDiv({ cls: 'friday-folder-text' });
+			if (item.type === 'note') {
+				textEl.createDiv({ cls: 'friday-folder-name', text: item.file.basename });
+				if (item.file.parent && !item.file.parent.isRoot()) {
+					textEl.createDiv({ cls: 'friday-folder-path', text: item.file.parent.path });
+				}
+			} else {
+				textEl.createDiv({ cls: 'friday-folder-name', text: `#${item.tag}` });
+				textEl.createDiv({ cls: 'friday-folder-path', text: `${item.count}` });
+			}
+
+			// Use mousedown to fire before blur
+			itemEl.addEventListener('mousedown', (e) => {
+				e.preventDefault();
+				this.selectedIndex = index;
+				this.confirm();
+			});
+
+			itemEl.addEventListener('mouseenter', () => {
+				this.selectedIndex = index;
+				this.render();
+			});
+		});
+
+		if (this.filteredItems.length > MAX_VISIBLE_ITEMS) {
+			this.listEl.createDiv({
+				cls: 'friday-folder-more',
+				text: `...and ${this.filteredItems.length - MAX_VISIBLE_ITEMS} more`
+			});
+		}
+
+		const selectedEl = this.listEl.querySelector('.friday-folder-item.selected');
+		if (selectedEl) {
+			selectedEl.scrollIntoView({ block: 'nearest' });
+		}
+	}
+
+	public destroy(): void {
+		this.containerEl.remove();
+	}
+}
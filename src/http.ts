@@ -15,6 +15,7 @@ import type {
 	LLMHttpRequest,
 	LLMHttpResponse 
 } from '@mdfriday/foundry';
+import type { HttpClient as GitHttpClient, GitHttpRequest, GitHttpResponse } from 'isomorphic-git';
 
 /**
  * Obsidian HTTP Client
@@ -134,6 +135,37 @@ export class ObsidianHttpClient implements PublishHttpClient {
     return this.adaptResponse(response);
   }
 
+  /**
+   * 通用请求（S3 等对象存储：HEAD/DELETE、XML 或空响应体）
+   * 4xx/5xx 不抛出异常，由调用方检查 status
+   */
+  async request(
+    method: string,
+    url: string,
+    options: { body?: ArrayBuffer | string; headers?: Record<string, string> } = {}
+  ): Promise<RawHttpResponse> {
+    const response = await requestUrl({
+      url,
+      method,
+      headers: options.headers,
+      body: options.body,
+      throw: false,
+    });
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers || {})) {
+      headers[key.toLowerCase()] = value;
+    }
+
+    return {
+      status: response.status,
+      ok: response.status >= 200 && response.status < 300,
+      headers,
+      text: method === 'HEAD' ? '' : response.text,
+      arrayBuffer: method === 'HEAD' ? new ArrayBuffer(0) : response.arrayBuffer,
+    };
+  }
+
   /**
    * 适配 Obsidian 的响应格式到 Foundry 的 HttpResponse
    */
@@ -288,6 +320,17 @@ export class ObsidianHttpClient implements PublishHttpClient {
   }
 }
 
+/**
+ * ObsidianHttpClient.request 的响应
+ */
+export interface RawHttpResponse {
+  status: number;
+  ok: boolean;
+  headers: Record<string, string>;   // 小写键名
+  text: string;
+  arrayBuffer: ArrayBuffer;
+}
+
 /**
  * 创建 ObsidianHttpClient 实例
  * 
@@ -604,6 +647,13 @@ export function createObsidianIdentityHttpClient(): IdentityHttpClient {
  * https://github.com/chuanqisun/obsidian-claudian/blob/main/src/core/mcp/McpTester.ts
  */
 export class ObsidianLLMHttpClient implements LLMHttpClient {
+	/**
+	 * @param signal 调用方操作的取消信号（如 Chat 的停止按钮）
+	 *               Foundry 不一定把 signal 传到每个请求上，这里统一合并
+	 * @param onUsage 每个响应结束后回调服务端返回的 token 用量（响应中没有用量时不回调）
+	 */
+	constructor(private signal?: AbortSignal, private onUsage?: (tokens: number) => void) {}
+
 	/**
 	 * Fetch request (with streaming support)
 	 */
@@ -613,9 +663,14 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
 		const http = require('http');
 		const https = require('https');
 		
+		const signals = [request.signal, this.signal]
+			.filter((signal): signal is AbortSignal => !!signal);
+		
 		return new Promise((resolve, reject) => {
 			const url = new URL(request.url);
 			const transport = url.protocol === 'https:' ? https : http;
+			// 已返回的响应，取消时一并中断正在读取的流
+			let response: any = null;
 			
 			const requestHeaders: Record<string, string> = request.headers || {};
 			if (request.body) {
@@ -623,6 +678,8 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
 				requestHeaders['content-length'] = String(Buffer.byteLength(request.body));
 			}
 			
+			const onUsage = this.onUsage;
+			
 			const req = transport.request(
 				url,
 				{
@@ -630,17 +687,38 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
 					headers: requestHeaders,
 				},
 				(res: any) => {
+					response = res;
+					// 响应结束、出错或被中断后不再需要监听取消
+					res.on('close', removeAbortListeners);
+					if (onUsage) {
+						// 单独收集响应内容统计用量，不影响调用方读取
+						const received: Uint8Array[] = [];
+						res.on('data', (chunk: Buffer | string) => {
+							received.push(new Uint8Array(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+						});
+						res.on('end', () => {
+							const tokens = readUsageTokens(Buffer.concat(received).toString('utf-8'));
+							if (tokens > 0) {
+								onUsage(tokens);
+							}
+						});
+					}
 					// 转换 Node.js IncomingMessage 为 Web ReadableStream
 					const stream = new ReadableStream<Uint8Array>({
 						start(controller) {
+							let finished = false;
 							res.on('data', (chunk: Buffer | string) => {
 								const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
 								controller.enqueue(new Uint8Array(buffer));
 							});
 							res.on('end', () => {
+								if (finished) return;
+								finished = true;
 								controller.close();
 							});
 							res.on('error', (error: Error) => {
+								if (finished) return;
+								finished = true;
 								controller.error(error);
 							});
 						},
@@ -697,20 +775,29 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
 			
 			// 错误处理
 			req.on('error', (error: Error) => {
+				removeAbortListeners();
 				reject(new Error(`HTTP request failed: ${error.message}`));
 			});
 			
-			// 支持 AbortSignal
-			if (request.signal) {
-				if (request.signal.aborted) {
-					req.destroy();
-					reject(new Error('Request aborted'));
-					return;
+			// 支持 AbortSignal（请求自身的 signal 和调用方的取消信号）
+			const abort = () => {
+				removeAbortListeners();
+				const error = new Error('Request aborted');
+				response?.destroy(error);
+				req.destroy();
+				reject(error);
+			};
+			const removeAbortListeners = () => {
+				for (const signal of signals) {
+					signal.removeEventListener('abort', abort);
 				}
-				request.signal.addEventListener('abort', () => {
-					req.destroy();
-					reject(new Error('Request aborted'));
-				}, { once: true });
+			};
+			if (signals.some(signal => signal.aborted)) {
+				abort();
+				return;
+			}
+			for (const signal of signals) {
+				signal.addEventListener('abort', abort, { once: true });
 			}
 			
 			// 发送请求体
@@ -723,9 +810,46 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
 	}
 }
 
+/**
+ * 从 LLM 响应中读取 token 用量
+ * 支持完整 JSON 响应和流式响应（SSE 的 data 行或 Ollama 的逐行 JSON），
+ * 兼容 OpenAI（usage.total_tokens）、Anthropic（input_tokens / output_tokens）和 Ollama（eval_count）
+ */
+function readUsageTokens(body: string): number {
+	let payloads: unknown[];
+	try {
+		payloads = [JSON.parse(body)];
+	} catch {
+		payloads = [];
+		for (const line of body.split('\n')) {
+			const data = line.replace(/^data:/, '').trim();
+			if (!data.startsWith('{')) continue;
+			try {
+				payloads.push(JSON.parse(data));
+			} catch {
+				// 不完整的行
+			}
+		}
+	}
+
+	let tokens = 0;
+	for (const payload of payloads as any[]) {
+		const usage = payload?.usage ?? payload?.message?.usage;
+		if (usage) {
+			tokens += usage.total_tokens
+				?? (usage.prompt_tokens ?? usage.input_tokens ?? 0) + (usage.completion_tokens ?? usage.output_tokens ?? 0);
+		} else if (payload?.done === true) {
+			tokens += (payload.prompt_eval_count ?? 0) + (payload.eval_count ?? 0);
+		}
+	}
+	return tokens;
+}
+
 /**
  * 创建 ObsidianLLMHttpClient 实例
  * 
+ * @param signal 操作的取消信号（可选），该客户端发出的每个请求都会带上
+ * @param onUsage token 用量回调（可选），用于统计后台 ingest 的实际用量
  * @returns ObsidianLLMHttpClient 实例
  * 
  * @example
@@ -736,6 +860,80 @@ export class ObsidianLLMHttpClient implements LLMHttpClient {
  * const wikiService = createObsidianWikiService(llmClient);
  * ```
  */
-export function createObsidianLLMHttpClient(): LLMHttpClient {
-	return new ObsidianLLMHttpClient();
+export function createObsidianLLMHttpClient(
+	signal?: AbortSignal,
+	onUsage?: (tokens: number) => void
+): LLMHttpClient {
+	return new ObsidianLLMHttpClient(signal, onUsage);
+}
+
+/**
+ * Obsidian Git HTTP Client
+ * 
+ * 将 requestUrl 适配为 isomorphic-git 的 HttpClient 接口
+ * 绕过 CORS 限制，Git 发布（smart HTTP 协议）使用
+ */
+export class ObsidianGitHttpClient implements GitHttpClient {
+	async request(request: GitHttpRequest): Promise<GitHttpResponse> {
+		const body = request.body ? await this.collect(request.body) : undefined;
+
+		const response = await requestUrl({
+			url: request.url,
+			method: request.method || 'GET',
+			headers: request.headers,
+			body,
+			throw: false,
+		});
+
+		// isomorphic-git 按小写读取响应头
+		const headers: Record<string, string> = {};
+		for (const [key, value] of Object.entries(response.headers || {})) {
+			headers[key.toLowerCase()] = value;
+		}
+
+		return {
+			url: request.url,
+			method: request.method,
+			statusCode: response.status,
+			statusMessage: String(response.status),
+			headers,
+			body: this.iterate(new Uint8Array(response.arrayBuffer)),
+		};
+	}
+
+	private async collect(chunks: AsyncIterableIterator<Uint8Array>): Promise<ArrayBuffer> {
+		const parts: Uint8Array[] = [];
+		let total = 0;
+		for await (const chunk of chunks) {
+			parts.push(chunk);
+			total += chunk.byteLength;
+		}
+
+		const merged = new Uint8Array(total);
+		let offset = 0;
+		for (const part of parts) {
+			merged.set(part, offset);
+			offset += part.byteLength;
+		}
+		return merged.buffer;
+	}
+
+	private async *iterate(data: Uint8Array): AsyncIterableIterator<Uint8Array> {
+		yield data;
+	}
+}
+
+/**
+ * 创建 ObsidianGitHttpClient 实例
+ * 
+ * @example
+ * ```typescript
+ * import git from 'isomorphic-git';
+ * import { createObsidianGitHttpClient } from './http';
+ * 
+ * await git.getRemoteInfo2({ http: createObsidianGitHttpClient(), url });
+ * ```
+ */
+export function createObsidianGitHttpClient(): GitHttpClient {
+	return new ObsidianGitHttpClient();
 }
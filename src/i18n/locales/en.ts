@@ -118,6 +118,67 @@ export const en: TranslationNamespace = {
 		ignore_patterns_add: "Add Rule",
 		ignore_patterns_delete: "Delete Rule",
 		ignore_patterns_custom_rule: "Custom rule",
+		sync_profiles: "Sync Profiles",
+		sync_profiles_desc: "Named folder selections. Each device chooses its own profile; excluded folders are never downloaded to or uploaded from that device.",
+		sync_profile_active: "Profile on this device",
+		sync_profile_active_desc: "Only stored on this device. Files already in excluded folders stay on disk but stop syncing.",
+		sync_profile_whole_vault: "Whole vault",
+		sync_profile_add: "Add Profile",
+		sync_profile_delete: "Delete Profile",
+		sync_profile_name: "Profile name",
+		sync_profile_default_name: "Profile {{count}}",
+		sync_profile_include: "Include folders",
+		sync_profile_include_desc: "Comma-separated. Leave empty to include the whole vault.",
+		sync_profile_exclude: "Exclude folders",
+		sync_profile_exclude_desc: "Comma-separated folders this profile never syncs.",
+		sync_profile_folders_placeholder: "e.g. Archive, Attachments/Video",
+
+		// Storage cleanup
+		chunk_gc: "Storage Cleanup",
+		chunk_gc_desc: "Removes chunks that no revision uses any more. A chunk is marked first and deleted by a later run, once a day has passed and every other device has connected since.",
+		chunk_gc_schedule: "Automatic cleanup",
+		chunk_gc_schedule_desc: "Run the cleanup on this schedule while Obsidian is open",
+		chunk_gc_schedule_off: "Off",
+		chunk_gc_schedule_daily: "Daily",
+		chunk_gc_schedule_weekly: "Weekly",
+		chunk_gc_remote: "Clean the server",
+		chunk_gc_remote_desc: "Also delete orphaned chunks that only exist on the server, and compact the server database when compaction is on. Chunks deleted on this device are removed from the server by sync either way.",
+		chunk_gc_compact: "Compact databases (removes file history)",
+		chunk_gc_compact_desc: "Reclaim more space after cleanup by compacting the local database, and the server database when cleaning the server. Warning: this permanently removes the older revisions shown in file history.",
+		chunk_gc_compact_enabled: "Compaction is on: the next cleanup permanently removes older revisions from file history",
+		chunk_gc_actions: "Run cleanup",
+		chunk_gc_dry_run: "Dry run",
+		chunk_gc_run: "Run now",
+		chunk_gc_running: "Running...",
+		chunk_gc_never_run: "Not run on this device yet",
+		chunk_gc_last_run: "Last run {{time}}: {{summary}}",
+		chunk_gc_report: "{{orphaned}} orphaned chunks, {{deleted}} deleted, {{pending}} waiting, {{bytes}} reclaimed",
+		chunk_gc_report_dry: "Dry run: {{orphaned}} orphaned chunks, {{deleted}} can be deleted now, {{pending}} waiting",
+		chunk_gc_waiting_for: "Waiting for these devices to connect: {{devices}}",
+		chunk_gc_failed: "Storage cleanup failed: {{error}}",
+		sync_remote: "Sync Remote",
+		sync_remote_desc: "Where this vault syncs to. The licensed CouchDB server is the default; an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2) stores changes as encrypted journal files.",
+		sync_remote_type: "Remote type",
+		sync_remote_type_couchdb: "CouchDB server",
+		sync_remote_type_s3: "S3-compatible bucket",
+		sync_remote_endpoint: "Endpoint",
+		sync_remote_endpoint_desc: "Leave empty for AWS S3",
+		sync_remote_region: "Region",
+		sync_remote_region_desc: "Use \"auto\" for Cloudflare R2",
+		sync_remote_bucket: "Bucket",
+		sync_remote_access_key: "Access key",
+		sync_remote_secret_key: "Secret key",
+		sync_remote_prefix: "Folder",
+		sync_remote_prefix_desc: "Folder inside the bucket, so one bucket can hold several vaults",
+		sync_remote_path_style: "Path-style addressing",
+		sync_remote_path_style_desc: "Required by MinIO and most self-hosted services",
+		sync_remote_test: "Test connection",
+		sync_remote_test_success: "Bucket connected",
+		sync_remote_test_failed: "Could not connect to the bucket: {{error}}",
+		sync_remote_bucket_required: "Bucket, access key and secret key are required",
+		sync_remote_apply: "Apply",
+		sync_remote_apply_desc: "Save the remote and restart sync. Local changes are uploaded to the new remote on the next sync.",
+		sync_remote_applied: "Sync remote updated",
 
 		// Publish settings
 		publish_settings: "Publish Settings",
@@ -130,6 +191,8 @@ export const en: TranslationNamespace = {
 	publish_method_mdfriday_enterprise: "MDFriday Enterprise",
 	publish_method_netlify: "Netlify",
 	publish_method_ftp: "FTP",
+	publish_method_git: "Git (GitHub Pages, Gitea...)",
+	publish_method_s3: "S3 (AWS S3, MinIO, Cloudflare R2...)",
 		license_required: "Please upgrade your plan to use this feature",
 		upgrade_for_mdfshare: "Please upgrade your plan to use MDFriday Share",
 		upgrade_for_subdomain: "Please upgrade your plan to use MDFriday Subdomain",
@@ -148,15 +211,26 @@ export const en: TranslationNamespace = {
 
 		// FTP settings
 		ftp_settings: "FTP Settings",
+		ftp_protocol: "Protocol",
+		ftp_protocol_desc: "FTP tries explicit FTPS first; SFTP connects over SSH",
+		ftp_protocol_ftp: "FTP / FTPS",
+		ftp_protocol_sftp: "SFTP (SSH)",
 		ftp_server: "Server Address",
 		ftp_server_desc: "FTP server domain or IP address",
 		ftp_server_placeholder: "e.g. ftp.example.com",
+		ftp_port: "Port",
+		ftp_port_desc: "Leave empty to use the default port (FTP 21, SFTP 22)",
 		ftp_username: "Username",
 		ftp_username_desc: "FTP login username",
 		ftp_username_placeholder: "Enter username",
 		ftp_password: "Password",
-		ftp_password_desc: "FTP login password",
+		ftp_password_desc: "Login password (optional for SFTP when a private key is set)",
 		ftp_password_placeholder: "Enter password",
+		ftp_private_key: "Private Key File",
+		ftp_private_key_desc: "SFTP only: path to an SSH private key. When set, the key is used instead of the password",
+		ftp_private_key_placeholder: "e.g. ~/.ssh/id_ed25519",
+		ftp_passphrase: "Key Passphrase",
+		ftp_passphrase_desc: "Leave empty if the private key is not encrypted",
 		ftp_remote_dir: "Remote Directory",
 		ftp_remote_dir_desc: "Target directory path for upload",
 		ftp_remote_dir_placeholder: "e.g. /www/site",
@@ -169,6 +243,53 @@ export const en: TranslationNamespace = {
 		ftp_test_connection_success: "Connection Successful",
 		ftp_test_connection_failed: "Connection Failed",
 
+		// Git settings
+		git_settings: "Git Settings",
+		git_repository: "Repository",
+		git_repository_desc:
+			"HTTPS URL of the remote repository, or the path of a local (bare) repository",
+		git_repository_placeholder: "e.g. https://github.com/user/site.git",
+		git_branch: "Branch",
+		git_branch_desc: "Branch that receives the built site, created on first publish",
+		git_username: "Username",
+		git_username_desc: "Optional, defaults to x-access-token",
+		git_token: "Access Token",
+		git_token_desc: "Personal access token with push permission (sent as the HTTP password)",
+		git_site_url: "Site URL",
+		git_site_url_desc: "Address where the branch is served, shown after publishing",
+		git_test_connection: "Test Repository Access",
+		git_test_connection_testing: "Testing...",
+		git_test_connection_success: "Connection Successful",
+		git_test_connection_failed: "Connection Failed",
+		s3_settings: "S3 Settings",
+		s3_endpoint: "Endpoint",
+		s3_endpoint_desc: "S3-compatible service address (MinIO, Cloudflare R2...). Leave empty for AWS S3",
+		s3_region: "Region",
+		s3_region_desc: "Bucket region, use 'auto' for Cloudflare R2",
+		s3_bucket: "Bucket",
+		s3_access_key_id: "Access Key ID",
+		s3_secret_access_key: "Secret Access Key",
+		s3_prefix: "Prefix",
+		s3_prefix_desc: "Optional folder inside the bucket",
+		s3_force_path_style: "Path-style Addressing",
+		s3_force_path_style_desc: "Use endpoint/bucket URLs instead of bucket.endpoint (required by MinIO)",
+		s3_site_url: "Site URL",
+		s3_site_url_desc: "Address where the bucket is served, shown after publishing",
+		s3_test_connection: "Test Bucket Access",
+		s3_test_connection_desc: "Check that the bucket can be listed with these credentials",
+		s3_test_connection_testing: "Testing...",
+		s3_test_connection_success: "Connection Successful",
+		s3_test_connection_failed: "Connection Failed",
+		preflight: "Publish Preflight",
+		preflight_enabled: "Check before publishing",
+		preflight_enabled_desc: "Before each publish, check the selected folder or file for broken links, missing embeds, private notes and large attachments, and show a report if anything is found",
+		preflight_block_on_errors: "Block publishing on errors",
+		preflight_block_on_errors_desc: "Private notes and missing embeds are errors. When enabled, they must be fixed before publishing",
+		preflight_private_flags: "Private note flags",
+		preflight_private_flags_desc: "Frontmatter properties that mark a note as private, separated by commas. A property without a value means 'true'",
+		preflight_max_attachment: "Attachment size limit (MB)",
+		preflight_max_attachment_desc: "Report attachments larger than this. 0 turns the check off",
+
 	// MDFriday Subdomain Settings
 	mdfriday_app: "MDFriday Subdomain",
 	mdfriday_app_desc: "Configure your personal subdomain for publishing sites",
@@ -254,6 +375,14 @@ export const en: TranslationNamespace = {
 		// AI Output Language
 		ai_output_language: "AI Output Language",
 		ai_output_language_desc: "Language for AI-generated responses in chat and wiki. Auto follows your Obsidian UI language.",
+		ai_follow_up_turns: "Follow-up context",
+		ai_follow_up_turns_desc: "Number of previous questions and answers used to understand follow-up questions in wiki chat. 0 answers every question on its own.",
+		ai_auto_ingest_budget: "Background ingest daily budget",
+		ai_auto_ingest_budget_desc: "Tokens per day that background ingest (`/watch on` in wiki chat) may use, as reported by the AI provider (estimated from note size when it reports none). Notes that exceed the budget wait until the next day. 0 means no limit.",
+		ai_assistant_system_prompt: "Assistant system prompt",
+		ai_assistant_system_prompt_desc: "Instructions for the Assistant chat mode. Leave empty to use the default.",
+		ai_assistant_temperature: "Assistant temperature",
+		ai_assistant_temperature_desc: "Lower values give focused answers, higher values more varied ones.",
 		ai_output_lang_auto: "Auto (follow Obsidian language)",
 		ai_output_lang_en: "English",
 		ai_output_lang_zh: "Chinese (Simplified) / 中文",
@@ -294,18 +423,46 @@ export const en: TranslationNamespace = {
 		title: "Friday Chat",
 		new_conversation: "New conversation",
 		switch_to_manual: "Switch to Manual Mode",
+		history: "Conversation history",
+		history_search: "Search conversations...",
+		history_empty: "No saved conversations",
+		history_rename: "Rename",
+		history_delete: "Delete",
+
+		// Chat modes
+		mode_wiki: "Wiki",
+		mode_assistant: "Assistant",
+		mode_switch_busy: "Wait for the current reply to finish before switching modes",
 
 		// Input area
-		input_placeholder: "Message Friday... (/ for commands, @ for folders)",
+		input_placeholder: "Message Friday... (/ for commands, @ for folders, @[[ for notes, @# for tags)",
+		input_placeholder_assistant: "Message the assistant... (@[[ for notes, @# for tags)",
 		input_hint: "↵ send · ⇧↵ newline",
 		send: "Send",
 		sending: "Sending…",
+		stop: "Stop",
+		stopping: "Stopping…",
+		interrupted: "Interrupted",
+		sources: "Sources",
+		source_wiki: "wiki page",
+		source_note: "note",
 		thinking: "Thinking…",
 		copied: "copied",
+		attach: "Add context",
+		attach_current_note: "Current note",
+		attach_current_note_named: "Current note: {{name}}",
+		attach_selection: "Editor selection",
+		attach_note: "Note…",
+		attach_tag: "Notes with tag…",
+		attach_remove: "Remove",
+		model_picker: "Model",
+		model_default: "{{model}} (default)",
+		models_loading: "Loading models…",
 
 		// Welcome screen
 		welcome_greeting: "Hello, how can I help?",
 		welcome_hint: "Your AI assistant for Obsidian notes.",
+		welcome_hint_assistant: "Chat directly with your AI provider. Attach notes with @[[ or @# to ask about them.",
 		cmd_wiki_desc: "build a knowledge base from a folder",
 		cmd_ask_desc: "ask a question across your notes",
 		cmd_save_desc: "save this conversation",
@@ -318,15 +475,60 @@ export const en: TranslationNamespace = {
 		ingest_get_project: "Getting wiki project...",
 		ingest_processing: "Processing files and generating wiki...",
 		ingest_ready: "\n\n**Wiki ready!** You can now ask questions, type `/publish` to publish, or `/save [title]` to save this conversation.\n",
+		ingest_changes: "{{added}} new, {{modified}} changed, {{unchanged}} unchanged, {{removed}} removed",
+		ingest_removed_knowledge: "Removed {{count}} entities/concepts from deleted or changed notes",
 		ingest_no_folder: "❌ **Error**: Please specify a folder.\n\n**Usage**: `/wiki @folder-name`",
+		ingest_cancelled: "Cancelled. Files already processed are kept — run `/wiki @folder` again to continue.",
 
 		// Runtime — query
 		query_no_wiki: "⚠️ **No active wiki project**\n\nPlease ingest a folder first using `/wiki @folder-name`",
 		query_searching: "Searching knowledge base...",
+		query_condensing: "Understanding follow-up question...",
+		query_condensed: "Follow-up understood as: {{question}}",
+		query_sources_found: "Found {{count}} source(s)",
 		query_querying: "Querying LLM...",
+		query_cancelled: "Cancelled",
+
+		// Runtime — context attachments
+		context_no_provider: "No AI provider configured. Set one up in Settings to ask about attached notes.",
+		context_reading: "Reading {{count}} attachment(s)...",
+		context_loaded: "Loaded {{count}} note(s)",
+		context_loaded_truncated: "Loaded {{count}} note(s), {{truncated}} shortened to fit the context",
+		context_empty: "The attached notes no longer exist or the tag matches no notes",
+
+		// Runtime — assistant
+		assistant_no_provider: "⚠️ **No AI provider configured**\n\nSet one up in Settings → AI to chat with the assistant.",
+		assistant_command: "`{{cmd}}` is a wiki command. Switch to **Wiki** mode in the chat header to use it.",
+
+		// Runtime — note edits
+		edit_drafting: "Drafting changes to {{path}}...",
+		edit_proposed: "{{path}}: +{{added}} −{{removed}} lines",
+		edit_proposed_create: "New note {{path}}: {{added}} lines",
+		edit_incomplete: "The proposed change was not finished",
+		edit_no_path: "The proposed change does not name a note",
+		edit_not_attached: "{{path}} is not attached in full, so it cannot be changed. Attach the whole note and ask again.",
+		edit_exists: "{{path}} already exists",
+		edit_apply: "Apply",
+		edit_reject: "Reject",
+		edit_apply_changed: "{{path}} was modified after this change was proposed. Ask again for an updated change.",
+		edit_apply_missing: "{{path}} no longer exists",
+		edit_apply_exists: "{{path}} already exists",
+		edit_apply_failed: "Failed to apply the change: {{error}}",
+		edit_status_pending: "Not applied",
+		edit_status_applied: "Applied",
+		edit_status_rejected: "Rejected",
+		edit_record: "{{path}} (+{{added}} −{{removed}}) · {{status}}",
+		edit_unchanged_lines: "⋯ {{count}} unchanged line(s)",
 
 		// Runtime — save
 		save_no_wiki: "⚠️ **No active wiki project**",
+		watch_no_wiki: "⚠️ **No active wiki project**\n\nRun `/wiki @folder` first, then `/watch on` to keep it in sync.\n",
+		watch_unavailable: "⚠️ Background ingest is only available on desktop.\n",
+		watch_enabled: "👀 **Watching `{{folder}}`**\n\nChanges to its notes are ingested in the background {{seconds}}s after the last edit, within the daily token budget (Settings → AI). Type `/watch off` to stop.\n",
+		watch_disabled: "Stopped watching `{{folder}}`. Run `/wiki @folder` to update the wiki manually.\n",
+		watch_status_on: "👀 `{{folder}}` is watched. Type `/watch off` to stop.\n",
+		watch_status_off: "`{{folder}}` is not watched. Type `/watch on` to ingest its changes in the background.\n",
+		watch_save_failed: "❌ Failed to save the watch setting.\n",
 		save_saving: "💾 Saving conversation: \"{{title}}\"...\n",
 		save_complete: "✅ **Conversation saved!**\n\nFile: `{{file}}`\n\nThe conversation has been automatically ingested into the wiki.\n\nContinue asking questions or `/publish` to share your wiki.\n",
 
@@ -336,7 +538,7 @@ export const en: TranslationNamespace = {
 		publish_live: "\n### 🎊 Your wiki is live!\n\nContinue chatting to improve your wiki, then publish again to update it.\n",
 
 		// Runtime — unknown command
-		unknown_cmd: "❌ **Unknown command**: `{{cmd}}`\n\nAvailable commands:\n• `/wiki @folder` - Ingest folder into wiki\n• `/ask question` - Query wiki (or just type directly)\n• `/save [title]` - Save conversation\n• `/publish` - Publish wiki to MDFriday\n",
+		unknown_cmd: "❌ **Unknown command**: `{{cmd}}`\n\nAvailable commands:\n• `/wiki @folder` - Ingest folder into wiki\n• `/ask question` - Query wiki (or just type directly)\n• `/save [title]` - Save conversation\n• `/watch on|off` - Ingest changes in the background\n• `/publish` - Publish wiki to MDFriday\n",
 	},
 
 	ui: {
@@ -381,6 +583,17 @@ export const en: TranslationNamespace = {
 		disqus_shortname: "Disqus Shortname",
 		disqus_placeholder: "your-site-shortname",
 		disqus_hint: "Your Disqus shortname for comments (optional)",
+		publish_filters: "Publish Filters",
+		filter_require_publish: "Only notes with publish: true",
+		filter_exclude_drafts: "Skip drafts (draft: true)",
+		filter_include_tags: "Only these tags, comma separated (optional)",
+		filter_exclude_tags: "Skip these tags, comma separated (optional)",
+		filter_include_globs: "Only matching paths, one per line, e.g. posts/**",
+		filter_exclude_globs: "Skip matching paths, one per line, e.g. drafts/**",
+		filter_globs_hint: "Glob patterns relative to the content folder. * matches within a folder, ** across folders, a pattern without / matches file names anywhere",
+		filter_linked_from_index: "Only notes linked from the index note",
+		filter_index_note_hint: "Index note path, relative to the content folder",
+		publish_filters_count: "{{included}} of {{total}} notes will be published",
 		theme: "Theme",
 		change_theme: "Change Theme",
 		download_sample: "Download Sample",
@@ -421,6 +634,8 @@ export const en: TranslationNamespace = {
 		publish_option_mdfriday_enterprise: "MDFriday Enterprise",
 		publish_option_netlify: "Netlify",
 		publish_option_ftp: "FTP Upload",
+		publish_option_git: "Git Push",
+		publish_option_s3: "S3 Bucket",
 		mdfriday_free_hint: "MDFriday Free allows you to publish your site for free. Published content is valid for 24 hours and automatically expires.",
 		mdfriday_share_hint: "MDFriday Share allows you to share your site instantly. Your site will be published to your personal MDFriday space.",
 		mdfriday_app_hint: "MDFriday Subdomain publishes your site to your personal subdomain. Your site will be available at your-subdomain.mdfriday.com.",
@@ -428,6 +643,7 @@ export const en: TranslationNamespace = {
 		mdfriday_enterprise_hint: "MDFriday Enterprise publishes your site to your enterprise server. Make sure enterprise server URL is configured.",
 		mdfriday_license_required: "This feature requires an activated license. Please activate your license in Settings.",
 		publish_building: "Publishing...",
+		publish_files_progress: "{{completed}} / {{total}} changed files uploaded",
 		publish_success: "Published successfully!",
 		publish_failed: "Publish failed",
 		published_successfully: "Published successfully!",
@@ -452,9 +668,21 @@ export const en: TranslationNamespace = {
 		publish_to_mdfriday_enterprise: "Publish to Enterprise",
 		publish_to_netlify: "Publish to Netlify",
 		publish_to_ftp: "Publish to FTP",
+		show_file_history: "Show file history",
 	},
 
-	commands: {},
+	commands: {
+		configure_auto_publish: "Configure auto-publish for current project",
+		show_auto_publish_log: "Show auto-publish log",
+		run_publish_preflight: "Check selected content before publishing",
+		republish_changed_projects: "Republish all projects changed since last publish",
+		show_file_history: "Show file history",
+		show_sync_conflicts: "Show sync conflicts",
+		show_sync_log: "Show sync log",
+		show_sync_log_for_file: "Show sync log for current file",
+		show_sync_status: "Show sync status",
+		semantic_search: "Semantic search",
+	},
 
 	theme: {
 		choose_theme: "Choose a Theme",
@@ -512,6 +740,107 @@ export const en: TranslationNamespace = {
 		minutes_ago: "{{count}} minutes ago",
 		hours_ago: "{{count}} hours ago",
 		days_ago: "{{count}} days ago",
+		search_projects: "Search projects...",
+		loading_projects: "Loading projects...",
+		select_all: "Select all",
+		no_source: "No source folder",
+		never: "never",
+		last_build: "Built",
+		last_publish: "Published",
+		bulk_rebuild: "Rebuild",
+		bulk_republish: "Republish",
+		bulk_stop_preview: "Stop preview",
+		bulk_progress: "{{current}} of {{total}}: {{name}}",
+		bulk_complete: "{{succeeded}} of {{total}} projects completed",
+		status_pending: "Waiting",
+		status_running: "Running",
+		status_success: "Done",
+		status_failed: "Failed",
+		no_changed_projects: "No projects have changed since they were last published",
+	},
+
+	auto_publish: {
+		title: "Auto-publish: {{name}}",
+		mode: "Mode",
+		mode_desc: "Publish this project automatically, without opening the publish panel. Uses the publish method saved for the project.",
+		mode_off: "Off",
+		mode_schedule: "On a schedule",
+		mode_watch: "After edits in the project folder",
+		cron: "Schedule",
+		cron_desc: 'Cron expression: minute hour day month weekday. Example: "0 9 * * 1-5" publishes at 9:00 on weekdays.',
+		debounce: "Wait time (seconds)",
+		debounce_desc: "Publish once no files in the project have changed for this long. Minimum {{min}} seconds.",
+		publish_now: "Publish now",
+		publishing: "Publishing...",
+		save: "Save",
+		saved: "Auto-publish settings saved",
+		save_failed: "Failed to save auto-publish settings",
+		invalid_cron: "Invalid cron expression",
+		invalid_debounce: "Wait time must be at least {{min}} seconds",
+		already_running: 'Project "{{name}}" is already publishing',
+		run_succeeded: 'Project "{{name}}" published',
+		run_failed: 'Auto-publish of "{{name}}" failed: {{error}}',
+		recent_runs: "Recent runs",
+		log_title: "Auto-publish log",
+		no_runs: "No runs yet",
+		status_success: "Published",
+		status_failed: "Failed",
+		trigger_schedule: "Scheduled",
+		trigger_watch: "After edits",
+		trigger_manual: "Manual",
+		select_project: "Open a project first, or use the clock button in the project list",
+	},
+
+	auto_ingest: {
+		status_idle: "Wiki synced",
+		status_running: "Wiki: ingesting {{name}} ({{queued}} queued)",
+		status_budget: "Wiki: daily budget reached ({{queued}} queued)",
+		status_failed: "Wiki: ingest failed",
+		status_usage: "Tokens today: {{used}} / {{budget}}",
+		stop: "Stop ingesting {{name}}",
+		queued: "Queued: {{name}} (click to remove)",
+		sync_now: "Ingest changes now: {{name}}",
+		run_failed: "Background ingest failed for {{name}}: {{error}}",
+	},
+
+	semantic_search: {
+		title: "Semantic search",
+		placeholder: "Search notes by meaning...",
+		mode_hybrid: "Hybrid",
+		mode_semantic: "Semantic",
+		mode_keyword: "Keyword",
+		indexing_start: "Updating index...",
+		indexing: "Indexing notes {{done}}/{{total}}...",
+		index_failed: "Index update failed: {{error}}",
+		stats: "{{notes}} notes, {{passages}} passages indexed",
+		keyword_only: " · No embedding provider configured, keyword search only",
+		embedding_failed: " · Embeddings unavailable ({{error}}), keyword search only",
+		fallback: "Showing keyword results: {{reason}}",
+		no_results: "No matching notes",
+		search_failed: "Search failed: {{error}}",
+	},
+
+	preflight: {
+		title: "Publish preflight",
+		summary: "{{files}} notes checked: {{errors}} errors, {{warnings}} warnings",
+		no_issues: "No issues found",
+		no_content: "Select a folder or file in the publish panel first",
+		blocked: "Publishing is blocked until the errors are fixed",
+		kind_private_note: "Private notes",
+		kind_missing_embed: "Missing embeds",
+		kind_unresolved_link: "Unresolved links",
+		kind_outside_link: "Links outside the published content",
+		kind_oversized_attachment: "Large attachments",
+		detail_private_note: "Marked private by {{flag}}",
+		detail_missing_embed: "Cannot find {{target}}",
+		detail_unresolved_link: "No note named {{target}}",
+		detail_outside_link: "{{target}} is not published, the link will not work",
+		detail_oversized_attachment: "{{size}} MB, limit is {{max}} MB",
+		open_note: "Open note",
+		close: "Close",
+		cancel: "Cancel",
+		publish: "Publish",
+		publish_anyway: "Publish anyway",
 	},
 
 	messages: {
@@ -532,6 +861,7 @@ export const en: TranslationNamespace = {
 	publish_completed: "Published successfully",
 	publish_failed: "Publishing failed",
 	publish_stopped: "Publishing stopped",
+	publish_in_progress: 'Project "{{name}}" is already publishing',
 
 		// Preview messages
 		no_folder_selected: "No folder selected",
@@ -563,6 +893,8 @@ export const en: TranslationNamespace = {
 
 	// FTP messages
 	ftp_settings_missing: "Please configure FTP settings first",
+	git_settings_missing: "Please configure the Git repository first",
+	s3_settings_missing: "Please configure the S3 bucket and access keys first",
 	ftp_upload_failed: "FTP upload failed: {{error}}",
 	ftp_upload_success: "Site uploaded to FTP server successfully!",
 	ftp_fallback_to_plain:
@@ -118,6 +118,67 @@ export const zhCn: TranslationNamespace = {
 		ignore_patterns_add: "添加规则",
 		ignore_patterns_delete: "删除规则",
 		ignore_patterns_custom_rule: "自定义规则",
+		sync_profiles: "同步配置",
+		sync_profiles_desc: "按文件夹命名的同步范围。每台设备选择自己的配置；被排除的文件夹不会下载到该设备，也不会从该设备上传。",
+		sync_profile_active: "此设备的配置",
+		sync_profile_active_desc: "仅保存在此设备上。已在被排除文件夹中的文件会保留在磁盘上，但不再同步。",
+		sync_profile_whole_vault: "整个仓库",
+		sync_profile_add: "添加配置",
+		sync_profile_delete: "删除配置",
+		sync_profile_name: "配置名称",
+		sync_profile_default_name: "配置 {{count}}",
+		sync_profile_include: "包含文件夹",
+		sync_profile_include_desc: "以逗号分隔。留空表示包含整个仓库。",
+		sync_profile_exclude: "排除文件夹",
+		sync_profile_exclude_desc: "以逗号分隔，此配置永不同步的文件夹。",
+		sync_profile_folders_placeholder: "例如 Archive, Attachments/Video",
+
+		// Storage cleanup
+		chunk_gc: "存储清理",
+		chunk_gc_desc: "删除不再被任何版本使用的数据块。数据块先被标记，在一天之后且其他设备都已连接过服务器后，由下一次清理删除。",
+		chunk_gc_schedule: "自动清理",
+		chunk_gc_schedule_desc: "在 Obsidian 打开时按此周期运行清理",
+		chunk_gc_schedule_off: "关闭",
+		chunk_gc_schedule_daily: "每天",
+		chunk_gc_schedule_weekly: "每周",
+		chunk_gc_remote: "清理服务器",
+		chunk_gc_remote_desc: "同时删除仅存在于服务器上的孤立数据块，开启压缩时同时压缩服务器数据库。在本设备删除的数据块无论如何都会通过同步从服务器删除。",
+		chunk_gc_compact: "压缩数据库（移除文件历史）",
+		chunk_gc_compact_desc: "清理后压缩本地数据库（清理服务器时也压缩服务器数据库），回收更多空间。警告：文件历史中的旧版本将被永久移除。",
+		chunk_gc_compact_enabled: "已开启压缩：下次清理将永久移除文件历史中的旧版本",
+		chunk_gc_actions: "运行清理",
+		chunk_gc_dry_run: "试运行",
+		chunk_gc_run: "立即运行",
+		chunk_gc_running: "运行中...",
+		chunk_gc_never_run: "本设备尚未运行过",
+		chunk_gc_last_run: "上次运行 {{time}}：{{summary}}",
+		chunk_gc_report: "孤立数据块 {{orphaned}} 个，已删除 {{deleted}} 个，等待中 {{pending}} 个，回收 {{bytes}}",
+		chunk_gc_report_dry: "试运行：孤立数据块 {{orphaned}} 个，现在可删除 {{deleted}} 个，等待中 {{pending}} 个",
+		chunk_gc_waiting_for: "等待以下设备连接：{{devices}}",
+		chunk_gc_failed: "存储清理失败：{{error}}",
+		sync_remote: "同步远端",
+		sync_remote_desc: "此仓库同步到的位置。默认使用授权的 CouchDB 服务器；也可以使用 S3 兼容存储桶（AWS S3、MinIO、Cloudflare R2），变更以加密日志文件的形式保存。",
+		sync_remote_type: "远端类型",
+		sync_remote_type_couchdb: "CouchDB 服务器",
+		sync_remote_type_s3: "S3 兼容存储桶",
+		sync_remote_endpoint: "服务地址",
+		sync_remote_endpoint_desc: "使用 AWS S3 时留空",
+		sync_remote_region: "区域",
+		sync_remote_region_desc: "Cloudflare R2 请填写 \"auto\"",
+		sync_remote_bucket: "存储桶",
+		sync_remote_access_key: "Access Key",
+		sync_remote_secret_key: "Secret Key",
+		sync_remote_prefix: "目录",
+		sync_remote_prefix_desc: "存储桶内的目录，便于一个存储桶存放多个仓库",
+		sync_remote_path_style: "路径风格访问",
+		sync_remote_path_style_desc: "MinIO 和大多数自建服务需要开启",
+		sync_remote_test: "测试连接",
+		sync_remote_test_success: "存储桶连接成功",
+		sync_remote_test_failed: "无法连接存储桶：{{error}}",
+		sync_remote_bucket_required: "请填写存储桶、Access Key 和 Secret Key",
+		sync_remote_apply: "应用",
+		sync_remote_apply_desc: "保存远端设置并重新启动同步。下次同步时会将本地变更上传到新的远端。",
+		sync_remote_applied: "同步远端已更新",
 
 		// Publish settings
 		publish_settings: "发布设置",
@@ -130,6 +191,8 @@ export const zhCn: TranslationNamespace = {
 	publish_method_mdfriday_enterprise: "MDFriday 企业版",
 	publish_method_netlify: "Netlify",
 	publish_method_ftp: "FTP",
+	publish_method_git: "Git（GitHub Pages、Gitea 等）",
+	publish_method_s3: "S3（AWS S3、MinIO、Cloudflare R2 等）",
 		license_required: "请升级您的套餐以使用此功能",
 		upgrade_for_mdfshare: "请升级您的套餐以使用 MDFriday 分享功能",
 		upgrade_for_subdomain: "请升级您的套餐以使用 MDFriday 子域名功能",
@@ -147,15 +210,26 @@ export const zhCn: TranslationNamespace = {
 
 		// FTP settings
 		ftp_settings: "FTP 设置",
+		ftp_protocol: "协议",
+		ftp_protocol_desc: "FTP 会优先尝试显式 FTPS；SFTP 通过 SSH 连接",
+		ftp_protocol_ftp: "FTP / FTPS",
+		ftp_protocol_sftp: "SFTP（SSH）",
 		ftp_server: "服务器地址",
 		ftp_server_desc: "FTP 服务器域名或 IP 地址",
 		ftp_server_placeholder: "例如：ftp.example.com",
+		ftp_port: "端口",
+		ftp_port_desc: "留空使用默认端口（FTP 21、SFTP 22）",
 		ftp_username: "用户名",
 		ftp_username_desc: "FTP 登录用户名",
 		ftp_username_placeholder: "请输入用户名",
 		ftp_password: "密码",
-		ftp_password_desc: "FTP 登录密码",
+		ftp_password_desc: "登录密码（SFTP 使用私钥时可不填）",
 		ftp_password_placeholder: "请输入密码",
+		ftp_private_key: "私钥文件",
+		ftp_private_key_desc: "仅 SFTP：SSH 私钥路径，填写后使用私钥登录，不再使用密码",
+		ftp_private_key_placeholder: "例如：~/.ssh/id_ed25519",
+		ftp_passphrase: "私钥口令",
+		ftp_passphrase_desc: "私钥未加密时留空",
 		ftp_remote_dir: "远程目录",
 		ftp_remote_dir_desc: "上传的目标目录路径",
 		ftp_remote_dir_placeholder: "例如：/www/site",
@@ -167,6 +241,52 @@ export const zhCn: TranslationNamespace = {
 		ftp_test_connection_success: "连接成功",
 		ftp_test_connection_failed: "连接失败",
 
+		// Git 设置
+		git_settings: "Git 设置",
+		git_repository: "仓库",
+		git_repository_desc: "远程仓库的 HTTPS 地址，或本地（bare）仓库的路径",
+		git_repository_placeholder: "例如：https://github.com/user/site.git",
+		git_branch: "分支",
+		git_branch_desc: "存放构建结果的分支，首次发布时自动创建",
+		git_username: "用户名",
+		git_username_desc: "可选，默认为 x-access-token",
+		git_token: "访问令牌",
+		git_token_desc: "具有推送权限的个人访问令牌（作为 HTTP 密码发送）",
+		git_site_url: "站点地址",
+		git_site_url_desc: "该分支的访问地址，发布完成后显示",
+		git_test_connection: "测试仓库访问",
+		git_test_connection_testing: "测试中...",
+		git_test_connection_success: "连接成功",
+		git_test_connection_failed: "连接失败",
+		s3_settings: "S3 设置",
+		s3_endpoint: "服务地址",
+		s3_endpoint_desc: "S3 兼容服务的地址（MinIO、Cloudflare R2 等），使用 AWS S3 时留空",
+		s3_region: "区域",
+		s3_region_desc: "Bucket 所在区域，Cloudflare R2 填写 “auto”",
+		s3_bucket: "Bucket",
+		s3_access_key_id: "Access Key ID",
+		s3_secret_access_key: "Secret Access Key",
+		s3_prefix: "前缀",
+		s3_prefix_desc: "可选，Bucket 内的子目录",
+		s3_force_path_style: "路径形式地址",
+		s3_force_path_style_desc: "使用 endpoint/bucket 形式的地址，而不是 bucket.endpoint（MinIO 需要开启）",
+		s3_site_url: "站点地址",
+		s3_site_url_desc: "Bucket 的访问地址，发布完成后显示",
+		s3_test_connection: "测试 Bucket 访问",
+		s3_test_connection_desc: "使用当前凭证检查能否列出 Bucket 中的文件",
+		s3_test_connection_testing: "测试中...",
+		s3_test_connection_success: "连接成功",
+		s3_test_connection_failed: "连接失败",
+		preflight: "发布预检",
+		preflight_enabled: "发布前检查",
+		preflight_enabled_desc: "每次发布前检查所选文件夹或文件中的失效链接、缺失的嵌入资源、私有笔记和过大的附件，发现问题时显示报告",
+		preflight_block_on_errors: "有错误时阻止发布",
+		preflight_block_on_errors_desc: "私有笔记和缺失的嵌入资源属于错误。开启后必须先修复才能发布",
+		preflight_private_flags: "私有笔记标记",
+		preflight_private_flags_desc: "将笔记标记为私有的 frontmatter 属性，用逗号分隔。只写属性名表示值为 true",
+		preflight_max_attachment: "附件大小上限（MB）",
+		preflight_max_attachment_desc: "报告超过此大小的附件。设为 0 关闭此检查",
+
 	// MDFriday 子域名设置
 	mdfriday_app: "MDFriday 子域名",
 	mdfriday_app_desc: "配置您的个人子域名，用于发布站点",
@@ -250,6 +370,14 @@ export const zhCn: TranslationNamespace = {
 		// AI 输出语言
 		ai_output_language: "AI 输出语言",
 		ai_output_language_desc: "对话和知识库功能中 AI 回复使用的语言。自动模式跟随 Obsidian 界面语言。",
+		ai_follow_up_turns: "追问上下文",
+		ai_follow_up_turns_desc: "知识库对话中用于理解追问的最近问答轮数。设为 0 时每个问题单独回答。",
+		ai_auto_ingest_budget: "后台 ingest 每日预算",
+		ai_auto_ingest_budget_desc: "后台 ingest（知识库对话中 `/watch on`）每天可使用的 token 数，按 AI 服务返回的用量计算（未返回时按笔记大小估算），超出预算的笔记留到第二天处理。设为 0 不限制。",
+		ai_assistant_system_prompt: "助手系统提示词",
+		ai_assistant_system_prompt_desc: "对话助手模式使用的指令，留空使用默认提示词。",
+		ai_assistant_temperature: "助手温度",
+		ai_assistant_temperature_desc: "数值越低回答越稳定，越高越多样。",
 		ai_output_lang_auto: "自动（跟随 Obsidian 语言）",
 		ai_output_lang_en: "英语 / English",
 		ai_output_lang_zh: "中文（简体）",
@@ -290,18 +418,46 @@ export const zhCn: TranslationNamespace = {
 		title: "Friday Chat",
 		new_conversation: "新建对话",
 		switch_to_manual: "切换到手动模式",
+		history: "历史对话",
+		history_search: "搜索对话...",
+		history_empty: "没有保存的对话",
+		history_rename: "重命名",
+		history_delete: "删除",
+
+		// Chat modes
+		mode_wiki: "知识库",
+		mode_assistant: "助手",
+		mode_switch_busy: "请等待当前回复完成后再切换模式",
 
 		// 输入区
-		input_placeholder: "发送消息... （/ 输入命令，@ 选择文件夹）",
+		input_placeholder: "发送消息... （/ 输入命令，@ 选择文件夹，@[[ 附加笔记，@# 附加标签）",
+		input_placeholder_assistant: "发送消息... （@[[ 附加笔记，@# 附加标签）",
 		input_hint: "↵ 发送 · ⇧↵ 换行",
 		send: "发送",
 		sending: "发送中…",
+		stop: "停止",
+		stopping: "正在停止…",
+		interrupted: "已中断",
+		sources: "来源",
+		source_wiki: "Wiki 页面",
+		source_note: "笔记",
 		thinking: "思考中…",
 		copied: "已复制",
+		attach: "添加上下文",
+		attach_current_note: "当前笔记",
+		attach_current_note_named: "当前笔记：{{name}}",
+		attach_selection: "编辑器选中内容",
+		attach_note: "笔记…",
+		attach_tag: "带标签的笔记…",
+		attach_remove: "移除",
+		model_picker: "模型",
+		model_default: "{{model}}（默认）",
+		models_loading: "正在加载模型…",
 
 		// 欢迎界面
 		welcome_greeting: "你好，有什么可以帮你？",
 		welcome_hint: "你的 Obsidian AI 助手。",
+		welcome_hint_assistant: "直接与 AI Provider 对话。用 @[[ 或 @# 附加笔记后可针对笔记提问。",
 		cmd_wiki_desc: "将文件夹构建为知识库",
 		cmd_ask_desc: "跨笔记提问",
 		cmd_save_desc: "保存本次对话",
@@ -314,15 +470,60 @@ export const zhCn: TranslationNamespace = {
 		ingest_get_project: "获取知识库项目...",
 		ingest_processing: "处理文件并生成知识库...",
 		ingest_ready: "\n\n**知识库已就绪！** 你可以开始提问，输入 `/publish` 发布，或 `/save [标题]` 保存本次对话。\n",
+		ingest_changes: "新增 {{added}}，修改 {{modified}}，未变 {{unchanged}}，删除 {{removed}}",
+		ingest_removed_knowledge: "已移除 {{count}} 个来自已删除或已修改笔记的实体/概念",
 		ingest_no_folder: "❌ **错误**：请指定一个文件夹。\n\n**用法**：`/wiki @文件夹名`",
+		ingest_cancelled: "已取消。已处理的文件会保留，重新执行 `/wiki @文件夹` 即可继续。",
 
 		// 运行时 — 查询
 		query_no_wiki: "⚠️ **没有活跃的知识库**\n\n请先使用 `/wiki @文件夹名` 摄入一个文件夹",
 		query_searching: "搜索知识库...",
+		query_condensing: "理解追问...",
+		query_condensed: "追问理解为：{{question}}",
+		query_sources_found: "找到 {{count}} 个来源",
 		query_querying: "查询 LLM...",
+		query_cancelled: "已取消",
+
+		// Runtime — context attachments
+		context_no_provider: "未配置 AI Provider，请先在设置中配置后再基于附加笔记提问",
+		context_reading: "正在读取 {{count}} 个附加内容...",
+		context_loaded: "已加载 {{count}} 篇笔记",
+		context_loaded_truncated: "已加载 {{count}} 篇笔记，其中 {{truncated}} 篇因长度限制被截断",
+		context_empty: "附加的笔记已不存在，或没有带该标签的笔记",
+
+		// Runtime — assistant
+		assistant_no_provider: "⚠️ **尚未配置 AI Provider**\n\n请先在 设置 → AI 中配置，再与助手对话。",
+		assistant_command: "`{{cmd}}` 是知识库命令，请在对话顶部切换到**知识库**模式后使用。",
+
+		// Runtime — note edits
+		edit_drafting: "正在起草对 {{path}} 的修改...",
+		edit_proposed: "{{path}}：+{{added}} −{{removed}} 行",
+		edit_proposed_create: "新笔记 {{path}}：{{added}} 行",
+		edit_incomplete: "修改建议未完整输出",
+		edit_no_path: "修改建议没有指明笔记",
+		edit_not_attached: "{{path}} 未完整附加，无法修改。请附加整篇笔记后重新提问。",
+		edit_exists: "{{path}} 已存在",
+		edit_apply: "应用",
+		edit_reject: "拒绝",
+		edit_apply_changed: "{{path}} 在提出修改后已被更改，请重新提问以获取最新的修改。",
+		edit_apply_missing: "{{path}} 已不存在",
+		edit_apply_exists: "{{path}} 已存在",
+		edit_apply_failed: "应用修改失败：{{error}}",
+		edit_status_pending: "未应用",
+		edit_status_applied: "已应用",
+		edit_status_rejected: "已拒绝",
+		edit_record: "{{path}}（+{{added}} −{{removed}}）· {{status}}",
+		edit_unchanged_lines: "⋯ {{count}} 行未修改",
 
 		// 运行时 — 保存
 		save_no_wiki: "⚠️ **没有活跃的知识库**",
+		watch_no_wiki: "⚠️ **没有活跃的知识库**\n\n请先执行 `/wiki @文件夹`，再用 `/watch on` 保持同步。\n",
+		watch_unavailable: "⚠️ 后台 ingest 仅在桌面端可用。\n",
+		watch_enabled: "👀 **正在监听 `{{folder}}`**\n\n笔记修改后 {{seconds}} 秒在后台自动 ingest，受每日 token 预算限制（设置 → AI）。输入 `/watch off` 停止。\n",
+		watch_disabled: "已停止监听 `{{folder}}`，可执行 `/wiki @文件夹` 手动更新知识库。\n",
+		watch_status_on: "👀 正在监听 `{{folder}}`，输入 `/watch off` 停止。\n",
+		watch_status_off: "未监听 `{{folder}}`，输入 `/watch on` 在后台 ingest 笔记的修改。\n",
+		watch_save_failed: "❌ 保存监听设置失败。\n",
 		save_saving: "💾 保存对话：「{{title}}」...\n",
 		save_complete: "✅ **对话已保存！**\n\n文件：`{{file}}`\n\n该对话已自动摄入到知识库中。\n\n继续提问或 `/publish` 分享你的知识库。\n",
 
@@ -332,7 +533,7 @@ export const zhCn: TranslationNamespace = {
 		publish_live: "\n### 🎊 你的知识库已上线！\n\n继续对话完善内容，再次 `/publish` 即可更新。\n",
 
 		// 运行时 — 未知命令
-		unknown_cmd: "❌ **未知命令**：`{{cmd}}`\n\n可用命令：\n• `/wiki @文件夹` — 将文件夹构建为知识库\n• `/ask 问题` — 查询知识库（或直接输入）\n• `/save [标题]` — 保存对话\n• `/publish` — 发布知识库到 MDFriday\n",
+		unknown_cmd: "❌ **未知命令**：`{{cmd}}`\n\n可用命令：\n• `/wiki @文件夹` — 将文件夹构建为知识库\n• `/ask 问题` — 查询知识库（或直接输入）\n• `/save [标题]` — 保存对话\n• `/watch on|off` — 在后台 ingest 修改\n• `/publish` — 发布知识库到 MDFriday\n",
 	},
 
 	ui: {
@@ -372,6 +573,17 @@ export const zhCn: TranslationNamespace = {
 		disqus_shortname: "Disqus 短名称",
 		disqus_placeholder: "your-site-shortname",
 		disqus_hint: "您的 Disqus 短名称，用于评论功能（可选）",
+		publish_filters: "发布过滤",
+		filter_require_publish: "只发布 publish: true 的笔记",
+		filter_exclude_drafts: "跳过草稿（draft: true）",
+		filter_include_tags: "只发布这些标签，逗号分隔（可选）",
+		filter_exclude_tags: "跳过这些标签，逗号分隔（可选）",
+		filter_include_globs: "只发布匹配的路径，每行一个，如 posts/**",
+		filter_exclude_globs: "跳过匹配的路径，每行一个，如 drafts/**",
+		filter_globs_hint: "相对于内容文件夹的 glob 模式。* 匹配同一文件夹内，** 匹配任意层文件夹，不含 / 的模式匹配任意位置的文件名",
+		filter_linked_from_index: "只发布从首页笔记链接到的笔记",
+		filter_index_note_hint: "首页笔记路径，相对于内容文件夹",
+		publish_filters_count: "将发布 {{included}} / {{total}} 篇笔记",
 		theme: "主题",
 		change_theme: "更换主题",
 		download_sample: "下载样例",
@@ -412,6 +624,8 @@ export const zhCn: TranslationNamespace = {
 		publish_option_mdfriday_enterprise: "MDFriday 企业版",
 		publish_option_netlify: "Netlify",
 		publish_option_ftp: "FTP 上传",
+		publish_option_git: "Git 推送",
+		publish_option_s3: "S3 存储桶",
 		mdfriday_free_hint: "MDFriday 免费版允许您免费发布站点。发布的站点内容有效期为 24 小时，过期后自动失效。",
 		mdfriday_share_hint: "MDFriday 分享允许您即时分享站点。您的站点将发布到您的个人 MDFriday 空间。",
 		mdfriday_app_hint: "MDFriday 子域名将您的站点发布到个人子域名。您的站点将可通过 your-subdomain.mdfriday.com 访问。",
@@ -419,6 +633,7 @@ export const zhCn: TranslationNamespace = {
 		mdfriday_enterprise_hint: "MDFriday 企业版将您的站点发布到企业服务器。请确保已配置企业服务器地址。",
 		mdfriday_license_required: "此功能需要激活许可证。请在设置中激活您的许可证。",
 		publish_building: "正在发布...",
+		publish_files_progress: "已上传 {{completed}} / {{total}} 个变更文件",
 		publish_success: "发布成功！",
 		publish_failed: "发布失败",
 		published_successfully: "发布成功！",
@@ -443,9 +658,21 @@ export const zhCn: TranslationNamespace = {
 		publish_to_mdfriday_enterprise: "发布到企业域名",
 		publish_to_netlify: "发布到 Netlify",
 		publish_to_ftp: "发布到 FTP",
+		show_file_history: "查看文件历史",
 	},
 
-	commands: {},
+	commands: {
+		configure_auto_publish: "为当前项目配置自动发布",
+		show_auto_publish_log: "查看自动发布日志",
+		run_publish_preflight: "发布前检查所选内容",
+		republish_changed_projects: "重新发布自上次发布后有修改的项目",
+		show_file_history: "查看文件历史",
+		show_sync_conflicts: "显示同步冲突",
+		show_sync_log: "显示同步日志",
+		show_sync_log_for_file: "显示当前文件的同步日志",
+		show_sync_status: "显示同步状态",
+		semantic_search: "语义搜索",
+	},
 
 	theme: {
 		choose_theme: "选择主题",
@@ -503,6 +730,107 @@ export const zhCn: TranslationNamespace = {
 		minutes_ago: "{{count}} 分钟前",
 		hours_ago: "{{count}} 小时前",
 		days_ago: "{{count}} 天前",
+		search_projects: "搜索项目...",
+		loading_projects: "正在加载项目...",
+		select_all: "全选",
+		no_source: "没有源文件夹",
+		never: "从未",
+		last_build: "构建",
+		last_publish: "发布",
+		bulk_rebuild: "重新构建",
+		bulk_republish: "重新发布",
+		bulk_stop_preview: "停止预览",
+		bulk_progress: "{{current}} / {{total}}：{{name}}",
+		bulk_complete: "{{succeeded}} / {{total}} 个项目已完成",
+		status_pending: "等待中",
+		status_running: "进行中",
+		status_success: "完成",
+		status_failed: "失败",
+		no_changed_projects: "自上次发布后没有项目发生修改",
+	},
+
+	auto_publish: {
+		title: "自动发布：{{name}}",
+		mode: "模式",
+		mode_desc: "无需打开发布面板即可自动发布此项目，使用项目已保存的发布方式。",
+		mode_off: "关闭",
+		mode_schedule: "按计划",
+		mode_watch: "项目文件夹内有修改后",
+		cron: "计划",
+		cron_desc: 'Cron 表达式：分 时 日 月 周。例如 "0 9 * * 1-5" 表示工作日 9:00 发布。',
+		debounce: "等待时间（秒）",
+		debounce_desc: "项目内文件在这段时间内没有新的修改后再发布。最少 {{min}} 秒。",
+		publish_now: "立即发布",
+		publishing: "发布中...",
+		save: "保存",
+		saved: "自动发布设置已保存",
+		save_failed: "保存自动发布设置失败",
+		invalid_cron: "无效的 Cron 表达式",
+		invalid_debounce: "等待时间至少为 {{min}} 秒",
+		already_running: '项目 "{{name}}" 正在发布中',
+		run_succeeded: '项目 "{{name}}" 已发布',
+		run_failed: '项目 "{{name}}" 自动发布失败：{{error}}',
+		recent_runs: "最近运行",
+		log_title: "自动发布日志",
+		no_runs: "暂无运行记录",
+		status_success: "已发布",
+		status_failed: "失败",
+		trigger_schedule: "定时",
+		trigger_watch: "修改后",
+		trigger_manual: "手动",
+		select_project: "请先打开一个项目，或在项目列表中点击时钟按钮",
+	},
+
+	auto_ingest: {
+		status_idle: "知识库已同步",
+		status_running: "知识库：正在 ingest {{name}}（排队 {{queued}}）",
+		status_budget: "知识库：已达每日预算（排队 {{queued}}）",
+		status_failed: "知识库：ingest 失败",
+		status_usage: "今日 token：{{used}} / {{budget}}",
+		stop: "停止 ingest {{name}}",
+		queued: "排队中：{{name}}（点击移除）",
+		sync_now: "立即 ingest 修改：{{name}}",
+		run_failed: "{{name}} 后台 ingest 失败：{{error}}",
+	},
+
+	semantic_search: {
+		title: "语义搜索",
+		placeholder: "按含义搜索笔记...",
+		mode_hybrid: "混合",
+		mode_semantic: "语义",
+		mode_keyword: "关键词",
+		indexing_start: "正在更新索引...",
+		indexing: "正在索引笔记 {{done}}/{{total}}...",
+		index_failed: "索引更新失败：{{error}}",
+		stats: "已索引 {{notes}} 篇笔记，{{passages}} 个段落",
+		keyword_only: " · 未配置 Embedding Provider，仅支持关键词搜索",
+		embedding_failed: " · Embedding 不可用（{{error}}），仅支持关键词搜索",
+		fallback: "显示关键词结果：{{reason}}",
+		no_results: "没有匹配的笔记",
+		search_failed: "搜索失败：{{error}}",
+	},
+
+	preflight: {
+		title: "发布预检",
+		summary: "已检查 {{files}} 篇笔记：{{errors}} 个错误，{{warnings}} 个警告",
+		no_issues: "未发现问题",
+		no_content: "请先在发布面板中选择文件夹或文件",
+		blocked: "修复错误后才能发布",
+		kind_private_note: "私有笔记",
+		kind_missing_embed: "缺失的嵌入资源",
+		kind_unresolved_link: "无法解析的链接",
+		kind_outside_link: "指向发布内容之外的链接",
+		kind_oversized_attachment: "过大的附件",
+		detail_private_note: "由 {{flag}} 标记为私有",
+		detail_missing_embed: "找不到 {{target}}",
+		detail_unresolved_link: "没有名为 {{target}} 的笔记",
+		detail_outside_link: "{{target}} 不会被发布，链接将失效",
+		detail_oversized_attachment: "{{size}} MB，上限为 {{max}} MB",
+		open_note: "打开笔记",
+		close: "关闭",
+		cancel: "取消",
+		publish: "发布",
+		publish_anyway: "仍然发布",
 	},
 
 	messages: {
@@ -523,6 +851,7 @@ export const zhCn: TranslationNamespace = {
 	publish_completed: "发布成功",
 	publish_failed: "发布失败",
 	publish_stopped: "发布已停止",
+	publish_in_progress: '项目 "{{name}}" 正在发布中',
 
 		// Preview messages
 		no_folder_selected: "未选择文件夹",
@@ -553,6 +882,8 @@ export const zhCn: TranslationNamespace = {
 
 	// FTP messages
 	ftp_settings_missing: "请先配置 FTP 设置",
+	git_settings_missing: "请先配置 Git 仓库",
+	s3_settings_missing: "请先配置 S3 Bucket 和访问密钥",
 	ftp_upload_failed: "FTP 上传失败：{{error}}",
 	ftp_upload_success: "站点已成功上传到 FTP 服务器！",
 	ftp_fallback_to_plain: "服务器不支持加密，已切换到普通 FTP",
@@ -117,6 +117,8 @@ export interface TranslationNamespace {
 		publish_method_desc: string;
 		publish_method_netlify: string;
 		publish_method_ftp: string;
+		publish_method_git: string;
+		publish_method_s3: string;
 
 		// Netlify settings
 		netlify_settings: string;
@@ -129,15 +131,26 @@ export interface TranslationNamespace {
 
 		// FTP settings
 		ftp_settings: string;
+		ftp_protocol: string;
+		ftp_protocol_desc: string;
+		ftp_protocol_ftp: string;
+		ftp_protocol_sftp: string;
 		ftp_server: string;
 		ftp_server_desc: string;
 		ftp_server_placeholder: string;
+		ftp_port: string;
+		ftp_port_desc: string;
 		ftp_username: string;
 		ftp_username_desc: string;
 		ftp_username_placeholder: string;
 		ftp_password: string;
 		ftp_password_desc: string;
 		ftp_password_placeholder: string;
+		ftp_private_key: string;
+		ftp_private_key_desc: string;
+		ftp_private_key_placeholder: string;
+		ftp_passphrase: string;
+		ftp_passphrase_desc: string;
 		ftp_remote_dir: string;
 		ftp_remote_dir_desc: string;
 		ftp_remote_dir_placeholder: string;
@@ -149,6 +162,52 @@ export interface TranslationNamespace {
 		ftp_test_connection_success: string;
 		ftp_test_connection_failed: string;
 
+		// Git settings
+		git_settings: string;
+		git_repository: string;
+		git_repository_desc: string;
+		git_repository_placeholder: string;
+		git_branch: string;
+		git_branch_desc: string;
+		git_username: string;
+		git_username_desc: string;
+		git_token: string;
+		git_token_desc: string;
+		git_site_url: string;
+		git_site_url_desc: string;
+		git_test_connection: string;
+		git_test_connection_testing: string;
+		git_test_connection_success: string;
+		git_test_connection_failed: string;
+		s3_settings: string;
+		s3_endpoint: string;
+		s3_endpoint_desc: string;
+		s3_region: string;
+		s3_region_desc: string;
+		s3_bucket: string;
+		s3_access_key_id: string;
+		s3_secret_access_key: string;
+		s3_prefix: string;
+		s3_prefix_desc: string;
+		s3_force_path_style: string;
+		s3_force_path_style_desc: string;
+		s3_site_url: string;
+		s3_site_url_desc: string;
+		s3_test_connection: string;
+		s3_test_connection_desc: string;
+		s3_test_connection_testing: string;
+		s3_test_connection_success: string;
+		s3_test_connection_failed: string;
+		preflight: string;
+		preflight_enabled: string;
+		preflight_enabled_desc: string;
+		preflight_block_on_errors: string;
+		preflight_block_on_errors_desc: string;
+		preflight_private_flags: string;
+		preflight_private_flags_desc: string;
+		preflight_max_attachment: string;
+		preflight_max_attachment_desc: string;
+
 		// General settings
 		general_settings: string;
 		download_server: string;
@@ -172,6 +231,67 @@ export interface TranslationNamespace {
 		ignore_patterns_add: string;
 		ignore_patterns_delete: string;
 		ignore_patterns_custom_rule: string;
+		sync_profiles: string;
+		sync_profiles_desc: string;
+		sync_profile_active: string;
+		sync_profile_active_desc: string;
+		sync_profile_whole_vault: string;
+		sync_profile_add: string;
+		sync_profile_delete: string;
+		sync_profile_name: string;
+		sync_profile_default_name: string;
+		sync_profile_include: string;
+		sync_profile_include_desc: string;
+		sync_profile_exclude: string;
+		sync_profile_exclude_desc: string;
+		sync_profile_folders_placeholder: string;
+
+		// Storage cleanup (orphan chunk garbage collection)
+		chunk_gc: string;
+		chunk_gc_desc: string;
+		chunk_gc_schedule: string;
+		chunk_gc_schedule_desc: string;
+		chunk_gc_schedule_off: string;
+		chunk_gc_schedule_daily: string;
+		chunk_gc_schedule_weekly: string;
+		chunk_gc_remote: string;
+		chunk_gc_remote_desc: string;
+		chunk_gc_compact: string;
+		chunk_gc_compact_desc: string;
+		chunk_gc_compact_enabled: string;
+		chunk_gc_actions: string;
+		chunk_gc_dry_run: string;
+		chunk_gc_run: string;
+		chunk_gc_running: string;
+		chunk_gc_never_run: string;
+		chunk_gc_last_run: string;
+		chunk_gc_report: string;
+		chunk_gc_report_dry: string;
+		chunk_gc_waiting_for: string;
+		chunk_gc_failed: string;
+		sync_remote: string;
+		sync_remote_desc: string;
+		sync_remote_type: string;
+		sync_remote_type_couchdb: string;
+		sync_remote_type_s3: string;
+		sync_remote_endpoint: string;
+		sync_remote_endpoint_desc: string;
+		sync_remote_region: string;
+		sync_remote_region_desc: string;
+		sync_remote_bucket: string;
+		sync_remote_access_key: string;
+		sync_remote_secret_key: string;
+		sync_remote_prefix: string;
+		sync_remote_prefix_desc: string;
+		sync_remote_path_style: string;
+		sync_remote_path_style_desc: string;
+		sync_remote_test: string;
+		sync_remote_test_success: string;
+		sync_remote_test_failed: string;
+		sync_remote_bucket_required: string;
+		sync_remote_apply: string;
+		sync_remote_apply_desc: string;
+		sync_remote_applied: string;
 
 		// Danger Zone - Reset
 		danger_zone: string;
@@ -185,6 +305,14 @@ export interface TranslationNamespace {
 		// AI Output Language
 		ai_output_language: string;
 		ai_output_language_desc: string;
+		ai_follow_up_turns: string;
+		ai_follow_up_turns_desc: string;
+		ai_auto_ingest_budget: string;
+		ai_auto_ingest_budget_desc: string;
+		ai_assistant_system_prompt: string;
+		ai_assistant_system_prompt_desc: string;
+		ai_assistant_temperature: string;
+		ai_assistant_temperature_desc: string;
 		ai_output_lang_auto: string;
 		ai_output_lang_en: string;
 		ai_output_lang_zh: string;
@@ -226,18 +354,46 @@ export interface TranslationNamespace {
 		title: string;
 		new_conversation: string;
 		switch_to_manual: string;
+		history: string;
+		history_search: string;
+		history_empty: string;
+		history_rename: string;
+		history_delete: string;
+
+		// Chat modes
+		mode_wiki: string;
+		mode_assistant: string;
+		mode_switch_busy: string;
 
 		// Input area
 		input_placeholder: string;
+		input_placeholder_assistant: string;
 		input_hint: string;
 		send: string;
 		sending: string;
+		stop: string;
+		stopping: string;
+		interrupted: string;
+		sources: string;
+		source_wiki: string;
+		source_note: string;
 		thinking: string;
 		copied: string;
+		attach: string;
+		attach_current_note: string;
+		attach_current_note_named: string;
+		attach_selection: string;
+		attach_note: string;
+		attach_tag: string;
+		attach_remove: string;
+		model_picker: string;
+		model_default: string;
+		models_loading: string;
 
 		// Welcome screen
 		welcome_greeting: string;
 		welcome_hint: string;
+		welcome_hint_assistant: string;
 		cmd_wiki_desc: string;
 		cmd_ask_desc: string;
 		cmd_save_desc: string;
@@ -250,15 +406,60 @@ export interface TranslationNamespace {
 		ingest_get_project: string;
 		ingest_processing: string;
 		ingest_ready: string;
+		ingest_changes: string;
+		ingest_removed_knowledge: string;
 		ingest_no_folder: string;
+		ingest_cancelled: string;
 
 		// Runtime — query
 		query_no_wiki: string;
 		query_searching: string;
+		query_condensing: string;
+		query_condensed: string;
+		query_sources_found: string;
 		query_querying: string;
+		query_cancelled: string;
+
+		// Runtime — context attachments
+		context_no_provider: string;
+		context_reading: string;
+		context_loaded: string;
+		context_loaded_truncated: string;
+		context_empty: string;
+
+		// Runtime — assistant
+		assistant_no_provider: string;
+		assistant_command: string;
+
+		// Runtime — note edits
+		edit_drafting: string;
+		edit_proposed: string;
+		edit_proposed_create: string;
+		edit_incomplete: string;
+		edit_no_path: string;
+		edit_not_attached: string;
+		edit_exists: string;
+		edit_apply: string;
+		edit_reject: string;
+		edit_apply_changed: string;
+		edit_apply_missing: string;
+		edit_apply_exists: string;
+		edit_apply_failed: string;
+		edit_status_pending: string;
+		edit_status_applied: string;
+		edit_status_rejected: string;
+		edit_record: string;
+		edit_unchanged_lines: string;
 
 		// Runtime — save
 		save_no_wiki: string;
+		watch_no_wiki: string;
+		watch_unavailable: string;
+		watch_enabled: string;
+		watch_disabled: string;
+		watch_status_on: string;
+		watch_status_off: string;
+		watch_save_failed: string;
 		save_saving: string;
 		save_complete: string;
 
@@ -308,6 +509,17 @@ export interface TranslationNamespace {
 		disqus_shortname: string;
 		disqus_placeholder: string;
 		disqus_hint: string;
+		publish_filters: string;
+		filter_require_publish: string;
+		filter_exclude_drafts: string;
+		filter_include_tags: string;
+		filter_exclude_tags: string;
+		filter_include_globs: string;
+		filter_exclude_globs: string;
+		filter_globs_hint: string;
+		filter_linked_from_index: string;
+		filter_index_note_hint: string;
+		publish_filters_count: string;
 		theme: string;
 		change_theme: string;
 		download_sample: string;
@@ -331,8 +543,11 @@ export interface TranslationNamespace {
 		publish_option_mdfriday_share: string;
 		publish_option_netlify: string;
 		publish_option_ftp: string;
+		publish_option_git: string;
+		publish_option_s3: string;
 		mdfriday_share_hint: string;
 		publish_building: string;
+		publish_files_progress: string;
 		publish_success: string;
 		publish_failed: string;
 		published_successfully: string;
@@ -349,10 +564,22 @@ export interface TranslationNamespace {
 		publish_to_web: string;
 		set_as_site_assets: string;
 		quick_share: string;
+		show_file_history: string;
 	};
 
 	// Commands
-	commands: {};
+	commands: {
+		configure_auto_publish: string;
+		show_auto_publish_log: string;
+		run_publish_preflight: string;
+		republish_changed_projects: string;
+		show_file_history: string;
+		show_sync_conflicts: string;
+		show_sync_log: string;
+		show_sync_log_for_file: string;
+		show_sync_status: string;
+		semantic_search: string;
+	};
 
 	// Theme selection
 	theme: {
@@ -412,6 +639,111 @@ export interface TranslationNamespace {
 		minutes_ago: string;
 		hours_ago: string;
 		days_ago: string;
+		search_projects: string;
+		loading_projects: string;
+		select_all: string;
+		no_source: string;
+		never: string;
+		last_build: string;
+		last_publish: string;
+		bulk_rebuild: string;
+		bulk_republish: string;
+		bulk_stop_preview: string;
+		bulk_progress: string;
+		bulk_complete: string;
+		status_pending: string;
+		status_running: string;
+		status_success: string;
+		status_failed: string;
+		no_changed_projects: string;
+	};
+
+	// Project auto-publish
+	auto_publish: {
+		title: string;
+		mode: string;
+		mode_desc: string;
+		mode_off: string;
+		mode_schedule: string;
+		mode_watch: string;
+		cron: string;
+		cron_desc: string;
+		debounce: string;
+		debounce_desc: string;
+		publish_now: string;
+		publishing: string;
+		save: string;
+		saved: string;
+		save_failed: string;
+		invalid_cron: string;
+		invalid_debounce: string;
+		already_running: string;
+		run_succeeded: string;
+		run_failed: string;
+		recent_runs: string;
+		log_title: string;
+		no_runs: string;
+		status_success: string;
+		status_failed: string;
+		trigger_schedule: string;
+		trigger_watch: string;
+		trigger_manual: string;
+		select_project: string;
+	};
+
+	// Background wiki ingest
+	auto_ingest: {
+		status_idle: string;
+		status_running: string;
+		status_budget: string;
+		status_failed: string;
+		status_usage: string;
+		stop: string;
+		queued: string;
+		sync_now: string;
+		run_failed: string;
+	};
+
+	// Semantic search
+	semantic_search: {
+		title: string;
+		placeholder: string;
+		mode_hybrid: string;
+		mode_semantic: string;
+		mode_keyword: string;
+		indexing_start: string;
+		indexing: string;
+		index_failed: string;
+		stats: string;
+		keyword_only: string;
+		embedding_failed: string;
+		fallback: string;
+		no_results: string;
+		search_failed: string;
+	};
+
+	// Publish preflight
+	preflight: {
+		title: string;
+		summary: string;
+		no_issues: string;
+		no_content: string;
+		blocked: string;
+		kind_private_note: string;
+		kind_missing_embed: string;
+		kind_unresolved_link: string;
+		kind_outside_link: string;
+		kind_oversized_attachment: string;
+		detail_private_note: string;
+		detail_missing_embed: string;
+		detail_unresolved_link: string;
+		detail_outside_link: string;
+		detail_oversized_attachment: string;
+		open_note: string;
+		close: string;
+		cancel: string;
+		publish: string;
+		publish_anyway: string;
 	};
 
 	// Notifications and messages
@@ -425,6 +757,7 @@ export interface TranslationNamespace {
 		publish_started: string;
 		publish_completed: string;
 		publish_failed: string;
+		publish_in_progress: string;
 
 		// Preview messages
 		no_folder_selected: string;
@@ -474,6 +807,8 @@ export interface TranslationNamespace {
 
 	// FTP messages
 	ftp_settings_missing: string;
+	git_settings_missing: string;
+	s3_settings_missing: string;
 	ftp_upload_failed: string;
 	ftp_upload_success: string;
 	ftp_fallback_to_plain: string;
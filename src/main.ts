@@ -1,7 +1,8 @@
 import {FileSystemAdapter, MarkdownView, Menu, Notice, Platform, Plugin, setIcon, TFile, TFolder} from 'obsidian';
+import {get} from 'svelte/store';
 import './styles/license-settings.css';
 import {I18nService} from "./i18n";
-import {type SyncConfig, SyncService, SyncStatusDisplay} from "./sync";
+import {ConflictListModal, FileHistoryModal, type SyncConfig, SyncHealthView, SyncLogView, SyncService, SyncStatusDisplay, VIEW_TYPE_FRIDAY_SYNC_HEALTH, VIEW_TYPE_FRIDAY_SYNC_LOG} from "./sync";
 import {
 	isLicenseExpired,
 	isValidLicenseKeyFormat,
@@ -27,9 +28,20 @@ import {LicenseServiceManager} from './services/license';
 import {DomainServiceManager} from './services/domain';
 import {LicenseStateManager} from './services/licenseState';
 import {ProjectServiceManager} from './services/project';
+import {PublishOrchestrator} from './services/publishOrchestrator';
 import type {ProjectState, SiteEventData, SiteEventType} from './types/events';
-import type {PublishMethod} from './types/publish';
-import {normalizePublishMethod} from './types/publish';
+import type {PublishMethod, ValidPublishMethod} from './types/publish';
+import {
+	DEFAULT_GIT_BRANCH,
+	DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB,
+	DEFAULT_PREFLIGHT_PRIVATE_FLAGS,
+	DEFAULT_S3_REGION,
+	type FtpProtocol,
+	normalizePublishMethod
+} from './types/publish';
+import {DEFAULT_FOLLOW_UP_TURNS} from './services/wiki/followUp';
+import {DEFAULT_AUTO_INGEST_DAILY_TOKENS} from './services/wiki/types';
+import {DEFAULT_ASSISTANT_TEMPERATURE} from './services/llm';
 import {getDefaultTheme, shouldUseInternalRenderer} from './utils/theme';
 import {joinPath, joinVaultPath} from './utils/common';
 
@@ -37,7 +49,14 @@ import {joinPath, joinVaultPath} from './utils/common';
 import type {Hugoverse} from "./hugoverse";
 import type {Site} from "./site";
 import type {ThemeSelectionModal} from "./theme/modal";
-import type {FoundryProjectManagementModal} from "./projects/foundryModal";
+import type {FoundryProjectManagementModal, ProjectDashboardOptions} from "./projects/foundryModal";
+import type {AutoPublishManager} from "./services/autoPublish";
+import type {ProjectActivityLog} from "./services/projectActivity";
+import type {AutoIngestManager} from "./services/wiki/autoIngest";
+import type {SemanticIndex} from "./services/search/semanticIndex";
+import type {SemanticSearchModal} from "./search/semanticSearchModal";
+import type {PreflightReport} from "./services/publishPreflight";
+import type {AutoPublishLogModal, AutoPublishModal} from "./projects/autoPublishModal";
 import {nameToIdAsync} from "src/utils/hash.ts";
 
 // Export view type for dynamic import
@@ -69,11 +88,35 @@ interface FridaySettings {
 	netlifyAccessToken: string;
 	netlifyProjectId: string;
 	// FTP Settings
+	ftpProtocol: FtpProtocol;
 	ftpServer: string;
+	ftpPort: number;
 	ftpUsername: string;
 	ftpPassword: string;
+	ftpPrivateKeyPath: string;
+	ftpPassphrase: string;
 	ftpRemoteDir: string;
 	ftpIgnoreCert: boolean;
+	// Git Settings
+	gitRepository: string;
+	gitBranch: string;
+	gitUsername: string;
+	gitToken: string;
+	gitSiteUrl: string;
+	// S3 Settings
+	s3Endpoint: string;
+	s3Region: string;
+	s3Bucket: string;
+	s3AccessKeyId: string;
+	s3SecretAccessKey: string;
+	s3Prefix: string;
+	s3ForcePathStyle: boolean;
+	s3SiteUrl: string;
+	// Publish Preflight Settings
+	preflightEnabled: boolean;
+	preflightBlockOnErrors: boolean;
+	preflightPrivateFlags: string;
+	preflightMaxAttachmentMB: number;
 	// CouchDB Sync Settings (legacy, to be replaced by license-based sync)
 	syncEnabled: boolean;
 	syncUserEnabled: boolean; // User's choice to enable/disable sync (independent of license)
@@ -84,6 +127,13 @@ interface FridaySettings {
 	enterpriseServerUrl: string;
 	// AI Output Language
 	aiOutputLanguage: string; // '' = auto, 'en' = English, 'zh' = Chinese (Simplified)
+	aiFollowUpTurns: number; // previous Q&A turns used for wiki follow-up questions, 0 = off
+	aiAutoIngestDailyTokens: number; // daily token budget for background wiki ingest, 0 = unlimited
+	// AI Chat Assistant Settings
+	aiChatMode: 'wiki' | 'assistant'; // chat mode selected in the chat header
+	aiAssistantSystemPrompt: string; // '' = default prompt
+	aiAssistantTemperature: number;
+	aiAssistantModel: string; // '' = provider model
 	// AI Provider Settings
 	aiProviderType: string;
 	aiProviderBaseUrl: string;
@@ -116,11 +166,35 @@ const DEFAULT_SETTINGS: FridaySettings = {
 	netlifyAccessToken: '',
 	netlifyProjectId: '',
 	// FTP Settings defaults
+	ftpProtocol: 'ftp',
 	ftpServer: '',
+	ftpPort: 0, // 0 = protocol default (FTP 21, SFTP 22)
 	ftpUsername: '',
 	ftpPassword: '',
+	ftpPrivateKeyPath: '',
+	ftpPassphrase: '',
 	ftpRemoteDir: '',
 	ftpIgnoreCert: true, // Default to true for easier setup with self-signed certs
+	// Git Settings defaults
+	gitRepository: '',
+	gitBranch: DEFAULT_GIT_BRANCH,
+	gitUsername: '',
+	gitToken: '',
+	gitSiteUrl: '',
+	// S3 Settings defaults
+	s3Endpoint: '',
+	s3Region: DEFAULT_S3_REGION,
+	s3Bucket: '',
+	s3AccessKeyId: '',
+	s3SecretAccessKey: '',
+	s3Prefix: '',
+	s3ForcePathStyle: false,
+	s3SiteUrl: '',
+	// Publish Preflight Settings defaults
+	preflightEnabled: true,
+	preflightBlockOnErrors: false,
+	preflightPrivateFlags: DEFAULT_PREFLIGHT_PRIVATE_FLAGS,
+	preflightMaxAttachmentMB: DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB,
 	// CouchDB Sync Settings defaults
 	syncEnabled: false,
 	syncUserEnabled: false, // User must explicitly enable sync
@@ -131,6 +205,13 @@ const DEFAULT_SETTINGS: FridaySettings = {
 	enterpriseServerUrl: '',
 	// AI Output Language default (auto = follow Obsidian language)
 	aiOutputLanguage: '',
+	aiFollowUpTurns: DEFAULT_FOLLOW_UP_TURNS,
+	aiAutoIngestDailyTokens: DEFAULT_AUTO_INGEST_DAILY_TOKENS,
+	// AI Chat Assistant Settings defaults
+	aiChatMode: 'wiki',
+	aiAssistantSystemPrompt: '',
+	aiAssistantTemperature: DEFAULT_ASSISTANT_TEMPERATURE,
+	aiAssistantModel: '',
 	// AI Provider Settings defaults
 	aiProviderType: '',
 	aiProviderBaseUrl: '',
@@ -195,8 +276,18 @@ export default class FridayPlugin extends Plugin {
 	licenseServiceManager?: LicenseServiceManager | null
 	domainServiceManager?: DomainServiceManager | null
 	projectServiceManager?: ProjectServiceManager | null
+	// Headless publish API (used by menus, auto-publish, chat and other plugins)
+	publishOrchestrator?: PublishOrchestrator | null
 	// License state manager (unified license state from Foundry)
 	licenseState?: LicenseStateManager | null
+	// Scheduled / watch-mode publishing (PC-only)
+	autoPublishManager?: AutoPublishManager | null
+	// Last build / publish per project, shown in the project dashboard (PC-only)
+	projectActivity?: ProjectActivityLog | null
+	// Background incremental ingest for watched wiki folders (PC-only)
+	autoIngestManager?: AutoIngestManager | null
+	// Local embedding / BM25 index for semantic search (PC-only)
+	semanticIndex?: SemanticIndex | null
 	// Current project name for tracking
 	currentProjectName?: string | null
 	
@@ -215,8 +306,11 @@ export default class FridayPlugin extends Plugin {
 	// Dynamic module references for PC-only features
 	private ThemeSelectionModalClass?: typeof ThemeSelectionModal
 	private FoundryProjectManagementModalClass?: typeof FoundryProjectManagementModal
+	private AutoPublishModalClass?: typeof AutoPublishModal
+	private AutoPublishLogModalClass?: typeof AutoPublishLogModal
 	private themeApiService?: typeof import("./theme/themeApiService").themeApiService
 	private ChatViewClass?: typeof ChatView
+	private SemanticSearchModalClass?: typeof SemanticSearchModal
 
 	async onload() {
 		this.pluginDir = `${this.manifest.dir}`;
@@ -256,6 +350,80 @@ export default class FridayPlugin extends Plugin {
 			}, 0);
 		}
 
+		// Sync conflicts list (common for both platforms)
+		this.addCommand({
+			id: "show-sync-conflicts",
+			name: this.i18n.t('commands.show_sync_conflicts'),
+			callback: () => {
+				void this.openSyncConflicts();
+			}
+		});
+
+		// Sync log (common for both platforms)
+		this.registerView(VIEW_TYPE_FRIDAY_SYNC_LOG, (leaf) =>
+			new SyncLogView(leaf, () => this.syncService?.syncCore ?? null, () => this.settings.syncConfig)
+		);
+		this.addCommand({
+			id: "show-sync-log",
+			name: this.i18n.t('commands.show_sync_log'),
+			callback: () => {
+				void this.openSyncLog();
+			}
+		});
+		this.addCommand({
+			id: "show-sync-log-for-file",
+			name: this.i18n.t('commands.show_sync_log_for_file'),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) {
+					void this.openSyncLog(file.path);
+				}
+				return true;
+			}
+		});
+
+		// Sync status (common for both platforms)
+		this.registerView(VIEW_TYPE_FRIDAY_SYNC_HEALTH, (leaf) =>
+			new SyncHealthView(leaf, () => this.syncService?.syncCore ?? null)
+		);
+		this.addCommand({
+			id: "show-sync-status",
+			name: this.i18n.t('commands.show_sync_status'),
+			callback: () => {
+				void this.openSyncStatus();
+			}
+		});
+
+		// File history (common for both platforms)
+		this.addCommand({
+			id: "show-file-history",
+			name: this.i18n.t('commands.show_file_history'),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) {
+					this.openFileHistory(file);
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (file instanceof TFile && this.syncService?.syncCore?.fileHistory) {
+					menu.addItem(item => {
+						item
+							.setTitle(this.i18n.t('menu.show_file_history'))
+							.setIcon('history')
+							.onClick(() => {
+								this.openFileHistory(file);
+							});
+					});
+				}
+			})
+		);
+
 		this.statusBar = this.addStatusBarItem();
 		this.addSettingTab(new FridaySettingTab(this.app, this));
 	}
@@ -289,14 +457,26 @@ export default class FridayPlugin extends Plugin {
 			{ FoundryProjectManagementModal },
 			{ Site },
 			{ themeApiService },
-			{ ChatView }
+			{ ChatView },
+			{ AutoPublishManager },
+			{ AutoPublishModal, AutoPublishLogModal },
+			{ ProjectActivityLog },
+			{ AutoIngestManager },
+			{ SemanticIndex },
+			{ SemanticSearchModal }
 		] = await Promise.all([
 			import('./server'),
 			import('./theme/modal'),
 			import('./projects/foundryModal'),
 			import('./site'),
 			import('./theme/themeApiService'),
-			import('./chat/ChatView')
+			import('./chat/ChatView'),
+			import('./services/autoPublish'),
+			import('./projects/autoPublishModal'),
+			import('./services/projectActivity'),
+			import('./services/wiki/autoIngest'),
+			import('./services/search/semanticIndex'),
+			import('./search/semanticSearchModal')
 		]);
 		
 		// Import PC-only styles
@@ -305,7 +485,8 @@ export default class FridayPlugin extends Plugin {
 			import('./styles/publish-settings.css'),
 			import('./styles/project-modal.css'),
 			import('./styles/live-sync.css'),
-			import('./chat/styles/chat.css')
+			import('./chat/styles/chat.css'),
+			import('./styles/semantic-search.css')
 		]);
 		
 		// Store dynamic module references
@@ -313,6 +494,9 @@ export default class FridayPlugin extends Plugin {
 		this.FoundryProjectManagementModalClass = FoundryProjectManagementModal;
 		this.themeApiService = themeApiService;
 		this.ChatViewClass = ChatView;
+		this.AutoPublishModalClass = AutoPublishModal;
+		this.AutoPublishLogModalClass = AutoPublishLogModal;
+		this.SemanticSearchModalClass = SemanticSearchModal;
 		
 		// Initialize PC-only services (hugoverse already initialized in initCore)
 		this.site = new Site(this);
@@ -320,6 +504,24 @@ export default class FridayPlugin extends Plugin {
 		// Initialize workspace service (PC-only)
 		await this.initializeWorkspace();
 		
+		// Start auto-publish once the vault is loaded, so startup file events are not counted as edits
+		if (this.projectServiceManager) {
+			this.projectActivity = new ProjectActivityLog(this);
+			await this.projectActivity.load();
+			this.autoPublishManager = new AutoPublishManager(this);
+			this.autoIngestManager = new AutoIngestManager(this);
+			this.app.workspace.onLayoutReady(() => {
+				void this.autoPublishManager?.start();
+				void this.autoIngestManager?.start();
+			});
+		}
+		
+		// Keep the semantic search index in step with vault edits
+		this.semanticIndex = new SemanticIndex(this);
+		this.app.workspace.onLayoutReady(() => {
+			void this.semanticIndex?.start();
+		});
+		
 		// Register view with protection against duplicate registration
 		try {
 			this.registerView(FRIDAY_SERVER_VIEW_TYPE, leaf => new ServerView(leaf, this));
@@ -335,6 +537,11 @@ export default class FridayPlugin extends Plugin {
 				}
 				throw new Error('ChatView not loaded');
 			});
+			// 回答中的来源链接悬停时显示页面预览
+			this.registerHoverLinkSource(VIEW_TYPE_FRIDAY_CHAT, {
+				display: 'Friday Chat',
+				defaultMod: false,
+			});
 		} catch (e) {
 			console.error('[Friday] Chat view already registered, skipping');
 		}
@@ -343,11 +550,7 @@ export default class FridayPlugin extends Plugin {
 		
 		// Add ribbon icon for project management
 		this.addRibbonIcon(FRIDAY_ICON, this.i18n.t('projects.manage_projects'), async () => {
-			// Use new Foundry-based project management modal
-			if (this.FoundryProjectManagementModalClass) {
-				const modal = new this.FoundryProjectManagementModalClass(this.app, this);
-				modal.open();
-			}
+			this.openProjectDashboard();
 		});
 		
 		// Add Chat ribbon icon
@@ -377,9 +580,55 @@ export default class FridayPlugin extends Plugin {
 			id: "open-project-management",
 			name: this.i18n.t('projects.manage_projects'),
 			callback: () => {
-				if (this.FoundryProjectManagementModalClass) {
-					const modal = new this.FoundryProjectManagementModalClass(this.app, this);
-					modal.open();
+				this.openProjectDashboard();
+			}
+		});
+		
+		this.addCommand({
+			id: "republish-changed-projects",
+			name: this.i18n.t('commands.republish_changed_projects'),
+			callback: () => {
+				void this.republishChangedProjects();
+			}
+		});
+		
+		// Register auto-publish commands (PC-only)
+		this.addCommand({
+			id: "configure-auto-publish",
+			name: this.i18n.t('commands.configure_auto_publish'),
+			callback: () => {
+				if (!this.currentProjectName) {
+					new Notice(this.i18n.t('auto_publish.select_project'), 3000);
+					return;
+				}
+				this.openAutoPublishSettings(this.currentProjectName);
+			}
+		});
+		
+		this.addCommand({
+			id: "show-auto-publish-log",
+			name: this.i18n.t('commands.show_auto_publish_log'),
+			callback: () => {
+				if (this.autoPublishManager && this.AutoPublishLogModalClass) {
+					new this.AutoPublishLogModalClass(this.app, this, this.autoPublishManager).open();
+				}
+			}
+		});
+		
+		this.addCommand({
+			id: "run-publish-preflight",
+			name: this.i18n.t('commands.run_publish_preflight'),
+			callback: () => {
+				void this.showPublishPreflight();
+			}
+		});
+		
+		this.addCommand({
+			id: "semantic-search",
+			name: this.i18n.t('commands.semantic_search'),
+			callback: () => {
+				if (this.semanticIndex && this.SemanticSearchModalClass) {
+					new this.SemanticSearchModalClass(this.app, this, this.semanticIndex).open();
 				}
 			}
 		});
@@ -606,6 +855,7 @@ export default class FridayPlugin extends Plugin {
 	// Create Project Service Manager
 	if (this.foundryProjectService && this.foundryProjectConfigService) {
 		this.projectServiceManager = new ProjectServiceManager(this);
+		this.publishOrchestrator = new PublishOrchestrator(this);
 	}
 
 	// Create License State Manager (unified license state from Foundry)
@@ -989,23 +1239,13 @@ export default class FridayPlugin extends Plugin {
 
 		const { projectName, method, config } = data;
 
-		// Create progress callback
-		const onProgress = (progress: any) => {
-			// Send progress updates to Site component
-			this.siteComponent?.updatePublishProgress?.(progress);
-		};
-
-		// Execute publish
-		const result = await this.projectServiceManager.publish(
-			projectName,
-			{ method, config, onProgress }
-		);
-
-		if (result.success) {
-			this.siteComponent?.onPublishComplete?.(result);
-		} else {
-			this.siteComponent?.onPublishError?.(result.error);
-		}
+		// The panel has already built the preview with its own renderer; only publish.
+		// Progress and completion reach the panel through the orchestrator's events.
+		await this.publishOrchestrator?.publishProject(projectName, {
+			method: normalizePublishMethod(method),
+			config,
+			build: false
+		});
 	}
 
 	private async onTestConnection(data: SiteEventData['testConnection']) {
@@ -1030,11 +1270,23 @@ export default class FridayPlugin extends Plugin {
 			return;
 		}
 
-		const success = await this.projectServiceManager.stopPreview(data.projectName);
+		await this.stopProjectPreview(data.projectName);
+	}
+
+	/**
+	 * Stop the preview server and let the panel know
+	 */
+	async stopProjectPreview(projectName: string): Promise<boolean> {
+		if (!this.projectServiceManager) {
+			return false;
+		}
+
+		const success = await this.projectServiceManager.stopPreview(projectName);
 
 		if (success) {
 			this.siteComponent?.onPreviewStopped?.();
 		}
+		return success;
 	}
 
 	// ==================== Project Management ====================
@@ -1042,7 +1294,7 @@ export default class FridayPlugin extends Plugin {
 	/**
 	 * Create new Foundry project (simplified - only creates project)
 	 */
-	private async createFoundryProject(projectName: string, folder: TFolder | null, file: TFile | null): Promise<boolean> {
+	async createFoundryProject(projectName: string, folder: TFolder | null, file: TFile | null): Promise<boolean> {
 		try {
 			// Collect initial configuration with project context (now async)
 			const initialConfig = await this.collectInitialConfig(projectName, folder, file);
@@ -1177,10 +1429,15 @@ export default class FridayPlugin extends Plugin {
 		// Apply default FTP configuration if available
 		if (this.settings.ftpServer || this.settings.ftpUsername) {
 			config.publish.ftp = {
+				protocol: this.settings.ftpProtocol || 'ftp',
 				host: this.settings.ftpServer || '',
+				port: this.settings.ftpPort || undefined,
 				username: this.settings.ftpUsername || '',
 				password: this.settings.ftpPassword || '',
+				privateKeyPath: this.settings.ftpPrivateKeyPath || '',
+				passphrase: this.settings.ftpPassphrase || '',
 				remotePath: this.settings.ftpRemoteDir || '/',
+				ignoreCert: this.settings.ftpIgnoreCert,
 			};
 		}
 
@@ -1192,6 +1449,31 @@ export default class FridayPlugin extends Plugin {
 			};
 		}
 
+		// Apply default Git configuration if available
+		if (this.settings.gitRepository) {
+			config.publish.git = {
+				repository: this.settings.gitRepository,
+				branch: this.settings.gitBranch || DEFAULT_GIT_BRANCH,
+				username: this.settings.gitUsername || '',
+				token: this.settings.gitToken || '',
+				siteUrl: this.settings.gitSiteUrl || '',
+			};
+		}
+
+		// Apply default S3 configuration if available
+		if (this.settings.s3Bucket) {
+			config.publish.s3 = {
+				endpoint: this.settings.s3Endpoint || '',
+				region: this.settings.s3Region || DEFAULT_S3_REGION,
+				bucket: this.settings.s3Bucket,
+				accessKeyId: this.settings.s3AccessKeyId || '',
+				secretAccessKey: this.settings.s3SecretAccessKey || '',
+				prefix: this.settings.s3Prefix || '',
+				forcePathStyle: this.settings.s3ForcePathStyle,
+				siteUrl: this.settings.s3SiteUrl || '',
+			};
+		}
+
 		return config;
 	}
 
@@ -1496,11 +1778,8 @@ export default class FridayPlugin extends Plugin {
 	}
 
 	/**
-	 * Quick share current file - automated workflow (Desktop only)
-	 * 1. Open publish panel with current file
-	 * 2. Set sitePath to "/s"
-	 * 3. Generate preview
-	 * 4. Select MDFriday Share publish option
+	 * Quick share current file with MDFriday Share (Desktop only)
+	 * Publishes headlessly and copies the share URL to the clipboard
 	 */
 	private async quickShareCurrentFile(view: MarkdownView) {
 		const file = view.file;
@@ -1515,221 +1794,34 @@ export default class FridayPlugin extends Plugin {
 			return;
 		}
 
-		try {
-			// Show starting notice
-			new Notice(this.i18n.t('messages.quick_share_starting'), 2000);
-
-			// Step 1: Clear existing content in publish panel
-			if (this.siteComponent?.clearAllContent) {
-				this.siteComponent.clearAllContent();
-			}
-
-			// Step 2: Open publish panel with current file (simulates right-click -> publish)
-			await this.openPublishPanel(null, file);
-
-			// Wait a bit for the panel to initialize
-			await new Promise(resolve => setTimeout(resolve, 500));
-
-			// Step 3: Select MDFriday Share publish option first
-			if (this.siteComponent?.selectMDFShare) {
-				this.siteComponent.selectMDFShare();
-			} else {
-				console.error('[Friday] Site component not available for selectMDFShare');
-				new Notice('Site component not ready', 3000);
-				return;
-			}
-
-			// Step 4: Set sitePath to "/s/{userDir}" for MDFriday Share (previewId will be added in startPreview)
-			if (this.siteComponent?.setSitePath && this.settings.licenseUser?.userDir) {
-				this.siteComponent.setSitePath(`/s/${this.settings.licenseUser.userDir}`);
-			}
-
-			// Wait a bit for sitePath to be set
-			await new Promise(resolve => setTimeout(resolve, 100));
-
-			// Step 5: Generate preview
-			if (this.siteComponent?.startPreviewAndWait) {
-				const previewSuccess = await this.siteComponent.startPreviewAndWait();
-				if (!previewSuccess) {
-					new Notice(this.i18n.t('messages.preview_failed_generic'), 5000);
-					return;
-				}
-			}
-
-			// Show completion notice
-			new Notice(this.i18n.t('messages.quick_share_ready'), 3000);
-
-		} catch (error) {
-			console.error('Quick share failed:', error);
-			new Notice(this.i18n.t('messages.quick_share_failed', { error: (error as Error).message }), 5000);
-		}
+		new Notice(this.i18n.t('messages.quick_share_starting'), 2000);
+		await this.publishTo(file, 'mdf-share');
 	}
 
 	/**
 	 * Base publish method - unified workflow for all publish types
-	 * Does NOT force enable autoPublish - respects user's checkbox setting
+	 * Runs headlessly through PublishOrchestrator; the publish panel (if open on
+	 * the same project) follows along through the orchestrator's progress events
 	 */
-	private async publishTo(fileOrFolder: TFile | TFolder, publishType: 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise' | 'netlify' | 'ftp') {
-		if (fileOrFolder instanceof TFile && fileOrFolder.extension !== 'md') {
-			new Notice(this.i18n.t('messages.no_markdown_file'), 3000);
+	private async publishTo(fileOrFolder: TFile | TFolder, publishType: ValidPublishMethod) {
+		if (!this.publishOrchestrator) {
+			new Notice(this.i18n.t('messages.publishing_desktop_only'), 3000);
 			return;
 		}
 
-		// Check permissions based on publish type
-		switch (publishType) {
-			case 'mdf-share':
-				if (!this.licenseState?.hasPublishPermission()) {
-					new Notice(this.i18n.t('settings.upgrade_for_mdfshare'), 5000);
-					return;
-				}
-				break;
-			case 'mdf-app':
-				if (!this.licenseState?.hasFeature('customSubDomain')) {
-					new Notice(this.i18n.t('settings.upgrade_for_subdomain'), 5000);
-					return;
-				}
-				break;
-			case 'mdf-custom':
-				if (!this.licenseState?.hasFeature('customDomain') || !this.settings.customDomain) {
-					new Notice(this.i18n.t('settings.upgrade_for_custom_domain'), 5000);
-					return;
-				}
-				break;
-			case 'mdf-enterprise':
-				if (!this.licenseState?.isActivated() || 
-					this.licenseState?.isExpired() || 
-					this.licenseState?.getPlan() !== 'enterprise' || 
-					!this.settings.enterpriseServerUrl) {
-					new Notice(this.i18n.t('settings.upgrade_for_enterprise'), 5000);
-					return;
-				}
-				break;
-			// mdf-free, netlify, ftp don't need special permission checks
-		}
-
-		try {
-			// Step 1: Clear existing content in publish panel
-			if (this.siteComponent?.clearAllContent) {
-				this.siteComponent.clearAllContent();
-			}
-
-			// Step 2: Open publish panel with current file or folder
-			if (fileOrFolder instanceof TFile) {
-				await this.openPublishPanel(null, fileOrFolder);
-			} else {
-				await this.openPublishPanel(fileOrFolder, null);
-			}
+		new Notice(this.i18n.t('messages.publish_started'), 2000);
+		const outcome = await this.publishOrchestrator.publish(fileOrFolder, publishType);
 
-			// Wait a bit for the panel to initialize
-			await new Promise(resolve => setTimeout(resolve, 500));
-
-			// Step 3: Select the appropriate publish option
-			switch (publishType) {
-				case 'mdf-free':
-					if (this.siteComponent?.selectMDFFree) {
-						this.siteComponent.selectMDFFree();
-					} else {
-						console.error('[Friday] Site component not available for selectMDFFree');
-						return;
-					}
-					break;
-				case 'mdf-share':
-					if (this.siteComponent?.selectMDFShare) {
-						this.siteComponent.selectMDFShare();
-					} else {
-						console.error('[Friday] Site component not available for selectMDFShare');
-						return;
-					}
-					break;
-				case 'mdf-app':
-					if (this.siteComponent?.selectMDFApp) {
-						this.siteComponent.selectMDFApp();
-					} else {
-						console.error('[Friday] Site component not available for selectMDFApp');
-						return;
-					}
-					break;
-				case 'mdf-custom':
-					if (this.siteComponent?.selectMDFCustom) {
-						this.siteComponent.selectMDFCustom();
-					} else {
-						console.error('[Friday] Site component not available for selectMDFCustom');
-						return;
-					}
-					break;
-				case 'mdf-enterprise':
-					if (this.siteComponent?.selectMDFEnterprise) {
-						this.siteComponent.selectMDFEnterprise();
-					} else {
-						console.error('[Friday] Site component not available for selectMDFEnterprise');
-						return;
-					}
-					break;
-				case 'netlify':
-					if (this.siteComponent?.selectNetlify) {
-						this.siteComponent.selectNetlify();
-					} else {
-						console.error('[Friday] Site component not available for selectNetlify');
-						return;
-					}
-					break;
-				case 'ftp':
-					if (this.siteComponent?.selectFTP) {
-						this.siteComponent.selectFTP();
-					} else {
-						console.error('[Friday] Site component not available for selectFTP');
-						return;
-					}
-					break;
-			}
-
-		// Step 4: Set sitePath based on publish type
-		if (this.siteComponent?.setSitePath && this.currentProjectName) {
-			const previewId = await nameToIdAsync(this.currentProjectName);
-			let sitePath = '/';
-			switch (publishType) {
-				case 'mdf-free':
-					sitePath = `/f/${previewId}`;
-					break;
-				case 'mdf-share':
-					if (this.settings.licenseUser?.userDir) {
-						sitePath = `/s/${this.settings.licenseUser.userDir}/${previewId}`;
-					}
-					break;
-				case 'mdf-app':
-				case 'mdf-custom':
-				case 'mdf-enterprise':
-					// These will use custom sitePath from user settings
-					break;
-				default:
-					// netlify and ftp don't need sitePath
-					break;
-			}
-
-				if (publishType != 'ftp') {
-					this.siteComponent.setSitePath(sitePath);
-					await this.handleSiteEvent('configChanged', {
-						key: 'baseURL',
-						value: sitePath
-					});
-				}
-			}
-
-			// Wait a bit for settings to be applied
-			await new Promise(resolve => setTimeout(resolve, 100));
-
-			// Step 6: Trigger publish (which will auto-generate preview with publish config)
-			// Since autoPublishEnabled is true, startPublish will call autoPublish
-			if (this.siteComponent?.startPublish) {
-				await this.siteComponent.startPublish();
-			}
-
-			// Show completion notice
-			new Notice(this.i18n.t('messages.content_added_to_publish_panel') || 'Content added to publish panel', 3000);
+		if (!outcome.success) {
+			new Notice(this.i18n.t('messages.publishing_failed', { error: outcome.error }), 5000);
+			return;
+		}
 
-		} catch (error) {
-			console.error('Publish setup failed:', error);
-			new Notice(this.i18n.t('messages.quick_share_failed', { error: (error as Error).message }), 5000);
+		if (outcome.url) {
+			await navigator.clipboard.writeText(outcome.url);
+			new Notice(`${this.i18n.t('messages.publish_completed')}: ${outcome.url}\n${this.i18n.t('messages.publish_url_copied')}`, 5000);
+		} else {
+			new Notice(this.i18n.t('messages.publish_completed'), 3000);
 		}
 	}
 
@@ -1783,13 +1875,7 @@ export default class FridayPlugin extends Plugin {
 	}
 
 	/**
-	 * Quick publish to MDFriday Free - One-click full automated workflow (Desktop only)
-	 * This version enables autoPublish for immediate publishing
-	 * 1. Open publish panel with current file
-	 * 2. Select MDFriday Free publish option
-	 * 3. Auto-fill or create project
-	 * 4. Build and auto-publish in one step
-	 * 5. Show unified progress for build + publish
+	 * Quick publish to MDFriday Free - One-click headless build + publish (Desktop only)
 	 */
 	private async quickPublishToFree(view: MarkdownView) {
 		if (!Platform.isDesktop) {
@@ -1803,57 +1889,7 @@ export default class FridayPlugin extends Plugin {
 			return;
 		}
 
-		try {
-			// Show starting notice
-			new Notice(this.i18n.t('messages.quick_share_starting'), 2000);
-
-			// Step 1: Clear existing content in publish panel
-			if (this.siteComponent?.clearAllContent) {
-				this.siteComponent.clearAllContent();
-			}
-
-			// Step 2: Open publish panel with current file
-			await this.openPublishPanel(null, file);
-
-			// Wait a bit for the panel to initialize
-			await new Promise(resolve => setTimeout(resolve, 500));
-
-		// Step 3: Select MDFriday Free publish option
-		if (this.siteComponent?.selectMDFFree) {
-			this.siteComponent.selectMDFFree();
-		} else {
-			console.error('[Friday] Site component not available for selectMDFFree');
-			new Notice('Site component not ready', 3000);
-			return;
-		}
-
-	// Step 4: Set sitePath to "/f/{previewId}" for MDFriday Free
-	if (this.siteComponent?.setSitePath && this.currentProjectName) {
-		const previewId = await nameToIdAsync(this.currentProjectName);
-		this.siteComponent.setSitePath(`/f/${previewId}`);
-	}
-
-		// Step 5: Enable auto-publish mode
-		if (this.siteComponent?.enableAutoPublish) {
-			this.siteComponent.enableAutoPublish();
-		}
-
-		// Wait a bit for settings to be applied
-		await new Promise(resolve => setTimeout(resolve, 100));
-
-		// Step 6: Trigger publish (which will auto-generate preview with publish config)
-		// Since autoPublishEnabled is true, startPublish will call autoPublish
-		if (this.siteComponent?.startPublish) {
-			await this.siteComponent.startPublish();
-		}
-
-			// Show completion notice
-			new Notice(this.i18n.t('messages.quick_publish_success'), 3000);
-
-		} catch (error) {
-			console.error('Quick publish failed:', error);
-			new Notice(this.i18n.t('messages.quick_share_failed', { error: (error as Error).message }), 5000);
-		}
+		await this.publishTo(file, 'mdf-free');
 	}
 
 
@@ -1934,6 +1970,11 @@ export default class FridayPlugin extends Plugin {
 			this.syncStatusDisplay = null;
 		}
 		
+		// Drop pending auto-publish runs and background wiki ingest
+		this.autoPublishManager?.stop();
+		this.autoIngestManager?.stop();
+		this.semanticIndex?.stop();
+		
 		// Stop sync service
 		if (this.syncService) {
 			await this.syncService.stopSync();
@@ -2178,15 +2219,25 @@ export default class FridayPlugin extends Plugin {
 			// ========================================
 			// FTP Publish Settings (Default)
 			// ========================================
+			await config.set(workspace, 'publish.ftp.protocol', this.settings.ftpProtocol);
 			if (this.settings.ftpServer) {
 				await config.set(workspace, 'publish.ftp.host', this.settings.ftpServer);
 			}
+			if (this.settings.ftpPort) {
+				await config.set(workspace, 'publish.ftp.port', this.settings.ftpPort);
+			}
 			if (this.settings.ftpUsername) {
 				await config.set(workspace, 'publish.ftp.username', this.settings.ftpUsername);
 			}
 			if (this.settings.ftpPassword) {
 				await config.set(workspace, 'publish.ftp.password', this.settings.ftpPassword);
 			}
+			if (this.settings.ftpPrivateKeyPath) {
+				await config.set(workspace, 'publish.ftp.privateKeyPath', this.settings.ftpPrivateKeyPath);
+			}
+			if (this.settings.ftpPassphrase) {
+				await config.set(workspace, 'publish.ftp.passphrase', this.settings.ftpPassphrase);
+			}
 			if (this.settings.ftpRemoteDir) {
 				await config.set(workspace, 'publish.ftp.remotePath', this.settings.ftpRemoteDir);
 			}
@@ -2201,6 +2252,51 @@ export default class FridayPlugin extends Plugin {
 			if (this.settings.netlifyProjectId) {
 				await config.set(workspace, 'publish.netlify.siteId', this.settings.netlifyProjectId);
 			}
+
+			// ========================================
+			// Git Publish Settings (Default)
+			// ========================================
+			if (this.settings.gitRepository) {
+				await config.set(workspace, 'publish.git.repository', this.settings.gitRepository);
+			}
+			if (this.settings.gitBranch) {
+				await config.set(workspace, 'publish.git.branch', this.settings.gitBranch);
+			}
+			if (this.settings.gitUsername) {
+				await config.set(workspace, 'publish.git.username', this.settings.gitUsername);
+			}
+			if (this.settings.gitToken) {
+				await config.set(workspace, 'publish.git.token', this.settings.gitToken);
+			}
+			if (this.settings.gitSiteUrl) {
+				await config.set(workspace, 'publish.git.siteUrl', this.settings.gitSiteUrl);
+			}
+
+			// ========================================
+			// S3 Publish Settings (Default)
+			// ========================================
+			if (this.settings.s3Endpoint) {
+				await config.set(workspace, 'publish.s3.endpoint', this.settings.s3Endpoint);
+			}
+			if (this.settings.s3Region) {
+				await config.set(workspace, 'publish.s3.region', this.settings.s3Region);
+			}
+			if (this.settings.s3Bucket) {
+				await config.set(workspace, 'publish.s3.bucket', this.settings.s3Bucket);
+			}
+			if (this.settings.s3AccessKeyId) {
+				await config.set(workspace, 'publish.s3.accessKeyId', this.settings.s3AccessKeyId);
+			}
+			if (this.settings.s3SecretAccessKey) {
+				await config.set(workspace, 'publish.s3.secretAccessKey', this.settings.s3SecretAccessKey);
+			}
+			if (this.settings.s3Prefix) {
+				await config.set(workspace, 'publish.s3.prefix', this.settings.s3Prefix);
+			}
+			await config.set(workspace, 'publish.s3.forcePathStyle', this.settings.s3ForcePathStyle);
+			if (this.settings.s3SiteUrl) {
+				await config.set(workspace, 'publish.s3.siteUrl', this.settings.s3SiteUrl);
+			}
 			
 			// ========================================
 			// General Publish Settings
@@ -2349,15 +2445,27 @@ export default class FridayPlugin extends Plugin {
 			// ========================================
 			// Load FTP Settings (only if local setting is empty)
 			// ========================================
+			if (foundryConfig['publish']?.ftp?.protocol === 'sftp') {
+				this.settings.ftpProtocol = 'sftp';
+			}
 			if (!this.settings.ftpServer && foundryConfig['publish']?.ftp?.host) {
 				this.settings.ftpServer = foundryConfig['publish'].ftp.host;
 			}
+			if (!this.settings.ftpPort && foundryConfig['publish']?.ftp?.port) {
+				this.settings.ftpPort = Number(foundryConfig['publish'].ftp.port) || 0;
+			}
 			if (!this.settings.ftpUsername && foundryConfig['publish']?.ftp?.username) {
 				this.settings.ftpUsername = foundryConfig['publish'].ftp.username;
 			}
 			if (!this.settings.ftpPassword && foundryConfig['publish']?.ftp?.password) {
 				this.settings.ftpPassword = foundryConfig['publish'].ftp.password;
 			}
+			if (!this.settings.ftpPrivateKeyPath && foundryConfig['publish']?.ftp?.privateKeyPath) {
+				this.settings.ftpPrivateKeyPath = foundryConfig['publish'].ftp.privateKeyPath;
+			}
+			if (!this.settings.ftpPassphrase && foundryConfig['publish']?.ftp?.passphrase) {
+				this.settings.ftpPassphrase = foundryConfig['publish'].ftp.passphrase;
+			}
 			if (!this.settings.ftpRemoteDir && foundryConfig['publish']?.ftp?.remotePath) {
 				this.settings.ftpRemoteDir = foundryConfig['publish'].ftp.remotePath;
 			}
@@ -2375,6 +2483,54 @@ export default class FridayPlugin extends Plugin {
 				this.settings.netlifyProjectId = foundryConfig['publish'].netlify.siteId;
 			}
 
+			// ========================================
+			// Load Git Settings (only if local setting is empty)
+			// ========================================
+			if (!this.settings.gitRepository && foundryConfig['publish']?.git?.repository) {
+				this.settings.gitRepository = foundryConfig['publish'].git.repository;
+			}
+			if (foundryConfig['publish']?.git?.branch) {
+				this.settings.gitBranch = foundryConfig['publish'].git.branch;
+			}
+			if (!this.settings.gitUsername && foundryConfig['publish']?.git?.username) {
+				this.settings.gitUsername = foundryConfig['publish'].git.username;
+			}
+			if (!this.settings.gitToken && foundryConfig['publish']?.git?.token) {
+				this.settings.gitToken = foundryConfig['publish'].git.token;
+			}
+			if (!this.settings.gitSiteUrl && foundryConfig['publish']?.git?.siteUrl) {
+				this.settings.gitSiteUrl = foundryConfig['publish'].git.siteUrl;
+			}
+
+			// ========================================
+			// Load S3 Settings (only if local setting is empty)
+			// ========================================
+			const s3Config = foundryConfig['publish']?.s3;
+			if (!this.settings.s3Endpoint && s3Config?.endpoint) {
+				this.settings.s3Endpoint = s3Config.endpoint;
+			}
+			if (s3Config?.region) {
+				this.settings.s3Region = s3Config.region;
+			}
+			if (!this.settings.s3Bucket && s3Config?.bucket) {
+				this.settings.s3Bucket = s3Config.bucket;
+			}
+			if (!this.settings.s3AccessKeyId && s3Config?.accessKeyId) {
+				this.settings.s3AccessKeyId = s3Config.accessKeyId;
+			}
+			if (!this.settings.s3SecretAccessKey && s3Config?.secretAccessKey) {
+				this.settings.s3SecretAccessKey = s3Config.secretAccessKey;
+			}
+			if (!this.settings.s3Prefix && s3Config?.prefix) {
+				this.settings.s3Prefix = s3Config.prefix;
+			}
+			if (s3Config?.forcePathStyle !== undefined) {
+				this.settings.s3ForcePathStyle = s3Config.forcePathStyle;
+			}
+			if (!this.settings.s3SiteUrl && s3Config?.siteUrl) {
+				this.settings.s3SiteUrl = s3Config.siteUrl;
+			}
+
 			// ========================================
 			// Load AI Output Language (only if not yet set locally)
 			// ========================================
@@ -2550,6 +2706,152 @@ export default class FridayPlugin extends Plugin {
 		return await this.syncService.testConnection();
 	}
 
+	/**
+	 * Open the list of notes with unresolved sync conflicts
+	 */
+	async openSyncConflicts(): Promise<void> {
+		const resolver = this.syncService?.syncCore?.conflictResolver;
+		if (!resolver) {
+			new Notice(this.i18n.t('messages.sync_not_enabled'));
+			return;
+		}
+		const paths = await resolver.getConflictedFiles();
+		new ConflictListModal(this.app, resolver, paths).open();
+	}
+
+	/**
+	 * Open the project dashboard (Foundry projects, bulk rebuild / republish)
+	 */
+	openProjectDashboard(options?: ProjectDashboardOptions): void {
+		if (this.FoundryProjectManagementModalClass) {
+			new this.FoundryProjectManagementModalClass(this.app, this, options).open();
+		}
+	}
+
+	/**
+	 * Republish every project whose source files changed since its last successful publish
+	 */
+	async republishChangedProjects(): Promise<void> {
+		if (!this.projectServiceManager || !this.projectActivity) {
+			new Notice(this.i18n.t('messages.desktop_only_notice'));
+			return;
+		}
+
+		const projects = await this.projectServiceManager.listProjects();
+		const changed = projects
+			.filter(project => this.projectActivity!.hasChangesSinceLastPublish(
+				project.name,
+				this.projectServiceManager!.getSourcePaths(project)
+			))
+			.map(project => project.name);
+
+		if (changed.length === 0) {
+			new Notice(this.i18n.t('projects.no_changed_projects'), 3000);
+			return;
+		}
+		this.openProjectDashboard({ selected: changed, run: 'republish' });
+	}
+
+	/**
+	 * Open auto-publish settings for a Foundry project
+	 */
+	openAutoPublishSettings(projectName: string): void {
+		if (!this.autoPublishManager || !this.AutoPublishModalClass) {
+			new Notice(this.i18n.t('messages.desktop_only_notice'));
+			return;
+		}
+		new this.AutoPublishModalClass(this.app, this, this.autoPublishManager, projectName).open();
+	}
+
+	/**
+	 * Preflight the content selected in the publish panel before it is published.
+	 * Resolves true when there is nothing to report or the user chooses to publish anyway.
+	 */
+	async confirmPublishPreflight(): Promise<boolean> {
+		if (!this.settings.preflightEnabled) {
+			return true;
+		}
+		const report = await this.runPublishPreflight();
+		if (!report || report.issues.length === 0) {
+			return true;
+		}
+		const { PreflightModal } = await import('./projects/preflightModal');
+		return new Promise(resolve => {
+			new PreflightModal(this.app, this, report, this.settings.preflightBlockOnErrors, resolve).open();
+		});
+	}
+
+	/**
+	 * Show the preflight report for the selected content without publishing
+	 */
+	async showPublishPreflight(): Promise<void> {
+		const report = await this.runPublishPreflight();
+		if (!report) {
+			new Notice(this.i18n.t('preflight.no_content'), 3000);
+			return;
+		}
+		const { PreflightModal } = await import('./projects/preflightModal');
+		new PreflightModal(this.app, this, report, this.settings.preflightBlockOnErrors).open();
+	}
+
+	private async runPublishPreflight(): Promise<PreflightReport | null> {
+		const contents = this.site ? get(this.site.languageContents) : [];
+		if (contents.length === 0) {
+			return null;
+		}
+		const { PublishPreflight } = await import('./services/publishPreflight');
+		// Notes excluded by the project's publish filters are not built, so they are not checked
+		const projectConfig = this.currentProjectName
+			? await this.projectServiceManager?.getConfig(this.currentProjectName)
+			: undefined;
+		return new PublishPreflight(this).check(contents, {
+			privateFlags: this.settings.preflightPrivateFlags,
+			maxAttachmentMB: this.settings.preflightMaxAttachmentMB,
+			publishFilters: projectConfig?.publishFilters,
+		});
+	}
+
+	/**
+	 * Open the sync log view, optionally filtered to one file
+	 */
+	async openSyncLog(path?: string): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_FRIDAY_SYNC_LOG)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: VIEW_TYPE_FRIDAY_SYNC_LOG, active: true });
+		}
+		workspace.revealLeaf(leaf);
+		if (path !== undefined && leaf.view instanceof SyncLogView) {
+			leaf.view.setPathFilter(path);
+		}
+	}
+
+	/**
+	 * Open the sync status view (statistics and integrity check)
+	 */
+	async openSyncStatus(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_FRIDAY_SYNC_HEALTH)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: VIEW_TYPE_FRIDAY_SYNC_HEALTH, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Open the revision history of a synced file
+	 */
+	openFileHistory(file: TFile): void {
+		const fileHistory = this.syncService?.syncCore?.fileHistory;
+		if (!fileHistory) {
+			new Notice(this.i18n.t('messages.sync_not_enabled'));
+			return;
+		}
+		new FileHistoryModal(this.app, fileHistory, file).open();
+	}
+
 	async status(text: string) {
 		this.statusBar.setText(text)
 	}
@@ -2669,16 +2971,24 @@ export default class FridayPlugin extends Plugin {
 			const siteProjectName = `${folderPath}-wiki-site`;
 			await this.getOrCreateSiteProjectForOutputDir(siteProjectName, outputDirPath);
 			
-			// 6. 发布 outputDir
-			await this.publishTo(outputFolder, 'mdf-free');
+			// 6. 发布 outputDir（无界面，进度回传给 Chat）
+			if (!this.publishOrchestrator) {
+				throw new Error('Publish service not available');
+			}
+			const outcome = await this.publishOrchestrator.publish(outputFolder, 'mdf-free', {
+				onProgress: (event) => options?.onProgress?.({
+					message: event.message || event.stage,
+					percent: event.percentage,
+				}),
+			});
 			
-			// 7. 构建 URL
-			const previewId = await nameToIdAsync(siteProjectName);
-			const url = `https://mdfriday.com/f/${previewId}`;
+			if (!outcome.success) {
+				throw new Error(outcome.error);
+			}
 			
 			return {
 				success: true,
-				url,
+				url: outcome.url,
 			};
 		} catch (error) {
 			console.error('[Friday] Publish wiki failed:', error);
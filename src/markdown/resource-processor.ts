@@ -291,8 +291,9 @@ export class ObsidianResourceProcessor {
    * 查找链接的文件
    * @param filename 文件名或路径
    * @param basePath 基准路径
+   * 发布预检（PublishPreflight）使用同样的规则判断嵌入资源能否解析
    */
-  private findLinkedFile(filename: string, basePath?: string): TFile | null {
+  findLinkedFile(filename: string, basePath?: string): TFile | null {
     // 首先尝试使用 basePath 解析
     if (basePath) {
       const linkedFile = this.plugin.app.metadataCache.getFirstLinkpathDest(filename, basePath);
@@ -0,0 +1,186 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type FridayPlugin from '../main';
+import {
+	normalizeAutoPublishConfig,
+	MIN_DEBOUNCE_SECONDS,
+	type AutoPublishConfig,
+	type AutoPublishManager,
+	type AutoPublishMode,
+	type AutoPublishRun,
+} from '../services/autoPublish';
+import { isValidCron } from '../utils/cron';
+
+/**
+ * Auto-publish settings for one project
+ * - Mode: off / schedule (cron) / watch (debounced after edits)
+ * - Publish now, and the project's recent runs
+ */
+export class AutoPublishModal extends Modal {
+	private plugin: FridayPlugin;
+	private manager: AutoPublishManager;
+	private projectName: string;
+	private config: AutoPublishConfig = normalizeAutoPublishConfig(undefined);
+
+	constructor(app: App, plugin: FridayPlugin, manager: AutoPublishManager, projectName: string) {
+		super(app);
+		this.plugin = plugin;
+		this.manager = manager;
+		this.projectName = projectName;
+	}
+
+	async onOpen() {
+		this.modalEl.addClass('friday-auto-publish-modal');
+		this.titleEl.setText(this.plugin.i18n.t('auto_publish.title', { name: this.projectName }));
+		this.config = await this.manager.getConfig(this.projectName);
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName(t('auto_publish.mode'))
+			.setDesc(t('auto_publish.mode_desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('off', t('auto_publish.mode_off'))
+				.addOption('schedule', t('auto_publish.mode_schedule'))
+				.addOption('watch', t('auto_publish.mode_watch'))
+				.setValue(this.config.mode)
+				.onChange(value => {
+					this.config.mode = value as AutoPublishMode;
+					this.render();
+				}));
+
+		if (this.config.mode === 'schedule') {
+			const cronSetting = new Setting(contentEl)
+				.setName(t('auto_publish.cron'))
+				.setDesc(t('auto_publish.cron_desc'))
+				.addText(text => text
+					.setPlaceholder('0 * * * *')
+					.setValue(this.config.cron)
+					.onChange(value => {
+						this.config.cron = value.trim();
+						cronSetting.settingEl.toggleClass('friday-auto-publish-invalid', !isValidCron(this.config.cron));
+					}));
+		}
+
+		if (this.config.mode === 'watch') {
+			new Setting(contentEl)
+				.setName(t('auto_publish.debounce'))
+				.setDesc(t('auto_publish.debounce_desc', { min: MIN_DEBOUNCE_SECONDS }))
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.inputEl.min = String(MIN_DEBOUNCE_SECONDS);
+					text
+						.setValue(String(this.config.debounceSeconds))
+						.onChange(value => {
+							this.config.debounceSeconds = Number(value);
+						});
+				});
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+		const publishNowBtn = buttonContainer.createEl('button', { text: t('auto_publish.publish_now') });
+		publishNowBtn.addEventListener('click', async () => {
+			publishNowBtn.disabled = true;
+			publishNowBtn.setText(t('auto_publish.publishing'));
+			const run = await this.manager.run(this.projectName, 'manual');
+			if (!run) {
+				new Notice(t('auto_publish.already_running', { name: this.projectName }), 3000);
+			} else if (run.success) {
+				new Notice(t('auto_publish.run_succeeded', { name: this.projectName }), 3000);
+			}
+			this.render();
+		});
+
+		const saveBtn = buttonContainer.createEl('button', { text: t('auto_publish.save'), cls: 'mod-cta' });
+		saveBtn.addEventListener('click', async () => {
+			if (this.config.mode === 'schedule' && !isValidCron(this.config.cron)) {
+				new Notice(t('auto_publish.invalid_cron'), 3000);
+				return;
+			}
+			if (this.config.mode === 'watch' &&
+				(!Number.isFinite(this.config.debounceSeconds) || this.config.debounceSeconds < MIN_DEBOUNCE_SECONDS)) {
+				new Notice(t('auto_publish.invalid_debounce', { min: MIN_DEBOUNCE_SECONDS }), 3000);
+				return;
+			}
+
+			const success = await this.manager.saveConfig(this.projectName, this.config);
+			if (success) {
+				new Notice(t('auto_publish.saved'), 2000);
+				this.close();
+			} else {
+				new Notice(t('auto_publish.save_failed'), 3000);
+			}
+		});
+
+		contentEl.createEl('h4', { text: t('auto_publish.recent_runs') });
+		renderRuns(contentEl, this.plugin, this.manager.getRuns(this.projectName), false);
+	}
+}
+
+/**
+ * Run log across all projects
+ */
+export class AutoPublishLogModal extends Modal {
+	private plugin: FridayPlugin;
+	private manager: AutoPublishManager;
+
+	constructor(app: App, plugin: FridayPlugin, manager: AutoPublishManager) {
+		super(app);
+		this.plugin = plugin;
+		this.manager = manager;
+	}
+
+	onOpen() {
+		this.modalEl.addClass('friday-auto-publish-modal');
+		this.titleEl.setText(this.plugin.i18n.t('auto_publish.log_title'));
+		renderRuns(this.contentEl, this.plugin, this.manager.getRuns(), true);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+function renderRuns(container: HTMLElement, plugin: FridayPlugin, runs: AutoPublishRun[], showProject: boolean) {
+	const t = plugin.i18n.t.bind(plugin.i18n);
+	const list = container.createDiv({ cls: 'friday-auto-publish-runs' });
+
+	if (runs.length === 0) {
+		list.createDiv({ text: t('auto_publish.no_runs'), cls: 'friday-auto-publish-empty' });
+		return;
+	}
+
+	for (const run of runs) {
+		const item = list.createDiv({ cls: 'friday-auto-publish-run' });
+		const header = item.createDiv({ cls: 'friday-auto-publish-run-header' });
+		header.createSpan({
+			text: run.success ? t('auto_publish.status_success') : t('auto_publish.status_failed'),
+			cls: run.success ? 'friday-auto-publish-success' : 'friday-auto-publish-failed',
+		});
+		if (showProject) {
+			header.createSpan({ text: run.projectName, cls: 'friday-auto-publish-project' });
+		}
+		header.createSpan({ text: new Date(run.startedAt).toLocaleString() });
+
+		const meta = [
+			t(`auto_publish.trigger_${run.trigger}`),
+			run.method,
+			`${Math.round((run.finishedAt - run.startedAt) / 1000)}s`,
+		].filter(Boolean);
+		item.createDiv({ text: meta.join(' · '), cls: 'friday-auto-publish-run-meta' });
+
+		if (run.url) {
+			item.createEl('a', { text: run.url, href: run.url, cls: 'friday-auto-publish-run-detail' });
+		} else if (run.error) {
+			item.createDiv({ text: run.error, cls: 'friday-auto-publish-run-detail mod-warning' });
+		}
+	}
+}
@@ -1,46 +1,119 @@
-import { App, Modal, SuggestModal, Notice, setIcon, TFolder, TFile, FileSystemAdapter } from 'obsidian';
+import { App, Modal, Notice, setIcon, TFolder, TFile, FileSystemAdapter } from 'obsidian';
 import type { ObsidianProjectInfo } from '@mdfriday/foundry';
 import type FridayPlugin from '../main';
-import { join, relative } from 'path';
+import type { ProjectActivity } from '../services/projectActivity';
+import { relative } from 'path';
+
+export type ProjectBulkAction = 'rebuild' | 'republish' | 'stopPreview';
+
+export interface ProjectDashboardOptions {
+	/** 打开时预先选中的项目 */
+	selected?: string[];
+	/** 打开后立即对选中项目执行的批量操作 */
+	run?: ProjectBulkAction;
+}
+
+interface ProjectRow {
+	project: ObsidianProjectInfo;
+	theme: string;
+	method: string;
+}
+
+type BulkStatus = 'pending' | 'running' | 'success' | 'failed';
 
 /**
- * Project Management Modal using Obsidian's native SuggestModal
- * - Quick search by project name
- * - Apply project configuration to panel on selection
- * - Delete projects with confirmation
+ * Project Dashboard
+ * - Lists every Foundry project with its source, theme, publish method,
+ *   last build / publish and live URL
+ * - Apply a project to the panel, configure auto-publish or delete it
+ * - Rebuild, republish or stop preview for the selected projects,
+ *   one project at a time with a combined progress view
  */
-export class FoundryProjectManagementModal extends SuggestModal<ObsidianProjectInfo> {
+export class FoundryProjectManagementModal extends Modal {
 	private plugin: FridayPlugin;
-	private projects: ObsidianProjectInfo[] = [];
+	private options: ProjectDashboardOptions;
+	private rows: ProjectRow[] = [];
+	private selected = new Set<string>();
+	private query = '';
+	private running = false;
+
+	private listEl!: HTMLElement;
+	private progressEl!: HTMLElement;
+	private selectAllEl!: HTMLInputElement;
+	private actionButtons: HTMLButtonElement[] = [];
 
-	constructor(app: App, plugin: FridayPlugin) {
+	constructor(app: App, plugin: FridayPlugin, options: ProjectDashboardOptions = {}) {
 		super(app);
 		this.plugin = plugin;
-		
-		// Set modal title
-		this.setPlaceholder('Search projects...');
-		
-		// Set modal instructions
-		this.setInstructions([
-			{ command: '↑↓', purpose: 'to navigate' },
-			{ command: '↵', purpose: 'to apply project' },
-			{ command: 'esc', purpose: 'to dismiss' }
-		]);
+		this.options = options;
+		for (const name of options.selected ?? []) {
+			this.selected.add(name);
+		}
 	}
 
 	/**
 	 * Load projects when modal opens
 	 */
 	async onOpen() {
-		super.onOpen();
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		this.modalEl.addClass('friday-project-dashboard-modal');
+		this.titleEl.setText(t('projects.manage_projects'));
+
+		const toolbar = this.contentEl.createDiv({ cls: 'friday-project-toolbar' });
+		this.selectAllEl = toolbar.createEl('input', { type: 'checkbox' });
+		this.selectAllEl.setAttribute('aria-label', t('projects.select_all'));
+		this.selectAllEl.addEventListener('change', () => {
+			for (const row of this.getVisibleRows()) {
+				if (this.selectAllEl.checked) {
+					this.selected.add(row.project.name);
+				} else {
+					this.selected.delete(row.project.name);
+				}
+			}
+			this.renderList();
+		});
+
+		const search = toolbar.createEl('input', {
+			type: 'search',
+			placeholder: t('projects.search_projects'),
+			cls: 'friday-project-search'
+		});
+		search.addEventListener('input', () => {
+			this.query = search.value.trim().toLowerCase();
+			this.renderList();
+		});
+
+		const actions: Array<[ProjectBulkAction, string]> = [
+			['rebuild', t('projects.bulk_rebuild')],
+			['republish', t('projects.bulk_republish')],
+			['stopPreview', t('projects.bulk_stop_preview')],
+		];
+		this.actionButtons = actions.map(([action, label]) => {
+			const button = toolbar.createEl('button', { text: label });
+			button.addEventListener('click', () => void this.runBulk(action));
+			return button;
+		});
+
+		this.listEl = this.contentEl.createDiv({ cls: 'friday-project-list' });
+		this.listEl.createDiv({ text: t('projects.loading_projects'), cls: 'friday-project-empty' });
+		this.progressEl = this.contentEl.createDiv({ cls: 'friday-project-progress' });
+
 		await this.loadProjects();
+
+		if (this.options.run && this.selected.size > 0) {
+			await this.runBulk(this.options.run);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
 	}
 
 	/**
-	 * Load all projects from Foundry
+	 * Load all projects from Foundry, with the theme and publish method from each project's config
 	 */
 	private async loadProjects() {
-		if (!this.plugin.foundryProjectService) {
+		if (!this.plugin.foundryProjectService || !this.plugin.projectServiceManager) {
 			this.close();
 			return;
 		}
@@ -49,64 +122,266 @@ export class FoundryProjectManagementModal extends SuggestModal<ObsidianProjectI
 			const result = await this.plugin.foundryProjectService.listProjects(
 				this.plugin.absWorkspacePath
 			);
-
-			if (result.success && result.data) {
-				this.projects = result.data;
-				// Trigger re-render of suggestions
-				this.inputEl.dispatchEvent(new Event('input'));
-			} else {
+			if (!result.success || !result.data) {
 				this.close();
+				return;
+			}
+
+			const projects: ObsidianProjectInfo[] = result.data;
+			this.rows = await Promise.all(projects.map(async (project) => {
+				const config = await this.plugin.projectServiceManager!.getConfig(project.name);
+				const themePath: string = config?.module?.imports?.[0]?.path || '';
+				return {
+					project,
+					theme: themePath.split('/').filter(Boolean).pop() || '',
+					method: config?.publish?.method || '',
+				};
+			}));
+
+			// 只保留仍然存在的项目
+			const names = new Set(this.rows.map(row => row.project.name));
+			for (const name of [...this.selected]) {
+				if (!names.has(name)) {
+					this.selected.delete(name);
+				}
 			}
+			this.renderList();
 		} catch (error) {
 			console.error('[Friday] Error loading projects:', error);
 			this.close();
 		}
 	}
 
+	private getVisibleRows(): ProjectRow[] {
+		return this.rows.filter(row => row.project.name.toLowerCase().includes(this.query));
+	}
+
+	private renderList() {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		this.listEl.empty();
+
+		const visible = this.getVisibleRows();
+		this.selectAllEl.checked = visible.length > 0 && visible.every(row => this.selected.has(row.project.name));
+		this.updateActionButtons();
+
+		if (visible.length === 0) {
+			this.listEl.createDiv({ text: t('projects.no_projects'), cls: 'friday-project-empty' });
+			return;
+		}
+
+		for (const row of visible) {
+			this.renderRow(row);
+		}
+	}
+
+	private renderRow(row: ProjectRow) {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const { project } = row;
+		const activity = this.plugin.projectActivity?.get(project.name) ?? {};
+
+		const rowEl = this.listEl.createDiv({ cls: 'friday-project-row' });
+		const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.selected.has(project.name);
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				this.selected.add(project.name);
+			} else {
+				this.selected.delete(project.name);
+			}
+			this.renderList();
+		});
+
+		const info = rowEl.createDiv({ cls: 'friday-project-info' });
+		const nameEl = info.createDiv({ text: project.name, cls: 'friday-project-name' });
+		nameEl.setAttribute('aria-label', t('projects.apply_to_panel'));
+		nameEl.addEventListener('click', async () => {
+			this.close();
+			// Apply project to panel using the same flow as openPublishPanel
+			await this.applyProjectToPanel(project);
+			await this.plugin.activateView();
+		});
+
+		const meta = [
+			this.getSourceLabel(project) || t('projects.no_source'),
+			row.theme,
+			row.method,
+		].filter(Boolean);
+		info.createDiv({ text: meta.join(' · '), cls: 'friday-project-meta' });
+		this.renderActivity(info, activity);
+
+		// Create auto-publish button (right-aligned)
+		const autoPublishEl = rowEl.createDiv({ cls: 'friday-project-action' });
+		autoPublishEl.setAttribute('aria-label', t('auto_publish.title', { name: project.name }));
+		setIcon(autoPublishEl, 'clock');
+		autoPublishEl.addEventListener('click', () => {
+			this.close();
+			this.plugin.openAutoPublishSettings(project.name);
+		});
+
+		// Create delete button (right-aligned)
+		const deleteEl = rowEl.createDiv({ cls: 'friday-project-delete' });
+		deleteEl.setAttribute('aria-label', t('projects.delete_project'));
+		setIcon(deleteEl, 'trash-2');
+		deleteEl.addEventListener('click', async () => {
+			if (!this.running) {
+				await this.deleteProject(project);
+			}
+		});
+	}
+
 	/**
-	 * Get suggestions (filtered projects based on search input)
+	 * Last build / publish and the live URL
 	 */
-	getSuggestions(query: string): ObsidianProjectInfo[] {
-		const lowerQuery = query.toLowerCase();
-		return this.projects.filter(project =>
-			project.name.toLowerCase().includes(lowerQuery)
-		);
+	private renderActivity(container: HTMLElement, activity: ProjectActivity) {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const line = container.createDiv({ cls: 'friday-project-activity' });
+
+		const status = (label: string, record?: { at: number; success: boolean; error?: string }) => {
+			const el = line.createSpan();
+			if (!record) {
+				el.setText(`${label}: ${t('projects.never')}`);
+				return;
+			}
+			el.setText(`${label}: ${this.formatTime(record.at)}`);
+			if (!record.success) {
+				el.addClass('friday-project-failed');
+				el.setAttribute('aria-label', record.error || t('projects.status_failed'));
+			}
+		};
+		status(t('projects.last_build'), activity.lastBuild);
+		status(t('projects.last_publish'), activity.lastPublish);
+
+		if (activity.liveUrl) {
+			line.createEl('a', { text: activity.liveUrl, href: activity.liveUrl, cls: 'friday-project-url' });
+		}
+	}
+
+	private formatTime(timestamp: number): string {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const minutes = Math.floor((Date.now() - timestamp) / 60000);
+		if (minutes < 1) {
+			return t('projects.just_now');
+		}
+		if (minutes < 60) {
+			return t('projects.minutes_ago', { count: minutes });
+		}
+		if (minutes < 60 * 24) {
+			return t('projects.hours_ago', { count: Math.floor(minutes / 60) });
+		}
+		return t('projects.days_ago', { count: Math.floor(minutes / (60 * 24)) });
 	}
 
 	/**
-	 * Render each suggestion item
+	 * Source folders / file of the project, relative to the vault
 	 */
-	renderSuggestion(project: ObsidianProjectInfo, el: HTMLElement) {
-		el.addClass('friday-project-suggestion');
-		
-		// Create container for project name
-		const nameEl = el.createDiv({ cls: 'friday-project-name' });
-		nameEl.setText(project.name);
-		
-		// Create delete button (right-aligned)
-		const deleteEl = el.createDiv({ cls: 'friday-project-delete' });
-		deleteEl.setAttribute('aria-label', 'Delete project');
-		setIcon(deleteEl, 'trash-2');
-		
-		// Prevent delete button from triggering selection
-		deleteEl.addEventListener('click', async (e) => {
-			e.stopPropagation();
-			e.preventDefault();
-			await this.deleteProject(project);
-		});
+	private getSourceLabel(project: ObsidianProjectInfo): string {
+		const sources: string[] = [
+			...(project.contentLinks ?? []).map((link: { sourcePath: string }) => link.sourcePath),
+			...(project.fileLink ? [project.fileLink.sourcePath] : []),
+		];
+		return sources.map(source => this.getVaultRelativePath(source) || '/').join(', ');
+	}
+
+	private updateActionButtons() {
+		for (const button of this.actionButtons) {
+			button.disabled = this.running || this.selected.size === 0;
+		}
 	}
 
+	// ==================== Bulk actions ====================
+
 	/**
-	 * Handle project selection - apply to panel
+	 * Run an action for each selected project, one at a time
 	 */
-	async onChooseSuggestion(project: ObsidianProjectInfo, evt: MouseEvent | KeyboardEvent) {
-		// Apply project to panel using the same flow as openPublishPanel
-		await this.applyProjectToPanel(project);
-		
-		// Open the publish panel
-		await this.plugin.activateView();
+	private async runBulk(action: ProjectBulkAction) {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		// 按列表顺序执行
+		const names = this.rows.map(row => row.project.name).filter(name => this.selected.has(name));
+		if (this.running || names.length === 0) {
+			return;
+		}
+
+		this.running = true;
+		this.updateActionButtons();
+
+		this.progressEl.empty();
+		const header = this.progressEl.createDiv({ cls: 'friday-project-progress-header' });
+		const bar = this.progressEl.createEl('progress', { cls: 'friday-project-progress-bar' });
+		bar.max = 100;
+		bar.value = 0;
+		const statusEls = new Map<string, HTMLElement>();
+		const items = this.progressEl.createDiv({ cls: 'friday-project-progress-items' });
+		for (const name of names) {
+			const item = items.createDiv({ cls: 'friday-project-progress-item' });
+			item.createSpan({ text: name, cls: 'friday-project-progress-name' });
+			statusEls.set(name, item.createSpan({ text: t('projects.status_pending') }));
+		}
+
+		const setStatus = (name: string, status: BulkStatus, detail?: string) => {
+			const el = statusEls.get(name)!;
+			el.className = `friday-project-status-${status}`;
+			el.setText(detail ? `${t(`projects.status_${status}`)} · ${detail}` : t(`projects.status_${status}`));
+		};
+
+		let succeeded = 0;
+		for (let i = 0; i < names.length; i++) {
+			const name = names[i];
+			header.setText(t('projects.bulk_progress', { current: i + 1, total: names.length, name }));
+			setStatus(name, 'running');
+
+			const onProgress = (percentage: number, message?: string) => {
+				bar.value = ((i + Math.min(percentage, 100) / 100) / names.length) * 100;
+				if (message) {
+					setStatus(name, 'running', message);
+				}
+			};
+
+			const result = await this.runAction(action, name, onProgress);
+			if (result.success) {
+				succeeded++;
+				setStatus(name, 'success', result.url);
+			} else {
+				setStatus(name, 'failed', result.error);
+			}
+			bar.value = ((i + 1) / names.length) * 100;
+		}
+
+		header.setText(t('projects.bulk_complete', { succeeded, total: names.length }));
+		new Notice(t('projects.bulk_complete', { succeeded, total: names.length }), 5000);
+
+		this.running = false;
+		this.renderList();
 	}
 
+	private async runAction(
+		action: ProjectBulkAction,
+		projectName: string,
+		onProgress: (percentage: number, message?: string) => void
+	): Promise<{ success: boolean; url?: string; error?: string }> {
+		const projectServiceManager = this.plugin.projectServiceManager;
+		if (!projectServiceManager) {
+			return { success: false, error: this.plugin.i18n.t('messages.publishing_desktop_only') };
+		}
+
+		switch (action) {
+			case 'rebuild':
+				return projectServiceManager.build(projectName, (progress) => {
+					onProgress(progress.percentage || 0, progress.message);
+				}, { renderer: await projectServiceManager.createRenderer(projectName) });
+			case 'republish':
+				if (!this.plugin.publishOrchestrator) {
+					return { success: false, error: this.plugin.i18n.t('messages.publishing_desktop_only') };
+				}
+				return this.plugin.publishOrchestrator.publishProject(projectName, {
+					onProgress: (event) => onProgress(event.percentage, event.message),
+				});
+			case 'stopPreview':
+				return { success: await this.plugin.stopProjectPreview(projectName) };
+		}
+	}
+
+	// ==================== Project actions ====================
+
 	/**
 	 * Apply project configuration to panel
 	 * Follows the same architecture as openPublishPanel but without folder/file context
@@ -302,10 +577,12 @@ export class FoundryProjectManagementModal extends SuggestModal<ObsidianProjectI
 
 			if (result.success) {
 				// Remove from local list
-				this.projects = this.projects.filter(p => p.id !== project.id);
+				this.rows = this.rows.filter(row => row.project.id !== project.id);
+				this.selected.delete(project.name);
+				await this.plugin.projectActivity?.remove(project.name);
 				
 				// Trigger re-render
-				this.inputEl.dispatchEvent(new Event('input'));
+				this.renderList();
 			} else {
 				console.error(`Failed to delete project: ${result.error || result.message}`)
 			}
@@ -0,0 +1,136 @@
+import { App, Modal, setIcon } from 'obsidian';
+import type FridayPlugin from '../main';
+import type { PreflightIssue, PreflightIssueKind, PreflightReport } from '../services/publishPreflight';
+
+const KIND_ORDER: PreflightIssueKind[] = [
+	'private-note',
+	'missing-embed',
+	'unresolved-link',
+	'outside-link',
+	'oversized-attachment',
+];
+
+/**
+ * Publish preflight report
+ * - Issues grouped by kind, each with a jump-to-note action
+ * - With onDecision: Cancel / Publish anyway (disabled when blocking on errors)
+ * - Without: report only
+ */
+export class PreflightModal extends Modal {
+	private plugin: FridayPlugin;
+	private report: PreflightReport;
+	private blockOnErrors: boolean;
+	private onDecision?: (publish: boolean) => void;
+	private publish = false;
+
+	constructor(
+		app: App,
+		plugin: FridayPlugin,
+		report: PreflightReport,
+		blockOnErrors: boolean,
+		onDecision?: (publish: boolean) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.report = report;
+		this.blockOnErrors = blockOnErrors;
+		this.onDecision = onDecision;
+	}
+
+	onOpen() {
+		const { contentEl, report } = this;
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const blocked = this.blockOnErrors && report.errors > 0;
+
+		this.modalEl.addClass('friday-preflight-modal');
+		this.titleEl.setText(t('preflight.title'));
+
+		contentEl.createDiv({
+			text: t('preflight.summary', { files: report.filesChecked, errors: report.errors, warnings: report.warnings }),
+			cls: 'friday-preflight-summary',
+		});
+		if (report.issues.length === 0) {
+			contentEl.createDiv({ text: t('preflight.no_issues'), cls: 'friday-preflight-empty' });
+		}
+		if (blocked && this.onDecision) {
+			contentEl.createDiv({ text: t('preflight.blocked'), cls: 'friday-preflight-blocked' });
+		}
+
+		const list = contentEl.createDiv({ cls: 'friday-preflight-issues' });
+		for (const kind of KIND_ORDER) {
+			const issues = report.issues.filter(issue => issue.kind === kind);
+			if (issues.length === 0) {
+				continue;
+			}
+			list.createEl('h4', { text: `${t(`preflight.kind_${kind.replace(/-/g, '_')}`)} (${issues.length})` });
+			for (const issue of issues) {
+				this.renderIssue(list, issue);
+			}
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+		if (!this.onDecision) {
+			const closeBtn = buttonContainer.createEl('button', { text: t('preflight.close') });
+			closeBtn.addEventListener('click', () => this.close());
+			return;
+		}
+
+		const cancelBtn = buttonContainer.createEl('button', { text: t('preflight.cancel') });
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const publishBtn = buttonContainer.createEl('button', {
+			text: report.issues.length > 0 ? t('preflight.publish_anyway') : t('preflight.publish'),
+			cls: report.errors > 0 ? 'mod-warning' : 'mod-cta',
+		});
+		publishBtn.disabled = blocked;
+		publishBtn.addEventListener('click', () => {
+			this.publish = true;
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDecision?.(this.publish);
+		this.onDecision = undefined;
+	}
+
+	private renderIssue(container: HTMLElement, issue: PreflightIssue) {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const item = container.createDiv({ cls: `friday-preflight-issue friday-preflight-${issue.severity}` });
+
+		const info = item.createDiv({ cls: 'friday-preflight-issue-info' });
+		const location = issue.line !== undefined ? `${issue.file.path}:${issue.line + 1}` : issue.file.path;
+		info.createDiv({ text: location, cls: 'friday-preflight-issue-file' });
+		info.createDiv({ text: this.describe(issue), cls: 'friday-preflight-issue-detail' });
+
+		const openBtn = item.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': t('preflight.open_note') } });
+		setIcon(openBtn, 'file-search');
+		openBtn.addEventListener('click', async () => {
+			// Jumping to a note cancels the publish so the issue can be fixed first
+			this.close();
+			await this.app.workspace.getLeaf(false).openFile(issue.file, {
+				eState: issue.line !== undefined ? { line: issue.line } : undefined,
+			});
+		});
+	}
+
+	private describe(issue: PreflightIssue): string {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		switch (issue.kind) {
+			case 'private-note':
+				return t('preflight.detail_private_note', { flag: issue.target ?? '' });
+			case 'missing-embed':
+				return t('preflight.detail_missing_embed', { target: issue.target ?? '' });
+			case 'unresolved-link':
+				return t('preflight.detail_unresolved_link', { target: issue.target ?? '' });
+			case 'outside-link':
+				return t('preflight.detail_outside_link', { target: issue.target ?? '' });
+			case 'oversized-attachment':
+				return t('preflight.detail_oversized_attachment', {
+					size: ((issue.size ?? 0) / 1024 / 1024).toFixed(1),
+					max: this.plugin.settings.preflightMaxAttachmentMB,
+				});
+		}
+	}
+}
@@ -0,0 +1,205 @@
+import { App, Keymap, Modal, setIcon } from 'obsidian';
+import type FridayPlugin from '../main';
+import type { NoteResult, SearchMode, SemanticIndex } from '../services/search/semanticIndex';
+
+/** Passage preview length in the result list */
+const SNIPPET_LENGTH = 240;
+const SEARCH_DEBOUNCE = 300;
+
+/**
+ * Semantic Search
+ * - Ranks notes and their passages by similarity to the query
+ * - Modes: hybrid (BM25 + embeddings), semantic (embeddings only), keyword (BM25 only)
+ * - Brings the local index up to date when opened; falls back to keyword
+ *   search when no embedding provider is reachable
+ */
+export class SemanticSearchModal extends Modal {
+	private plugin: FridayPlugin;
+	private index: SemanticIndex;
+	private mode: SearchMode = 'hybrid';
+	private query = '';
+	private searchTimer: number | null = null;
+	private searchId = 0;
+	/** Cancels the query embedding of a search that has been superseded */
+	private searchAbort: AbortController | null = null;
+
+	private inputEl!: HTMLInputElement;
+	private statusEl!: HTMLElement;
+	private resultsEl!: HTMLElement;
+
+	constructor(app: App, plugin: FridayPlugin, index: SemanticIndex) {
+		super(app);
+		this.plugin = plugin;
+		this.index = index;
+	}
+
+	async onOpen() {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		this.modalEl.addClass('friday-semantic-search-modal');
+		this.titleEl.setText(t('semantic_search.title'));
+
+		const toolbar = this.contentEl.createDiv({ cls: 'friday-semantic-search-toolbar' });
+		this.inputEl = toolbar.createEl('input', {
+			type: 'search',
+			placeholder: t('semantic_search.placeholder'),
+			cls: 'friday-semantic-search-input',
+		});
+		this.inputEl.addEventListener('input', () => {
+			this.query = this.inputEl.value.trim();
+			this.scheduleSearch();
+		});
+		this.inputEl.addEventListener('keydown', (evt) => {
+			if (evt.key === 'Enter') {
+				evt.preventDefault();
+				void this.runSearch();
+			}
+		});
+
+		const modeSelect = toolbar.createEl('select', { cls: 'dropdown' });
+		const modes: Array<[SearchMode, string]> = [
+			['hybrid', t('semantic_search.mode_hybrid')],
+			['semantic', t('semantic_search.mode_semantic')],
+			['keyword', t('semantic_search.mode_keyword')],
+		];
+		for (const [value, label] of modes) {
+			modeSelect.createEl('option', { value, text: label });
+		}
+		modeSelect.value = this.mode;
+		modeSelect.addEventListener('change', () => {
+			this.mode = modeSelect.value as SearchMode;
+			void this.runSearch();
+		});
+
+		this.statusEl = this.contentEl.createDiv({ cls: 'friday-semantic-search-status' });
+		this.resultsEl = this.contentEl.createDiv({ cls: 'friday-semantic-search-results' });
+
+		this.inputEl.focus();
+		await this.updateIndex();
+	}
+
+	onClose() {
+		if (this.searchTimer !== null) {
+			window.clearTimeout(this.searchTimer);
+		}
+		this.searchAbort?.abort();
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Bring the index up to date, showing progress in the status line
+	 */
+	private async updateIndex() {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		this.statusEl.setText(t('semantic_search.indexing_start'));
+
+		try {
+			const result = await this.index.update(({ done, total }) => {
+				this.statusEl.setText(t('semantic_search.indexing', { done, total }));
+			});
+			await this.renderStats(result.embeddingError);
+		} catch (error) {
+			this.statusEl.setText(t('semantic_search.index_failed', { error: (error as Error).message }));
+		}
+
+		if (this.query) {
+			await this.runSearch();
+		}
+	}
+
+	private async renderStats(embeddingError?: string) {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const stats = await this.index.getStats();
+		this.statusEl.empty();
+		this.statusEl.createSpan({ text: t('semantic_search.stats', { notes: stats.notes, passages: stats.passages }) });
+
+		if (embeddingError) {
+			this.statusEl.createSpan({
+				text: t('semantic_search.embedding_failed', { error: embeddingError }),
+				cls: 'friday-semantic-search-warning',
+			});
+		} else if (!stats.model) {
+			this.statusEl.createSpan({ text: t('semantic_search.keyword_only'), cls: 'friday-semantic-search-warning' });
+		}
+	}
+
+	private scheduleSearch() {
+		if (this.searchTimer !== null) {
+			window.clearTimeout(this.searchTimer);
+		}
+		this.searchTimer = window.setTimeout(() => {
+			this.searchTimer = null;
+			void this.runSearch();
+		}, SEARCH_DEBOUNCE);
+	}
+
+	private async runSearch() {
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+		const searchId = ++this.searchId;
+		this.searchAbort?.abort();
+		this.searchAbort = null;
+		if (!this.query) {
+			this.resultsEl.empty();
+			return;
+		}
+
+		try {
+			this.searchAbort = new AbortController();
+			const response = await this.index.search(this.query, this.mode, undefined, { signal: this.searchAbort.signal });
+			// A newer search has started while this one was waiting for the embedding
+			if (searchId !== this.searchId) return;
+
+			this.resultsEl.empty();
+			if (response.mode !== this.mode) {
+				this.resultsEl.createDiv({
+					text: t('semantic_search.fallback', { reason: response.fallbackReason ?? '' }),
+					cls: 'friday-semantic-search-warning',
+				});
+			}
+			if (response.notes.length === 0) {
+				this.resultsEl.createDiv({ text: t('semantic_search.no_results'), cls: 'friday-semantic-search-empty' });
+				return;
+			}
+			for (const note of response.notes) {
+				this.renderNote(note);
+			}
+		} catch (error) {
+			if (searchId !== this.searchId) return;
+			this.resultsEl.empty();
+			this.resultsEl.createDiv({
+				text: t('semantic_search.search_failed', { error: (error as Error).message }),
+				cls: 'friday-semantic-search-warning',
+			});
+		}
+	}
+
+	private renderNote(note: NoteResult) {
+		const noteEl = this.resultsEl.createDiv({ cls: 'friday-semantic-search-note' });
+		const header = noteEl.createDiv({ cls: 'friday-semantic-search-note-header' });
+		setIcon(header.createSpan({ cls: 'friday-semantic-search-icon' }), 'file-text');
+		header.createSpan({ text: note.title, cls: 'friday-semantic-search-note-title' });
+		header.createSpan({ text: note.path, cls: 'friday-semantic-search-note-path' });
+		header.addEventListener('click', (evt) => this.openPassage(evt, note.path, note.passages[0]?.line ?? 0));
+
+		for (const passage of note.passages) {
+			const passageEl = noteEl.createDiv({ cls: 'friday-semantic-search-passage' });
+			if (passage.heading) {
+				passageEl.createDiv({ text: passage.heading, cls: 'friday-semantic-search-passage-heading' });
+			}
+			passageEl.createDiv({ text: snippet(passage.text), cls: 'friday-semantic-search-passage-text' });
+			passageEl.addEventListener('click', (evt) => this.openPassage(evt, passage.path, passage.line));
+		}
+	}
+
+	/**
+	 * Open the note scrolled to the passage (mod-click opens a new tab)
+	 */
+	private openPassage(evt: MouseEvent, path: string, line: number) {
+		this.close();
+		void this.app.workspace.openLinkText(path, '', Keymap.isModEvent(evt), { eState: { line } });
+	}
+}
+
+function snippet(text: string): string {
+	const flat = text.replace(/\s+/g, ' ').trim();
+	return flat.length > SNIPPET_LENGTH ? `${flat.slice(0, SNIPPET_LENGTH)}…` : flat;
+}
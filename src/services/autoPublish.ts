@@ -0,0 +1,323 @@
+import {Notice, TAbstractFile} from 'obsidian';
+import type {ObsidianProjectInfo} from '@mdfriday/foundry';
+import type FridayPlugin from '../main';
+import {cronMatches, parseCron, type CronSchedule} from '../utils/cron';
+
+/**
+ * Auto Publish Manager
+ *
+ * 按项目自动发布，通过 PublishOrchestrator 执行，不依赖 Site.svelte 面板
+ * - schedule：按 cron 表达式定时发布（每分钟检查一次）
+ * - watch：项目源目录内的文件变更后，防抖一段时间再发布
+ *
+ * 配置保存在 Foundry 项目配置的 `autoPublish` 字段中，
+ * 运行记录保存在插件目录下的 auto-publish-log.json
+ */
+export class AutoPublishManager {
+	private plugin: FridayPlugin;
+	private configs = new Map<string, AutoPublishConfig>();
+	private schedules = new Map<string, CronSchedule>();
+	private watchedPaths = new Map<string, string[]>();
+	private debounceTimers = new Map<string, number>();
+	private running = new Set<string>();
+	private rerunRequested = new Set<string>();
+	private runs: AutoPublishRun[] = [];
+	private lastTick = 0;
+
+	private static readonly LOG_FILE = 'auto-publish-log.json';
+	private static readonly MAX_LOG_ENTRIES = 200;
+	private static readonly TICK_INTERVAL = 30 * 1000;
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * 启动：加载配置与日志，注册定时器和 vault 事件
+	 * 由插件生命周期托管，卸载时自动清理
+	 */
+	async start(): Promise<void> {
+		await this.loadLog();
+		await this.reload();
+
+		this.plugin.registerInterval(
+			window.setInterval(() => this.tick(), AutoPublishManager.TICK_INTERVAL)
+		);
+
+		const onChange = (file: TAbstractFile) => this.onVaultChange(file.path);
+		this.plugin.registerEvent(this.plugin.app.vault.on('modify', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('create', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('delete', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('rename', (file, oldPath) => {
+			this.onVaultChange(file.path);
+			this.onVaultChange(oldPath);
+		}));
+	}
+
+	/**
+	 * 停止所有等待中的防抖任务
+	 */
+	stop(): void {
+		for (const timer of this.debounceTimers.values()) {
+			window.clearTimeout(timer);
+		}
+		this.debounceTimers.clear();
+	}
+
+	/**
+	 * 重新读取所有项目的自动发布配置
+	 */
+	async reload(): Promise<void> {
+		this.configs.clear();
+		this.schedules.clear();
+		this.watchedPaths.clear();
+
+		const projects = await this.listProjects();
+		for (const project of projects) {
+			const projectConfig = await this.plugin.projectServiceManager?.getConfig(project.name);
+			const config = normalizeAutoPublishConfig(projectConfig?.autoPublish);
+			if (config.mode === 'off') {
+				continue;
+			}
+
+			this.configs.set(project.name, config);
+
+			if (config.mode === 'schedule') {
+				try {
+					this.schedules.set(project.name, parseCron(config.cron));
+				} catch (error) {
+					console.warn(`[AutoPublish] Invalid cron for ${project.name}: ${(error as Error).message}`);
+				}
+			} else {
+				this.watchedPaths.set(project.name, this.plugin.projectServiceManager!.getSourcePaths(project));
+			}
+		}
+
+		// 已关闭的项目不应再触发等待中的发布
+		for (const [projectName, timer] of this.debounceTimers) {
+			if (this.configs.get(projectName)?.mode !== 'watch') {
+				window.clearTimeout(timer);
+				this.debounceTimers.delete(projectName);
+			}
+		}
+	}
+
+	/**
+	 * 获取项目的自动发布配置
+	 */
+	async getConfig(projectName: string): Promise<AutoPublishConfig> {
+		const projectConfig = await this.plugin.projectServiceManager?.getConfig(projectName);
+		return normalizeAutoPublishConfig(projectConfig?.autoPublish);
+	}
+
+	/**
+	 * 保存项目的自动发布配置并立即生效
+	 */
+	async saveConfig(projectName: string, config: AutoPublishConfig): Promise<boolean> {
+		if (!this.plugin.projectServiceManager) {
+			return false;
+		}
+
+		const success = await this.plugin.projectServiceManager.saveConfig(projectName, 'autoPublish', config);
+		if (success) {
+			await this.reload();
+		}
+		return success;
+	}
+
+	/**
+	 * 获取运行记录（最新在前），可按项目过滤
+	 */
+	getRuns(projectName?: string): AutoPublishRun[] {
+		const runs = projectName
+			? this.runs.filter(run => run.projectName === projectName)
+			: this.runs;
+		return [...runs].reverse();
+	}
+
+	/**
+	 * 立即构建并发布一个项目
+	 * 同一项目已在运行时不会并发执行；watch 触发的请求会在当前运行结束后补跑一次
+	 */
+	async run(projectName: string, trigger: AutoPublishTrigger): Promise<AutoPublishRun | null> {
+		if (this.running.has(projectName)) {
+			if (trigger === 'watch') {
+				this.rerunRequested.add(projectName);
+			}
+			return null;
+		}
+
+		this.running.add(projectName);
+		const run: AutoPublishRun = {
+			projectName,
+			trigger,
+			startedAt: Date.now(),
+			finishedAt: 0,
+			success: false,
+		};
+
+		try {
+			const outcome = await this.plugin.publishOrchestrator!.publishProject(projectName);
+			run.method = outcome.method;
+			if (!outcome.success) {
+				throw new Error(outcome.error);
+			}
+
+			run.success = true;
+			run.url = outcome.url;
+		} catch (error) {
+			run.error = (error as Error).message;
+			new Notice(this.plugin.i18n.t('auto_publish.run_failed', {
+				name: projectName,
+				error: run.error,
+			}), 5000);
+		} finally {
+			run.finishedAt = Date.now();
+			this.running.delete(projectName);
+			await this.appendRun(run);
+		}
+
+		if (this.rerunRequested.delete(projectName)) {
+			this.scheduleWatchRun(projectName);
+		}
+
+		return run;
+	}
+
+	// ==================== 触发器 ====================
+
+	/**
+	 * 定时检查，每个自然分钟最多处理一次
+	 */
+	private tick(): void {
+		const now = new Date();
+		now.setSeconds(0, 0);
+		const minute = now.getTime();
+		if (minute === this.lastTick) {
+			return;
+		}
+		this.lastTick = minute;
+
+		for (const [projectName, schedule] of this.schedules) {
+			if (cronMatches(schedule, now)) {
+				void this.run(projectName, 'schedule');
+			}
+		}
+	}
+
+	private onVaultChange(path: string): void {
+		for (const [projectName, sourcePaths] of this.watchedPaths) {
+			const inside = sourcePaths.some(source => path === source || path.startsWith(`${source}/`));
+			if (inside) {
+				this.scheduleWatchRun(projectName);
+			}
+		}
+	}
+
+	private scheduleWatchRun(projectName: string): void {
+		const config = this.configs.get(projectName);
+		if (config?.mode !== 'watch') {
+			return;
+		}
+
+		const existing = this.debounceTimers.get(projectName);
+		if (existing !== undefined) {
+			window.clearTimeout(existing);
+		}
+
+		const timer = window.setTimeout(() => {
+			this.debounceTimers.delete(projectName);
+			void this.run(projectName, 'watch');
+		}, config.debounceSeconds * 1000);
+		this.debounceTimers.set(projectName, timer);
+	}
+
+	// ==================== 项目与日志 ====================
+
+	private async listProjects(): Promise<ObsidianProjectInfo[]> {
+		if (!this.plugin.foundryProjectService) {
+			return [];
+		}
+
+		try {
+			const result = await this.plugin.foundryProjectService.listProjects(this.plugin.absWorkspacePath);
+			return result.success && result.data ? result.data : [];
+		} catch (error) {
+			console.error('[AutoPublish] Error listing projects:', error);
+			return [];
+		}
+	}
+
+	private get logPath(): string {
+		return `${this.plugin.pluginDir}/${AutoPublishManager.LOG_FILE}`;
+	}
+
+	private async loadLog(): Promise<void> {
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (await adapter.exists(this.logPath)) {
+				const data = JSON.parse(await adapter.read(this.logPath));
+				this.runs = Array.isArray(data) ? data : [];
+			}
+		} catch (error) {
+			console.warn('[AutoPublish] Failed to load run log:', error);
+			this.runs = [];
+		}
+	}
+
+	private async appendRun(run: AutoPublishRun): Promise<void> {
+		this.runs.push(run);
+		if (this.runs.length > AutoPublishManager.MAX_LOG_ENTRIES) {
+			this.runs = this.runs.slice(-AutoPublishManager.MAX_LOG_ENTRIES);
+		}
+
+		try {
+			await this.plugin.app.vault.adapter.write(this.logPath, JSON.stringify(this.runs, null, 2));
+		} catch (error) {
+			console.warn('[AutoPublish] Failed to save run log:', error);
+		}
+	}
+}
+
+/**
+ * 补全缺省值，兼容旧配置或手动编辑的配置
+ */
+export function normalizeAutoPublishConfig(value: Partial<AutoPublishConfig> | null | undefined): AutoPublishConfig {
+	const mode: AutoPublishMode = value?.mode === 'schedule' || value?.mode === 'watch' ? value.mode : 'off';
+	const debounceSeconds = Number(value?.debounceSeconds);
+
+	return {
+		mode,
+		cron: typeof value?.cron === 'string' && value.cron.trim() ? value.cron.trim() : DEFAULT_AUTO_PUBLISH_CRON,
+		debounceSeconds: Number.isFinite(debounceSeconds) && debounceSeconds >= MIN_DEBOUNCE_SECONDS
+			? debounceSeconds
+			: DEFAULT_DEBOUNCE_SECONDS,
+	};
+}
+
+// ==================== 类型定义 ====================
+
+export type AutoPublishMode = 'off' | 'schedule' | 'watch';
+
+export type AutoPublishTrigger = 'schedule' | 'watch' | 'manual';
+
+export interface AutoPublishConfig {
+	mode: AutoPublishMode;
+	cron: string;
+	debounceSeconds: number;
+}
+
+export interface AutoPublishRun {
+	projectName: string;
+	trigger: AutoPublishTrigger;
+	method?: string;
+	startedAt: number;
+	finishedAt: number;
+	success: boolean;
+	url?: string;
+	error?: string;
+}
+
+export const DEFAULT_AUTO_PUBLISH_CRON = '0 * * * *';
+export const DEFAULT_DEBOUNCE_SECONDS = 60;
+export const MIN_DEBOUNCE_SECONDS = 5;
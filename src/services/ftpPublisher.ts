@@ -0,0 +1,394 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {PassThrough, Readable} from 'stream';
+import {Client as FtpClient} from 'basic-ftp';
+import {Client as SshClient, type ConnectConfig, type SFTPWrapper} from 'ssh2';
+import type {PublishProgressUpdate} from '../types/events';
+import {DEFAULT_FTP_PORT, DEFAULT_SFTP_PORT, type FtpProtocol} from '../types/publish';
+import {buildLocalManifest, diffManifests, MANIFEST_FILE, parseManifest} from './publishManifest';
+import type {ConnectionResult, PublishResult} from './project';
+
+/**
+ * FTP / SFTP Publisher
+ *
+ * FTP（明文或显式 FTPS）使用 basic-ftp，SFTP 使用 ssh2，支持密码与 SSH 私钥
+ *
+ * 增量上传：远程目录中保存 .mdfriday-manifest.json，只上传内容有变化的文件，
+ * 并删除上次发布过、本次已不存在的文件；清单最后上传，失败的发布下次会重新上传
+ */
+export class FtpPublisher {
+	private static readonly TIMEOUT = 30000;
+
+	/**
+	 * 发布目录到远程服务器
+	 */
+	async publish(
+		outputDir: string,
+		config: FtpPublishConfig,
+		onProgress?: (progress: PublishProgressUpdate) => void
+	): Promise<PublishResult> {
+		let remote: RemoteDirectory | null = null;
+		try {
+			onProgress?.({ phase: 'scanning', percentage: 0, message: 'Scanning files...' });
+			const local = await buildLocalManifest(outputDir);
+
+			onProgress?.({ phase: 'scanning', percentage: 30, message: `Connecting to ${config.host}...` });
+			remote = await this.connect(config);
+
+			onProgress?.({ phase: 'scanning', percentage: 60, message: 'Fetching remote manifest...' });
+			const remoteManifest = parseManifest(await remote.readText(MANIFEST_FILE));
+			const diff = diffManifests(remoteManifest, local);
+			onProgress?.({
+				phase: 'scanning',
+				percentage: 100,
+				message: `${diff.upload.length} changed, ${diff.unchanged} unchanged, ${diff.remove.length} to delete`,
+			});
+
+			let completed = 0;
+			let bytesTransferred = 0;
+			for (const file of diff.upload) {
+				const body = await fs.promises.readFile(path.join(outputDir, ...file.split('/')));
+				await remote.write(file, body);
+				completed++;
+				bytesTransferred += body.byteLength;
+				onProgress?.({
+					phase: 'uploading',
+					percentage: Math.round((completed / diff.upload.length) * 100),
+					message: file,
+					currentFile: file,
+					filesCompleted: completed,
+					filesTotal: diff.upload.length,
+					bytesTransferred,
+				});
+			}
+
+			let removed = 0;
+			for (const file of diff.remove) {
+				await remote.remove(file);
+				removed++;
+				onProgress?.({
+					phase: 'deploying',
+					percentage: Math.round((removed / diff.remove.length) * 100),
+					message: `Deleted ${file}`,
+					currentFile: file,
+				});
+			}
+
+			// 没有任何变化时保留远程清单
+			if (!remoteManifest || diff.upload.length > 0 || diff.remove.length > 0) {
+				await remote.write(MANIFEST_FILE, Buffer.from(JSON.stringify(local)));
+			}
+
+			onProgress?.({
+				phase: 'complete',
+				percentage: 100,
+				filesCompleted: diff.upload.length,
+				filesTotal: diff.upload.length,
+				bytesTransferred,
+			});
+			return { success: true };
+		} catch (error) {
+			console.error('[FtpPublisher] Publish failed:', error);
+			return { success: false, error: (error as Error).message };
+		} finally {
+			remote?.close();
+		}
+	}
+
+	/**
+	 * 测试能否登录并进入远程目录
+	 */
+	async testConnection(config: FtpPublishConfig): Promise<ConnectionResult> {
+		let remote: RemoteDirectory | null = null;
+		try {
+			remote = await this.connect(config);
+			return { success: true, message: `Connected to ${config.host} (${remote.description})` };
+		} catch (error) {
+			return { success: false, error: (error as Error).message };
+		} finally {
+			remote?.close();
+		}
+	}
+
+	private async connect(config: FtpPublishConfig): Promise<RemoteDirectory> {
+		if (!config.host || !config.username) {
+			throw new Error('Host and username are required');
+		}
+		return config.protocol === 'sftp'
+			? this.connectSftp(config)
+			: this.connectFtp(config);
+	}
+
+	// ==================== FTP ====================
+
+	/**
+	 * 优先使用显式 FTPS，服务器不支持时回退到明文 FTP（secure 为 false 时直接使用明文）
+	 */
+	private async connectFtp(config: FtpPublishConfig): Promise<RemoteDirectory> {
+		const client = new FtpClient(FtpPublisher.TIMEOUT);
+		const access = (secure: boolean) => client.access({
+			host: config.host,
+			port: config.port || DEFAULT_FTP_PORT,
+			user: config.username,
+			password: config.password,
+			secure,
+			secureOptions: { rejectUnauthorized: !config.ignoreCert },
+		});
+
+		let secure = config.secure !== false;
+		try {
+			await access(secure);
+		} catch (error) {
+			if (!secure || !isTlsUnsupported(error)) {
+				client.close();
+				throw error;
+			}
+			console.warn('[FtpPublisher] FTPS unavailable, falling back to plain FTP:', (error as Error).message);
+			secure = false;
+			await access(secure).catch((fallbackError) => {
+				client.close();
+				throw fallbackError;
+			});
+		}
+
+		await client.ensureDir(config.remotePath || '/');
+		const root = await client.pwd();
+		return new FtpDirectory(client, root, secure);
+	}
+
+	// ==================== SFTP ====================
+
+	private async connectSftp(config: FtpPublishConfig): Promise<RemoteDirectory> {
+		const connectConfig: ConnectConfig = {
+			host: config.host,
+			port: config.port || DEFAULT_SFTP_PORT,
+			username: config.username,
+			readyTimeout: FtpPublisher.TIMEOUT,
+		};
+		if (config.privateKeyPath?.trim()) {
+			connectConfig.privateKey = await fs.promises.readFile(expandHome(config.privateKeyPath.trim()));
+			connectConfig.passphrase = config.passphrase || undefined;
+		} else {
+			connectConfig.password = config.password;
+		}
+
+		const client = new SshClient();
+		const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+			client
+				.on('ready', () => {
+					client.sftp((error, sftp) => (error ? reject(error) : resolve(sftp)));
+				})
+				.on('error', reject)
+				.connect(connectConfig);
+		}).catch((error) => {
+			client.end();
+			throw error;
+		});
+
+		const directory = new SftpDirectory(client, sftp, '');
+		try {
+			const root = await directory.resolveRoot(config.remotePath || '.');
+			return new SftpDirectory(client, sftp, root);
+		} catch (error) {
+			client.end();
+			throw error;
+		}
+	}
+}
+
+// ==================== 远程目录 ====================
+
+/**
+ * 远程发布目录，路径均相对于配置的 remotePath，使用 / 分隔
+ */
+interface RemoteDirectory {
+	readonly description: string;
+	/** 文件不存在时返回 null */
+	readText(file: string): Promise<string | null>;
+	write(file: string, body: Buffer): Promise<void>;
+	/** 文件不存在时视为成功 */
+	remove(file: string): Promise<void>;
+	close(): void;
+}
+
+class FtpDirectory implements RemoteDirectory {
+	readonly description: string;
+	private knownDirs = new Set<string>();
+
+	constructor(private client: FtpClient, private root: string, secure: boolean) {
+		this.description = secure ? 'FTPS' : 'FTP';
+		this.knownDirs.add(root);
+	}
+
+	async readText(file: string): Promise<string | null> {
+		// 文件不存在时各服务器返回的错误码不一致，先列目录确认
+		const target = this.resolve(file);
+		const entries = await this.client.list(path.posix.dirname(target));
+		if (!entries.some(entry => entry.isFile && entry.name === path.posix.basename(target))) {
+			return null;
+		}
+
+		let text = '';
+		const sink = new PassThrough();
+		sink.setEncoding('utf8');
+		sink.on('data', (chunk: string) => (text += chunk));
+		await this.client.downloadTo(sink, target);
+		return text;
+	}
+
+	async write(file: string, body: Buffer): Promise<void> {
+		const target = this.resolve(file);
+		const dir = path.posix.dirname(target);
+		if (!this.knownDirs.has(dir)) {
+			// ensureDir 会切换工作目录，这里都使用绝对路径
+			await this.client.ensureDir(dir);
+			this.knownDirs.add(dir);
+		}
+		await this.client.uploadFrom(Readable.from([body]), target);
+	}
+
+	async remove(file: string): Promise<void> {
+		await this.client.remove(this.resolve(file), true);
+	}
+
+	close(): void {
+		this.client.close();
+	}
+
+	private resolve(file: string): string {
+		return path.posix.join(this.root, file);
+	}
+}
+
+class SftpDirectory implements RemoteDirectory {
+	readonly description = 'SFTP';
+	private knownDirs = new Set<string>();
+
+	constructor(private client: SshClient, private sftp: SFTPWrapper, private root: string) {
+		this.knownDirs.add(root);
+	}
+
+	/**
+	 * 创建远程目录（如不存在）并返回其绝对路径
+	 */
+	async resolveRoot(remotePath: string): Promise<string> {
+		await this.mkdirs(remotePath);
+		return new Promise((resolve, reject) => {
+			this.sftp.realpath(remotePath, (error, absolute) => (error ? reject(error) : resolve(absolute)));
+		});
+	}
+
+	readText(file: string): Promise<string | null> {
+		return new Promise((resolve, reject) => {
+			this.sftp.readFile(this.resolve(file), (error, data) => {
+				if (error) {
+					if (isSftpNotFound(error)) {
+						resolve(null);
+					} else {
+						reject(error);
+					}
+				} else {
+					resolve(data.toString('utf8'));
+				}
+			});
+		});
+	}
+
+	async write(file: string, body: Buffer): Promise<void> {
+		const target = this.resolve(file);
+		await this.mkdirs(path.posix.dirname(target));
+		await new Promise<void>((resolve, reject) => {
+			this.sftp.writeFile(target, body, (error) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	remove(file: string): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.sftp.unlink(this.resolve(file), (error) => {
+				if (!error || isSftpNotFound(error)) {
+					resolve();
+				} else {
+					reject(error);
+				}
+			});
+		});
+	}
+
+	close(): void {
+		this.client.end();
+	}
+
+	private resolve(file: string): string {
+		return path.posix.join(this.root, file);
+	}
+
+	/**
+	 * 逐级创建目录，已存在的目录忽略
+	 */
+	private async mkdirs(dir: string): Promise<void> {
+		if (this.knownDirs.has(dir) || dir === '/' || dir === '.' || dir === '') {
+			return;
+		}
+		await this.mkdirs(path.posix.dirname(dir));
+		await new Promise<void>((resolve, reject) => {
+			this.sftp.mkdir(dir, (error) => {
+				if (!error) {
+					resolve();
+					return;
+				}
+				// 已存在时 mkdir 报 FAILURE，确认是目录即可
+				this.sftp.stat(dir, (statError, stats) => {
+					if (statError || !stats.isDirectory()) {
+						reject(error);
+					} else {
+						resolve();
+					}
+				});
+			});
+		});
+		this.knownDirs.add(dir);
+	}
+}
+
+// ==================== 工具 ====================
+
+function expandHome(file: string): string {
+	return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+/**
+ * 服务器拒绝 AUTH TLS（500-504、534）时才回退明文，证书错误、登录失败不回退
+ */
+function isTlsUnsupported(error: unknown): boolean {
+	const code = (error as { code?: number | string }).code;
+	return typeof code === 'number' && [500, 501, 502, 503, 504, 534].includes(code);
+}
+
+function isSftpNotFound(error: unknown): boolean {
+	// SSH_FX_NO_SUCH_FILE
+	return (error as { code?: number }).code === 2;
+}
+
+// ==================== 类型定义 ====================
+
+export interface FtpPublishConfig {
+	type: 'ftp';
+	/** 默认 ftp */
+	protocol?: FtpProtocol;
+	host: string;
+	/** 默认 FTP 21、SFTP 22 */
+	port?: number;
+	username: string;
+	password?: string;
+	/** 远程站点目录 */
+	remotePath?: string;
+	/** FTP：优先使用显式 FTPS（默认 true） */
+	secure?: boolean;
+	/** FTP：不校验 FTPS 证书 */
+	ignoreCert?: boolean;
+	/** SFTP：私钥文件路径，填写后使用密钥登录 */
+	privateKeyPath?: string;
+	/** SFTP：私钥口令 */
+	passphrase?: string;
+}
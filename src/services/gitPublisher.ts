@@ -0,0 +1,355 @@
+import git from 'isomorphic-git';
+import * as fs from 'fs';
+import * as path from 'path';
+import {createObsidianGitHttpClient} from '../http';
+import type {PublishProgressUpdate} from '../types/events';
+import {DEFAULT_GIT_BRANCH} from '../types/publish';
+import {nameToIdAsync} from '../utils/hash';
+import type {ConnectionResult, PublishResult} from './project';
+
+/**
+ * Git Publisher
+ *
+ * 把构建产物（public/）提交到 Git 仓库的指定分支，如 GitHub Pages 的 gh-pages
+ * 使用 isomorphic-git（纯 JS），不依赖系统安装的 git
+ *
+ * - 远程仓库（http/https）：在工作区缓存一个 bare 仓库，浅拉取目标分支 → 提交 → 推送
+ * - 本地仓库（路径）：直接把对象和分支写入目标仓库（bare 仓库或 .git 目录）
+ *
+ * 每次发布生成一个新提交，父提交为分支当前的提交；内容未变化时不提交
+ */
+export class GitPublisher {
+	private cacheRoot: string;
+	private http = createObsidianGitHttpClient();
+
+	private static readonly CACHE_DIR = '.git-publish';
+	private static readonly REMOTE = 'origin';
+	private static readonly DEFAULT_AUTHOR = { name: 'MDFriday', email: 'publish@mdfriday.com' };
+
+	/**
+	 * @param workspacePath - 工作区绝对路径，远程仓库的缓存放在其下
+	 */
+	constructor(workspacePath: string) {
+		this.cacheRoot = path.join(workspacePath, GitPublisher.CACHE_DIR);
+	}
+
+	/**
+	 * 发布目录到仓库分支
+	 */
+	async publish(
+		outputDir: string,
+		config: GitPublishConfig,
+		onProgress?: (progress: PublishProgressUpdate) => void
+	): Promise<PublishResult> {
+		try {
+			this.validate(config);
+			const branch = config.branch || DEFAULT_GIT_BRANCH;
+			const remote = isRemoteRepository(config.repository);
+			const gitdir = remote
+				? await this.prepareCache(config)
+				: await this.resolveLocalGitdir(config.repository);
+
+			// 分支当前提交（远程分支不存在时为 null，首次发布会创建）
+			onProgress?.({ phase: 'scanning', percentage: 0, message: `Fetching ${branch}...` });
+			const parent = remote
+				? await this.fetchBranch(gitdir, config, branch)
+				: await this.resolveBranch(gitdir, `refs/heads/${branch}`);
+
+			// 写入所有文件对象并生成目录树
+			const files = await this.listFiles(outputDir);
+			let written = 0;
+			const tree = (await this.writeTree(gitdir, outputDir, true, (file) => {
+				written++;
+				onProgress?.({
+					phase: 'scanning',
+					percentage: files.length ? Math.round((written / files.length) * 100) : 100,
+					message: file,
+					currentFile: file,
+					filesCompleted: written,
+					filesTotal: files.length,
+				});
+			}))!;
+
+			if (parent && await this.readCommitTree(gitdir, parent) === tree) {
+				onProgress?.({ phase: 'complete', percentage: 100, message: 'Already up to date' });
+				return { success: true, url: config.siteUrl };
+			}
+
+			const author = {
+				name: config.authorName || GitPublisher.DEFAULT_AUTHOR.name,
+				email: config.authorEmail || GitPublisher.DEFAULT_AUTHOR.email,
+			};
+			await git.commit({
+				fs,
+				gitdir,
+				message: config.commitMessage || `Publish site ${new Date().toISOString()}`,
+				author,
+				tree,
+				parent: parent ? [parent] : [],
+				ref: `refs/heads/${branch}`,
+			});
+
+			if (remote) {
+				onProgress?.({ phase: 'uploading', percentage: 0, message: `Pushing to ${branch}...` });
+				const result = await git.push({
+					fs,
+					http: this.http,
+					gitdir,
+					remote: GitPublisher.REMOTE,
+					ref: branch,
+					remoteRef: branch,
+					onAuth: () => this.auth(config),
+					onProgress: (event) => {
+						onProgress?.({
+							phase: 'uploading',
+							percentage: event.total ? Math.round((event.loaded / event.total) * 100) : 0,
+							message: event.phase,
+						});
+					},
+				});
+				if (!result.ok) {
+					throw new Error(result.error || `Push to ${branch} was rejected`);
+				}
+			}
+
+			onProgress?.({ phase: 'complete', percentage: 100, filesCompleted: files.length, filesTotal: files.length });
+			return { success: true, url: config.siteUrl };
+		} catch (error) {
+			console.error('[GitPublisher] Publish failed:', error);
+			return { success: false, error: (error as Error).message };
+		}
+	}
+
+	/**
+	 * 测试仓库是否可访问（远程仓库按推送权限检查）
+	 */
+	async testConnection(config: GitPublishConfig): Promise<ConnectionResult> {
+		try {
+			this.validate(config);
+			const branch = config.branch || DEFAULT_GIT_BRANCH;
+
+			let exists: boolean;
+			if (isRemoteRepository(config.repository)) {
+				const info = await git.getRemoteInfo2({
+					http: this.http,
+					url: config.repository,
+					forPush: true,
+					protocolVersion: 1,
+					onAuth: () => this.auth(config),
+				});
+				exists = (info.refs || []).some(ref => ref.ref === `refs/heads/${branch}`);
+			} else {
+				const gitdir = await this.resolveLocalGitdir(config.repository);
+				exists = (await git.listBranches({ fs, gitdir })).includes(branch);
+			}
+
+			return {
+				success: true,
+				message: exists
+					? `Connected, branch "${branch}" exists`
+					: `Connected, branch "${branch}" will be created on first publish`,
+			};
+		} catch (error) {
+			return { success: false, error: (error as Error).message };
+		}
+	}
+
+	// ==================== 仓库 ====================
+
+	private validate(config: GitPublishConfig) {
+		if (!config.repository) {
+			throw new Error('Repository is required');
+		}
+		if (/^(git@|ssh:\/\/)/.test(config.repository)) {
+			throw new Error('SSH remotes are not supported, use an HTTPS URL with an access token');
+		}
+	}
+
+	/**
+	 * 本地仓库：bare 仓库本身，或工作区仓库的 .git 目录
+	 */
+	private async resolveLocalGitdir(repository: string): Promise<string> {
+		const repoPath = repository.replace(/^file:\/\//, '');
+		if (await pathExists(path.join(repoPath, 'HEAD')) && await pathExists(path.join(repoPath, 'objects'))) {
+			return repoPath;
+		}
+		const dotGit = path.join(repoPath, '.git');
+		if (await pathExists(path.join(dotGit, 'HEAD'))) {
+			return dotGit;
+		}
+		throw new Error(`Not a git repository: ${repoPath}`);
+	}
+
+	/**
+	 * 远程仓库的本地缓存（bare），按仓库地址区分
+	 */
+	private async prepareCache(config: GitPublishConfig): Promise<string> {
+		const gitdir = path.join(this.cacheRoot, await nameToIdAsync(config.repository));
+		if (!await pathExists(path.join(gitdir, 'HEAD'))) {
+			await fs.promises.mkdir(gitdir, { recursive: true });
+			await git.init({ fs, gitdir, bare: true });
+		}
+		await git.addRemote({ fs, gitdir, remote: GitPublisher.REMOTE, url: config.repository, force: true });
+		return gitdir;
+	}
+
+	/**
+	 * 浅拉取远程分支，并让本地分支指向它，返回其提交
+	 */
+	private async fetchBranch(gitdir: string, config: GitPublishConfig, branch: string): Promise<string | null> {
+		const info = await git.getRemoteInfo2({
+			http: this.http,
+			url: config.repository,
+			protocolVersion: 1,
+			onAuth: () => this.auth(config),
+		});
+		const remoteBranch = (info.refs || []).find(ref => ref.ref === `refs/heads/${branch}`);
+		if (!remoteBranch) {
+			return null;
+		}
+
+		// 本地缓存已有该提交（通常是上次由这里推送的）时无需拉取
+		if (!await this.readCommitTree(gitdir, remoteBranch.oid)) {
+			try {
+				await git.fetch({
+					fs,
+					http: this.http,
+					gitdir,
+					remote: GitPublisher.REMOTE,
+					ref: branch,
+					singleBranch: true,
+					depth: 1,
+					tags: false,
+					onAuth: () => this.auth(config),
+				});
+			} catch (error) {
+				// 远程 HEAD 指向不存在的分支时（如只有 gh-pages 的仓库）isomorphic-git 无法拉取，
+				// 推送只需要父提交的 oid，仅失去“内容未变化”的判断
+				console.warn('[GitPublisher] Fetch failed, publishing without comparing content:', error);
+			}
+		}
+
+		await git.writeRef({ fs, gitdir, ref: `refs/heads/${branch}`, value: remoteBranch.oid, force: true });
+		return remoteBranch.oid;
+	}
+
+	/**
+	 * 提交对应的 tree oid，本地没有该提交时返回 null
+	 */
+	private async readCommitTree(gitdir: string, oid: string): Promise<string | null> {
+		try {
+			return (await git.readCommit({ fs, gitdir, oid })).commit.tree;
+		} catch {
+			return null;
+		}
+	}
+
+	private async resolveBranch(gitdir: string, ref: string): Promise<string | null> {
+		try {
+			return await git.resolveRef({ fs, gitdir, ref });
+		} catch {
+			return null;
+		}
+	}
+
+	private auth(config: GitPublishConfig) {
+		if (!config.token) {
+			return undefined;
+		}
+		// GitHub / Gitea 的 token 作为密码，用户名可任意非空
+		return { username: config.username || 'x-access-token', password: config.token };
+	}
+
+	// ==================== 文件树 ====================
+
+	/**
+	 * 递归写入 blob 和 tree，返回 tree oid（空目录返回 null，Git 不记录空目录）
+	 * 根目录自动加入 .nojekyll（GitHub Pages 不再处理下划线目录）
+	 */
+	private async writeTree(
+		gitdir: string,
+		dir: string,
+		isRoot: boolean,
+		onFile: (relativePath: string) => void,
+		prefix = ''
+	): Promise<string | null> {
+		const entries: Array<{ mode: string; path: string; oid: string; type: 'blob' | 'tree' }> = [];
+		const names = (await fs.promises.readdir(dir)).filter(name => name !== '.git').sort();
+
+		for (const name of names) {
+			const fullPath = path.join(dir, name);
+			const stat = await fs.promises.stat(fullPath);
+			const relativePath = prefix ? `${prefix}/${name}` : name;
+
+			if (stat.isDirectory()) {
+				const oid = await this.writeTree(gitdir, fullPath, false, onFile, relativePath);
+				if (oid) {
+					entries.push({ mode: '040000', path: name, oid, type: 'tree' });
+				}
+			} else {
+				const oid = await git.writeBlob({ fs, gitdir, blob: new Uint8Array(await fs.promises.readFile(fullPath)) });
+				entries.push({ mode: stat.mode & 0o111 ? '100755' : '100644', path: name, oid, type: 'blob' });
+				onFile(relativePath);
+			}
+		}
+
+		if (isRoot && !names.includes('.nojekyll')) {
+			const oid = await git.writeBlob({ fs, gitdir, blob: new Uint8Array(0) });
+			entries.push({ mode: '100644', path: '.nojekyll', oid, type: 'blob' });
+		}
+		if (entries.length === 0) {
+			return null;
+		}
+
+		return git.writeTree({ fs, gitdir, tree: entries });
+	}
+
+	private async listFiles(dir: string): Promise<string[]> {
+		const files: string[] = [];
+		for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+			if (entry.name === '.git') {
+				continue;
+			}
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				files.push(...await this.listFiles(fullPath));
+			} else {
+				files.push(fullPath);
+			}
+		}
+		return files;
+	}
+}
+
+async function pathExists(target: string): Promise<boolean> {
+	try {
+		await fs.promises.access(target);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * http(s) 地址为远程仓库，其余视为本地路径
+ */
+export function isRemoteRepository(repository: string): boolean {
+	return /^https?:\/\//i.test(repository);
+}
+
+// ==================== 类型定义 ====================
+
+export interface GitPublishConfig {
+	type: 'git';
+	/** 远程地址（https://github.com/user/site.git）或本地仓库路径 */
+	repository: string;
+	branch: string;
+	username?: string;
+	/** 访问令牌，作为 HTTP 密码使用 */
+	token?: string;
+	/** 站点访问地址，如 https://user.github.io/site/ */
+	siteUrl?: string;
+	authorName?: string;
+	authorEmail?: string;
+	commitMessage?: string;
+}
@@ -0,0 +1,323 @@
+import type FridayPlugin from '../main';
+import type { LLMHttpClient } from '@mdfriday/foundry';
+import { createObsidianLLMHttpClient } from '../http';
+
+/**
+ * LLM Client
+ *
+ * 插件自己发起的 LLM 请求（如 Chat 的 Assistant 模式、把追问改写为独立问题、语义搜索的 embedding），
+ * 使用设置中的 AI Provider / Embedding Provider，经 ObsidianLLMHttpClient 绕过 CORS
+ * Wiki 的 ingest / query 仍由 Foundry 完成
+ *
+ * Ollama 使用 /api/chat，其余 Provider 使用 OpenAI 兼容的 /chat/completions
+ */
+
+/** 各 Provider 的默认地址和模型（设置页使用同一份） */
+export const LLM_PRESETS: Record<string, { baseURL: string; model: string }> = {
+	lmstudio: { baseURL: 'http://localhost:1234/v1', model: 'qwen3.5-9b' },
+	ollama:   { baseURL: 'http://localhost:11434',   model: 'llama3' },
+	openai:   { baseURL: 'https://api.openai.com/v1',             model: 'gpt-4-turbo-preview' },
+	glm:      { baseURL: 'https://open.bigmodel.cn/api/paas/v4',  model: 'glm-4' },
+	deepseek: { baseURL: 'https://api.deepseek.com/v1',           model: 'deepseek-chat' },
+	moonshot: { baseURL: 'https://api.moonshot.cn/v1',            model: 'moonshot-v1-8k' },
+	custom:   { baseURL: '', model: '' },
+};
+
+/** Embedding Provider 的默认地址和模型（设置页使用同一份） */
+export const EMBEDDING_PRESETS: Record<string, { baseURL: string; model: string }> = {
+	lmstudio: { baseURL: 'http://localhost:1234/v1',              model: 'text-embedding-nomic-embed-text-v2-moe' },
+	ollama:   { baseURL: 'http://localhost:11434',                model: 'nomic-embed-text' },
+	openai:   { baseURL: 'https://api.openai.com/v1',            model: 'text-embedding-3-small' },
+	glm:      { baseURL: 'https://open.bigmodel.cn/api/paas/v4', model: 'embedding-3' },
+	deepseek: { baseURL: 'https://api.deepseek.com/v1',          model: 'deepseek-embedding' },
+	custom:   { baseURL: '', model: '' },
+};
+
+/** Chat Assistant 模式的默认系统提示词和温度（设置页使用同一份） */
+export const DEFAULT_ASSISTANT_SYSTEM_PROMPT = [
+	'You are Friday, a helpful assistant inside Obsidian.',
+	'Answer clearly and concisely in Markdown, in the language of the user\'s message.',
+	'When notes are provided, base your answer on them and refer to notes by their title.',
+].join(' ');
+
+export const DEFAULT_ASSISTANT_TEMPERATURE = 0.7;
+
+export interface LLMMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface LLMCompletionOptions {
+	/** 覆盖 Provider 设置中的模型 */
+	model?: string;
+	temperature?: number;
+	maxTokens?: number;
+	signal?: AbortSignal;
+}
+
+export interface LLMProviderConfig {
+	type: string;
+	baseURL: string;
+	apiKey: string;
+	model: string;
+}
+
+export class LLMClient {
+	private config: LLMProviderConfig;
+	private httpClient: LLMHttpClient;
+
+	constructor(config: LLMProviderConfig, httpClient: LLMHttpClient = createObsidianLLMHttpClient()) {
+		this.config = config;
+		this.httpClient = httpClient;
+	}
+
+	/**
+	 * 使用插件设置中的 AI Provider，未配置时返回 null
+	 */
+	static fromSettings(plugin: FridayPlugin): LLMClient | null {
+		const { aiProviderType, aiProviderBaseUrl, aiProviderApiKey, aiProviderModel } = plugin.settings;
+		if (!aiProviderType) {
+			return null;
+		}
+
+		const preset = LLM_PRESETS[aiProviderType] ?? { baseURL: '', model: '' };
+		const baseURL = aiProviderBaseUrl || preset.baseURL;
+		if (!baseURL) {
+			return null;
+		}
+		return new LLMClient({
+			type: aiProviderType,
+			baseURL,
+			apiKey: aiProviderApiKey,
+			model: aiProviderModel || preset.model,
+		});
+	}
+
+	get model(): string {
+		return this.config.model;
+	}
+
+	/**
+	 * 非流式对话补全，返回模型回复的文本
+	 */
+	async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+		const response = await this.sendChat(messages, options, false);
+		const data = await response.json();
+		const content = this.isOllama
+			? data?.message?.content
+			: data?.choices?.[0]?.message?.content;
+		if (typeof content !== 'string') {
+			throw new Error('LLM response has no message content');
+		}
+		return content;
+	}
+
+	/**
+	 * 流式对话补全，逐段返回模型回复的文本
+	 * OpenAI 兼容接口为 SSE（`data: {...}`，以 `data: [DONE]` 结束），Ollama 为逐行 JSON
+	 */
+	async *stream(messages: LLMMessage[], options: LLMCompletionOptions = {}): AsyncGenerator<string> {
+		const response = await this.sendChat(messages, options, true);
+		if (!response.body) {
+			throw new Error('LLM response has no body');
+		}
+
+		const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+		try {
+			while (true) {
+				const { value, done } = await reader.read();
+				buffer += decoder.decode(value ?? new Uint8Array(), { stream: !done });
+
+				const lines = buffer.split('\n');
+				buffer = done ? '' : lines.pop() ?? '';
+				for (const line of lines) {
+					const event = this.parseStreamLine(line.trim());
+					if (event === null) continue;
+					if (event.done) return;
+					if (event.content) yield event.content;
+				}
+				if (done) return;
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	}
+
+	/**
+	 * Provider 提供的模型列表（Ollama: /api/tags，其余: /models），用于 Chat 的模型选择
+	 */
+	async listModels(signal?: AbortSignal): Promise<string[]> {
+		const url = this.isOllama ? `${this.baseURL}/api/tags` : `${this.baseURL}/models`;
+		const response = await this.httpClient.fetch({ url, method: 'GET', headers: this.headers(), signal });
+		if (!response.ok) {
+			throw new Error(`Model list request failed (${response.status}): ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		const models: unknown[] = this.isOllama
+			? (data?.models ?? []).map((model: any) => model?.name)
+			: (data?.data ?? []).map((model: any) => model?.id);
+		return models.filter((model): model is string => typeof model === 'string').sort();
+	}
+
+	private get isOllama(): boolean {
+		return this.config.type === 'ollama';
+	}
+
+	private get baseURL(): string {
+		return this.config.baseURL.replace(/\/+$/, '');
+	}
+
+	private headers(): Record<string, string> {
+		const headers: Record<string, string> = { 'content-type': 'application/json' };
+		if (this.config.apiKey) {
+			headers['authorization'] = `Bearer ${this.config.apiKey}`;
+		}
+		return headers;
+	}
+
+	private async sendChat(messages: LLMMessage[], options: LLMCompletionOptions, stream: boolean) {
+		const url = this.isOllama ? `${this.baseURL}/api/chat` : `${this.baseURL}/chat/completions`;
+		const model = options.model || this.config.model;
+
+		const body = this.isOllama
+			? {
+				model,
+				messages,
+				stream,
+				options: { temperature: options.temperature, num_predict: options.maxTokens },
+			}
+			: {
+				model,
+				messages,
+				stream,
+				temperature: options.temperature,
+				max_tokens: options.maxTokens,
+			};
+
+		const response = await this.httpClient.fetch({
+			url,
+			method: 'POST',
+			headers: this.headers(),
+			body: JSON.stringify(body),
+			signal: options.signal,
+		});
+		if (!response.ok) {
+			const detail = (await response.text()).slice(0, 200);
+			throw new Error(`LLM request failed (${response.status}): ${detail || response.statusText}`);
+		}
+		return response;
+	}
+
+	/**
+	 * 解析流式响应的一行，空行和注释返回 null
+	 */
+	private parseStreamLine(line: string): { content?: string; done: boolean } | null {
+		if (!line) {
+			return null;
+		}
+
+		if (this.isOllama) {
+			const data = JSON.parse(line);
+			if (data?.error) throw new Error(`LLM stream error: ${data.error}`);
+			return { content: data?.message?.content, done: !!data?.done };
+		}
+
+		if (!line.startsWith('data:')) {
+			return null;
+		}
+		const payload = line.slice(5).trim();
+		if (payload === '[DONE]') {
+			return { done: true };
+		}
+		const data = JSON.parse(payload);
+		if (data?.error) throw new Error(`LLM stream error: ${data.error.message ?? data.error}`);
+		return { content: data?.choices?.[0]?.delta?.content ?? undefined, done: false };
+	}
+}
+
+/**
+ * Embedding Client
+ *
+ * Ollama 使用 /api/embed，其余 Provider 使用 OpenAI 兼容的 /embeddings
+ */
+export class EmbeddingClient {
+	private config: LLMProviderConfig;
+	private httpClient: LLMHttpClient;
+
+	constructor(config: LLMProviderConfig, httpClient: LLMHttpClient = createObsidianLLMHttpClient()) {
+		this.config = config;
+		this.httpClient = httpClient;
+	}
+
+	/**
+	 * 使用插件设置中的 Embedding Provider，未配置时返回 null
+	 */
+	static fromSettings(plugin: FridayPlugin): EmbeddingClient | null {
+		const { aiEmbeddingType, aiEmbeddingBaseUrl, aiEmbeddingApiKey, aiEmbeddingModel } = plugin.settings;
+		if (!aiEmbeddingType || aiEmbeddingType === 'none') {
+			return null;
+		}
+
+		const preset = EMBEDDING_PRESETS[aiEmbeddingType] ?? { baseURL: '', model: '' };
+		const baseURL = aiEmbeddingBaseUrl || preset.baseURL;
+		const model = aiEmbeddingModel || preset.model;
+		if (!baseURL || !model) {
+			return null;
+		}
+		return new EmbeddingClient({
+			type: aiEmbeddingType,
+			baseURL,
+			apiKey: aiEmbeddingApiKey,
+			model,
+		});
+	}
+
+	/** 模型变化时需要重建向量 */
+	get model(): string {
+		return `${this.config.type}:${this.config.model}`;
+	}
+
+	/**
+	 * 批量计算 embedding，返回顺序与输入一致
+	 */
+	async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		if (texts.length === 0) {
+			return [];
+		}
+
+		const isOllama = this.config.type === 'ollama';
+		const baseURL = this.config.baseURL.replace(/\/+$/, '');
+		const url = isOllama ? `${baseURL}/api/embed` : `${baseURL}/embeddings`;
+
+		const headers: Record<string, string> = { 'content-type': 'application/json' };
+		if (this.config.apiKey) {
+			headers['authorization'] = `Bearer ${this.config.apiKey}`;
+		}
+
+		const response = await this.httpClient.fetch({
+			url,
+			method: 'POST',
+			headers,
+			body: JSON.stringify({ model: this.config.model, input: texts }),
+			signal,
+		});
+		if (!response.ok) {
+			const detail = (await response.text()).slice(0, 200);
+			throw new Error(`Embedding request failed (${response.status}): ${detail || response.statusText}`);
+		}
+
+		const data = await response.json();
+		const vectors: unknown = isOllama
+			? data?.embeddings
+			: [...(data?.data ?? [])]
+				.sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+				.map((item: any) => item.embedding);
+		if (!Array.isArray(vectors) || vectors.length !== texts.length) {
+			throw new Error('Embedding response does not match the request');
+		}
+		return vectors as number[][];
+	}
+}
@@ -1,7 +1,16 @@
 import type FridayPlugin from '../main';
-import type {TFile, TFolder} from 'obsidian';
-import type {ProgressUpdate} from '../types/events';
+import {TFile, TFolder} from 'obsidian';
+import type {ProgressUpdate, PublishProgressUpdate} from '../types/events';
 import {joinPath} from '../utils/common';
+import {DEFAULT_THEMES, shouldUseInternalRenderer} from '../utils/theme';
+import {themeApiService} from '../theme/themeApiService';
+import {OBStyleRenderer} from '../markdown';
+import {
+	evaluatePublishFilters,
+	normalizePublishFilterConfig,
+	toIgnorePatterns,
+	type PublishFilterScope
+} from './publishFilter';
 
 /**
  * Project Service Manager
@@ -237,14 +246,18 @@ export class ProjectServiceManager {
 	 */
 	async build(
 		projectName: string,
-		onProgress?: (progress: ProgressUpdate) => void
+		onProgress?: (progress: ProgressUpdate) => void,
+		options: { renderer?: OBStyleRenderer } = {}
 	): Promise<BuildResult> {
 		try {
+			await this.applyPublishFilters(projectName);
+
 			const result = await this.plugin.foundryBuildService.build(
 				this.plugin.absWorkspacePath,
 				projectName,
-				{ onProgress }
+				{ onProgress, markdown: options.renderer }
 			);
+			await this.plugin.projectActivity?.recordBuild(projectName, result.success, result.error);
 
 			return {
 				success: result.success,
@@ -261,6 +274,69 @@ export class ProjectServiceManager {
 		}
 	}
 
+	/**
+	 * 按项目主题创建 Markdown 渲染器，与 Site 面板一致：
+	 * 主题标签包含 Obsidian 时使用 OBStyleRenderer，否则返回 undefined，由 Foundry 内置渲染器处理
+	 * 用于不经过 Site 面板的构建（快速发布、自动发布、批量重新构建 / 发布）
+	 */
+	async createRenderer(projectName: string): Promise<OBStyleRenderer | undefined> {
+		try {
+			const projectInfo = await this.getProjectInfo(projectName);
+			if (!projectInfo) {
+				return undefined;
+			}
+			const config = await this.getConfig(projectName);
+			if (!(await this.usesObsidianRenderer(config, projectInfo))) {
+				return undefined;
+			}
+
+			const obImagesDir = joinPath(projectInfo.path, 'public', 'ob-images');
+			const relativeObImagesDir = this.toVaultPath(obImagesDir);
+			if (!await this.plugin.app.vault.adapter.exists(relativeObImagesDir)) {
+				await this.plugin.app.vault.adapter.mkdir(relativeObImagesDir);
+			}
+
+			const renderer = new OBStyleRenderer(this.plugin, {
+				includeCSS: true,
+				waitForPlugins: true,
+				timeout: 200,
+				containerWidth: '1000px',
+				includeTheme: true
+			});
+			const folderLink = projectInfo.contentLinks?.[0]?.sourcePath;
+			const folderName = folderLink ? folderLink.replace(/\\/g, '/').split('/').filter(Boolean).pop() : undefined;
+			renderer.getResourceProcessor().configureImageOutput(obImagesDir, config.baseURL || '', folderName);
+			return renderer;
+		} catch (error) {
+			// 与 Site 面板相同，失败时使用 Foundry 内置渲染器
+			console.warn('[ProjectServiceManager] Failed to create renderer, using the internal renderer:', error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * 项目主题是否需要 Obsidian 渲染器
+	 * 没有主题时按项目类型使用默认主题（单文件 Note，文件夹 Quartz）；
+	 * 主题列表不可用时使用 Site 面板保存的 markdown.useInternalRenderer
+	 */
+	private async usesObsidianRenderer(config: Record<string, any>, projectInfo: ProjectInfo): Promise<boolean> {
+		const themeUrl: string | undefined = config.module?.imports?.[0]?.path;
+		if (!themeUrl) {
+			const defaultTheme = projectInfo.fileLink ? DEFAULT_THEMES.NOTE : DEFAULT_THEMES.QUARTZ;
+			return !shouldUseInternalRenderer(defaultTheme.tags);
+		}
+
+		const defaultTheme = Object.values(DEFAULT_THEMES).find(theme => theme.downloadUrl === themeUrl);
+		if (defaultTheme) {
+			return !shouldUseInternalRenderer(defaultTheme.tags);
+		}
+		const theme = (await themeApiService.getAllThemes(this.plugin)).find(item => item.download_url === themeUrl);
+		if (theme) {
+			return !shouldUseInternalRenderer(theme.tags);
+		}
+		return config.markdown?.useInternalRenderer === false;
+	}
+
 	/**
 	 * 启动预览服务器
 	 */
@@ -280,6 +356,8 @@ export class ProjectServiceManager {
 		try {
 		const { port, renderer, onProgress, publishConfig } = options;
 
+		await this.applyPublishFilters(projectName);
+
 		const result = await this.plugin.foundryServeService.startServer(
 			{
 				workspacePath: this.plugin.absWorkspacePath,
@@ -291,6 +369,8 @@ export class ProjectServiceManager {
 			onProgress
 		);
 
+			await this.plugin.projectActivity?.recordBuild(projectName, result.success, result.error);
+
 			if (result.success && result.data) {
 				// Get project info to retrieve the path
 				const projectInfo = await this.getProjectInfo(projectName);
@@ -317,6 +397,82 @@ export class ProjectServiceManager {
 		}
 	}
 
+	/**
+	 * 把项目的发布过滤规则（publishFilters）编译为 Foundry 的 ignoreFiles
+	 * 每次构建前重新求值，笔记的 frontmatter、标签和链接可能已经变化
+	 *
+	 * 生成的规则另存在 publishFilterIgnoreFiles，写入 ignoreFiles 时与用户自己配置的规则合并：
+	 * ignoreFiles 中不属于上次生成结果的规则都是用户的，原样保留
+	 */
+	private async applyPublishFilters(projectName: string): Promise<void> {
+		try {
+			const config = await this.getConfig(projectName);
+			const filters = normalizePublishFilterConfig(config.publishFilters);
+			const projectInfo = await this.getProjectInfo(projectName);
+			const scopes = projectInfo ? this.getContentScopes(projectInfo) : [];
+
+			const generated = toIgnorePatterns(evaluatePublishFilters(this.plugin.app, scopes, filters));
+			const previous = new Set<string>(Array.isArray(config.publishFilterIgnoreFiles) ? config.publishFilterIgnoreFiles : []);
+			const current: string[] = Array.isArray(config.ignoreFiles) ? config.ignoreFiles : [];
+			const userPatterns = current.filter(pattern => !previous.has(pattern));
+			const ignoreFiles = [...userPatterns, ...generated.filter(pattern => !userPatterns.includes(pattern))];
+
+			if (JSON.stringify([...previous]) !== JSON.stringify(generated)) {
+				await this.saveConfig(projectName, 'publishFilterIgnoreFiles', generated);
+			}
+			if (JSON.stringify(current) !== JSON.stringify(ignoreFiles)) {
+				await this.saveConfig(projectName, 'ignoreFiles', ignoreFiles);
+			}
+		} catch (error) {
+			// 过滤失败时照常构建全部内容
+			console.error('[ProjectServiceManager] Error applying publish filters:', error);
+		}
+	}
+
+	/**
+	 * 项目链接的源文件夹 / 文件 / 静态资源文件夹（vault 相对路径）
+	 */
+	getSourcePaths(projectInfo: ProjectInfo): string[] {
+		const absolutePaths = [
+			...(projectInfo.contentLinks ?? []).map(link => link.sourcePath),
+			...(projectInfo.fileLink ? [projectInfo.fileLink.sourcePath] : []),
+			...(projectInfo.staticLink ? [projectInfo.staticLink.sourcePath] : []),
+		];
+		return absolutePaths.map(absolutePath => this.toVaultPath(absolutePath));
+	}
+
+	private toVaultPath(absolutePath: string): string {
+		const basePath = this.plugin.vaultBasePath;
+		return basePath && absolutePath.startsWith(basePath)
+			? absolutePath.slice(basePath.length).replace(/\\/g, '/').replace(/^\/+/, '')
+			: absolutePath;
+	}
+
+	/**
+	 * 项目链接的源文件夹 / 文件
+	 */
+	private getContentScopes(projectInfo: ProjectInfo): PublishFilterScope[] {
+		const toScope = (sourcePath: string): PublishFilterScope | null => {
+			const relativePath = this.toVaultPath(sourcePath);
+			const abstractFile = relativePath
+				? this.plugin.app.vault.getAbstractFileByPath(relativePath)
+				: this.plugin.app.vault.getRoot();
+			if (abstractFile instanceof TFolder) {
+				return { folder: abstractFile, file: null };
+			}
+			if (abstractFile instanceof TFile) {
+				return { folder: null, file: abstractFile };
+			}
+			return null;
+		};
+
+		const sources = [
+			...(projectInfo.contentLinks ?? []).map(link => link.sourcePath),
+			...(projectInfo.fileLink ? [projectInfo.fileLink.sourcePath] : []),
+		];
+		return sources.map(toScope).filter((scope): scope is PublishFilterScope => !!scope);
+	}
+
 	/**
 	 * 停止预览服务器
 	 */
@@ -345,6 +501,12 @@ export class ProjectServiceManager {
 		try {
 			const { method, config, onProgress } = options;
 
+			// FTP / Git / S3 发布由插件自己完成（增量上传）
+			const sitePublisher = await this.createSitePublisher(method);
+			if (sitePublisher) {
+				return await this.publishOutputDir(projectName, sitePublisher, config, onProgress);
+			}
+
 			// Foundry service expects onProgress as a separate second parameter
 			const result = await this.plugin.foundryPublishService.publish(
 				{
@@ -385,6 +547,11 @@ export class ProjectServiceManager {
 		config: any
 	): Promise<ConnectionResult> {
 		try {
+			const sitePublisher = await this.createSitePublisher(config?.type);
+			if (sitePublisher) {
+				return await sitePublisher.testConnection(config);
+			}
+
 			const result = await this.plugin.foundryPublishService.testConnection(
 				this.plugin.absWorkspacePath,
 				projectName,
@@ -405,6 +572,48 @@ export class ProjectServiceManager {
 			};
 		}
 	}
+
+	/**
+	 * 插件自己实现的发布方式，其余方式返回 null 交给 Foundry
+	 * 按需加载，避免移动端加载 Node.js 模块
+	 */
+	private async createSitePublisher(method: string | undefined): Promise<SitePublisher | null> {
+		switch (method) {
+			case 'ftp': {
+				const { FtpPublisher } = await import('./ftpPublisher');
+				return new FtpPublisher();
+			}
+			case 'git': {
+				const { GitPublisher } = await import('./gitPublisher');
+				return new GitPublisher(this.plugin.absWorkspacePath);
+			}
+			case 's3': {
+				const { S3Publisher } = await import('./s3Publisher');
+				return new S3Publisher();
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * 发布已构建的输出目录（publishDir，默认 public）
+	 */
+	private async publishOutputDir(
+		projectName: string,
+		sitePublisher: SitePublisher,
+		config: any,
+		onProgress?: (progress: any) => void
+	): Promise<PublishResult> {
+		const projectInfo = await this.getProjectInfo(projectName);
+		if (!projectInfo) {
+			return { success: false, error: `Project ${projectName} not found` };
+		}
+
+		const projectConfig = await this.getConfig(projectName);
+		const outputDir = joinPath(projectInfo.path, projectConfig.publishDir || 'public');
+		return sitePublisher.publish(outputDir, config, onProgress);
+	}
 }
 
 // ==================== 类型定义 ====================
@@ -422,6 +631,12 @@ export interface ProjectResult {
 export interface ProjectInfo {
 	name: string;
 	path: string;
+	/** 文件夹项目链接的源文件夹（绝对路径） */
+	contentLinks?: Array<{ sourcePath: string; languageCode: string }>;
+	/** 单文件项目链接的源文件（绝对路径） */
+	fileLink?: { sourcePath: string };
+	/** 静态资源文件夹（绝对路径） */
+	staticLink?: { sourcePath: string };
 	createdAt?: number;
 	updatedAt?: number;
 }
@@ -452,6 +667,14 @@ export interface ConnectionResult {
 	message?: string;
 }
 
+/**
+ * 插件自己实现的发布目标（FTP/SFTP、Git、S3）
+ */
+export interface SitePublisher {
+	publish(outputDir: string, config: any, onProgress?: (progress: PublishProgressUpdate) => void): Promise<PublishResult>;
+	testConnection(config: any): Promise<ConnectionResult>;
+}
+
 export interface FolderStructureResult {
 	success: boolean;
 	error?: string;
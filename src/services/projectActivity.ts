@@ -0,0 +1,134 @@
+import {TFile, TFolder} from 'obsidian';
+import type FridayPlugin from '../main';
+import type {PublishOutcome, ValidPublishMethod} from '../types/publish';
+
+/**
+ * Project Activity
+ *
+ * 记录每个项目最近一次构建和发布，供项目面板显示，
+ * 以及判断项目自上次发布后是否有修改（“重新发布有修改的项目”）
+ *
+ * 保存在插件目录下的 project-activity.json
+ */
+export class ProjectActivityLog {
+	private plugin: FridayPlugin;
+	private entries: Record<string, ProjectActivity> = {};
+
+	private static readonly FILE = 'project-activity.json';
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+	}
+
+	async load(): Promise<void> {
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (await adapter.exists(this.filePath)) {
+				const data = JSON.parse(await adapter.read(this.filePath));
+				this.entries = data && typeof data === 'object' ? data : {};
+			}
+		} catch (error) {
+			console.warn('[ProjectActivity] Failed to load activity:', error);
+			this.entries = {};
+		}
+	}
+
+	get(projectName: string): ProjectActivity {
+		return this.entries[projectName] ?? {};
+	}
+
+	async recordBuild(projectName: string, success: boolean, error?: string): Promise<void> {
+		const activity = this.get(projectName);
+		activity.lastBuild = { at: Date.now(), success, error };
+		await this.save(projectName, activity);
+	}
+
+	async recordPublish(outcome: PublishOutcome): Promise<void> {
+		const activity = this.get(outcome.projectName);
+		activity.lastPublish = {
+			at: Date.now(),
+			success: outcome.success,
+			method: outcome.method,
+			url: outcome.url,
+			error: outcome.error,
+		};
+		// 发布失败时保留上次成功发布的地址
+		if (outcome.success) {
+			activity.lastSuccessfulPublish = activity.lastPublish.at;
+			if (outcome.url) {
+				activity.liveUrl = outcome.url;
+			}
+		}
+		await this.save(outcome.projectName, activity);
+	}
+
+	async remove(projectName: string): Promise<void> {
+		if (projectName in this.entries) {
+			delete this.entries[projectName];
+			await this.write();
+		}
+	}
+
+	/**
+	 * 源文件夹 / 文件中是否有上次成功发布后修改过的文件
+	 * 从未发布过的项目返回 false；只能发现修改和新增，删除文件不会被发现
+	 */
+	hasChangesSinceLastPublish(projectName: string, sourcePaths: string[]): boolean {
+		const since = this.get(projectName).lastSuccessfulPublish;
+		if (!since) {
+			return false;
+		}
+
+		const vault = this.plugin.app.vault;
+		const changed = (file: TFile) => file.stat.mtime > since;
+		return sourcePaths.some(sourcePath => {
+			const target = sourcePath ? vault.getAbstractFileByPath(sourcePath) : vault.getRoot();
+			if (target instanceof TFile) {
+				return changed(target);
+			}
+			if (target instanceof TFolder) {
+				const prefix = target.isRoot() ? '' : `${target.path}/`;
+				return vault.getFiles().some(file => file.path.startsWith(prefix) && changed(file));
+			}
+			return false;
+		});
+	}
+
+	private async save(projectName: string, activity: ProjectActivity): Promise<void> {
+		this.entries[projectName] = activity;
+		await this.write();
+	}
+
+	private async write(): Promise<void> {
+		try {
+			await this.plugin.app.vault.adapter.write(this.filePath, JSON.stringify(this.entries, null, 2));
+		} catch (error) {
+			console.warn('[ProjectActivity] Failed to save activity:', error);
+		}
+	}
+
+	private get filePath(): string {
+		return `${this.plugin.pluginDir}/${ProjectActivityLog.FILE}`;
+	}
+}
+
+// ==================== 类型定义 ====================
+
+export interface ProjectActivity {
+	lastBuild?: {
+		at: number;
+		success: boolean;
+		error?: string;
+	};
+	lastPublish?: {
+		at: number;
+		success: boolean;
+		method: ValidPublishMethod;
+		url?: string;
+		error?: string;
+	};
+	/** 上次成功发布的时间，用于判断是否有修改 */
+	lastSuccessfulPublish?: number;
+	/** 上次成功发布的站点地址 */
+	liveUrl?: string;
+}
@@ -0,0 +1,240 @@
+import { getAllTags, getLinkpath, TFile, TFolder, type App } from 'obsidian';
+import { matchesAnyGlob } from '../utils/glob';
+
+/**
+ * Publish Filter
+ *
+ * 项目级发布过滤规则，决定源文件夹中哪些笔记会被发布：
+ * - frontmatter：只发布 publish: true 的笔记、跳过 draft: true 的笔记
+ * - 标签：允许 / 排除列表（包含子标签，如 blog 匹配 blog/tech）
+ * - glob：相对于内容根目录的包含 / 排除模式
+ * - 只发布从首页笔记出发、经链接可以到达的笔记
+ *
+ * 规则保存在项目配置 publishFilters 中；构建前由 ProjectServiceManager
+ * 编译为 Foundry 的 ignoreFiles，被排除的笔记不会进入站点
+ * 只过滤 Markdown 笔记，附件不受影响
+ */
+
+export const DEFAULT_INDEX_NOTE = 'index.md';
+
+export interface PublishFilterConfig {
+	/** 只发布 frontmatter 中 publish: true 的笔记 */
+	requirePublishFlag: boolean;
+	/** 跳过 frontmatter 中 draft: true 的笔记 */
+	excludeDrafts: boolean;
+	/** 只发布带有其中任一标签的笔记，空列表表示不限制 */
+	includeTags: string[];
+	/** 跳过带有其中任一标签的笔记 */
+	excludeTags: string[];
+	/** 只发布匹配其中任一模式的笔记，空列表表示不限制 */
+	include: string[];
+	/** 跳过匹配其中任一模式的笔记 */
+	exclude: string[];
+	/** 只发布从首页笔记经链接可以到达的笔记 */
+	linkedFromIndex: boolean;
+	/** 首页笔记，相对于内容根目录 */
+	indexNote: string;
+}
+
+/**
+ * 参与过滤的内容根目录，与 Site 的 LanguageContent 一致
+ */
+export interface PublishFilterScope {
+	folder: TFolder | null;
+	file: TFile | null;
+}
+
+export interface PublishFilterNote {
+	file: TFile;
+	/** 相对于内容根目录的路径 */
+	relativePath: string;
+	/** 内容根目录的文件夹名，单文件项目为空 */
+	rootName: string;
+}
+
+export interface PublishFilterResult {
+	included: PublishFilterNote[];
+	excluded: PublishFilterNote[];
+	total: number;
+}
+
+export function normalizePublishFilterConfig(raw: Partial<PublishFilterConfig> | undefined | null): PublishFilterConfig {
+	const list = (value: unknown) => Array.isArray(value)
+		? value.map(item => String(item).trim()).filter(Boolean)
+		: [];
+	return {
+		requirePublishFlag: raw?.requirePublishFlag === true,
+		excludeDrafts: raw?.excludeDrafts === true,
+		includeTags: list(raw?.includeTags),
+		excludeTags: list(raw?.excludeTags),
+		include: list(raw?.include),
+		exclude: list(raw?.exclude),
+		linkedFromIndex: raw?.linkedFromIndex === true,
+		indexNote: raw?.indexNote?.trim() || DEFAULT_INDEX_NOTE,
+	};
+}
+
+/**
+ * 是否配置了任何规则（没有规则时全部发布）
+ */
+export function hasPublishFilters(config: PublishFilterConfig): boolean {
+	return config.requirePublishFlag
+		|| config.excludeDrafts
+		|| config.includeTags.length > 0
+		|| config.excludeTags.length > 0
+		|| config.include.length > 0
+		|| config.exclude.length > 0
+		|| config.linkedFromIndex;
+}
+
+/**
+ * 对内容根目录下的所有笔记求值
+ */
+export function evaluatePublishFilters(
+	app: App,
+	scopes: PublishFilterScope[],
+	config: PublishFilterConfig
+): PublishFilterResult {
+	const notes = collectNotes(scopes);
+	if (!hasPublishFilters(config)) {
+		return { included: notes, excluded: [], total: notes.length };
+	}
+
+	let included = notes.filter(note => matchesRules(app, note, config));
+
+	if (config.linkedFromIndex) {
+		const reachable = findReachable(app, included, config.indexNote);
+		included = included.filter(note => reachable.has(note.file.path));
+	}
+
+	const includedPaths = new Set(included.map(note => note.file.path));
+	return {
+		included,
+		excluded: notes.filter(note => !includedPaths.has(note.file.path)),
+		total: notes.length,
+	};
+}
+
+/**
+ * 被排除的笔记转换为 Foundry ignoreFiles 正则
+ * ignoreFiles 匹配文件完整路径：内容目录可能是项目中的 content / content.<lang>，
+ * 也可能是解析链接后的源文件夹，两者都要匹配
+ * 文件夹中的笔记全部被排除时只生成该文件夹的一条规则（只匹配其中的 Markdown 文件，附件照常发布）
+ */
+export function toIgnorePatterns(result: Pick<PublishFilterResult, 'included' | 'excluded'>): string[] {
+	const sep = '[\\\\/]';
+	const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const toPattern = (path: string) => path.split('/').map(escape).join(sep);
+	const rootPattern = (note: PublishFilterNote) =>
+		note.rootName ? `(content(\\.[^\\\\/]+)?|${escape(note.rootName)})${sep}` : '';
+	const folderKey = (note: PublishFilterNote, folder: string) => `${note.rootName}/${folder}`;
+	const ancestors = (note: PublishFilterNote) => {
+		const parts = note.relativePath.split('/').slice(0, -1);
+		return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+	};
+
+	// 包含发布笔记的文件夹不能整体排除
+	const publishedFolders = new Set<string>();
+	for (const note of result.included) {
+		ancestors(note).forEach(folder => publishedFolders.add(folderKey(note, folder)));
+	}
+
+	const patterns = new Set<string>();
+	for (const note of result.excluded) {
+		const folder = ancestors(note).find(candidate => !publishedFolders.has(folderKey(note, candidate)));
+		patterns.add(folder
+			? `(^|${sep})${rootPattern(note)}${toPattern(folder)}${sep}.*\\.md$`
+			: `(^|${sep})${rootPattern(note)}${toPattern(note.relativePath)}$`);
+	}
+	return [...patterns];
+}
+
+function collectNotes(scopes: PublishFilterScope[]): PublishFilterNote[] {
+	const notes: PublishFilterNote[] = [];
+	const walk = (folder: TFolder, root: TFolder) => {
+		for (const child of folder.children) {
+			if (child instanceof TFolder) {
+				walk(child, root);
+			} else if (child instanceof TFile && child.extension === 'md') {
+				const relativePath = root.isRoot() ? child.path : child.path.slice(root.path.length + 1);
+				notes.push({ file: child, relativePath, rootName: root.name });
+			}
+		}
+	};
+
+	for (const scope of scopes) {
+		if (scope.folder) {
+			walk(scope.folder, scope.folder);
+		} else if (scope.file) {
+			notes.push({ file: scope.file, relativePath: scope.file.name, rootName: '' });
+		}
+	}
+	return notes;
+}
+
+function matchesRules(app: App, note: PublishFilterNote, config: PublishFilterConfig): boolean {
+	if (config.include.length > 0 && !matchesAnyGlob(note.relativePath, config.include)) {
+		return false;
+	}
+	if (matchesAnyGlob(note.relativePath, config.exclude)) {
+		return false;
+	}
+
+	const cache = app.metadataCache.getFileCache(note.file);
+	const frontmatter = cache?.frontmatter;
+	if (config.requirePublishFlag && !isTrue(frontmatter?.publish)) {
+		return false;
+	}
+	if (config.excludeDrafts && isTrue(frontmatter?.draft)) {
+		return false;
+	}
+
+	if (config.includeTags.length > 0 || config.excludeTags.length > 0) {
+		const tags = (cache ? getAllTags(cache) ?? [] : []).map(normalizeTag);
+		const hasTag = (filter: string) => {
+			const wanted = normalizeTag(filter);
+			return tags.some(tag => tag === wanted || tag.startsWith(`${wanted}/`));
+		};
+		if (config.includeTags.length > 0 && !config.includeTags.some(hasTag)) {
+			return false;
+		}
+		if (config.excludeTags.some(hasTag)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * 从首页笔记出发，沿链接和嵌入做广度优先遍历（只经过候选笔记）
+ */
+function findReachable(app: App, candidates: PublishFilterNote[], indexNote: string): Set<string> {
+	const byPath = new Map(candidates.map(note => [note.file.path, note]));
+	const wanted = indexNote.replace(/^\/+/, '');
+	const roots = candidates.filter(note => note.relativePath === wanted);
+
+	const reachable = new Set<string>(roots.map(note => note.file.path));
+	const queue = [...roots];
+	while (queue.length > 0) {
+		const note = queue.shift()!;
+		const cache = app.metadataCache.getFileCache(note.file);
+		for (const link of [...(cache?.links ?? []), ...(cache?.embeds ?? [])]) {
+			const target = app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), note.file.path);
+			const next = target && byPath.get(target.path);
+			if (next && !reachable.has(next.file.path)) {
+				reachable.add(next.file.path);
+				queue.push(next);
+			}
+		}
+	}
+	return reachable;
+}
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function isTrue(value: unknown): boolean {
+	return value === true || String(value).toLowerCase() === 'true';
+}
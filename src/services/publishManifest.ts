@@ -0,0 +1,93 @@
+import {createHash} from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Publish Manifest
+ *
+ * 增量发布用的文件清单：相对路径 → 内容 SHA-256
+ * 上传到目标端（对象存储、FTP 等）保存，下次发布时与本地清单对比，
+ * 只上传有变化的文件，并删除清单中已不存在的文件
+ *
+ * 没有远程清单时（首次发布）全部上传，且不删除任何远程文件
+ */
+
+export const MANIFEST_FILE = '.mdfriday-manifest.json';
+
+export interface PublishManifest {
+	version: 1;
+	generatedAt: number;
+	files: Record<string, string>;
+}
+
+export interface ManifestDiff {
+	upload: string[];
+	remove: string[];
+	unchanged: number;
+}
+
+/**
+ * 扫描输出目录，生成本地清单（路径使用 / 分隔）
+ */
+export async function buildLocalManifest(outputDir: string): Promise<PublishManifest> {
+	const files: Record<string, string> = {};
+
+	const walk = async (dir: string, prefix: string) => {
+		for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+			const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				await walk(fullPath, relativePath);
+			} else if (entry.isFile() && relativePath !== MANIFEST_FILE) {
+				files[relativePath] = hashContent(new Uint8Array(await fs.promises.readFile(fullPath)));
+			}
+		}
+	};
+	await walk(outputDir, '');
+
+	return { version: 1, generatedAt: Date.now(), files };
+}
+
+/**
+ * 解析远程清单，格式不正确时返回 null（按首次发布处理）
+ */
+export function parseManifest(text: string | null | undefined): PublishManifest | null {
+	if (!text) {
+		return null;
+	}
+	try {
+		const data = JSON.parse(text);
+		if (data?.version === 1 && data.files && typeof data.files === 'object') {
+			return data as PublishManifest;
+		}
+	} catch {
+		// 忽略损坏的清单
+	}
+	return null;
+}
+
+/**
+ * 对比远程与本地清单
+ */
+export function diffManifests(remote: PublishManifest | null, local: PublishManifest): ManifestDiff {
+	const upload: string[] = [];
+	let unchanged = 0;
+
+	for (const [file, hash] of Object.entries(local.files)) {
+		if (remote?.files[file] === hash) {
+			unchanged++;
+		} else {
+			upload.push(file);
+		}
+	}
+
+	const remove = remote
+		? Object.keys(remote.files).filter(file => !(file in local.files))
+		: [];
+
+	return { upload, remove, unchanged };
+}
+
+export function hashContent(content: Uint8Array | string): string {
+	return createHash('sha256').update(content).digest('hex');
+}
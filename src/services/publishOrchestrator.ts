@@ -0,0 +1,497 @@
+import {TFile, TFolder} from 'obsidian';
+import type FridayPlugin from '../main';
+import {GetBaseUrl} from '../main';
+import type {ProgressUpdate, PublishProgressUpdate} from '../types/events';
+import {
+	DEFAULT_GIT_BRANCH,
+	DEFAULT_S3_REGION,
+	hasFtpCredentials,
+	normalizePublishMethod,
+	type PublishEvent,
+	type PublishOptions,
+	type PublishOutcome,
+	type PublishStage,
+	type ValidPublishMethod,
+} from '../types/publish';
+import {nameToIdAsync} from '../utils/hash';
+
+export type PublishListener = (event: PublishEvent) => void;
+
+/**
+ * Publish Orchestrator
+ *
+ * 无界面的发布流程：项目准备 → baseURL → 发布配置 → 构建 → 发布
+ * 直接调用 ProjectServiceManager，不依赖 Site.svelte 面板是否打开
+ *
+ * 面板和其他插件通过 onProgress 订阅进度事件；
+ * 其他插件可通过 `app.plugins.plugins['mdfriday'].publishOrchestrator` 调用
+ */
+export class PublishOrchestrator {
+	private plugin: FridayPlugin;
+	private listeners = new Set<PublishListener>();
+	private running = new Set<string>();
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * 订阅所有项目的发布进度，返回取消订阅函数
+	 */
+	onProgress(listener: PublishListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * 项目是否正在发布
+	 */
+	isPublishing(projectName: string): boolean {
+		return this.running.has(projectName);
+	}
+
+	/**
+	 * 发布文件或文件夹
+	 * 项目名取文件夹名或文件名，项目不存在时自动创建
+	 */
+	async publish(
+		target: TFile | TFolder,
+		method: ValidPublishMethod,
+		options: PublishOptions = {}
+	): Promise<PublishOutcome> {
+		const projectName = target instanceof TFolder ? target.name : target.basename;
+
+		if (target instanceof TFile && target.extension !== 'md') {
+			return this.fail(projectName, method, Date.now(), this.plugin.i18n.t('messages.no_markdown_file'), options);
+		}
+
+		return this.execute(projectName, method, options, async () => {
+			await this.ensureProject(
+				projectName,
+				target instanceof TFolder ? target : null,
+				target instanceof TFile ? target : null
+			);
+		});
+	}
+
+	/**
+	 * 发布已有项目，未指定发布方式时使用项目保存的方式
+	 */
+	async publishProject(
+		projectName: string,
+		options: PublishOptions & { method?: ValidPublishMethod } = {}
+	): Promise<PublishOutcome> {
+		let method = options.method;
+		if (!method) {
+			const projectConfig = await this.plugin.projectServiceManager?.getConfig(projectName);
+			method = normalizePublishMethod(projectConfig?.publish?.method || this.plugin.settings.publishMethod);
+		}
+
+		return this.execute(projectName, method, options);
+	}
+
+	// ==================== 发布流程 ====================
+
+	private async execute(
+		projectName: string,
+		method: ValidPublishMethod,
+		options: PublishOptions,
+		prepare?: () => Promise<void>
+	): Promise<PublishOutcome> {
+		const startedAt = Date.now();
+		const projectServiceManager = this.plugin.projectServiceManager;
+
+		if (!projectServiceManager) {
+			return this.fail(projectName, method, startedAt, this.plugin.i18n.t('messages.publishing_desktop_only'), options);
+		}
+		if (this.running.has(projectName)) {
+			return this.fail(projectName, method, startedAt, this.plugin.i18n.t('messages.publish_in_progress', { name: projectName }), options, false);
+		}
+
+		const permissionError = this.checkPermission(method);
+		if (permissionError) {
+			return this.fail(projectName, method, startedAt, permissionError, options);
+		}
+
+		this.running.add(projectName);
+		const emit = (stage: PublishStage, percentage: number, extra: Partial<PublishEvent> = {}) =>
+			this.emit({ projectName, method, stage, percentage: Math.round(percentage), ...extra }, options);
+
+		try {
+			emit('preparing', 0);
+			if (prepare) {
+				await prepare();
+			}
+			if (!options.config) {
+				await this.applySitePath(projectName, method, options.sitePath);
+			}
+
+			const projectConfig = await projectServiceManager.getConfig(projectName);
+			const publishConfig = options.config ?? (await this.buildPublishConfig(projectName, method, projectConfig)).config;
+
+			// 构建占 0-50；跳过构建时发布占满 0-100
+			const publishStart = options.build === false ? 0 : 50;
+			if (options.build !== false) {
+				// 与 Site 面板预览相同的渲染器，Obsidian 风格的主题（如单文件默认的 Note）需要它
+				const renderer = await projectServiceManager.createRenderer(projectName);
+				const buildResult = await projectServiceManager.build(projectName, (progress: ProgressUpdate) => {
+					emit('building', (progress.percentage || 0) * 0.5, { message: progress.message });
+				}, { renderer });
+				if (!buildResult.success) {
+					throw new Error(buildResult.error || this.plugin.i18n.t('messages.build_failed'));
+				}
+			}
+
+			emit('publishing', publishStart);
+			const publishResult = await projectServiceManager.publish(projectName, {
+				method: this.toFoundryMethod(method),
+				config: publishConfig,
+				onProgress: (progress: PublishProgressUpdate) => {
+					const share = (100 - publishStart) / 100;
+					emit('publishing', publishStart + this.publishPercentage(progress) * share, {
+						message: progress.message,
+						filesCompleted: progress.filesCompleted,
+						filesTotal: progress.filesTotal,
+					});
+				},
+			});
+			if (!publishResult.success) {
+				throw new Error(publishResult.error || this.plugin.i18n.t('messages.publish_failed'));
+			}
+
+			const url = this.resolvePublishUrl(method, publishResult.url || '');
+			emit('complete', 100, { url });
+			const outcome: PublishOutcome = { success: true, projectName, method, url, duration: Date.now() - startedAt };
+			void this.plugin.projectActivity?.recordPublish(outcome);
+			return outcome;
+		} catch (error) {
+			return this.fail(projectName, method, startedAt, (error as Error).message, options);
+		} finally {
+			this.running.delete(projectName);
+		}
+	}
+
+	private fail(
+		projectName: string,
+		method: ValidPublishMethod,
+		startedAt: number,
+		error: string,
+		options: PublishOptions,
+		notify = true
+	): PublishOutcome {
+		const outcome: PublishOutcome = { success: false, projectName, method, error, duration: Date.now() - startedAt };
+		if (notify) {
+			console.error(`[PublishOrchestrator] Failed to publish ${projectName}:`, error);
+			this.emit({ projectName, method, stage: 'error', percentage: 0, error }, options);
+			void this.plugin.projectActivity?.recordPublish(outcome);
+		}
+		return outcome;
+	}
+
+	private emit(event: PublishEvent, options: PublishOptions) {
+		options.onProgress?.(event);
+		for (const listener of this.listeners) {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error('[PublishOrchestrator] Progress listener failed:', error);
+			}
+		}
+	}
+
+	/**
+	 * 发布阶段映射为 0-100（与面板原有的进度分段一致）
+	 */
+	private publishPercentage(progress: PublishProgressUpdate): number {
+		switch (progress.phase) {
+			case 'scanning':
+				return Math.min(20, progress.percentage * 0.2);
+			case 'uploading':
+				return 20 + Math.min(60, progress.percentage * 0.6);
+			case 'deploying':
+				return 80 + Math.min(15, progress.percentage * 0.15);
+			case 'complete':
+				return 100;
+			default:
+				return progress.percentage;
+		}
+	}
+
+	// ==================== 项目准备 ====================
+
+	private async ensureProject(projectName: string, folder: TFolder | null, file: TFile | null): Promise<void> {
+		const existing = await this.plugin.projectServiceManager!.getProjectInfo(projectName);
+		if (existing) {
+			return;
+		}
+
+		const created = await this.plugin.createFoundryProject(projectName, folder, file);
+		if (!created) {
+			throw new Error(`Failed to create project ${projectName}`);
+		}
+	}
+
+	/**
+	 * 按发布方式设置 baseURL，并记住项目的发布方式
+	 */
+	private async applySitePath(projectName: string, method: ValidPublishMethod, sitePath?: string): Promise<void> {
+		const projectServiceManager = this.plugin.projectServiceManager!;
+		const projectConfig = await projectServiceManager.getConfig(projectName);
+		const previewId = await nameToIdAsync(projectName);
+
+		let baseURL: string | undefined;
+		switch (method) {
+			case 'mdf-free':
+				baseURL = `/f/${previewId}`;
+				break;
+			case 'mdf-share':
+				if (this.plugin.settings.licenseUser?.userDir) {
+					baseURL = `/s/${this.plugin.settings.licenseUser.userDir}/${previewId}`;
+				}
+				break;
+			case 'mdf-app':
+			case 'mdf-custom':
+			case 'mdf-enterprise':
+			case 'netlify':
+			case 'git':
+			case 's3':
+				baseURL = sitePath;
+				break;
+			// ftp 使用项目已有的 baseURL
+		}
+
+		if (baseURL !== undefined && baseURL !== projectConfig.baseURL) {
+			await projectServiceManager.saveConfig(projectName, 'baseURL', baseURL);
+		}
+		if (projectConfig.publish?.method !== method) {
+			await projectServiceManager.saveConfig(projectName, 'publish', { ...projectConfig.publish, method });
+		}
+	}
+
+	/**
+	 * 发布权限检查，返回错误信息或 null
+	 */
+	checkPermission(method: ValidPublishMethod): string | null {
+		const licenseState = this.plugin.licenseState;
+		const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+
+		switch (method) {
+			case 'mdf-share':
+				return licenseState?.hasPublishPermission() ? null : t('settings.upgrade_for_mdfshare');
+			case 'mdf-app':
+				return licenseState?.hasFeature('customSubDomain') ? null : t('settings.upgrade_for_subdomain');
+			case 'mdf-custom':
+				return licenseState?.hasFeature('customDomain') && this.plugin.settings.customDomain
+					? null
+					: t('settings.upgrade_for_custom_domain');
+			case 'mdf-enterprise':
+				return licenseState?.isActivated() &&
+					!licenseState.isExpired() &&
+					licenseState.getPlan() === 'enterprise' &&
+					this.plugin.settings.enterpriseServerUrl
+					? null
+					: t('settings.upgrade_for_enterprise');
+			default:
+				// mdf-free, netlify, ftp, git, s3 无需额外权限
+				return null;
+		}
+	}
+
+	// ==================== 发布配置 ====================
+
+	/**
+	 * 根据保存的项目配置生成发布参数
+	 */
+	async buildPublishConfig(
+		projectName: string,
+		method: ValidPublishMethod,
+		projectConfig: Record<string, any>
+	): Promise<{ method: 'ftp' | 'netlify' | 'git' | 's3' | 'mdfriday'; config: any }> {
+		const publish = projectConfig.publish || {};
+		const licenseState = this.plugin.licenseState;
+
+		switch (method) {
+			case 'netlify':
+				if (!publish.netlify?.accessToken || !publish.netlify?.siteId) {
+					throw new Error(this.plugin.i18n.t('messages.netlify_settings_missing'));
+				}
+				return {
+					method: 'netlify',
+					config: {
+						type: 'netlify',
+						accessToken: publish.netlify.accessToken,
+						siteId: publish.netlify.siteId,
+					},
+				};
+			case 'ftp':
+				if (!publish.ftp?.host || !publish.ftp?.username || !hasFtpCredentials(publish.ftp)) {
+					throw new Error(this.plugin.i18n.t('messages.ftp_settings_missing'));
+				}
+				return {
+					method: 'ftp',
+					config: {
+						type: 'ftp',
+						protocol: publish.ftp.protocol === 'sftp' ? 'sftp' : 'ftp',
+						host: publish.ftp.host,
+						port: publish.ftp.port || undefined,
+						username: publish.ftp.username,
+						password: publish.ftp.password,
+						privateKeyPath: publish.ftp.privateKeyPath,
+						passphrase: publish.ftp.passphrase,
+						remotePath: publish.ftp.remotePath || '/',
+						secure: publish.ftp.secure !== undefined ? publish.ftp.secure : true,
+						ignoreCert: publish.ftp.ignoreCert === true,
+					},
+				};
+			case 'git':
+				if (!publish.git?.repository) {
+					throw new Error(this.plugin.i18n.t('messages.git_settings_missing'));
+				}
+				return {
+					method: 'git',
+					config: {
+						type: 'git',
+						repository: publish.git.repository,
+						branch: publish.git.branch || DEFAULT_GIT_BRANCH,
+						username: publish.git.username || '',
+						token: publish.git.token || '',
+						siteUrl: publish.git.siteUrl || '',
+					},
+				};
+			case 's3':
+				if (!publish.s3?.bucket || !publish.s3?.accessKeyId || !publish.s3?.secretAccessKey) {
+					throw new Error(this.plugin.i18n.t('messages.s3_settings_missing'));
+				}
+				return {
+					method: 's3',
+					config: {
+						type: 's3',
+						endpoint: publish.s3.endpoint || '',
+						region: publish.s3.region || DEFAULT_S3_REGION,
+						bucket: publish.s3.bucket,
+						accessKeyId: publish.s3.accessKeyId,
+						secretAccessKey: publish.s3.secretAccessKey,
+						prefix: publish.s3.prefix || '',
+						forcePathStyle: !!publish.s3.forcePathStyle,
+						siteUrl: publish.s3.siteUrl || '',
+					},
+				};
+		}
+
+		const deploymentTypes: Record<string, string> = {
+			'mdf-free': 'free',
+			'mdf-share': 'share',
+			'mdf-app': 'sub',
+			'mdf-custom': 'custom',
+			'mdf-enterprise': 'enterprise',
+		};
+		const path = method === 'mdf-free' || method === 'mdf-share'
+			? await nameToIdAsync(projectName)
+			: projectConfig.baseURL || '/';
+		const apiUrl = method === 'mdf-enterprise'
+			? this.plugin.settings.enterpriseServerUrl || licenseState?.getApiUrl() || GetBaseUrl(this.plugin.settings)
+			: licenseState?.getApiUrl() || GetBaseUrl(this.plugin.settings);
+
+		return {
+			method: 'mdfriday',
+			config: {
+				type: 'mdfriday',
+				deploymentType: deploymentTypes[method],
+				path,
+				enabled: true,
+				accessToken: licenseState?.getAccessToken() || '',
+				licenseKey: licenseState?.getLicenseKey() || '',
+				apiUrl,
+			},
+		};
+	}
+
+	private toFoundryMethod(method: ValidPublishMethod): 'ftp' | 'netlify' | 'git' | 's3' | 'mdfriday' {
+		if (method === 'ftp' || method === 'netlify' || method === 'git' || method === 's3') {
+			return method;
+		}
+		return 'mdfriday';
+	}
+
+	// ==================== 站点地址 ====================
+
+	/**
+	 * 根据发布方式把服务返回的地址（可能只是路径）补全为完整 URL
+	 */
+	resolvePublishUrl(method: ValidPublishMethod, resultUrl: string): string {
+		if (!resultUrl) {
+			return '';
+		}
+
+		const path = resultUrl.startsWith('/') ? resultUrl : `/${resultUrl}`;
+
+		switch (method) {
+			case 'netlify':
+			case 'mdf-free':
+			case 'mdf-share':
+			case 'git':
+			case 's3':
+				// git / s3 返回配置的站点地址
+				return resultUrl;
+
+			case 'ftp':
+				// FTP 没有可展示的地址
+				return '';
+
+			case 'mdf-app': {
+				const customSubdomain = this.plugin.getEffectiveSubdomain();
+				if (!customSubdomain) {
+					console.warn('[PublishOrchestrator] No custom subdomain configured for mdf-app');
+					return '';
+				}
+
+				let host = 'mdfriday.com';
+				if (this.plugin.settings.enterpriseServerUrl) {
+					try {
+						host = this.extractRootDomain(new URL(this.plugin.settings.enterpriseServerUrl).hostname);
+					} catch (error) {
+						console.error('[PublishOrchestrator] Invalid enterpriseServerUrl:', error);
+					}
+				}
+				return `https://${customSubdomain}.${host}${path}`;
+			}
+
+			case 'mdf-custom': {
+				const customDomain = this.plugin.settings.customDomain;
+				if (!customDomain) {
+					console.warn('[PublishOrchestrator] No custom domain configured for mdf-custom');
+					return '';
+				}
+				return `https://${customDomain}${path}`;
+			}
+
+			case 'mdf-enterprise': {
+				const enterpriseServerUrl = this.plugin.settings.enterpriseServerUrl;
+				if (!enterpriseServerUrl) {
+					console.warn('[PublishOrchestrator] No enterprise server URL configured for mdf-enterprise');
+					return '';
+				}
+				try {
+					return `https://${this.extractRootDomain(new URL(enterpriseServerUrl).hostname)}${path}`;
+				} catch (error) {
+					console.error('[PublishOrchestrator] Invalid enterpriseServerUrl:', error);
+					return '';
+				}
+			}
+
+			default:
+				return resultUrl;
+		}
+	}
+
+	/**
+	 * 提取根域名，如 app.sunwei.xyz -> sunwei.xyz
+	 */
+	private extractRootDomain(hostname: string): string {
+		const parts = hostname.split('.');
+		if (parts.length >= 2) {
+			return parts.slice(-2).join('.');
+		}
+		return hostname;
+	}
+}
@@ -0,0 +1,221 @@
+import { getLinkpath, TFile, TFolder, type CachedMetadata } from 'obsidian';
+import type FridayPlugin from '../main';
+import { ObsidianResourceProcessor } from '../markdown/resource-processor';
+import { evaluatePublishFilters, normalizePublishFilterConfig, type PublishFilterConfig } from './publishFilter';
+
+/**
+ * Publish Preflight
+ *
+ * 发布前检查面板中选中的文件夹 / 文件：
+ * - 无法解析的 [[wikilink]]
+ * - 无法解析的嵌入资源（与渲染时 ObsidianResourceProcessor.findLinkedFile 规则一致）
+ * - 指向发布范围之外的笔记链接（渲染时不会转换，发布后是死链）
+ * - 带有私有标记 frontmatter 的笔记（如 publish: false、private: true）
+ * - 超过大小限制的附件
+ *
+ * 被项目发布过滤规则（publishFilters）排除的笔记不会构建，不检查；
+ * 指向这些笔记的链接按发布范围之外处理
+ */
+
+export type PreflightIssueKind =
+	| 'private-note'
+	| 'missing-embed'
+	| 'unresolved-link'
+	| 'outside-link'
+	| 'oversized-attachment';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export const PREFLIGHT_SEVERITY: Record<PreflightIssueKind, PreflightSeverity> = {
+	'private-note': 'error',
+	'missing-embed': 'error',
+	'unresolved-link': 'warning',
+	'outside-link': 'warning',
+	'oversized-attachment': 'warning',
+};
+
+export interface PreflightIssue {
+	kind: PreflightIssueKind;
+	severity: PreflightSeverity;
+	/** 问题所在的笔记（超大附件为附件本身） */
+	file: TFile;
+	/** 链接目标、frontmatter 标记等 */
+	target?: string;
+	/** 0 起始的行号，用于跳转 */
+	line?: number;
+	/** 附件大小（字节） */
+	size?: number;
+}
+
+export interface PreflightReport {
+	filesChecked: number;
+	issues: PreflightIssue[];
+	errors: number;
+	warnings: number;
+}
+
+export interface PreflightOptions {
+	/** 逗号或换行分隔的 key: value 列表，只写 key 表示值为 true */
+	privateFlags: string;
+	/** 0 表示不检查附件大小 */
+	maxAttachmentMB: number;
+	/** 项目的发布过滤规则 */
+	publishFilters?: Partial<PublishFilterConfig>;
+}
+
+/**
+ * 发布范围内的一项内容，与 Site 的 LanguageContent 一致
+ */
+export interface PreflightScope {
+	folder: TFolder | null;
+	file: TFile | null;
+}
+
+interface PrivateFlag {
+	key: string;
+	value: string;
+}
+
+export class PublishPreflight {
+	private plugin: FridayPlugin;
+	private resourceProcessor: ObsidianResourceProcessor;
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+		this.resourceProcessor = new ObsidianResourceProcessor(plugin);
+	}
+
+	check(scopes: PreflightScope[], options: PreflightOptions): PreflightReport {
+		const folders = scopes.map(scope => scope.folder).filter((folder): folder is TFolder => !!folder);
+		const singleFiles = scopes.map(scope => scope.file).filter((file): file is TFile => !!file);
+		const filtered = new Set(
+			evaluatePublishFilters(this.plugin.app, scopes, normalizePublishFilterConfig(options.publishFilters))
+				.excluded.map(note => note.file.path)
+		);
+		const inScope = (file: TFile) =>
+			!filtered.has(file.path)
+			&& (singleFiles.some(single => single.path === file.path)
+				|| folders.some(folder => folder.isRoot() || file.path.startsWith(folder.path + '/')));
+
+		const files = new Map<string, TFile>();
+		for (const folder of folders) {
+			for (const file of collectFiles(folder)) {
+				files.set(file.path, file);
+			}
+		}
+		for (const file of singleFiles) {
+			files.set(file.path, file);
+		}
+
+		const privateFlags = parsePrivateFlags(options.privateFlags);
+		const maxBytes = options.maxAttachmentMB > 0 ? options.maxAttachmentMB * 1024 * 1024 : 0;
+		const attachments = new Map<string, TFile>();
+		const issues: PreflightIssue[] = [];
+		const add = (issue: Omit<PreflightIssue, 'severity'>) =>
+			issues.push({ ...issue, severity: PREFLIGHT_SEVERITY[issue.kind] });
+
+		let filesChecked = 0;
+		for (const file of files.values()) {
+			if (file.extension !== 'md') {
+				attachments.set(file.path, file);
+				continue;
+			}
+			if (filtered.has(file.path)) {
+				continue;
+			}
+			filesChecked++;
+
+			const cache = this.plugin.app.metadataCache.getFileCache(file);
+			if (!cache) {
+				continue;
+			}
+
+			const flag = findPrivateFlag(cache, privateFlags);
+			if (flag) {
+				add({ kind: 'private-note', file, target: `${flag.key}: ${flag.value}`, line: 0 });
+			}
+
+			for (const link of cache.links ?? []) {
+				const linkpath = getLinkpath(link.link);
+				if (!linkpath) {
+					// 同一笔记内的标题链接
+					continue;
+				}
+				const line = link.position.start.line;
+				const target = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+				if (!target) {
+					add({ kind: 'unresolved-link', file, target: link.link, line });
+				} else if (target.extension === 'md' && !inScope(target)) {
+					add({ kind: 'outside-link', file, target: target.path, line });
+				} else if (target.extension !== 'md') {
+					attachments.set(target.path, target);
+				}
+			}
+
+			for (const embed of cache.embeds ?? []) {
+				const linkpath = getLinkpath(embed.link);
+				if (!linkpath) {
+					continue;
+				}
+				const target = this.resourceProcessor.findLinkedFile(linkpath, file.path);
+				if (!target) {
+					add({ kind: 'missing-embed', file, target: embed.link, line: embed.position.start.line });
+				} else if (target.extension !== 'md') {
+					attachments.set(target.path, target);
+				}
+			}
+		}
+
+		if (maxBytes > 0) {
+			for (const attachment of attachments.values()) {
+				if (attachment.stat.size > maxBytes) {
+					add({ kind: 'oversized-attachment', file: attachment, target: attachment.path, size: attachment.stat.size });
+				}
+			}
+		}
+
+		const errors = issues.filter(issue => issue.severity === 'error').length;
+		return { filesChecked, issues, errors, warnings: issues.length - errors };
+	}
+}
+
+function collectFiles(folder: TFolder): TFile[] {
+	const files: TFile[] = [];
+	for (const child of folder.children) {
+		if (child instanceof TFolder) {
+			files.push(...collectFiles(child));
+		} else if (child instanceof TFile) {
+			files.push(child);
+		}
+	}
+	return files;
+}
+
+/**
+ * "publish: false, private: true" → [{key: 'publish', value: 'false'}, {key: 'private', value: 'true'}]
+ */
+function parsePrivateFlags(text: string): PrivateFlag[] {
+	return text
+		.split(/[,\n]/)
+		.map(entry => entry.trim())
+		.filter(Boolean)
+		.map(entry => {
+			const separator = entry.indexOf(':');
+			return separator === -1
+				? { key: entry, value: 'true' }
+				: { key: entry.slice(0, separator).trim(), value: entry.slice(separator + 1).trim() || 'true' };
+		})
+		.filter(flag => !!flag.key);
+}
+
+function findPrivateFlag(cache: CachedMetadata, flags: PrivateFlag[]): PrivateFlag | null {
+	const frontmatter = cache.frontmatter;
+	if (!frontmatter) {
+		return null;
+	}
+	return flags.find(flag => {
+		const value = frontmatter[flag.key];
+		return value !== undefined && value !== null
+			&& String(value).toLowerCase() === flag.value.toLowerCase();
+	}) ?? null;
+}
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {ObsidianHttpClient, type RawHttpResponse} from '../http';
+import type {PublishProgressUpdate} from '../types/events';
+import {DEFAULT_S3_REGION} from '../types/publish';
+import {getCacheControl, getContentType} from '../utils/mime';
+import {EMPTY_PAYLOAD_HASH, encodeRfc3986, signRequest, type SigV4Credentials} from '../utils/sigv4';
+import {
+	buildLocalManifest,
+	diffManifests,
+	hashContent,
+	MANIFEST_FILE,
+	parseManifest,
+	type PublishManifest,
+} from './publishManifest';
+import type {ConnectionResult, PublishResult} from './project';
+
+/**
+ * S3 Publisher
+ *
+ * 把构建产物上传到 S3 兼容的对象存储（AWS S3、MinIO、Cloudflare R2、阿里云 OSS 等）
+ * 请求使用 SigV4 签名，经 ObsidianHttpClient（requestUrl）发出
+ *
+ * 增量上传：bucket 中保存 .mdfriday-manifest.json，只上传内容有变化的文件，
+ * 并删除上次发布过、本次已不存在的文件；清单最后上传，失败的发布下次会重新上传
+ */
+export class S3Publisher {
+	private http: ObsidianHttpClient;
+
+	private static readonly CONCURRENCY = 4;
+	private static readonly MANIFEST_CACHE_CONTROL = 'no-cache';
+
+	constructor(http: ObsidianHttpClient = new ObsidianHttpClient()) {
+		this.http = http;
+	}
+
+	/**
+	 * 发布目录到 bucket
+	 */
+	async publish(
+		outputDir: string,
+		config: S3PublishConfig,
+		onProgress?: (progress: PublishProgressUpdate) => void
+	): Promise<PublishResult> {
+		try {
+			this.validate(config);
+
+			onProgress?.({ phase: 'scanning', percentage: 0, message: 'Scanning files...' });
+			const local = await buildLocalManifest(outputDir);
+			onProgress?.({ phase: 'scanning', percentage: 50, message: 'Fetching remote manifest...' });
+			const remote = await this.fetchManifest(config);
+			const diff = diffManifests(remote, local);
+			onProgress?.({
+				phase: 'scanning',
+				percentage: 100,
+				message: `${diff.upload.length} changed, ${diff.unchanged} unchanged, ${diff.remove.length} to delete`,
+			});
+
+			let completed = 0;
+			await this.runPool(diff.upload, async (file) => {
+				const body = new Uint8Array(await fs.promises.readFile(path.join(outputDir, ...file.split('/'))));
+				await this.putObject(config, file, body, local.files[file], {
+					'content-type': getContentType(file),
+					'cache-control': getCacheControl(file),
+				});
+				completed++;
+				onProgress?.({
+					phase: 'uploading',
+					percentage: Math.round((completed / diff.upload.length) * 100),
+					message: file,
+					currentFile: file,
+					filesCompleted: completed,
+					filesTotal: diff.upload.length,
+				});
+			});
+
+			let removed = 0;
+			await this.runPool(diff.remove, async (file) => {
+				await this.deleteObject(config, file);
+				removed++;
+				onProgress?.({
+					phase: 'deploying',
+					percentage: Math.round((removed / diff.remove.length) * 100),
+					message: `Deleted ${file}`,
+					currentFile: file,
+				});
+			});
+
+			// 没有任何变化时保留远程清单
+			if (!remote || diff.upload.length > 0 || diff.remove.length > 0) {
+				const manifestBody = new TextEncoder().encode(JSON.stringify(local));
+				await this.putObject(config, MANIFEST_FILE, manifestBody, hashContent(manifestBody), {
+					'content-type': 'application/json',
+					'cache-control': S3Publisher.MANIFEST_CACHE_CONTROL,
+				});
+			}
+
+			onProgress?.({
+				phase: 'complete',
+				percentage: 100,
+				filesCompleted: diff.upload.length,
+				filesTotal: diff.upload.length,
+			});
+			return { success: true, url: config.siteUrl };
+		} catch (error) {
+			console.error('[S3Publisher] Publish failed:', error);
+			return { success: false, error: (error as Error).message };
+		}
+	}
+
+	/**
+	 * 测试 bucket 是否可访问（列出一个对象）
+	 */
+	async testConnection(config: S3PublishConfig): Promise<ConnectionResult> {
+		try {
+			this.validate(config);
+			const url = new URL(this.bucketUrl(config));
+			url.searchParams.set('list-type', '2');
+			url.searchParams.set('max-keys', '1');
+			url.searchParams.set('prefix', normalizePrefix(config.prefix));
+
+			const response = await this.send(config, 'GET', url.toString());
+			if (!response.ok) {
+				throw this.toError(response, 'List objects');
+			}
+			return { success: true, message: `Connected to bucket "${config.bucket}"` };
+		} catch (error) {
+			return { success: false, error: (error as Error).message };
+		}
+	}
+
+	// ==================== 对象操作 ====================
+
+	private async fetchManifest(config: S3PublishConfig): Promise<PublishManifest | null> {
+		const response = await this.send(config, 'GET', this.objectUrl(config, MANIFEST_FILE));
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw this.toError(response, 'Fetch manifest');
+		}
+		return parseManifest(response.text);
+	}
+
+	private async putObject(
+		config: S3PublishConfig,
+		file: string,
+		body: Uint8Array,
+		payloadHash: string,
+		headers: Record<string, string>
+	): Promise<void> {
+		const buffer = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer;
+		const response = await this.send(config, 'PUT', this.objectUrl(config, file), headers, buffer, payloadHash);
+		if (!response.ok) {
+			throw this.toError(response, `Upload ${file}`);
+		}
+	}
+
+	private async deleteObject(config: S3PublishConfig, file: string): Promise<void> {
+		const response = await this.send(config, 'DELETE', this.objectUrl(config, file));
+		// 对象已不存在时也视为成功
+		if (!response.ok && response.status !== 404) {
+			throw this.toError(response, `Delete ${file}`);
+		}
+	}
+
+	private async send(
+		config: S3PublishConfig,
+		method: string,
+		url: string,
+		headers: Record<string, string> = {},
+		body?: ArrayBuffer,
+		payloadHash = EMPTY_PAYLOAD_HASH
+	): Promise<RawHttpResponse> {
+		const credentials: SigV4Credentials = {
+			accessKeyId: config.accessKeyId,
+			secretAccessKey: config.secretAccessKey,
+			region: config.region || DEFAULT_S3_REGION,
+			service: 's3',
+		};
+		const signedHeaders = await signRequest({ method, url, headers, payloadHash }, credentials);
+		return this.http.request(method, url, { headers: signedHeaders, body });
+	}
+
+	// ==================== 地址 ====================
+
+	private endpoint(config: S3PublishConfig): URL {
+		const endpoint = config.endpoint?.trim() || `https://s3.${config.region || DEFAULT_S3_REGION}.amazonaws.com`;
+		return new URL(/^https?:\/\//i.test(endpoint) ? endpoint : `https://${endpoint}`);
+	}
+
+	/**
+	 * path-style：endpoint/bucket；virtual-hosted：bucket.endpoint
+	 */
+	private bucketUrl(config: S3PublishConfig): string {
+		const endpoint = this.endpoint(config);
+		const basePath = endpoint.pathname.replace(/\/+$/, '');
+		if (config.forcePathStyle) {
+			return `${endpoint.protocol}//${endpoint.host}${basePath}/${encodeRfc3986(config.bucket)}/`;
+		}
+		return `${endpoint.protocol}//${config.bucket}.${endpoint.host}${basePath}/`;
+	}
+
+	private objectUrl(config: S3PublishConfig, file: string): string {
+		const key = `${normalizePrefix(config.prefix)}${file}`;
+		return this.bucketUrl(config) + key.split('/').map(encodeRfc3986).join('/');
+	}
+
+	// ==================== 工具 ====================
+
+	private validate(config: S3PublishConfig) {
+		if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+			throw new Error('Bucket, access key ID and secret access key are required');
+		}
+	}
+
+	/**
+	 * S3 错误响应为 XML：<Error><Code>...</Code><Message>...</Message></Error>
+	 */
+	private toError(response: RawHttpResponse, action: string): Error {
+		const code = /<Code>([^<]*)<\/Code>/.exec(response.text)?.[1];
+		const message = /<Message>([^<]*)<\/Message>/.exec(response.text)?.[1];
+		const detail = [code, message].filter(Boolean).join(': ') || `HTTP ${response.status}`;
+		return new Error(`${action} failed: ${detail}`);
+	}
+
+	private async runPool<T>(items: T[], worker: (item: T) => Promise<void>): Promise<void> {
+		let index = 0;
+		const next = async (): Promise<void> => {
+			while (index < items.length) {
+				await worker(items[index++]);
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(S3Publisher.CONCURRENCY, items.length) }, next));
+	}
+}
+
+/**
+ * 前缀统一为 "dir/sub/" 形式，空前缀表示 bucket 根目录
+ */
+function normalizePrefix(prefix?: string): string {
+	const trimmed = (prefix || '').trim().replace(/^\/+|\/+$/g, '');
+	return trimmed ? `${trimmed}/` : '';
+}
+
+// ==================== 类型定义 ====================
+
+export interface S3PublishConfig {
+	type: 's3';
+	/** 服务地址，如 https://s3.us-east-1.amazonaws.com、http://localhost:9000；留空使用 AWS */
+	endpoint?: string;
+	/** 区域，R2 使用 auto */
+	region: string;
+	bucket: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	/** bucket 内的子目录 */
+	prefix?: string;
+	/** 使用 endpoint/bucket 形式的地址（MinIO 需要） */
+	forcePathStyle?: boolean;
+	/** 站点访问地址，发布完成后显示 */
+	siteUrl?: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * BM25
+ *
+ * 关键词相关度，语义搜索的 keyword / hybrid 模式使用，不需要网络
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * 计算每个文档对查询的 BM25 分数，只返回分数大于 0 的文档
+ *
+ * @param queryTerms - 查询词项（tokenize 的结果）
+ * @param documents - 文档的词项（保留重复，用于词频）
+ */
+export function bm25Scores<T>(queryTerms: string[], documents: Array<{ item: T; terms: string[] }>): Map<T, number> {
+	const scores = new Map<T, number>();
+	const query = [...new Set(queryTerms)];
+	if (query.length === 0 || documents.length === 0) {
+		return scores;
+	}
+
+	const documentFrequency = new Map<string, number>();
+	let totalLength = 0;
+	for (const { terms } of documents) {
+		totalLength += terms.length;
+		const unique = new Set(terms);
+		for (const term of query) {
+			if (unique.has(term)) {
+				documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+			}
+		}
+	}
+	const averageLength = totalLength / documents.length || 1;
+
+	for (const { item, terms } of documents) {
+		const frequency = new Map<string, number>();
+		for (const term of terms) {
+			frequency.set(term, (frequency.get(term) ?? 0) + 1);
+		}
+
+		let score = 0;
+		for (const term of query) {
+			const tf = frequency.get(term);
+			const df = documentFrequency.get(term);
+			if (!tf || !df) continue;
+
+			const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+			score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * terms.length / averageLength));
+		}
+		if (score > 0) {
+			scores.set(item, score);
+		}
+	}
+	return scores;
+}
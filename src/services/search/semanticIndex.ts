@@ -0,0 +1,581 @@
+import { TFile, type HeadingCache, type TAbstractFile } from 'obsidian';
+import type FridayPlugin from '../../main';
+import { EmbeddingClient } from '../llm';
+import { joinVaultPath } from '../../utils/path';
+import { bm25Scores } from './bm25';
+import { tokenize } from './tokenize';
+
+/**
+ * Semantic Index
+ *
+ * 本地语义搜索索引：笔记按标题切分为段落，用设置中的 Embedding Provider 计算向量，
+ * 保存在 workspace 目录的 semantic-index.json（向量以 Float32 base64 存储）
+ * - 首次打开语义搜索时建立索引，之后监听 vault 变化，防抖后增量更新（按 mtime / size 判断）
+ * - Chat 的 Wiki 问答在检索前只同步当前 Wiki 文件夹（updateFolders），不开启全库更新
+ * - keyword 模式使用 BM25，semantic 模式使用向量余弦相似度，hybrid 按两者排名融合（RRF）
+ * - 没有配置 Embedding Provider 或 Provider 不可用时，段落仍会建立索引，搜索退回 keyword
+ */
+export class SemanticIndex {
+	private plugin: FridayPlugin;
+	private data: IndexData = emptyIndex();
+	private loaded = false;
+	/** 索引文件已存在（建立过索引）时才跟随 vault 变化更新 */
+	private enabled = false;
+	private updating: Promise<IndexUpdateResult> | null = null;
+	private rerunRequested = false;
+	private debounceTimer: number | null = null;
+	private abortController: AbortController | null = null;
+	/** 段落的 BM25 词项，按需计算 */
+	private termCache = new WeakMap<IndexedChunk, string[]>();
+
+	private static readonly INDEX_FILE = 'semantic-index.json';
+	private static readonly UPDATE_DEBOUNCE = 5 * 1000;
+	private static readonly EMBED_BATCH_SIZE = 16;
+	/** RRF 常数 */
+	private static readonly RANK_CONSTANT = 60;
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * 注册 vault 事件，由插件生命周期托管
+	 */
+	async start(): Promise<void> {
+		this.enabled = await this.plugin.app.vault.adapter.exists(this.indexPath);
+
+		const onChange = (file: TAbstractFile) => {
+			if (file.path.endsWith('.md')) this.scheduleUpdate();
+		};
+		this.plugin.registerEvent(this.plugin.app.vault.on('modify', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('create', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('delete', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('rename', onChange));
+	}
+
+	stop(): void {
+		if (this.debounceTimer !== null) {
+			window.clearTimeout(this.debounceTimer);
+			this.debounceTimer = null;
+		}
+		this.abortController?.abort();
+	}
+
+	async getStats(): Promise<IndexStats> {
+		await this.ensureLoaded();
+		const files = Object.values(this.data.files);
+		return {
+			notes: files.length,
+			passages: files.reduce((sum, file) => sum + file.chunks.length, 0),
+			embedded: files.reduce((sum, file) => sum + file.chunks.filter(chunk => chunk.vector).length, 0),
+			model: this.data.model,
+		};
+	}
+
+	/**
+	 * 同步索引与 vault：新增和修改的笔记重新切分、计算向量，删除的笔记移出索引
+	 * 正在更新时返回同一个更新，结束后再补跑一次
+	 */
+	update(onProgress?: (progress: IndexProgress) => void): Promise<IndexUpdateResult> {
+		// 正在进行的可能只是文件夹同步，补跑时需要全库更新
+		this.enabled = true;
+		if (this.updating) {
+			this.rerunRequested = true;
+			return this.updating;
+		}
+
+		this.abortController = new AbortController();
+		this.updating = this.runUpdate(onProgress, this.abortController.signal).finally(() => {
+			this.updating = null;
+			this.abortController = null;
+			if (this.rerunRequested) {
+				this.rerunRequested = false;
+				this.scheduleUpdate();
+			}
+		});
+		return this.updating;
+	}
+
+	/**
+	 * 只同步指定文件夹（路径前缀）内的笔记，不开启跟随 vault 变化的全库更新
+	 * 正在更新时等它结束后再同步
+	 */
+	async updateFolders(folders: string[], signal?: AbortSignal): Promise<IndexUpdateResult> {
+		while (this.updating) {
+			await this.updating.catch(() => undefined);
+		}
+		signal?.throwIfAborted();
+
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		signal?.addEventListener('abort', abort, { once: true });
+		this.abortController = controller;
+		const inScope = (path: string) => folders.some(folder => path.startsWith(folder));
+		this.updating = this.runUpdate(undefined, controller.signal, inScope).finally(() => {
+			signal?.removeEventListener('abort', abort);
+			this.updating = null;
+			this.abortController = null;
+			if (this.rerunRequested) {
+				this.rerunRequested = false;
+				this.scheduleUpdate();
+			}
+		});
+		const result = await this.updating;
+		signal?.throwIfAborted();
+		return result;
+	}
+
+	/**
+	 * 搜索段落并按笔记分组
+	 * options.filter 只在路径符合的笔记中搜索（如 Chat 只检索当前 Wiki 文件夹）
+	 * options.signal 取消查询的 embedding 请求
+	 */
+	async search(query: string, mode: SearchMode, limit = 20, options: SearchOptions = {}): Promise<SearchResponse> {
+		await this.ensureLoaded();
+		const chunks = options.filter
+			? this.allChunks().filter(ref => options.filter!(ref.path))
+			: this.allChunks();
+		if (!query.trim() || chunks.length === 0) {
+			return { mode, notes: [] };
+		}
+
+		let effectiveMode = mode;
+		let fallbackReason: string | undefined;
+		let vectorScores: Map<ChunkRef, number> | null = null;
+
+		if (mode !== 'keyword') {
+			try {
+				vectorScores = await this.vectorSearch(query, chunks, options.signal);
+			} catch (error) {
+				if (options.signal?.aborted) throw error;
+				fallbackReason = (error as Error).message;
+			}
+			if (!vectorScores) {
+				effectiveMode = 'keyword';
+				fallbackReason ??= this.data.model ? 'Embedding provider unavailable' : 'No embedding provider configured';
+			}
+		}
+
+		const keywordScores = effectiveMode === 'semantic'
+			? null
+			: bm25Scores(tokenize(query), chunks.map(ref => ({ item: ref, terms: this.termsOf(ref) })));
+
+		let scores: Map<ChunkRef, number>;
+		if (effectiveMode === 'keyword') {
+			scores = keywordScores!;
+		} else if (effectiveMode === 'semantic') {
+			scores = vectorScores!;
+		} else {
+			scores = fuseRankings([keywordScores!, vectorScores!], SemanticIndex.RANK_CONSTANT);
+		}
+
+		return { mode: effectiveMode, fallbackReason, notes: groupByNote(scores, limit) };
+	}
+
+	// ==================== 更新 ====================
+
+	private scheduleUpdate(): void {
+		if (!this.enabled) {
+			return;
+		}
+		if (this.debounceTimer !== null) {
+			window.clearTimeout(this.debounceTimer);
+		}
+		this.debounceTimer = window.setTimeout(() => {
+			this.debounceTimer = null;
+			void this.update().catch(error => console.warn('[SemanticIndex] Update failed:', error));
+		}, SemanticIndex.UPDATE_DEBOUNCE);
+	}
+
+	private async runUpdate(
+		onProgress: ((progress: IndexProgress) => void) | undefined,
+		signal: AbortSignal,
+		inScope: (path: string) => boolean = () => true
+	): Promise<IndexUpdateResult> {
+		await this.ensureLoaded();
+
+		const client = EmbeddingClient.fromSettings(this.plugin);
+		const model = client?.model ?? null;
+		// 模型变化后旧向量不可比较，全部重新计算
+		if (model !== this.data.model) {
+			for (const file of Object.values(this.data.files)) {
+				for (const chunk of file.chunks) delete chunk.vector;
+			}
+			this.data.model = model;
+		}
+
+		const files = this.plugin.app.vault.getMarkdownFiles().filter(file => inScope(file.path));
+		const existing = new Set(files.map(file => file.path));
+		let removed = 0;
+		for (const path of Object.keys(this.data.files)) {
+			if (inScope(path) && !existing.has(path)) {
+				delete this.data.files[path];
+				removed++;
+			}
+		}
+
+		const pending = files.filter(file => {
+			const indexed = this.data.files[file.path];
+			return !indexed
+				|| indexed.mtime !== file.stat.mtime
+				|| indexed.size !== file.stat.size
+				|| (client !== null && indexed.chunks.some(chunk => !chunk.vector));
+		});
+
+		// 整个索引只在更新结束（包括取消和出错）时写入一次，已处理的笔记不会丢失
+		let embeddingError: string | undefined;
+		try {
+			for (const [index, file] of pending.entries()) {
+				if (signal.aborted) break;
+
+				const content = await this.plugin.app.vault.cachedRead(file);
+				const headings = this.plugin.app.metadataCache.getFileCache(file)?.headings ?? [];
+				const chunks: IndexedChunk[] = chunkNote(content, headings);
+
+				if (client && !embeddingError) {
+					try {
+						await this.embedChunks(client, file, chunks, signal);
+					} catch (error) {
+						if (signal.aborted) break;
+						// Provider 不可用时只建立关键词索引，下次更新再补算向量
+						embeddingError = (error as Error).message;
+						console.warn('[SemanticIndex] Embedding failed:', error);
+					}
+				}
+
+				this.data.files[file.path] = { mtime: file.stat.mtime, size: file.stat.size, chunks };
+				onProgress?.({ done: index + 1, total: pending.length });
+			}
+		} finally {
+			if (pending.length > 0 || removed > 0) {
+				await this.save();
+			}
+		}
+		return { updated: pending.length, removed, embeddingError };
+	}
+
+	private async embedChunks(client: EmbeddingClient, file: TFile, chunks: IndexedChunk[], signal: AbortSignal): Promise<void> {
+		for (let start = 0; start < chunks.length; start += SemanticIndex.EMBED_BATCH_SIZE) {
+			const batch = chunks.slice(start, start + SemanticIndex.EMBED_BATCH_SIZE);
+			const vectors = await client.embed(batch.map(chunk => embeddingInput(file.basename, chunk)), signal);
+			batch.forEach((chunk, i) => {
+				chunk.vector = normalize(Float32Array.from(vectors[i]));
+			});
+		}
+	}
+
+	// ==================== 搜索 ====================
+
+	private async vectorSearch(query: string, chunks: ChunkRef[], signal?: AbortSignal): Promise<Map<ChunkRef, number> | null> {
+		const client = EmbeddingClient.fromSettings(this.plugin);
+		const embedded = chunks.filter(ref => ref.chunk.vector);
+		if (!client || client.model !== this.data.model || embedded.length === 0) {
+			return null;
+		}
+
+		const [queryVector] = await client.embed([query], signal);
+		const target = normalize(Float32Array.from(queryVector));
+		const scores = new Map<ChunkRef, number>();
+		for (const ref of embedded) {
+			scores.set(ref, dot(target, ref.chunk.vector!));
+		}
+		return scores;
+	}
+
+	private allChunks(): ChunkRef[] {
+		const refs: ChunkRef[] = [];
+		for (const [path, file] of Object.entries(this.data.files)) {
+			for (const chunk of file.chunks) refs.push({ path, chunk });
+		}
+		return refs;
+	}
+
+	private termsOf(ref: ChunkRef): string[] {
+		let terms = this.termCache.get(ref.chunk);
+		if (!terms) {
+			terms = tokenize(`${basename(ref.path)} ${ref.chunk.heading ?? ''} ${ref.chunk.text}`);
+			this.termCache.set(ref.chunk, terms);
+		}
+		return terms;
+	}
+
+	// ==================== 存储 ====================
+
+	private get indexPath(): string {
+		return joinVaultPath(this.plugin.pluginDir, 'workspace', SemanticIndex.INDEX_FILE);
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (this.loaded) return;
+		this.loaded = true;
+
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (await adapter.exists(this.indexPath)) {
+				this.data = deserializeIndex(JSON.parse(await adapter.read(this.indexPath)));
+			}
+		} catch (error) {
+			console.warn('[SemanticIndex] Failed to load index, rebuilding:', error);
+			this.data = emptyIndex();
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.plugin.app.vault.adapter.write(this.indexPath, JSON.stringify(serializeIndex(this.data)));
+		} catch (error) {
+			console.warn('[SemanticIndex] Failed to save index:', error);
+		}
+	}
+}
+
+// ==================== 切分 ====================
+
+/** 超过该长度的章节按段落再切分 */
+const MAX_CHUNK_CHARS = 1500;
+
+/**
+ * 按标题把笔记切分为段落（跳过 frontmatter），过长的章节按空行再切分
+ */
+export function chunkNote(content: string, headings: HeadingCache[]): IndexedChunk[] {
+	const lines = content.split('\n');
+	let bodyStart = 0;
+	if (lines[0]?.trim() === '---') {
+		const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+		if (end > 0) bodyStart = end + 1;
+	}
+
+	const sections: Array<{ heading?: string; start: number; end: number }> = [];
+	let start = bodyStart;
+	let heading: string | undefined;
+	for (const next of headings) {
+		const line = next.position.start.line;
+		if (line < bodyStart) continue;
+		sections.push({ heading, start, end: line });
+		start = line;
+		heading = next.heading;
+	}
+	sections.push({ heading, start, end: lines.length });
+
+	const chunks: IndexedChunk[] = [];
+	for (const section of sections) {
+		let buffer: string[] = [];
+		let bufferStart = section.start;
+		let bufferLength = 0;
+		const flush = () => {
+			const text = buffer.join('\n').trim();
+			if (text) chunks.push({ heading: section.heading, line: bufferStart, text });
+			buffer = [];
+			bufferLength = 0;
+		};
+
+		for (let i = section.start; i < section.end; i++) {
+			const line = lines[i];
+			if (bufferLength + line.length > MAX_CHUNK_CHARS && line.trim() === '' && bufferLength > 0) {
+				flush();
+				bufferStart = i + 1;
+				continue;
+			}
+			if (buffer.length === 0) bufferStart = i;
+			buffer.push(line);
+			bufferLength += line.length + 1;
+		}
+		flush();
+	}
+	return chunks;
+}
+
+function embeddingInput(title: string, chunk: IndexedChunk): string {
+	const context = chunk.heading ? `${title} › ${chunk.heading}` : title;
+	return `${context}\n\n${chunk.text}`;
+}
+
+// ==================== 排序 ====================
+
+/**
+ * Reciprocal Rank Fusion：按各列表中的排名融合，不需要统一分数尺度
+ */
+function fuseRankings(rankings: Array<Map<ChunkRef, number>>, rankConstant: number): Map<ChunkRef, number> {
+	const fused = new Map<ChunkRef, number>();
+	for (const scores of rankings) {
+		const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+		ranked.forEach(([ref], rank) => {
+			fused.set(ref, (fused.get(ref) ?? 0) + 1 / (rankConstant + rank + 1));
+		});
+	}
+	return fused;
+}
+
+/** 每篇笔记显示的段落数 */
+const PASSAGES_PER_NOTE = 3;
+
+function groupByNote(scores: Map<ChunkRef, number>, limit: number): NoteResult[] {
+	const notes = new Map<string, NoteResult>();
+	const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+
+	for (const [ref, score] of ranked) {
+		let note = notes.get(ref.path);
+		if (!note) {
+			if (notes.size >= limit) continue;
+			note = { path: ref.path, title: basename(ref.path), score, passages: [] };
+			notes.set(ref.path, note);
+		}
+		if (note.passages.length < PASSAGES_PER_NOTE) {
+			note.passages.push({
+				path: ref.path,
+				heading: ref.chunk.heading,
+				line: ref.chunk.line,
+				text: ref.chunk.text,
+				score,
+			});
+		}
+	}
+	return [...notes.values()];
+}
+
+// ==================== 向量 ====================
+
+function normalize(vector: Float32Array): Float32Array {
+	let norm = 0;
+	for (const value of vector) norm += value * value;
+	norm = Math.sqrt(norm) || 1;
+	return vector.map(value => value / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	const length = Math.min(a.length, b.length);
+	let sum = 0;
+	for (let i = 0; i < length; i++) sum += a[i] * b[i];
+	return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+	const bytes = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return btoa(binary);
+}
+
+function decodeVector(encoded: string): Float32Array {
+	const binary = atob(encoded);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return new Float32Array(bytes.buffer);
+}
+
+function serializeIndex(data: IndexData): object {
+	const files: Record<string, object> = {};
+	for (const [path, file] of Object.entries(data.files)) {
+		files[path] = {
+			...file,
+			chunks: file.chunks.map(chunk => ({ ...chunk, vector: chunk.vector ? encodeVector(chunk.vector) : undefined })),
+		};
+	}
+	return { version: 1, model: data.model, files };
+}
+
+function deserializeIndex(raw: any): IndexData {
+	if (raw?.version !== 1 || !raw.files || typeof raw.files !== 'object') {
+		return emptyIndex();
+	}
+
+	const files: Record<string, IndexedFile> = {};
+	for (const [path, file] of Object.entries<any>(raw.files)) {
+		files[path] = {
+			mtime: file.mtime,
+			size: file.size,
+			chunks: (file.chunks ?? []).map((chunk: any) => ({
+				heading: chunk.heading,
+				line: chunk.line,
+				text: chunk.text,
+				vector: typeof chunk.vector === 'string' ? decodeVector(chunk.vector) : undefined,
+			})),
+		};
+	}
+	return { version: 1, model: raw.model ?? null, files };
+}
+
+function emptyIndex(): IndexData {
+	return { version: 1, model: null, files: {} };
+}
+
+function basename(path: string): string {
+	return path.split('/').pop()!.replace(/\.md$/, '');
+}
+
+// ==================== 类型定义 ====================
+
+export type SearchMode = 'hybrid' | 'semantic' | 'keyword';
+
+export interface IndexedChunk {
+	heading?: string;
+	/** 段落起始行（0 起始），打开笔记时定位 */
+	line: number;
+	text: string;
+	/** 已归一化的向量 */
+	vector?: Float32Array;
+}
+
+interface IndexedFile {
+	mtime: number;
+	size: number;
+	chunks: IndexedChunk[];
+}
+
+interface IndexData {
+	version: 1;
+	/** 计算向量的模型（`type:model`），null 表示只有关键词索引 */
+	model: string | null;
+	files: Record<string, IndexedFile>;
+}
+
+interface ChunkRef {
+	path: string;
+	chunk: IndexedChunk;
+}
+
+export interface PassageResult {
+	path: string;
+	heading?: string;
+	line: number;
+	text: string;
+	score: number;
+}
+
+export interface NoteResult {
+	path: string;
+	title: string;
+	score: number;
+	passages: PassageResult[];
+}
+
+export interface SearchOptions {
+	filter?: (path: string) => boolean;
+	signal?: AbortSignal;
+}
+
+export interface SearchResponse {
+	/** 实际使用的模式（向量不可用时退回 keyword） */
+	mode: SearchMode;
+	fallbackReason?: string;
+	notes: NoteResult[];
+}
+
+export interface IndexStats {
+	notes: number;
+	passages: number;
+	embedded: number;
+	model: string | null;
+}
+
+export interface IndexProgress {
+	done: number;
+	total: number;
+}
+
+export interface IndexUpdateResult {
+	updated: number;
+	removed: number;
+	/** Embedding Provider 请求失败时的错误，此时只更新了关键词索引 */
+	embeddingError?: string;
+}
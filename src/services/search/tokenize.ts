@@ -0,0 +1,31 @@
+/**
+ * 搜索和引用共用的分词
+ *
+ * 不依赖分词库：空格分隔的语言按单词，中日韩文字按相邻两个字（二元组）
+ */
+
+const STOP_WORDS = new Set([
+	'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+	'out', 'has', 'have', 'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what',
+	'when', 'which', 'who', 'how', 'why', 'about', 'into', 'than', 'then', 'them', 'these', 'those', 'been',
+	'also', 'such', 'more', 'most', 'some', 'other', 'only', 'its', 'does', 'did', 'use', 'used', 'using',
+]);
+
+/**
+ * 英文等按单词切分（去掉停用词和过短的词），中日韩文字按二元组切分
+ * 保留重复的词项，BM25 需要词频
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	for (const run of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+		if (!run) continue;
+		if (/[぀-ヿ㐀-鿿가-힯]/.test(run)) {
+			for (let i = 0; i < run.length - 1; i++) {
+				terms.push(run.slice(i, i + 2));
+			}
+		} else if (run.length >= 3 && !STOP_WORDS.has(run)) {
+			terms.push(run);
+		}
+	}
+	return terms;
+}
@@ -1,72 +1,214 @@
 /**
  * Wiki Service - Foundry Wiki Service 封装
- * 只封装 Wiki 特有的 3 个方法
+ * 封装 Wiki 的 ingest / query / save，以及它们依赖的工作空间和 LLM 配置
  */
 
+import * as fs from 'fs';
 import { createObsidianWikiService } from '@mdfriday/foundry';
 import { createObsidianLLMHttpClient } from '../../http';
 import type FridayPlugin from '../../main';
-import type { IngestResult, SaveResult, ConversationHistory } from './types';
+import { LLMClient } from '../llm';
+import { condenseQuestion } from './followUp';
+import {
+	attributeWikiPages,
+	diffIngestManifest,
+	emptyIngestManifest,
+	estimateIngestTokens,
+	loadIngestManifest,
+	pruneKnowledgeBase,
+	removeWikiPages,
+	saveIngestManifest,
+	scanSourceFolder,
+	scanWikiPages,
+} from './ingestManifest';
+import { joinPath } from '../../utils/path';
+import type { IngestResult, IngestOptions, SaveResult, ConversationHistory, QueryOptions } from './types';
+
+/** 正在 ingest 的项目（跨 WikiService 实例） */
+const activeIngests = new Set<string>();
 
 export class WikiService {
-	private wikiService;
 	private workspacePath: string;
 	
 	constructor(private plugin: FridayPlugin) {
 		// 使用 plugin 的 absWorkspacePath，而不是 vault 根目录
 		this.workspacePath = plugin.absWorkspacePath;
-		
-		// ✅ 创建 Obsidian-safe LLM HttpClient 并传入
-		// 使用 Node.js http/https 模块绕过 CORS 限制
-		const llmHttpClient = createObsidianLLMHttpClient();
-		this.wikiService = createObsidianWikiService(llmHttpClient);
+	}
+
+	/**
+	 * 每个操作创建自己的 Foundry Wiki Service
+	 * LLM HttpClient 绑定该操作的取消信号（Foundry 不一定把 signal 传到每个请求上），
+	 * 同时进行的 ingest 和 query 互不影响
+	 */
+	private createWikiService(signal?: AbortSignal, onUsage?: (tokens: number) => void) {
+		// ✅ 使用 Node.js http/https 模块绕过 CORS 限制
+		return createObsidianWikiService(createObsidianLLMHttpClient(signal, onUsage));
 	}
 	
 	/**
-	 * Ingest 文件夹到 Wiki
-	 * 
+	 * Ingest 文件夹到 Wiki（增量）
+	 *
+	 * 与上次 ingest 的文件清单对比，只提取新增和修改的笔记（首次 ingest 时为全部笔记），
+	 * 已删除笔记的知识从 KB 中去掉，它们生成的页面删除或重新生成
+	 *
 	 * 注意：Foundry ingest 方法会自动生成 Wiki 页面，无需手动调用 generatePages
 	 */
-	async ingest(
-		projectName: string,
-		onProgress?: (event: any) => void
-	): Promise<IngestResult> {
-		const result = await this.wikiService.ingest({
-			workspacePath: this.workspacePath,
-			projectName,
-			temperature: 0.3,
-			onProgress, // ✅ 传递 progress callback
-		});
-		
-		if (!result.success || !result.data) {
-			throw new Error(`Ingest failed: ${result.error}`);
+	async ingest(projectName: string, options: IngestOptions): Promise<IngestResult> {
+		if (activeIngests.has(projectName)) {
+			throw new Error(`Wiki ingest already running for ${projectName}`);
 		}
-		
-		return {
-			success: true,
-			extractedEntities: result.data.extractedEntities || 0,
-			extractedConcepts: result.data.extractedConcepts || 0,
-			extractedConnections: result.data.extractedConnections || 0,
-			pagesGenerated: result.data.pagesGenerated || 0,
+
+		activeIngests.add(projectName);
+		try {
+			return await this.ingestChanges(projectName, options);
+		} finally {
+			activeIngests.delete(projectName);
+		}
+	}
+
+	/**
+	 * 同一项目同时只运行一个 ingest（Chat 中的 /wiki 和后台自动 ingest）
+	 */
+	static isIngesting(projectName: string): boolean {
+		return activeIngests.has(projectName);
+	}
+
+	private async ingestChanges(projectName: string, options: IngestOptions): Promise<IngestResult> {
+		const { sourceFolder, onProgress, signal, hasTokenBudget, onTokensUsed } = options;
+		const projectInfo = await this.plugin.projectServiceManager?.getProjectInfo(projectName);
+		if (!projectInfo) {
+			throw new Error(`Project ${projectName} not found`);
+		}
+
+		const config = await this.plugin.projectServiceManager!.getConfig(projectName);
+		const outputDir: string | undefined = config.outputDir;
+		const kbPath = outputDir ? joinPath(outputDir, 'kb.json') : null;
+		const current = await scanSourceFolder(sourceFolder);
+		// 没有清单或 KB 不存在时所有笔记按新增处理
+		const previous = (kbPath && await fileExists(kbPath)
+			? await loadIngestManifest(projectInfo.path)
+			: null) ?? emptyIngestManifest();
+
+		const diff = diffIngestManifest(previous, current);
+		const files = { ...previous.files };
+		const pages = { ...previous.pages };
+
+		// 修改的笔记重新提取前也先去掉旧知识
+		const outdated = [...diff.removed, ...diff.modified];
+		const removedKnowledge = kbPath
+			? await pruneKnowledgeBase(kbPath, outdated.map(file => joinPath(sourceFolder, file)))
+			: 0;
+		for (const file of diff.removed) {
+			delete files[file];
+		}
+
+		// 删除笔记生成的页面；与其他笔记共有的页面随这些笔记重新 ingest 时按新的 KB 重新生成
+		const regenerate = outputDir ? await removeWikiPages(outputDir, pages, diff.removed) : [];
+		for (const file of regenerate) {
+			delete files[file];
+		}
+		await saveIngestManifest(projectInfo.path, files, pages);
+
+		const result: IngestResult = {
+			...emptyResult(),
+			removedKnowledge,
+			changes: {
+				added: diff.added.length,
+				modified: diff.modified.length,
+				unchanged: diff.unchanged,
+				removed: diff.removed.length,
+			},
 		};
+
+		// 逐个文件 ingest，每个文件完成后更新清单，取消后已完成的文件不会重新处理
+		const pending = [...new Set([...diff.added, ...diff.modified, ...regenerate])];
+		for (const [index, file] of pending.entries()) {
+			throwIfAborted(signal);
+			// 超出预算的文件留到下次，较小的文件仍可继续
+			const estimate = await estimateTokens(sourceFolder, [file]);
+			if (hasTokenBudget && !hasTokenBudget(estimate)) {
+				result.deferred = (result.deferred ?? 0) + 1;
+				continue;
+			}
+
+			const pagesBefore = outputDir ? await scanWikiPages(outputDir) : {};
+			let usedTokens = 0;
+			let fileResult: IngestResult;
+			try {
+				fileResult = await this.runIngest(projectName, joinPath(sourceFolder, file), (event) => {
+					onProgress?.(event.type.startsWith('ingest:file:')
+						? { ...event, progress: toOverallProgress(index, pending.length) }
+						: event);
+				}, signal, (tokens) => {
+					usedTokens += tokens;
+				});
+			} catch (error) {
+				// 失败或取消前已完成的请求同样计入用量
+				if (usedTokens > 0) {
+					onTokensUsed?.(usedTokens);
+				}
+				throw error;
+			}
+
+			// 服务端没有返回用量时按估算值计
+			const tokens = usedTokens || estimate;
+			result.tokensUsed = (result.tokensUsed ?? 0) + tokens;
+			onTokensUsed?.(tokens);
+
+			result.extractedEntities += fileResult.extractedEntities;
+			result.extractedConcepts += fileResult.extractedConcepts;
+			result.extractedConnections += fileResult.extractedConnections;
+			result.pagesGenerated = (result.pagesGenerated ?? 0) + (fileResult.pagesGenerated ?? 0);
+
+			if (outputDir) {
+				attributeWikiPages(pages, file, pagesBefore, await scanWikiPages(outputDir));
+			}
+			files[file] = current[file];
+			await saveIngestManifest(projectInfo.path, files, pages);
+		}
+
+		return result;
 	}
 	
 	/**
 	 * 查询 Wiki（流式）
+	 * conversationHistory 为最近几轮问答，Foundry 放进回答的 prompt
 	 */
 	async *queryStream(
 		projectName: string,
 		question: string,
-		onProgress?: (event: any) => void
+		options: QueryOptions = {}
 	): AsyncGenerator<string> {
-		for await (const chunk of this.wikiService.queryStream({
+		const { onProgress, signal, conversationHistory } = options;
+		for await (const chunk of this.createWikiService(signal).queryStream({
 			workspacePath: this.workspacePath,
 			projectName,
 			question,
+			conversationHistory,
 			onProgress, // ✅ 传递 progress callback
+			signal,
 		})) {
+			// 已缓冲的内容不再输出
+			throwIfAborted(signal);
 			yield chunk;
 		}
+		throwIfAborted(signal);
+	}
+	
+	/**
+	 * 用最近几轮问答把追问改写为独立问题，用于检索
+	 * 未配置 AI Provider 时返回原问题
+	 */
+	async condenseFollowUp(
+		question: string,
+		conversationHistory: ConversationHistory,
+		signal?: AbortSignal
+	): Promise<string> {
+		const client = LLMClient.fromSettings(this.plugin);
+		if (!client) {
+			return question;
+		}
+		return condenseQuestion(client, conversationHistory, question, signal);
 	}
 	
 	/**
@@ -77,7 +219,7 @@ export class WikiService {
 		title: string,
 		conversationHistory: ConversationHistory
 	): Promise<SaveResult> {
-		const result = await this.wikiService.saveConversation({
+		const result = await this.createWikiService().saveConversation({
 			workspacePath: this.workspacePath,
 			projectName,
 			title,
@@ -95,6 +237,121 @@ export class WikiService {
 		};
 	}
 	
+	/**
+	 * 确保工作空间已初始化
+	 */
+	async ensureWorkspaceInitialized(): Promise<void> {
+		// 直接使用 plugin 的 workspaceService
+		if (!this.plugin.workspaceService) {
+			throw new Error('Workspace service not initialized');
+		}
+		
+		const existsResult = await this.plugin.workspaceService.workspaceExists(this.plugin.absWorkspacePath);
+		
+		if (existsResult.success && !existsResult.data) {
+			// Workspace doesn't exist, initialize it
+			const initResult = await this.plugin.workspaceService.initWorkspace(this.plugin.absWorkspacePath);
+			
+			if (!initResult.success) {
+				throw new Error(`Failed to initialize workspace: ${initResult.error}`);
+			}
+		} else if (!existsResult.success) {
+			throw new Error(`Failed to check workspace existence: ${existsResult.error}`);
+		}
+	}
+	
+	/**
+	 * 配置 LLM
+	 * 
+	 * 从 plugin.settings 读取用户配置的 AI Provider，写入 foundry global config。
+	 * 如果用户尚未配置，则抛出错误提示用户先完成配置。
+	 */
+	async configureLLM(): Promise<void> {
+		if (!this.plugin.foundryGlobalConfigService) {
+			throw new Error('Global config service not initialized');
+		}
+
+		const { aiProviderType, aiProviderBaseUrl, aiProviderApiKey, aiProviderModel } = this.plugin.settings;
+
+		if (!aiProviderType) {
+			throw new Error('AI provider not configured. Please open Settings → AI Provider Settings to configure an AI model.');
+		}
+
+		// Cloud providers require an API key
+		const cloudProviders = ['openai', 'glm', 'deepseek', 'moonshot'];
+		if (cloudProviders.includes(aiProviderType) && !aiProviderApiKey) {
+			throw new Error(`${aiProviderType} requires an API key. Please configure it in Settings → AI Provider Settings.`);
+		}
+
+		// Build the LLM config (compatible with LLMServiceConfig + wiki adapter field names)
+		const llmConfig: Record<string, any> = {
+			type: aiProviderType,
+			baseURL: aiProviderBaseUrl,
+			model: aiProviderModel,
+			defaultModel: aiProviderModel,
+			maxTokens: 32768,
+		};
+		if (aiProviderApiKey) {
+			llmConfig.apiKey = aiProviderApiKey;
+		}
+
+		await this.plugin.foundryGlobalConfigService.set(this.plugin.absWorkspacePath, 'llm', llmConfig);
+
+		// Configure embedding — activated when a provider type is selected
+		const { aiEmbeddingType, aiEmbeddingBaseUrl, aiEmbeddingApiKey, aiEmbeddingModel } = this.plugin.settings;
+		if (aiEmbeddingType && aiEmbeddingType !== 'none') {
+			const embeddingConfig: Record<string, any> = {
+				type: aiEmbeddingType,
+				baseURL: aiEmbeddingBaseUrl,
+				model: aiEmbeddingModel,
+			};
+			if (aiEmbeddingApiKey) {
+				embeddingConfig.apiKey = aiEmbeddingApiKey;
+			}
+			await this.plugin.foundryGlobalConfigService.set(this.plugin.absWorkspacePath, 'llm.embedding', embeddingConfig);
+		}
+
+		// Output language — use user setting, auto-detect from Obsidian language if not set
+		await this.plugin.foundryGlobalConfigService.set(
+			this.plugin.absWorkspacePath,
+			'wiki.outputLanguage',
+			this.plugin.resolveOutputLanguage()
+		);
+	}
+	
+	/**
+	 * 调用 Foundry ingest 处理一个文件
+	 */
+	private async runIngest(
+		projectName: string,
+		filePath: string,
+		onProgress: ((event: any) => void) | undefined,
+		signal: AbortSignal | undefined,
+		onUsage?: (tokens: number) => void
+	): Promise<IngestResult> {
+		const result = await this.createWikiService(signal, onUsage).ingest({
+			workspacePath: this.workspacePath,
+			projectName,
+			filePath,
+			temperature: 0.3,
+			onProgress, // ✅ 传递 progress callback
+			signal,
+		});
+		throwIfAborted(signal);
+		
+		if (!result.success || !result.data) {
+			throw new Error(`Ingest failed: ${result.error}`);
+		}
+		
+		return {
+			success: true,
+			extractedEntities: result.data.extractedEntities || 0,
+			extractedConcepts: result.data.extractedConcepts || 0,
+			extractedConnections: result.data.extractedConnections || 0,
+			pagesGenerated: result.data.pagesGenerated || 0,
+		};
+	}
+	
 	/**
 	 * 生成文件名
 	 */
@@ -104,3 +361,52 @@ export class WikiService {
 		return `${date}-${slug}.md`;
 	}
 }
+
+/**
+ * 逐个文件 ingest 时，进度按全部待处理文件计算
+ */
+function toOverallProgress(index: number, total: number) {
+	return {
+		current: index + 1,
+		total,
+		percentage: Math.round(((index + 1) / total) * 100),
+	};
+}
+
+function emptyResult(): IngestResult {
+	return {
+		success: true,
+		extractedEntities: 0,
+		extractedConcepts: 0,
+		extractedConnections: 0,
+		pagesGenerated: 0,
+	};
+}
+
+async function estimateTokens(sourceFolder: string, files: string[]): Promise<number> {
+	let bytes = 0;
+	for (const file of files) {
+		bytes += (await fs.promises.stat(joinPath(sourceFolder, file))).size;
+	}
+	return estimateIngestTokens(bytes);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+	return fs.promises.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * 取消后抛出 WikiAbortError，调用方据此区分取消和失败
+ */
+function throwIfAborted(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) {
+		throw new WikiAbortError();
+	}
+}
+
+export class WikiAbortError extends Error {
+	constructor() {
+		super('Wiki operation cancelled');
+		this.name = 'WikiAbortError';
+	}
+}
@@ -0,0 +1,460 @@
+import { Menu, Notice, setIcon, type TAbstractFile } from 'obsidian';
+import type { ObsidianProjectInfo } from '@mdfriday/foundry';
+import type FridayPlugin from '../../main';
+import { joinPath } from '../../utils/path';
+import { WikiService } from './WikiService';
+import { DEFAULT_AUTO_INGEST_DAILY_TOKENS } from './types';
+
+/**
+ * Auto Ingest Manager
+ *
+ * 已 ingest 过的 Wiki 项目可开启后台自动 ingest（Chat 中 `/watch on`）：
+ * - 监听源文件夹内 Markdown 的创建、修改、删除和重命名，防抖后加入队列
+ * - 队列中的项目逐个执行增量 ingest，状态栏显示进度和排队数量
+ * - 执行每日 token 预算：处理文件前按估算值检查，处理后记入服务端返回的实际用量，
+ *   超出预算的文件留到第二天，不影响其他文件和项目
+ *
+ * 配置保存在 Foundry 项目配置的 `autoIngest` 字段中，
+ * 当天的 token 用量保存在插件目录下的 auto-ingest-usage.json
+ */
+export class AutoIngestManager {
+	private plugin: FridayPlugin;
+	private wikiService: WikiService;
+	private configs = new Map<string, AutoIngestConfig>();
+	/** 项目名 → 源文件夹（vault 路径） */
+	private folders = new Map<string, string>();
+	private debounceTimers = new Map<string, number>();
+	private queue: string[] = [];
+	private current: string | null = null;
+	private abortController: AbortController | null = null;
+	private usage: AutoIngestUsage = { date: today(), tokens: 0 };
+	/** 有文件超出当天预算、等到第二天继续的项目 */
+	private waitingForBudget = new Set<string>();
+	private lastError: string | null = null;
+	private statusEl: HTMLElement | null = null;
+
+	private static readonly USAGE_FILE = 'auto-ingest-usage.json';
+	private static readonly WIKI_PROJECT_SUFFIX = '-wiki';
+	/** 预算用尽后检查是否已到第二天 */
+	private static readonly BUDGET_CHECK_INTERVAL = 10 * 60 * 1000;
+
+	constructor(plugin: FridayPlugin) {
+		this.plugin = plugin;
+		this.wikiService = new WikiService(plugin);
+	}
+
+	/**
+	 * 启动：加载配置与用量，注册 vault 事件和状态栏
+	 * 由插件生命周期托管，卸载时自动清理
+	 */
+	async start(): Promise<void> {
+		await this.loadUsage();
+
+		this.statusEl = this.plugin.addStatusBarItem();
+		this.statusEl.addClass('friday-auto-ingest-status', 'mod-clickable');
+		this.plugin.registerDomEvent(this.statusEl, 'click', (evt) => this.showMenu(evt));
+
+		await this.reload();
+		// 补上插件未运行期间的变化（没有变化时不会调用 LLM）
+		for (const projectName of this.configs.keys()) {
+			this.enqueue(projectName);
+		}
+
+		this.plugin.registerInterval(
+			window.setInterval(() => this.resumeIfNewDay(), AutoIngestManager.BUDGET_CHECK_INTERVAL)
+		);
+
+		const onChange = (file: TAbstractFile) => this.onVaultChange(file.path);
+		this.plugin.registerEvent(this.plugin.app.vault.on('modify', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('create', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('delete', onChange));
+		this.plugin.registerEvent(this.plugin.app.vault.on('rename', (file, oldPath) => {
+			this.onVaultChange(file.path);
+			this.onVaultChange(oldPath);
+		}));
+	}
+
+	/**
+	 * 停止等待中的防抖任务，并取消正在运行的 ingest
+	 */
+	stop(): void {
+		for (const timer of this.debounceTimers.values()) {
+			window.clearTimeout(timer);
+		}
+		this.debounceTimers.clear();
+		this.queue = [];
+		this.abortController?.abort();
+	}
+
+	/**
+	 * 重新读取所有 Wiki 项目的自动 ingest 配置
+	 */
+	async reload(): Promise<void> {
+		this.configs.clear();
+		this.folders.clear();
+
+		for (const project of await this.listWikiProjects()) {
+			const projectConfig = await this.plugin.projectServiceManager?.getConfig(project.name);
+			const config = normalizeAutoIngestConfig(projectConfig?.autoIngest);
+			if (!config.enabled) {
+				continue;
+			}
+
+			this.configs.set(project.name, config);
+			this.folders.set(project.name, project.name.slice(0, -AutoIngestManager.WIKI_PROJECT_SUFFIX.length));
+		}
+
+		// 已关闭的项目不应再触发等待中的 ingest
+		for (const [projectName, timer] of this.debounceTimers) {
+			if (!this.configs.has(projectName)) {
+				window.clearTimeout(timer);
+				this.debounceTimers.delete(projectName);
+			}
+		}
+		this.queue = this.queue.filter(projectName => this.configs.has(projectName));
+		for (const projectName of this.waitingForBudget) {
+			if (!this.configs.has(projectName)) {
+				this.waitingForBudget.delete(projectName);
+			}
+		}
+		this.updateStatus();
+	}
+
+	async getConfig(projectName: string): Promise<AutoIngestConfig> {
+		const projectConfig = await this.plugin.projectServiceManager?.getConfig(projectName);
+		return normalizeAutoIngestConfig(projectConfig?.autoIngest);
+	}
+
+	/**
+	 * 保存项目的自动 ingest 配置并立即生效
+	 */
+	async saveConfig(projectName: string, config: AutoIngestConfig): Promise<boolean> {
+		if (!this.plugin.projectServiceManager) {
+			return false;
+		}
+
+		const success = await this.plugin.projectServiceManager.saveConfig(projectName, 'autoIngest', config);
+		if (success) {
+			await this.reload();
+		}
+		return success;
+	}
+
+	/**
+	 * 把项目加入队列，当前没有运行中的 ingest 时立即开始
+	 */
+	enqueue(projectName: string): void {
+		if (!this.configs.has(projectName)) {
+			return;
+		}
+		if (!this.queue.includes(projectName)) {
+			this.queue.push(projectName);
+		}
+		this.updateStatus();
+		void this.processQueue();
+	}
+
+	// ==================== 队列 ====================
+
+	private async processQueue(): Promise<void> {
+		if (this.current) {
+			return;
+		}
+
+		while (this.queue.length > 0) {
+			this.resetUsageIfNewDay();
+
+			// 开始前移出队列，运行期间的新变化重新排队
+			const projectName = this.queue.shift()!;
+			// Chat 中正在手动 ingest 同一项目：稍后再试
+			if (WikiService.isIngesting(projectName)) {
+				this.scheduleRun(projectName);
+				continue;
+			}
+
+			this.current = projectName;
+			this.abortController = new AbortController();
+			this.updateStatus();
+
+			let finished = true;
+			try {
+				finished = await this.runIngest(projectName, this.abortController.signal);
+				this.lastError = null;
+			} catch (error) {
+				if (!this.abortController.signal.aborted) {
+					this.lastError = (error as Error).message;
+					console.warn(`[AutoIngest] Ingest failed for ${projectName}:`, error);
+					new Notice(this.plugin.i18n.t('auto_ingest.run_failed', {
+						name: this.folders.get(projectName) ?? projectName,
+						error: this.lastError,
+					}), 5000);
+				}
+			} finally {
+				this.current = null;
+				this.abortController = null;
+			}
+
+			// 超出预算的文件第二天继续，队列中的其他项目不受影响
+			if (finished) {
+				this.waitingForBudget.delete(projectName);
+			} else {
+				this.waitingForBudget.add(projectName);
+			}
+			this.updateStatus();
+		}
+	}
+
+	/**
+	 * @returns 是否处理完所有变化（有文件超出预算时为 false）
+	 */
+	private async runIngest(projectName: string, signal: AbortSignal): Promise<boolean> {
+		const folderPath = this.folders.get(projectName);
+		if (!folderPath) {
+			return true;
+		}
+
+		await this.wikiService.ensureWorkspaceInitialized();
+		await this.wikiService.configureLLM();
+
+		const result = await this.wikiService.ingest(projectName, {
+			sourceFolder: joinPath(this.plugin.vaultBasePath, folderPath),
+			signal,
+			hasTokenBudget: (tokens) => this.hasTokenBudget(tokens),
+			onTokensUsed: (tokens) => this.recordTokens(tokens),
+		});
+		return !result.deferred;
+	}
+
+	// ==================== 触发器 ====================
+
+	private onVaultChange(path: string): void {
+		if (!path.endsWith('.md')) {
+			return;
+		}
+
+		for (const [projectName, folderPath] of this.folders) {
+			if (path.startsWith(`${folderPath}/`)) {
+				this.scheduleRun(projectName);
+			}
+		}
+	}
+
+	private scheduleRun(projectName: string): void {
+		const config = this.configs.get(projectName);
+		if (!config) {
+			return;
+		}
+
+		const existing = this.debounceTimers.get(projectName);
+		if (existing !== undefined) {
+			window.clearTimeout(existing);
+		}
+
+		const timer = window.setTimeout(() => {
+			this.debounceTimers.delete(projectName);
+			this.enqueue(projectName);
+		}, config.debounceSeconds * 1000);
+		this.debounceTimers.set(projectName, timer);
+	}
+
+	// ==================== Token 预算 ====================
+
+	private get dailyBudget(): number {
+		return this.plugin.settings.aiAutoIngestDailyTokens ?? DEFAULT_AUTO_INGEST_DAILY_TOKENS;
+	}
+
+	/**
+	 * 检查估算的 token 是否在当天预算内；预算为 0 时不限制
+	 */
+	private hasTokenBudget(tokens: number): boolean {
+		this.resetUsageIfNewDay();
+		const budget = this.dailyBudget;
+		return budget <= 0 || this.usage.tokens + tokens <= budget;
+	}
+
+	private recordTokens(tokens: number): void {
+		this.resetUsageIfNewDay();
+		this.usage.tokens += tokens;
+		void this.saveUsage();
+		this.updateStatus();
+	}
+
+	/**
+	 * 到第二天时清零用量，超出预算的项目重新排队
+	 */
+	private resetUsageIfNewDay(): void {
+		if (this.usage.date === today()) {
+			return;
+		}
+
+		this.usage = { date: today(), tokens: 0 };
+		void this.saveUsage();
+		for (const projectName of this.waitingForBudget) {
+			if (!this.queue.includes(projectName)) {
+				this.queue.push(projectName);
+			}
+		}
+	}
+
+	private resumeIfNewDay(): void {
+		this.resetUsageIfNewDay();
+		if (this.queue.length > 0) {
+			this.updateStatus();
+			void this.processQueue();
+		}
+	}
+
+	private get usagePath(): string {
+		return `${this.plugin.pluginDir}/${AutoIngestManager.USAGE_FILE}`;
+	}
+
+	private async loadUsage(): Promise<void> {
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			if (await adapter.exists(this.usagePath)) {
+				const data = JSON.parse(await adapter.read(this.usagePath));
+				if (data?.date === today() && Number.isFinite(data.tokens)) {
+					this.usage = { date: data.date, tokens: data.tokens };
+				}
+			}
+		} catch (error) {
+			console.warn('[AutoIngest] Failed to load token usage:', error);
+		}
+	}
+
+	private async saveUsage(): Promise<void> {
+		try {
+			await this.plugin.app.vault.adapter.write(this.usagePath, JSON.stringify(this.usage));
+		} catch (error) {
+			console.warn('[AutoIngest] Failed to save token usage:', error);
+		}
+	}
+
+	// ==================== 状态栏 ====================
+
+	private updateStatus(): void {
+		const el = this.statusEl;
+		if (!el) {
+			return;
+		}
+
+		el.toggle(this.configs.size > 0);
+		el.empty();
+		const t = (key: string, params?: Record<string, any>) => this.plugin.i18n.t(`auto_ingest.${key}`, params);
+
+		let icon = 'book-open-check';
+		let text = t('status_idle');
+		if (this.current) {
+			icon = 'refresh-cw';
+			text = t('status_running', {
+				name: this.folders.get(this.current) ?? this.current,
+				queued: this.queue.length,
+			});
+		} else if (this.waitingForBudget.size > 0) {
+			icon = 'pause-circle';
+			text = t('status_budget', { queued: this.waitingForBudget.size });
+		} else if (this.lastError) {
+			icon = 'alert-triangle';
+			text = t('status_failed');
+		}
+
+		setIcon(el.createSpan({ cls: 'friday-auto-ingest-icon' }), icon);
+		el.createSpan({ text });
+		el.setAttribute('aria-label', t('status_usage', { used: this.usage.tokens, budget: this.dailyBudget || '∞' }));
+		el.toggleClass('is-running', !!this.current);
+	}
+
+	private showMenu(evt: MouseEvent): void {
+		const t = (key: string, params?: Record<string, any>) => this.plugin.i18n.t(`auto_ingest.${key}`, params);
+		const menu = new Menu();
+
+		menu.addItem(item => item
+			.setTitle(t('status_usage', { used: this.usage.tokens, budget: this.dailyBudget || '∞' }))
+			.setIcon('coins')
+			.setDisabled(true));
+
+		if (this.current) {
+			menu.addItem(item => item
+				.setTitle(t('stop', { name: this.folders.get(this.current!) ?? this.current! }))
+				.setIcon('square')
+				.onClick(() => this.abortController?.abort()));
+		}
+
+		if (this.queue.length > 0) {
+			menu.addSeparator();
+			for (const projectName of this.queue) {
+				menu.addItem(item => item
+					.setTitle(t('queued', { name: this.folders.get(projectName) ?? projectName }))
+					.setIcon('clock')
+					.onClick(() => {
+						this.queue = this.queue.filter(name => name !== projectName);
+						this.updateStatus();
+					}));
+			}
+		}
+
+		menu.addSeparator();
+		for (const [projectName, folderPath] of this.folders) {
+			menu.addItem(item => item
+				.setTitle(t('sync_now', { name: folderPath }))
+				.setIcon('refresh-cw')
+				.onClick(() => this.enqueue(projectName)));
+		}
+
+		menu.showAtMouseEvent(evt);
+	}
+
+	// ==================== 项目 ====================
+
+	private async listWikiProjects(): Promise<ObsidianProjectInfo[]> {
+		if (!this.plugin.foundryProjectService) {
+			return [];
+		}
+
+		try {
+			const result = await this.plugin.foundryProjectService.listProjects(this.plugin.absWorkspacePath);
+			const projects: ObsidianProjectInfo[] = result.success && result.data ? result.data : [];
+			return projects.filter(project => project.name.endsWith(AutoIngestManager.WIKI_PROJECT_SUFFIX));
+		} catch (error) {
+			console.error('[AutoIngest] Error listing projects:', error);
+			return [];
+		}
+	}
+}
+
+/**
+ * 补全缺省值，兼容手动编辑的配置
+ */
+export function normalizeAutoIngestConfig(value: any): AutoIngestConfig {
+	const debounceSeconds = Number(value?.debounceSeconds);
+
+	return {
+		enabled: value?.enabled === true,
+		debounceSeconds: Number.isFinite(debounceSeconds) && debounceSeconds >= MIN_AUTO_INGEST_DEBOUNCE_SECONDS
+			? debounceSeconds
+			: DEFAULT_AUTO_INGEST_DEBOUNCE_SECONDS,
+	};
+}
+
+function today(): string {
+	const now = new Date();
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// ==================== 类型定义 ====================
+
+export interface AutoIngestConfig {
+	enabled: boolean;
+	debounceSeconds: number;
+}
+
+interface AutoIngestUsage {
+	/** 本地日期 YYYY-MM-DD */
+	date: string;
+	/** 当天使用的 token */
+	tokens: number;
+}
+
+export const DEFAULT_AUTO_INGEST_DEBOUNCE_SECONDS = 120;
+export const MIN_AUTO_INGEST_DEBOUNCE_SECONDS = 10;
@@ -0,0 +1,126 @@
+/**
+ * Wiki answer citations
+ *
+ * 来源是回答前检索到、按编号放进 prompt 的 Wiki 页面和笔记（ChatContext.retrieveWikiDocuments），
+ * 模型按编号引用，答案中的 [n] 与来源列表是同一份：
+ * - 答案末尾追加来源列表（[[wikilink]]，Chat 中可点击、悬停预览）
+ * - 模型没有标注时，每段答案末尾标注最相关来源的 [n]
+ *
+ * 来源列表以 SOURCES_MARKER 开头保存在答案中，恢复历史对话时据此重新链接 [n]
+ */
+
+import { tokenize } from '../search/tokenize';
+
+export const SOURCES_MARKER = '<!-- friday-sources -->';
+
+/** 段落与来源至少共有的词项数，才标注 [n] */
+const MIN_PARAGRAPH_OVERLAP = 2;
+
+export interface WikiSource {
+	/** 1 起始的编号，对应答案中的 [n] */
+	index: number;
+	/** vault 路径 */
+	path: string;
+	title: string;
+	/** 最相关的章节标题 */
+	heading?: string;
+	kind: 'wiki' | 'note';
+	/** 来源章节的词项，用于给段落标注 [n] */
+	terms: string[];
+}
+
+export interface CitationLabels {
+	sources: string;
+	wiki: string;
+	note: string;
+}
+
+/**
+ * 给答案段落标注 [n] 并追加来源列表
+ * 模型已经自行输出 [n] 时不再标注
+ */
+export function annotateAnswer(answer: string, sources: WikiSource[], labels: CitationLabels): string {
+	if (sources.length === 0) {
+		return answer;
+	}
+
+	let annotated = answer.trimEnd();
+	if (!/\[\d+\]/.test(annotated)) {
+		let inCodeBlock = false;
+		annotated = annotated.split(/\n{2,}/).map(paragraph => {
+			const trimmed = paragraph.trim();
+			const fences = (trimmed.match(/^```/gm) ?? []).length;
+			const skip = inCodeBlock || trimmed.startsWith('```') || trimmed.startsWith('#') || trimmed.startsWith('|');
+			if (fences % 2 === 1) inCodeBlock = !inCodeBlock;
+			if (skip || !trimmed) return paragraph;
+
+			const source = bestSourceFor(new Set(tokenize(trimmed)), sources);
+			return source ? `${paragraph.trimEnd()} [${source.index}]` : paragraph;
+		}).join('\n\n');
+	}
+
+	const lines = sources.map(source => {
+		const kind = source.kind === 'wiki' ? labels.wiki : labels.note;
+		const label = source.heading ? `${source.title} › ${source.heading}` : source.title;
+		return `${source.index}. [[${toLinktext(source)}|${escapeAlias(label)}]] · ${kind}`;
+	});
+	return `${annotated}\n\n${SOURCES_MARKER}\n**${labels.sources}**\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * 从已保存的答案中读出 [n] → 链接目标
+ */
+export function parseCitationTargets(content: string): Map<number, string> {
+	const targets = new Map<number, string>();
+	const start = content.lastIndexOf(SOURCES_MARKER);
+	if (start === -1) {
+		return targets;
+	}
+
+	const pattern = /^(\d+)\. \[\[([^\]|]+)/gm;
+	const block = content.slice(start);
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(block)) !== null) {
+		targets.set(Number(match[1]), match[2]);
+	}
+	return targets;
+}
+
+/**
+ * 去掉答案末尾的来源列表（追问和 /save 只需要答案本身）
+ */
+export function stripSources(content: string): string {
+	const start = content.lastIndexOf(SOURCES_MARKER);
+	return start === -1 ? content : content.slice(0, start).trimEnd();
+}
+
+// ─────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────
+
+function bestSourceFor(paragraphTerms: Set<string>, sources: WikiSource[]): WikiSource | null {
+	let best: WikiSource | null = null;
+	let bestOverlap = MIN_PARAGRAPH_OVERLAP - 1;
+	for (const source of sources) {
+		const overlap = source.terms.filter(term => paragraphTerms.has(term)).length;
+		if (overlap > bestOverlap) {
+			best = source;
+			bestOverlap = overlap;
+		}
+	}
+	return best;
+}
+
+/**
+ * 链接到笔记中的章节；标题含有链接语法字符时只链接到笔记
+ */
+function toLinktext(source: WikiSource): string {
+	const path = source.path.replace(/\.md$/, '');
+	return source.heading && !/[#|[\]^]/.test(source.heading)
+		? `${path}#${source.heading}`
+		: path;
+}
+
+function escapeAlias(label: string): string {
+	return label.replace(/[|[\]]/g, ' ');
+}
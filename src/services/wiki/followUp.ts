@@ -0,0 +1,112 @@
+/**
+ * Follow-up questions
+ *
+ * 多轮对话中的追问（如 "那第二个呢？"）单独检索不到内容：
+ * 1. 用最近几轮问答把追问改写为独立问题，用于检索
+ * 2. 最近几轮问答（有上限）随问题一起传给 Foundry，放进回答的 prompt
+ */
+
+import type { LLMClient, LLMMessage } from '../llm';
+import type { ConversationTurn } from './types';
+import { stripSources } from './citations';
+
+export const DEFAULT_FOLLOW_UP_TURNS = 3;
+
+/** 放进 prompt 的每个回答的最大长度 */
+const MAX_ANSWER_CHARS = 2000;
+/** 改写问题时每个回答的最大长度（只需要知道在聊什么） */
+const MAX_CONDENSE_ANSWER_CHARS = 500;
+
+const CONDENSE_SYSTEM_PROMPT = [
+	'Given a conversation and a follow-up question, rewrite the follow-up as a standalone question',
+	'that can be understood without the conversation.',
+	'Keep the language of the follow-up question. If it is already standalone, return it unchanged.',
+	'Reply with the question only.',
+].join(' ');
+
+interface HistoryMessage {
+	role: 'user' | 'assistant';
+	content: string;
+}
+
+/**
+ * Chat 消息转换为问答对
+ * 只保留紧跟回答的问题；跳过 /wiki、/publish、/save 等命令，/ask 去掉前缀
+ */
+export function toConversationTurns(history: HistoryMessage[]): ConversationTurn[] {
+	const turns: ConversationTurn[] = [];
+
+	for (let i = 0; i < history.length - 1; i++) {
+		const user = history[i];
+		const assistant = history[i + 1];
+		if (user.role !== 'user' || assistant.role !== 'assistant') {
+			continue;
+		}
+
+		const text = user.content.trim();
+		if (text.startsWith('/') && !text.startsWith('/ask ')) {
+			continue;
+		}
+		turns.push({
+			question: text.startsWith('/ask ') ? text.slice(5).trim() : text,
+			answer: stripSources(assistant.content),
+		});
+		i++;
+	}
+	return turns;
+}
+
+/**
+ * 最近 windowSize 轮问答，回答截断到固定长度
+ */
+export function selectRecentTurns(turns: ConversationTurn[], windowSize: number): ConversationTurn[] {
+	if (windowSize <= 0) {
+		return [];
+	}
+	return turns.slice(-windowSize).map(turn => ({
+		question: turn.question,
+		answer: truncate(turn.answer, MAX_ANSWER_CHARS),
+	}));
+}
+
+/**
+ * 把追问改写为独立问题；没有历史或改写失败时返回原问题
+ */
+export async function condenseQuestion(
+	client: LLMClient,
+	turns: ConversationTurn[],
+	question: string,
+	signal?: AbortSignal
+): Promise<string> {
+	if (turns.length === 0) {
+		return question;
+	}
+
+	const conversation = turns
+		.map(turn => `Q: ${turn.question}\nA: ${truncate(turn.answer, MAX_CONDENSE_ANSWER_CHARS)}`)
+		.join('\n\n');
+	const messages: LLMMessage[] = [
+		{ role: 'system', content: CONDENSE_SYSTEM_PROMPT },
+		{ role: 'user', content: `Conversation:\n${conversation}\n\nFollow-up question: ${question}` },
+	];
+
+	const reply = await client.complete(messages, { temperature: 0, maxTokens: 256, signal });
+	return cleanQuestion(reply) || question;
+}
+
+/**
+ * 去掉模型常见的多余输出：思考过程、"Standalone question:" 前缀、引号
+ */
+function cleanQuestion(reply: string): string {
+	return reply
+		.replace(/<think>[\s\S]*?<\/think>/gi, '')
+		.trim()
+		.split('\n')[0]
+		.replace(/^(standalone question|question)\s*[:：]\s*/i, '')
+		.replace(/^["'“”]+|["'“”]+$/g, '')
+		.trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
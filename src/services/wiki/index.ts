@@ -2,11 +2,14 @@
  * Wiki Service - Exports
  */
 
-export { WikiService } from './WikiService';
+export { WikiService, WikiAbortError } from './WikiService';
 export type {
 	IngestResult,
+	IngestChanges,
+	IngestOptions,
 	SaveResult,
 	ConversationTurn,
 	ConversationHistory,
+	QueryOptions,
 	WikiServiceConfig,
 } from './types';
@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashContent } from '../publishManifest';
+
+/**
+ * Ingest Manifest
+ *
+ * 增量 ingest 用的文件清单：源文件夹内的相对路径 → 内容 SHA-256
+ * 保存在 Wiki 项目的 workspace 目录，每个文件 ingest 成功后更新，
+ * 下次 ingest 时与源文件夹对比，只把新增和修改的笔记交给 LLM 提取
+ *
+ * 没有清单时（首次 ingest 或 KB 不存在）所有笔记按新增处理，同样逐个文件 ingest
+ *
+ * 清单同时记录每个 Wiki 页面由哪些笔记生成（ingest 前后对比 outputDir 中的页面），
+ * 笔记删除后据此删除或重新生成页面
+ */
+
+export const INGEST_MANIFEST_FILE = 'ingest-manifest.json';
+
+export interface IngestManifest {
+	version: 1;
+	updatedAt: number;
+	files: Record<string, string>;
+	/** Wiki 页面（outputDir 内的相对路径）→ 生成或修改过它的笔记 */
+	pages: Record<string, string[]>;
+}
+
+export interface IngestDiff {
+	added: string[];
+	modified: string[];
+	removed: string[];
+	unchanged: number;
+}
+
+/**
+ * 扫描源文件夹中的 Markdown 文件（路径使用 / 分隔，跳过隐藏目录）
+ */
+export async function scanSourceFolder(sourceFolder: string): Promise<Record<string, string>> {
+	const files: Record<string, string> = {};
+
+	const walk = async (dir: string, prefix: string) => {
+		for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+			if (entry.name.startsWith('.')) continue;
+			const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				await walk(fullPath, relativePath);
+			} else if (entry.isFile() && entry.name.endsWith('.md')) {
+				files[relativePath] = hashContent(await fs.promises.readFile(fullPath, 'utf-8'));
+			}
+		}
+	};
+	await walk(sourceFolder, '');
+
+	return files;
+}
+
+/** 按字节数估算 ingest 一个文件消耗的 token：约 4 字节 / token，提取和生成页面约为原文的 3 倍 */
+const BYTES_PER_TOKEN = 4;
+const INGEST_TOKEN_MULTIPLIER = 3;
+
+export function estimateIngestTokens(bytes: number): number {
+	return Math.ceil(bytes / BYTES_PER_TOKEN) * INGEST_TOKEN_MULTIPLIER;
+}
+
+export function emptyIngestManifest(): IngestManifest {
+	return { version: 1, updatedAt: 0, files: {}, pages: {} };
+}
+
+/**
+ * 读取清单，不存在或格式不正确时返回 null（按首次 ingest 处理）
+ */
+export async function loadIngestManifest(projectPath: string): Promise<IngestManifest | null> {
+	try {
+		const data = JSON.parse(await fs.promises.readFile(path.join(projectPath, INGEST_MANIFEST_FILE), 'utf-8'));
+		if (data?.version === 1 && data.files && typeof data.files === 'object') {
+			// 早期的清单没有页面记录
+			return { ...data, pages: data.pages ?? {} } as IngestManifest;
+		}
+	} catch {
+		// 没有清单或清单损坏
+	}
+	return null;
+}
+
+export async function saveIngestManifest(
+	projectPath: string,
+	files: Record<string, string>,
+	pages: Record<string, string[]>
+): Promise<void> {
+	const manifest: IngestManifest = { version: 1, updatedAt: Date.now(), files, pages };
+	await fs.promises.writeFile(path.join(projectPath, INGEST_MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+/**
+ * 对比上次 ingest 的清单与源文件夹当前内容
+ */
+export function diffIngestManifest(previous: IngestManifest, current: Record<string, string>): IngestDiff {
+	const added: string[] = [];
+	const modified: string[] = [];
+	let unchanged = 0;
+
+	for (const [file, hash] of Object.entries(current)) {
+		const previousHash = previous.files[file];
+		if (previousHash === undefined) {
+			added.push(file);
+		} else if (previousHash !== hash) {
+			modified.push(file);
+		} else {
+			unchanged++;
+		}
+	}
+
+	const removed = Object.keys(previous.files).filter(file => !(file in current));
+	return { added, modified, removed, unchanged };
+}
+
+/**
+ * 扫描 outputDir 中的 Wiki 页面：相对路径 → 内容 SHA-256
+ */
+export async function scanWikiPages(outputDir: string): Promise<Record<string, string>> {
+	try {
+		return await scanSourceFolder(outputDir);
+	} catch {
+		// 首次 ingest 前 outputDir 还不存在
+		return {};
+	}
+}
+
+/**
+ * 把一个笔记 ingest 前后新增或内容变化的页面记为由该笔记生成
+ */
+export function attributeWikiPages(
+	pages: Record<string, string[]>,
+	sourceFile: string,
+	before: Record<string, string>,
+	after: Record<string, string>
+): void {
+	for (const [page, hash] of Object.entries(after)) {
+		if (before[page] === hash) continue;
+		const sources = pages[page] ?? [];
+		if (!sources.includes(sourceFile)) {
+			pages[page] = [...sources, sourceFile];
+		}
+	}
+	for (const page of Object.keys(pages)) {
+		if (!(page in after)) {
+			delete pages[page];
+		}
+	}
+}
+
+/**
+ * 笔记删除后处理它们生成的 Wiki 页面：
+ * - 只由这些笔记生成的页面直接删除
+ * - 还有其他来源的页面需要重新生成，返回这些来源笔记，由调用方重新 ingest
+ *
+ * @returns 需要重新 ingest 的笔记
+ */
+export async function removeWikiPages(
+	outputDir: string,
+	pages: Record<string, string[]>,
+	removedFiles: string[]
+): Promise<string[]> {
+	const removed = new Set(removedFiles);
+	const regenerate = new Set<string>();
+
+	for (const [page, sources] of Object.entries(pages)) {
+		if (!sources.some(source => removed.has(source))) continue;
+
+		const remaining = sources.filter(source => !removed.has(source));
+		if (remaining.length === 0) {
+			await fs.promises.rm(path.join(outputDir, page), { force: true });
+			delete pages[page];
+		} else {
+			pages[page] = remaining;
+			remaining.forEach(source => regenerate.add(source));
+		}
+	}
+
+	return [...regenerate];
+}
+
+/**
+ * KB（outputDir/kb.json）中删除知识时用到的字段
+ * - sources：id → 源文件
+ * - entities / concepts：id → 来源 id
+ * - connections：按 entity / concept 的 id 连接
+ *
+ * 其余字段原样保留；这些字段不符合时抛出 KnowledgeBaseFormatError，不修改文件，
+ * 避免 Foundry 的 KB 格式变化后静默写坏 KB
+ */
+interface KnowledgeBaseFile {
+	sources: Record<string, { path: string }>;
+	entities: Record<string, KnowledgeItem>;
+	concepts: Record<string, KnowledgeItem>;
+	connections: Array<{ from: string; to: string }>;
+}
+
+interface KnowledgeItem {
+	sources: string[];
+}
+
+export class KnowledgeBaseFormatError extends Error {
+	constructor(kbPath: string, detail: string) {
+		super(`Unsupported knowledge base format in ${kbPath}: ${detail}`);
+		this.name = 'KnowledgeBaseFormatError';
+	}
+}
+
+/**
+ * 从 KB 中去掉来自指定源文件的知识：
+ * - 只来自这些文件的 entity / concept 删除，同时删除指向它们的 connection
+ * - 还有其他来源的只去掉这些来源
+ *
+ * 修改过的文件在重新提取前也先去掉，避免保留旧版本中已删除的内容
+ *
+ * @param sourceFiles - 源文件的绝对路径
+ * @returns 删除的 entity / concept 数量
+ */
+export async function pruneKnowledgeBase(kbPath: string, sourceFiles: string[]): Promise<number> {
+	if (sourceFiles.length === 0) {
+		return 0;
+	}
+
+	const kb = await readKnowledgeBase(kbPath);
+	if (!kb) {
+		return 0;
+	}
+
+	const removedFiles = new Set(sourceFiles.map(normalizePath));
+	const removedSources = new Set<string>();
+	for (const [id, source] of Object.entries(kb.sources)) {
+		if (removedFiles.has(normalizePath(source.path))) {
+			removedSources.add(id);
+			delete kb.sources[id];
+		}
+	}
+	if (removedSources.size === 0) {
+		return 0;
+	}
+
+	const removedItems = new Set<string>();
+	for (const items of [kb.entities, kb.concepts]) {
+		for (const [id, item] of Object.entries(items)) {
+			if (!item.sources.some(ref => removedSources.has(ref))) continue;
+
+			const remaining = item.sources.filter(ref => !removedSources.has(ref));
+			if (remaining.length === 0) {
+				delete items[id];
+				removedItems.add(id);
+			} else {
+				item.sources = remaining;
+			}
+		}
+	}
+
+	kb.connections = kb.connections.filter(connection =>
+		!removedItems.has(connection.from) && !removedItems.has(connection.to)
+	);
+
+	await fs.promises.writeFile(kbPath, JSON.stringify(kb, null, 2), 'utf-8');
+	return removedItems.size;
+}
+
+/**
+ * 读取并校验 KB，文件不存在时返回 null
+ */
+async function readKnowledgeBase(kbPath: string): Promise<KnowledgeBaseFile | null> {
+	let content: string;
+	try {
+		content = await fs.promises.readFile(kbPath, 'utf-8');
+	} catch {
+		return null;
+	}
+
+	const kb = JSON.parse(content);
+	const fail = (detail: string): never => {
+		throw new KnowledgeBaseFormatError(kbPath, detail);
+	};
+
+	if (!isRecord(kb)) fail('not an object');
+	if (!isRecord(kb.sources)) fail('"sources" is not an object');
+	for (const [id, source] of Object.entries(kb.sources)) {
+		if (!isRecord(source) || typeof source.path !== 'string') fail(`source "${id}" has no path`);
+	}
+	for (const collection of ['entities', 'concepts']) {
+		if (!isRecord(kb[collection])) fail(`"${collection}" is not an object`);
+		for (const [id, item] of Object.entries(kb[collection])) {
+			if (!isRecord(item) || !isStringArray(item.sources)) fail(`${collection} item "${id}" has no sources`);
+		}
+	}
+	const connections: unknown = kb.connections;
+	if (!Array.isArray(connections) || !connections.every(c => isRecord(c) && typeof c.from === 'string' && typeof c.to === 'string')) {
+		fail('"connections" is not a list of { from, to }');
+	}
+
+	return kb as KnowledgeBaseFile;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function normalizePath(filePath: string): string {
+	return path.normalize(filePath).replace(/\\/g, '/');
+}
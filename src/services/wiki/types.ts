@@ -8,8 +8,40 @@ export interface IngestResult {
 	extractedConcepts: number;
 	extractedConnections: number;
 	pagesGenerated?: number; // Foundry 自动生成的页面数量
+	/** 因笔记删除或修改而从 KB 中去掉的 entity / concept 数量 */
+	removedKnowledge?: number;
+	/** 与上次 ingest 相比的文件变化 */
+	changes?: IngestChanges;
+	/** 超出 token 预算、留到下次处理的文件数量 */
+	deferred?: number;
+	/** 使用的 token（服务端返回的用量，未返回时为估算值） */
+	tokensUsed?: number;
 }
 
+export interface IngestChanges {
+	added: number;
+	modified: number;
+	unchanged: number;
+	removed: number;
+}
+
+export interface IngestOptions {
+	/** 源文件夹（绝对路径），用于计算文件变化 */
+	sourceFolder: string;
+	onProgress?: (event: any) => void;
+	signal?: AbortSignal;
+	/**
+	 * 处理文件前检查估算的 token 是否在预算内，返回 false 时跳过该文件，
+	 * 跳过的文件不记入清单，下次 ingest 继续处理
+	 */
+	hasTokenBudget?: (estimatedTokens: number) => boolean;
+	/** 每个文件处理后回调使用的 token（服务端未返回用量时为估算值） */
+	onTokensUsed?: (tokens: number) => void;
+}
+
+/** 后台自动 ingest 每天的默认 token 预算 */
+export const DEFAULT_AUTO_INGEST_DAILY_TOKENS = 100000;
+
 export interface SaveResult {
 	savedPath: string;
 }
@@ -21,6 +53,13 @@ export interface ConversationTurn {
 
 export type ConversationHistory = ConversationTurn[];
 
+export interface QueryOptions {
+	onProgress?: (event: any) => void;
+	signal?: AbortSignal;
+	/** 最近几轮问答，用于回答追问 */
+	conversationHistory?: ConversationHistory;
+}
+
 export interface WikiServiceConfig {
 	workspacePath: string;
 	temperature?: number;
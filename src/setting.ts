@@ -2,7 +2,19 @@ import {App, PluginSettingTab, Setting, Notice, Platform} from 'obsidian';
 import type FridayPlugin from './main';
 import {validateSubdomainFormat, isReservedSubdomain} from "./domain";
 import {generateEncryptionPassphrase, maskLicenseKey, formatPlanName} from "./license";
-import {clearSyncHandlerCache} from "./sync";
+import {clearSyncHandlerCache, createSyncProfile, DEFAULT_BUCKET_CONFIG, DEFAULT_CHUNK_GC_CONFIG, normalizeProfileFolder, SyncService, type BucketConfig, type ChunkGCReport, type SyncProfile, type SyncRemoteType} from "./sync";
+import {
+	DEFAULT_FTP_PORT,
+	DEFAULT_GIT_BRANCH,
+	DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB,
+	DEFAULT_PREFLIGHT_PRIVATE_FLAGS,
+	DEFAULT_S3_REGION,
+	DEFAULT_SFTP_PORT,
+	type FtpProtocol
+} from "./types/publish";
+import {DEFAULT_ASSISTANT_SYSTEM_PROMPT, DEFAULT_ASSISTANT_TEMPERATURE, EMBEDDING_PRESETS, LLM_PRESETS} from "./services/llm";
+import {DEFAULT_FOLLOW_UP_TURNS} from "./services/wiki/followUp";
+import {DEFAULT_AUTO_INGEST_DAILY_TOKENS} from "./services/wiki/types";
 
 export class FridaySettingTab extends PluginSettingTab {
 	plugin: FridayPlugin;
@@ -51,6 +63,7 @@ export class FridaySettingTab extends PluginSettingTab {
 		// =========================================
 		if (Platform.isDesktop) {
 			this.renderPublishSettings(containerEl);
+			this.renderPreflightSettings(containerEl);
 			this.renderGeneralSettings(containerEl);
 			this.renderAIProviderSettings(containerEl);
 		}
@@ -65,7 +78,7 @@ export class FridaySettingTab extends PluginSettingTab {
 	 * Render Publish Settings Section (Desktop only)
 	 */
 	private renderPublishSettings(containerEl: HTMLElement): void {
-		const {publishMethod, netlifyAccessToken, netlifyProjectId, ftpServer, ftpUsername, ftpPassword, ftpRemoteDir, ftpIgnoreCert} = this.plugin.settings;
+		const {publishMethod, netlifyAccessToken, netlifyProjectId, ftpProtocol, ftpServer, ftpPort, ftpUsername, ftpPassword, ftpPrivateKeyPath, ftpPassphrase, ftpRemoteDir, ftpIgnoreCert, gitRepository, gitBranch, gitUsername, gitToken, gitSiteUrl, s3Endpoint, s3Region, s3Bucket, s3AccessKeyId, s3SecretAccessKey, s3Prefix, s3ForcePathStyle, s3SiteUrl} = this.plugin.settings;
 
 		// Publish Settings Section
 		containerEl.createEl("h2", {
@@ -81,6 +94,8 @@ export class FridaySettingTab extends PluginSettingTab {
 	let mdfridayEnterpriseContainer: HTMLElement;
 	let netlifySettingsContainer: HTMLElement;
 	let ftpSettingsContainer: HTMLElement;
+	let gitSettingsContainer: HTMLElement;
+	let s3SettingsContainer: HTMLElement;
 		
 	// Publish Method Dropdown
 	new Setting(containerEl)
@@ -95,11 +110,13 @@ export class FridaySettingTab extends PluginSettingTab {
 				.addOption('mdf-enterprise', this.plugin.i18n.t('settings.publish_method_mdfriday_enterprise'))
 				.addOption('netlify', this.plugin.i18n.t('settings.publish_method_netlify'))
 				.addOption('ftp', this.plugin.i18n.t('settings.publish_method_ftp'))
+				.addOption('git', this.plugin.i18n.t('settings.publish_method_git'))
+				.addOption('s3', this.plugin.i18n.t('settings.publish_method_s3'))
 				.setValue(publishMethod || 'mdf-share')
 				.onChange(async (value) => {
-					this.plugin.settings.publishMethod = value as 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise' | 'netlify' | 'ftp';
+					this.plugin.settings.publishMethod = value as 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise' | 'netlify' | 'ftp' | 'git' | 's3';
 					await this.plugin.saveSettings();
-					showPublishSettings(value as 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise' | 'netlify' | 'ftp');
+					showPublishSettings(value as 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise' | 'netlify' | 'ftp' | 'git' | 's3');
 				});
 		});
 
@@ -111,13 +128,15 @@ export class FridaySettingTab extends PluginSettingTab {
 	mdfridayEnterpriseContainer = containerEl.createDiv('mdfriday-enterprise-container');
 	netlifySettingsContainer = containerEl.createDiv('netlify-settings-container');
 	ftpSettingsContainer = containerEl.createDiv('ftp-settings-container');
+	gitSettingsContainer = containerEl.createDiv('git-settings-container');
+	s3SettingsContainer = containerEl.createDiv('s3-settings-container');
 
 	// Function to show/hide publish settings based on selected method
 	// Note: 'mdf-share' and 'mdf-app' from Site.svelte map to 'mdfriday' settings container
 	// 'mdf-custom' maps to 'mdfridayCustomDomainContainer'
 	// 'mdf-enterprise' maps to 'mdfridayEnterpriseContainer'
 	// 'mdf-free' maps to 'mdfridayFreeContainer'
-	const showPublishSettings = (method: 'mdfriday' | 'netlify' | 'ftp' | 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise') => {
+	const showPublishSettings = (method: 'mdfriday' | 'netlify' | 'ftp' | 'git' | 's3' | 'mdf-free' | 'mdf-share' | 'mdf-app' | 'mdf-custom' | 'mdf-enterprise') => {
 		const isMdfridayFree = method === 'mdf-free';
 		const isMdfridayShare = method === 'mdf-share';
 		const isMdfriday = method === 'mdfriday' || method === 'mdf-app';
@@ -130,6 +149,8 @@ export class FridaySettingTab extends PluginSettingTab {
 		mdfridayEnterpriseContainer.style.display = isMdfridayEnterprise ? 'block' : 'none';
 		netlifySettingsContainer.style.display = method === 'netlify' ? 'block' : 'none';
 		ftpSettingsContainer.style.display = method === 'ftp' ? 'block' : 'none';
+		gitSettingsContainer.style.display = method === 'git' ? 'block' : 'none';
+		s3SettingsContainer.style.display = method === 's3' ? 'block' : 'none';
 	};
 
 	// =========================================
@@ -666,6 +687,30 @@ export class FridaySettingTab extends PluginSettingTab {
 		// FTP Settings
 		ftpSettingsContainer.createEl("h3", {text: this.plugin.i18n.t('settings.ftp_settings')});
 
+		// 协议相关的设置项，切换协议时显示/隐藏
+		const sftpOnlySettings: Setting[] = [];
+		const ftpOnlySettings: Setting[] = [];
+		const showProtocolSettings = (protocol: FtpProtocol) => {
+			sftpOnlySettings.forEach(setting => setting.settingEl.style.display = protocol === 'sftp' ? '' : 'none');
+			ftpOnlySettings.forEach(setting => setting.settingEl.style.display = protocol === 'sftp' ? 'none' : '');
+		};
+
+		// FTP Protocol
+		new Setting(ftpSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.ftp_protocol'))
+			.setDesc(this.plugin.i18n.t('settings.ftp_protocol_desc'))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('ftp', this.plugin.i18n.t('settings.ftp_protocol_ftp'))
+					.addOption('sftp', this.plugin.i18n.t('settings.ftp_protocol_sftp'))
+					.setValue(ftpProtocol || 'ftp')
+					.onChange(async (value) => {
+						this.plugin.settings.ftpProtocol = value as FtpProtocol;
+						await this.plugin.saveSettings();
+						showProtocolSettings(value as FtpProtocol);
+					});
+			});
+
 		// FTP Server
 		new Setting(ftpSettingsContainer)
 			.setName(this.plugin.i18n.t('settings.ftp_server'))
@@ -680,6 +725,21 @@ export class FridaySettingTab extends PluginSettingTab {
 					})
 			);
 
+		// FTP Port
+		new Setting(ftpSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.ftp_port'))
+			.setDesc(this.plugin.i18n.t('settings.ftp_port_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(`${DEFAULT_FTP_PORT} / ${DEFAULT_SFTP_PORT}`)
+					.setValue(ftpPort ? String(ftpPort) : "")
+					.onChange(async (value) => {
+						const port = parseInt(value.trim(), 10);
+						this.plugin.settings.ftpPort = port > 0 && port < 65536 ? port : 0;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// FTP Username
 		new Setting(ftpSettingsContainer)
 			.setName(this.plugin.i18n.t('settings.ftp_username'))
@@ -709,6 +769,34 @@ export class FridaySettingTab extends PluginSettingTab {
 				text.inputEl.type = "password";
 			});
 
+		// SFTP Private Key
+		sftpOnlySettings.push(new Setting(ftpSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.ftp_private_key'))
+			.setDesc(this.plugin.i18n.t('settings.ftp_private_key_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(this.plugin.i18n.t('settings.ftp_private_key_placeholder'))
+					.setValue(ftpPrivateKeyPath || "")
+					.onChange(async (value) => {
+						this.plugin.settings.ftpPrivateKeyPath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			));
+
+		// SFTP Private Key Passphrase
+		sftpOnlySettings.push(new Setting(ftpSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.ftp_passphrase'))
+			.setDesc(this.plugin.i18n.t('settings.ftp_passphrase_desc'))
+			.addText((text) => {
+				text
+					.setValue(ftpPassphrase || "")
+					.onChange(async (value) => {
+						this.plugin.settings.ftpPassphrase = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "password";
+			}));
+
 		// FTP Remote Directory
 		new Setting(ftpSettingsContainer)
 			.setName(this.plugin.i18n.t('settings.ftp_remote_dir'))
@@ -724,7 +812,7 @@ export class FridaySettingTab extends PluginSettingTab {
 			);
 
 		// FTP Ignore Certificate Verification
-		new Setting(ftpSettingsContainer)
+		ftpOnlySettings.push(new Setting(ftpSettingsContainer)
 			.setName(this.plugin.i18n.t('settings.ftp_ignore_cert'))
 			.setDesc(this.plugin.i18n.t('settings.ftp_ignore_cert_desc'))
 			.addToggle((toggle) =>
@@ -734,6 +822,221 @@ export class FridaySettingTab extends PluginSettingTab {
 						this.plugin.settings.ftpIgnoreCert = value;
 						await this.plugin.saveSettings();
 					})
+			));
+		showProtocolSettings(ftpProtocol || 'ftp');
+
+		// Git Settings
+		gitSettingsContainer.createEl("h3", {text: this.plugin.i18n.t('settings.git_settings')});
+
+		// Git Repository
+		new Setting(gitSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.git_repository'))
+			.setDesc(this.plugin.i18n.t('settings.git_repository_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(this.plugin.i18n.t('settings.git_repository_placeholder'))
+					.setValue(gitRepository || "")
+					.onChange(async (value) => {
+						this.plugin.settings.gitRepository = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Git Branch
+		new Setting(gitSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.git_branch'))
+			.setDesc(this.plugin.i18n.t('settings.git_branch_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_GIT_BRANCH)
+					.setValue(gitBranch || "")
+					.onChange(async (value) => {
+						this.plugin.settings.gitBranch = value.trim() || DEFAULT_GIT_BRANCH;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Git Username
+		new Setting(gitSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.git_username'))
+			.setDesc(this.plugin.i18n.t('settings.git_username_desc'))
+			.addText((text) =>
+				text
+					.setValue(gitUsername || "")
+					.onChange(async (value) => {
+						this.plugin.settings.gitUsername = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Git Access Token
+		new Setting(gitSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.git_token'))
+			.setDesc(this.plugin.i18n.t('settings.git_token_desc'))
+			.addText((text) => {
+				text
+					.setValue(gitToken || "")
+					.onChange(async (value) => {
+						this.plugin.settings.gitToken = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "password";
+			});
+
+		// Git Site URL
+		new Setting(gitSettingsContainer)
+			.setName(this.plugin.i18n.t('settings.git_site_url'))
+			.setDesc(this.plugin.i18n.t('settings.git_site_url_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder('https://username.github.io/site/')
+					.setValue(gitSiteUrl || "")
+					.onChange(async (value) => {
+						this.plugin.settings.gitSiteUrl = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Settings
+		s3SettingsContainer.createEl("h3", {text: this.plugin.i18n.t('settings.s3_settings')});
+
+		// S3 Endpoint
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_endpoint'))
+			.setDesc(this.plugin.i18n.t('settings.s3_endpoint_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder('https://s3.us-east-1.amazonaws.com')
+					.setValue(s3Endpoint || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3Endpoint = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Region
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_region'))
+			.setDesc(this.plugin.i18n.t('settings.s3_region_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_S3_REGION)
+					.setValue(s3Region || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3Region = value.trim() || DEFAULT_S3_REGION;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Bucket
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_bucket'))
+			.addText((text) =>
+				text
+					.setValue(s3Bucket || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3Bucket = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Access Key ID
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_access_key_id'))
+			.addText((text) =>
+				text
+					.setValue(s3AccessKeyId || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3AccessKeyId = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Secret Access Key
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_secret_access_key'))
+			.addText((text) => {
+				text
+					.setValue(s3SecretAccessKey || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3SecretAccessKey = value.trim();
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "password";
+			});
+
+		// S3 Prefix
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_prefix'))
+			.setDesc(this.plugin.i18n.t('settings.s3_prefix_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder('blog/')
+					.setValue(s3Prefix || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3Prefix = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Path-style Addressing
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_force_path_style'))
+			.setDesc(this.plugin.i18n.t('settings.s3_force_path_style_desc'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(s3ForcePathStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.s3ForcePathStyle = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Site URL
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_site_url'))
+			.setDesc(this.plugin.i18n.t('settings.s3_site_url_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder('https://static.example.com/')
+					.setValue(s3SiteUrl || "")
+					.onChange(async (value) => {
+						this.plugin.settings.s3SiteUrl = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// S3 Test Connection
+		new Setting(s3SettingsContainer)
+			.setName(this.plugin.i18n.t('settings.s3_test_connection'))
+			.setDesc(this.plugin.i18n.t('settings.s3_test_connection_desc'))
+			.addButton((button) =>
+				button
+					.setButtonText(this.plugin.i18n.t('settings.s3_test_connection'))
+					.onClick(async () => {
+						if (!this.plugin.projectServiceManager) {
+							new Notice(this.plugin.i18n.t('messages.publishing_desktop_only'));
+							return;
+						}
+						const settings = this.plugin.settings;
+						button.setDisabled(true);
+						button.setButtonText(this.plugin.i18n.t('settings.s3_test_connection_testing'));
+						const result = await this.plugin.projectServiceManager.testConnection('', {
+							type: 's3',
+							endpoint: settings.s3Endpoint,
+							region: settings.s3Region || DEFAULT_S3_REGION,
+							bucket: settings.s3Bucket,
+							accessKeyId: settings.s3AccessKeyId,
+							secretAccessKey: settings.s3SecretAccessKey,
+							prefix: settings.s3Prefix,
+							forcePathStyle: settings.s3ForcePathStyle,
+						});
+						button.setDisabled(false);
+						button.setButtonText(this.plugin.i18n.t('settings.s3_test_connection'));
+						new Notice(result.success
+							? `✅ ${result.message || this.plugin.i18n.t('settings.s3_test_connection_success')}`
+							: `❌ ${result.error || this.plugin.i18n.t('settings.s3_test_connection_failed')}`, 5000);
+					})
 			);
 
 	// =========================================
@@ -763,6 +1066,69 @@ export class FridaySettingTab extends PluginSettingTab {
 	showPublishSettings(publishMethod || 'mdf-share');
 	}
 
+	/**
+	 * Render Publish Preflight Settings (Desktop only)
+	 * Checks run on the panel's selected content before each publish
+	 */
+	private renderPreflightSettings(containerEl: HTMLElement): void {
+		const {preflightEnabled, preflightBlockOnErrors, preflightPrivateFlags, preflightMaxAttachmentMB} = this.plugin.settings;
+
+		containerEl.createEl("h3", {text: this.plugin.i18n.t('settings.preflight')});
+
+		new Setting(containerEl)
+			.setName(this.plugin.i18n.t('settings.preflight_enabled'))
+			.setDesc(this.plugin.i18n.t('settings.preflight_enabled_desc'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(preflightEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.preflightEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(this.plugin.i18n.t('settings.preflight_block_on_errors'))
+			.setDesc(this.plugin.i18n.t('settings.preflight_block_on_errors_desc'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(preflightBlockOnErrors)
+					.onChange(async (value) => {
+						this.plugin.settings.preflightBlockOnErrors = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(this.plugin.i18n.t('settings.preflight_private_flags'))
+			.setDesc(this.plugin.i18n.t('settings.preflight_private_flags_desc'))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_PREFLIGHT_PRIVATE_FLAGS)
+					.setValue(preflightPrivateFlags)
+					.onChange(async (value) => {
+						this.plugin.settings.preflightPrivateFlags = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(this.plugin.i18n.t('settings.preflight_max_attachment'))
+			.setDesc(this.plugin.i18n.t('settings.preflight_max_attachment_desc'))
+			.addText((text) => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text
+					.setPlaceholder(String(DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB))
+					.setValue(String(preflightMaxAttachmentMB))
+					.onChange(async (value) => {
+						const size = Number(value);
+						this.plugin.settings.preflightMaxAttachmentMB = Number.isFinite(size) && size >= 0 ? size : DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
 	/**
 	 * Render General Settings Section (Desktop only)
 	 */
@@ -1551,10 +1917,237 @@ export class FridaySettingTab extends PluginSettingTab {
 			createPatternRow(pattern);
 		});
 		
+		// ========== Sync Remote Subsection (Collapsible) ==========
+		this.renderSyncRemote(syncContentContainer);
+		
+		// ========== Sync Profiles Subsection (Collapsible) ==========
+		this.renderSyncProfiles(syncContentContainer);
+		
+		// ========== Storage Cleanup Subsection (Collapsible) ==========
+		this.renderChunkGC(syncContentContainer);
+		
 		// ========== Danger Zone ==========
 		this.renderDangerZone(syncContentContainer);
 	}
 
+	/**
+	 * Render the sync remote: the licensed CouchDB server or an S3-compatible bucket.
+	 * Changes are kept as a draft until applied, which restarts the sync service.
+	 */
+	private renderSyncRemote(containerEl: HTMLElement): void {
+		const remoteDetails = containerEl.createEl('details', {cls: 'friday-security-container'});
+		remoteDetails.createEl('summary', {text: this.plugin.i18n.t('settings.sync_remote'), cls: 'friday-collapsible-header'});
+		const remoteContainer = remoteDetails.createDiv('friday-collapsible-content');
+		remoteContainer.createEl('p', {text: this.plugin.i18n.t('settings.sync_remote_desc'), cls: 'setting-item-description'});
+
+		let remoteType: SyncRemoteType = this.plugin.settings.syncConfig.remoteType || 'couchdb';
+		const bucket: BucketConfig = {...DEFAULT_BUCKET_CONFIG, ...this.plugin.settings.syncConfig.bucket};
+
+		new Setting(remoteContainer)
+			.setName(this.plugin.i18n.t('settings.sync_remote_type'))
+			.addDropdown((dropdown) => {
+				dropdown.addOption('couchdb', this.plugin.i18n.t('settings.sync_remote_type_couchdb'));
+				dropdown.addOption('s3', this.plugin.i18n.t('settings.sync_remote_type_s3'));
+				dropdown.setValue(remoteType);
+				dropdown.onChange((value) => {
+					remoteType = value as SyncRemoteType;
+					bucketContainer.style.display = remoteType === 's3' ? 'block' : 'none';
+				});
+			});
+
+		const bucketContainer = remoteContainer.createDiv();
+		bucketContainer.style.display = remoteType === 's3' ? 'block' : 'none';
+
+		const addTextField = (key: 'endpoint' | 'region' | 'bucket' | 'accessKey' | 'secretKey' | 'prefix', name: string, desc: string, placeholder: string) => {
+			new Setting(bucketContainer)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					if (key === 'secretKey') text.inputEl.type = 'password';
+					text.setPlaceholder(placeholder);
+					text.setValue(bucket[key]);
+					text.onChange((value) => {
+						bucket[key] = value.trim();
+					});
+				});
+		};
+		addTextField('endpoint', this.plugin.i18n.t('settings.sync_remote_endpoint'), this.plugin.i18n.t('settings.sync_remote_endpoint_desc'), 'http://localhost:9000');
+		addTextField('region', this.plugin.i18n.t('settings.sync_remote_region'), this.plugin.i18n.t('settings.sync_remote_region_desc'), 'us-east-1');
+		addTextField('bucket', this.plugin.i18n.t('settings.sync_remote_bucket'), '', 'friday-sync');
+		addTextField('accessKey', this.plugin.i18n.t('settings.sync_remote_access_key'), '', '');
+		addTextField('secretKey', this.plugin.i18n.t('settings.sync_remote_secret_key'), '', '');
+		addTextField('prefix', this.plugin.i18n.t('settings.sync_remote_prefix'), this.plugin.i18n.t('settings.sync_remote_prefix_desc'), 'my-vault');
+
+		new Setting(bucketContainer)
+			.setName(this.plugin.i18n.t('settings.sync_remote_path_style'))
+			.setDesc(this.plugin.i18n.t('settings.sync_remote_path_style_desc'))
+			.addToggle((toggle) => {
+				toggle.setValue(bucket.forcePathStyle);
+				toggle.onChange((value) => {
+					bucket.forcePathStyle = value;
+				});
+			});
+
+		new Setting(bucketContainer)
+			.setName(this.plugin.i18n.t('settings.sync_remote_test'))
+			.addButton((button) => {
+				button
+					.setButtonText(this.plugin.i18n.t('settings.sync_remote_test'))
+					.onClick(async () => {
+						button.setDisabled(true);
+						const result = await SyncService.testBucket(bucket);
+						button.setDisabled(false);
+						new Notice(result.success
+							? this.plugin.i18n.t('settings.sync_remote_test_success')
+							: this.plugin.i18n.t('settings.sync_remote_test_failed', {error: result.message}));
+					});
+			});
+
+		new Setting(remoteContainer)
+			.setName(this.plugin.i18n.t('settings.sync_remote_apply'))
+			.setDesc(this.plugin.i18n.t('settings.sync_remote_apply_desc'))
+			.addButton((button) => {
+				button
+					.setButtonText(this.plugin.i18n.t('settings.sync_remote_apply'))
+					.setCta()
+					.onClick(async () => {
+						if (remoteType === 's3' && (!bucket.bucket || !bucket.accessKey || !bucket.secretKey)) {
+							new Notice(this.plugin.i18n.t('settings.sync_remote_bucket_required'));
+							return;
+						}
+						button.setDisabled(true);
+						try {
+							this.plugin.settings.syncConfig.remoteType = remoteType;
+							this.plugin.settings.syncConfig.bucket = {...bucket};
+							await this.plugin.saveSettings();
+
+							if (this.plugin.syncService?.isInitialized) {
+								await this.plugin.syncService.close();
+							}
+							await this.plugin.initializeSyncService();
+							new Notice(this.plugin.i18n.t('settings.sync_remote_applied'));
+						} catch (error) {
+							console.error('Failed to switch sync remote:', error);
+							new Notice(`${this.plugin.i18n.t('settings.sync_operation_failed')}: ${error.message || error}`);
+						} finally {
+							button.setDisabled(false);
+						}
+					});
+			});
+	}
+
+	/**
+	 * Render sync profiles: folder selections shared through settings,
+	 * with the active profile chosen per device
+	 */
+	private renderSyncProfiles(containerEl: HTMLElement): void {
+		const profilesDetails = containerEl.createEl('details', {cls: 'friday-security-container'});
+		profilesDetails.createEl('summary', {text: this.plugin.i18n.t('settings.sync_profiles'), cls: 'friday-collapsible-header'});
+		const profilesContainer = profilesDetails.createDiv('friday-collapsible-content');
+
+		if (!this.plugin.settings.syncConfig.syncProfiles) {
+			this.plugin.settings.syncConfig.syncProfiles = [];
+		}
+		const profiles = this.plugin.settings.syncConfig.syncProfiles;
+
+		// Folder lists are stored normalized, without the trailing slash
+		const parseFolders = (value: string): string[] =>
+			value.split(',').map((folder) => normalizeProfileFolder(folder).replace(/\/$/, '')).filter(Boolean);
+
+		const saveProfiles = async () => {
+			await this.plugin.saveSettings();
+			if (this.plugin.syncService?.isInitialized) {
+				await this.plugin.syncService.updateSyncProfiles(profiles);
+			}
+		};
+
+		const render = () => {
+			profilesContainer.empty();
+
+			// Active profile on this device (stored locally, not in settings)
+			new Setting(profilesContainer)
+				.setName(this.plugin.i18n.t('settings.sync_profile_active'))
+				.setDesc(this.plugin.i18n.t('settings.sync_profile_active_desc'))
+				.addDropdown((dropdown) => {
+					dropdown.addOption('', this.plugin.i18n.t('settings.sync_profile_whole_vault'));
+					profiles.forEach((profile) => dropdown.addOption(profile.id, profile.name));
+					dropdown.setValue(this.plugin.syncService?.getActiveSyncProfileId() ?? '');
+					dropdown.setDisabled(!this.plugin.syncService?.isInitialized);
+					dropdown.onChange(async (value) => {
+						await this.plugin.syncService.setActiveSyncProfile(value || null);
+					});
+				});
+
+			profiles.forEach((profile) => this.renderSyncProfile(profilesContainer, profile, parseFolders, saveProfiles, async () => {
+				profiles.splice(profiles.indexOf(profile), 1);
+				await saveProfiles();
+				render();
+			}));
+
+			new Setting(profilesContainer)
+				.setName(this.plugin.i18n.t('settings.sync_profiles'))
+				.setDesc(this.plugin.i18n.t('settings.sync_profiles_desc'))
+				.addButton((button) => {
+					button
+						.setButtonText(this.plugin.i18n.t('settings.sync_profile_add'))
+						.onClick(async () => {
+							profiles.push(createSyncProfile(this.plugin.i18n.t('settings.sync_profile_default_name', {count: profiles.length + 1})));
+							await saveProfiles();
+							render();
+						});
+				});
+		};
+
+		render();
+	}
+
+	/**
+	 * Render one sync profile: name and folder lists
+	 * Folder lists are applied when the input is committed, since a change may restart replication
+	 */
+	private renderSyncProfile(
+		containerEl: HTMLElement,
+		profile: SyncProfile,
+		parseFolders: (value: string) => string[],
+		saveProfiles: () => Promise<void>,
+		deleteProfile: () => Promise<void>
+	): void {
+		const profileEl = containerEl.createDiv('friday-sync-profile');
+
+		new Setting(profileEl)
+			.setName(this.plugin.i18n.t('settings.sync_profile_name'))
+			.addText((text) => {
+				text.setValue(profile.name);
+				text.onChange(async (value) => {
+					profile.name = value.trim() || profile.name;
+					await this.plugin.saveSettings();
+				});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon('trash-2')
+					.setTooltip(this.plugin.i18n.t('settings.sync_profile_delete'))
+					.onClick(() => deleteProfile());
+			});
+
+		const folderSetting = (name: string, desc: string, key: 'includeFolders' | 'excludeFolders') => {
+			new Setting(profileEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					text.setPlaceholder(this.plugin.i18n.t('settings.sync_profile_folders_placeholder'));
+					text.setValue(profile[key].join(', '));
+					text.inputEl.addEventListener('change', async () => {
+						profile[key] = parseFolders(text.getValue());
+						text.setValue(profile[key].join(', '));
+						await saveProfiles();
+					});
+				});
+		};
+		folderSetting(this.plugin.i18n.t('settings.sync_profile_include'), this.plugin.i18n.t('settings.sync_profile_include_desc'), 'includeFolders');
+		folderSetting(this.plugin.i18n.t('settings.sync_profile_exclude'), this.plugin.i18n.t('settings.sync_profile_exclude_desc'), 'excludeFolders');
+	}
+
 	/**
 	 * Update selective sync settings
 	 * 
@@ -1616,6 +2209,123 @@ export class FridaySettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * Render storage cleanup: orphan chunk garbage collection schedule, options and manual runs
+	 */
+	private renderChunkGC(containerEl: HTMLElement): void {
+		const gcDetails = containerEl.createEl('details', {cls: 'friday-security-container'});
+		gcDetails.createEl('summary', {text: this.plugin.i18n.t('settings.chunk_gc'), cls: 'friday-collapsible-header'});
+		const gcContainer = gcDetails.createDiv('friday-collapsible-content');
+		gcContainer.createEl('p', {text: this.plugin.i18n.t('settings.chunk_gc_desc'), cls: 'setting-item-description'});
+
+		const config = {...DEFAULT_CHUNK_GC_CONFIG, ...this.plugin.settings.syncConfig.chunkGC};
+		const saveConfig = async () => {
+			this.plugin.settings.syncConfig.chunkGC = {...config};
+			await this.plugin.saveSettings();
+			this.plugin.syncService?.updateChunkGC({...config});
+		};
+
+		new Setting(gcContainer)
+			.setName(this.plugin.i18n.t('settings.chunk_gc_schedule'))
+			.setDesc(this.plugin.i18n.t('settings.chunk_gc_schedule_desc'))
+			.addDropdown((dropdown) => {
+				dropdown.addOption('off', this.plugin.i18n.t('settings.chunk_gc_schedule_off'));
+				dropdown.addOption('daily', this.plugin.i18n.t('settings.chunk_gc_schedule_daily'));
+				dropdown.addOption('weekly', this.plugin.i18n.t('settings.chunk_gc_schedule_weekly'));
+				dropdown.setValue(config.schedule);
+				dropdown.onChange(async (value) => {
+					config.schedule = value as typeof config.schedule;
+					await saveConfig();
+				});
+			});
+
+		new Setting(gcContainer)
+			.setName(this.plugin.i18n.t('settings.chunk_gc_remote'))
+			.setDesc(this.plugin.i18n.t('settings.chunk_gc_remote_desc'))
+			.addToggle((toggle) => {
+				toggle.setValue(config.includeRemote);
+				toggle.onChange(async (value) => {
+					config.includeRemote = value;
+					await saveConfig();
+				});
+			});
+
+		new Setting(gcContainer)
+			.setName(this.plugin.i18n.t('settings.chunk_gc_compact'))
+			.setDesc(this.plugin.i18n.t('settings.chunk_gc_compact_desc'))
+			.addToggle((toggle) => {
+				toggle.setValue(config.compact);
+				toggle.onChange(async (value) => {
+					config.compact = value;
+					await saveConfig();
+					if (value) {
+						new Notice(this.plugin.i18n.t('settings.chunk_gc_compact_enabled'), 8000);
+					}
+				});
+			});
+
+		const actions = new Setting(gcContainer)
+			.setName(this.plugin.i18n.t('settings.chunk_gc_actions'))
+			.setDesc(this.plugin.i18n.t('settings.chunk_gc_never_run'));
+
+		const showReport = (report: ChunkGCReport | null) => {
+			if (!report) return;
+			const summary = report.error
+				? this.plugin.i18n.t('settings.chunk_gc_failed', {error: report.error})
+				: this.formatChunkGCReport(report);
+			const waiting = report.waitingFor.length > 0
+				? ` ${this.plugin.i18n.t('settings.chunk_gc_waiting_for', {devices: report.waitingFor.join(', ')})}`
+				: '';
+			actions.setDesc(this.plugin.i18n.t('settings.chunk_gc_last_run', {
+				time: new Date(report.finishedAt).toLocaleString(),
+				summary: summary + waiting,
+			}));
+		};
+
+		const runButtons: HTMLButtonElement[] = [];
+		const run = async (dryRun: boolean, button: HTMLButtonElement, label: string) => {
+			runButtons.forEach((el) => el.disabled = true);
+			button.textContent = this.plugin.i18n.t('settings.chunk_gc_running');
+			try {
+				showReport(await this.plugin.syncService?.runChunkGC(dryRun) ?? null);
+			} finally {
+				runButtons.forEach((el) => el.disabled = false);
+				button.textContent = label;
+			}
+		};
+
+		actions
+			.addButton((button) => {
+				const label = this.plugin.i18n.t('settings.chunk_gc_dry_run');
+				button.setButtonText(label).onClick(() => run(true, button.buttonEl, label));
+				runButtons.push(button.buttonEl);
+			})
+			.addButton((button) => {
+				const label = this.plugin.i18n.t('settings.chunk_gc_run');
+				button.setButtonText(label).setWarning().onClick(() => run(false, button.buttonEl, label));
+				runButtons.push(button.buttonEl);
+			});
+		runButtons.forEach((el) => el.disabled = !this.plugin.syncService?.isInitialized);
+
+		void this.plugin.syncService?.getLastChunkGCReport().then(showReport);
+	}
+
+	private formatChunkGCReport(report: ChunkGCReport): string {
+		if (report.dryRun) {
+			return this.plugin.i18n.t('settings.chunk_gc_report_dry', {
+				orphaned: report.orphaned,
+				deleted: report.deletedLocal + report.deletedRemote,
+				pending: report.pending,
+			});
+		}
+		return this.plugin.i18n.t('settings.chunk_gc_report', {
+			orphaned: report.orphaned,
+			deleted: report.deletedLocal + report.deletedRemote,
+			pending: report.pending,
+			bytes: `${(report.bytesReclaimed / 1024 / 1024).toFixed(1)} MB`,
+		});
+	}
+
 	/**
 	 * Render Danger Zone section with reset functionality
 	 */
@@ -1851,24 +2561,6 @@ export class FridaySettingTab extends PluginSettingTab {
 		});
 
 		// ── Presets ────────────────────────────────────────────────────────
-		const LLM_PRESETS: Record<string, { baseURL: string; model: string }> = {
-			lmstudio: { baseURL: 'http://localhost:1234/v1', model: 'qwen3.5-9b' },
-			ollama:   { baseURL: 'http://localhost:11434',   model: 'llama3' },
-			openai:   { baseURL: 'https://api.openai.com/v1',             model: 'gpt-4-turbo-preview' },
-			glm:      { baseURL: 'https://open.bigmodel.cn/api/paas/v4',  model: 'glm-4' },
-			deepseek: { baseURL: 'https://api.deepseek.com/v1',           model: 'deepseek-chat' },
-			moonshot: { baseURL: 'https://api.moonshot.cn/v1',            model: 'moonshot-v1-8k' },
-			custom:   { baseURL: '', model: '' },
-		};
-
-		const EMB_PRESETS: Record<string, { baseURL: string; model: string }> = {
-			lmstudio: { baseURL: 'http://localhost:1234/v1',              model: 'text-embedding-nomic-embed-text-v2-moe' },
-			ollama:   { baseURL: 'http://localhost:11434',                model: 'nomic-embed-text' },
-			openai:   { baseURL: 'https://api.openai.com/v1',            model: 'text-embedding-3-small' },
-			glm:      { baseURL: 'https://open.bigmodel.cn/api/paas/v4', model: 'embedding-3' },
-			deepseek: { baseURL: 'https://api.deepseek.com/v1',          model: 'deepseek-embedding' },
-			custom:   { baseURL: '', model: '' },
-		};
 
 		const CLOUD_PROVIDERS  = new Set(['openai', 'glm', 'deepseek', 'moonshot']);
 		const LOCAL_PROVIDERS  = new Set(['lmstudio', 'ollama', 'custom']);
@@ -1891,6 +2583,71 @@ export class FridaySettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName(t('ai_follow_up_turns'))
+			.setDesc(t('ai_follow_up_turns_desc'))
+			.addText((text) => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text
+					.setPlaceholder(String(DEFAULT_FOLLOW_UP_TURNS))
+					.setValue(String(this.plugin.settings.aiFollowUpTurns ?? DEFAULT_FOLLOW_UP_TURNS))
+					.onChange(async (value) => {
+						const turns = parseInt(value, 10);
+						this.plugin.settings.aiFollowUpTurns = Number.isFinite(turns) && turns >= 0
+							? turns
+							: DEFAULT_FOLLOW_UP_TURNS;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('ai_auto_ingest_budget'))
+			.setDesc(t('ai_auto_ingest_budget_desc'))
+			.addText((text) => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text
+					.setPlaceholder(String(DEFAULT_AUTO_INGEST_DAILY_TOKENS))
+					.setValue(String(this.plugin.settings.aiAutoIngestDailyTokens ?? DEFAULT_AUTO_INGEST_DAILY_TOKENS))
+					.onChange(async (value) => {
+						const tokens = parseInt(value, 10);
+						this.plugin.settings.aiAutoIngestDailyTokens = Number.isFinite(tokens) && tokens >= 0
+							? tokens
+							: DEFAULT_AUTO_INGEST_DAILY_TOKENS;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('ai_assistant_system_prompt'))
+			.setDesc(t('ai_assistant_system_prompt_desc'))
+			.addTextArea((text) => {
+				text.inputEl.rows = 4;
+				text.inputEl.style.width = '100%';
+				text
+					.setPlaceholder(DEFAULT_ASSISTANT_SYSTEM_PROMPT)
+					.setValue(this.plugin.settings.aiAssistantSystemPrompt || '')
+					.onChange(async (value) => {
+						this.plugin.settings.aiAssistantSystemPrompt = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('ai_assistant_temperature'))
+			.setDesc(t('ai_assistant_temperature_desc'))
+			.addSlider((slider) => {
+				slider
+					.setLimits(0, 2, 0.1)
+					.setValue(this.plugin.settings.aiAssistantTemperature ?? DEFAULT_ASSISTANT_TEMPERATURE)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.aiAssistantTemperature = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// ═══════════════════════════════════════════════════════════════════
 		// 1. LLM Provider
 		// ═══════════════════════════════════════════════════════════════════
@@ -1909,6 +2666,10 @@ export class FridaySettingTab extends PluginSettingTab {
 					.addOption('custom',   t('ai_provider_custom'))
 					.setValue(this.plugin.settings.aiProviderType || '')
 					.onChange(async (value) => {
+						if (value !== this.plugin.settings.aiProviderType) {
+							// The assistant model belongs to the previous provider
+							this.plugin.settings.aiAssistantModel = '';
+						}
 						this.plugin.settings.aiProviderType = value;
 						// Fill in preset defaults only when fields are empty
 						if (value && LLM_PRESETS[value]) {
@@ -2033,12 +2794,12 @@ export class FridaySettingTab extends PluginSettingTab {
 						// Derive enabled flag from selection
 						this.plugin.settings.aiEmbeddingEnabled = !!value;
 						// Fill in preset defaults only when fields are empty
-						if (value && EMB_PRESETS[value]) {
+						if (value && EMBEDDING_PRESETS[value]) {
 							if (!this.plugin.settings.aiEmbeddingBaseUrl) {
-								this.plugin.settings.aiEmbeddingBaseUrl = EMB_PRESETS[value].baseURL;
+								this.plugin.settings.aiEmbeddingBaseUrl = EMBEDDING_PRESETS[value].baseURL;
 							}
 							if (!this.plugin.settings.aiEmbeddingModel) {
-								this.plugin.settings.aiEmbeddingModel = EMB_PRESETS[value].model;
+								this.plugin.settings.aiEmbeddingModel = EMBEDDING_PRESETS[value].model;
 							}
 						}
 						await this.plugin.saveSettings();
@@ -2055,7 +2816,7 @@ export class FridaySettingTab extends PluginSettingTab {
 			embConfigEl.empty();
 			if (!embType) return;
 
-			const preset     = EMB_PRESETS[embType] || { baseURL: '', model: '' };
+			const preset     = EMBEDDING_PRESETS[embType] || { baseURL: '', model: '' };
 			const isEmbCloud = EMB_CLOUD.has(embType);
 			const isEmbLocal = EMB_LOCAL.has(embType);
 			const isEmbCustom = embType === 'custom';
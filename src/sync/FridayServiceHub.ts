@@ -44,8 +44,6 @@ import type {
     diff_result,
     CouchDBCredentials,
     UXFileInfoStub,
-    AUTO_MERGED,
-    MISSING_OR_ERROR,
 } from "./core/common/types";
 import type { LiveSyncLocalDB } from "./core/pouchdb/LiveSyncLocalDB";
 import type { LiveSyncAbstractReplicator } from "./core/replication/LiveSyncAbstractReplicator";
@@ -54,7 +52,7 @@ import type { SvelteDialogManagerBase } from "./core/UI/svelteDialog";
 import { readContent, isTextDocument, isDocContentSame } from "./core/common/utils";
 import { enableEncryption, disableEncryption } from "./core/pouchdb/encryption";
 import { replicationFilter } from "./core/pouchdb/compress";
-import { E2EEAlgorithms } from "./core/common/types";
+import { E2EEAlgorithms, AUTO_MERGED, MISSING_OR_ERROR } from "./core/common/types";
 
 // Import hidden file utilities
 import { isInternalMetadata } from "./utils/hiddenFileUtils";
@@ -311,15 +309,14 @@ class FridayReplicationService extends ServiceBase implements ReplicationService
     }
 
     // ==================== Document Processing (Aligned with LiveSync) ====================
-    // Note: Following LiveSync's approach - no custom conflict resolution
-    // Conflict handling is done by LiveSync's core ConflictChecker module
+    // Note: Conflicts are not handled here - every processed path is queued to
+    // FridayConflictService, which auto-merges or asks the user
     
     /**
      * Default handler for processing synchronized documents
      * Writes the document content to the vault
      * 
      * This follows the same pattern as livesync's ModuleFileHandler.dbToStorage
-     * Completely aligned with livesync's approach - no custom conflict resolution
      */
     private async defaultProcessSynchroniseResult(doc: MetaEntry): Promise<boolean> {
         try {
@@ -360,6 +357,12 @@ class FridayReplicationService extends ServiceBase implements ReplicationService
                 return false;
             }
             
+            // Outside this device's sync profile (e.g. obfuscated paths that the
+            // replication selector cannot match): leave the vault untouched
+            if (this.core.isExcludedBySyncProfile(path)) {
+                return true;
+            }
+            
             // Note: We do NOT use suspendFileWatching here (that's only for bulk operations)
             // Instead, we rely on LiveSync's Layer 2: touched + recentlyTouched
             const storageEventManager = this.core.storageEventManager;
@@ -535,6 +538,8 @@ class FridayReplicationService extends ServiceBase implements ReplicationService
                         storageEventManager.unmarkFileProcessing(path);
                     }, 1000);
                 }
+                // The arrived revision may have left the document with conflicting leaves
+                void this.core.services.conflict.queueCheckFor(path);
             }
         } catch (error) {
             // Log detailed error info to console for debugging
@@ -611,6 +616,11 @@ class FridayReplicationService extends ServiceBase implements ReplicationService
             return; // Skip processing entirely, will be handled after rebuild completes
         }
         
+        // Chunks deleted by another device may still be used by documents written here
+        this.core.chunkGC?.onChunksDeleted(
+            docs.filter((doc) => doc._id.startsWith("h:") && doc._deleted).map((doc) => doc._id)
+        );
+        
         // Queue documents for processing
         let queuedCount = 0;
         for (const doc of docs) {
@@ -870,7 +880,7 @@ export class FridayServiceHub extends ServiceHub {
         this._fileProcessing = new FridayFileProcessingService(backend);
         this._replication = new FridayReplicationService(backend, core);
         this._remote = new FridayRemoteService(backend, core);
-        this._conflict = new FridayConflictService(backend);
+        this._conflict = new FridayConflictService(backend, core);
         this._appLifecycle = new FridayAppLifecycleService(backend);
         this._setting = new FridaySettingService(backend, core);
         this._tweakValue = new FridayTweakValueService(backend);
@@ -1037,8 +1047,10 @@ class FridayRemoteService extends ServiceBase implements RemoteService {
 }
 
 class FridayConflictService extends ServiceBase implements ConflictService {
-    constructor(backend: ServiceBackend) {
+    private core: FridaySyncCore;
+    constructor(backend: ServiceBackend, core: FridaySyncCore) {
         super(backend);
+        this.core = core;
         [this.resolveByUserInteraction, this.handleResolveByUserInteraction] = this._first<typeof this.resolveByUserInteraction>("resolveByUserInteraction");
         [this.getOptionalConflictCheckMethod, this.handleGetOptionalConflictCheckMethod] = this._first<typeof this.getOptionalConflictCheckMethod>("getOptionalConflictCheckMethod");
     }
@@ -1046,14 +1058,28 @@ class FridayConflictService extends ServiceBase implements ConflictService {
     readonly handleGetOptionalConflictCheckMethod!: (handler: (path: FilePathWithPrefix) => Promise<boolean | undefined | "newer">) => void;
     readonly resolveByUserInteraction!: (filename: FilePathWithPrefix, conflictCheckResult: diff_result) => Promise<boolean | undefined>;
     readonly handleResolveByUserInteraction!: (handler: (filename: FilePathWithPrefix, conflictCheckResult: diff_result) => Promise<boolean | undefined>) => void;
-    async queueCheckForIfOpen(path: FilePathWithPrefix): Promise<void> {}
-    async queueCheckFor(path: FilePathWithPrefix): Promise<void> {}
-    async ensureAllProcessed(): Promise<boolean> { return true; }
+
+    // All work is delegated to FridayConflictResolver, which only exists once the core is initialized
+    async queueCheckForIfOpen(path: FilePathWithPrefix): Promise<void> {
+        await this.core.conflictResolver?.queueCheckForIfOpen(path);
+    }
+    async queueCheckFor(path: FilePathWithPrefix): Promise<void> {
+        await this.core.conflictResolver?.queueCheckFor(path);
+    }
+    async ensureAllProcessed(): Promise<boolean> {
+        return (await this.core.conflictResolver?.ensureAllProcessed()) ?? true;
+    }
     async resolveByDeletingRevision(path: FilePathWithPrefix, deleteRevision: string, title: string): Promise<typeof MISSING_OR_ERROR | typeof AUTO_MERGED> {
-        return "MISSING_OR_ERROR" as typeof MISSING_OR_ERROR;
+        const resolver = this.core.conflictResolver;
+        if (!resolver) return MISSING_OR_ERROR;
+        return await resolver.resolveByDeletingRevision(path, deleteRevision, title);
+    }
+    async resolve(filename: FilePathWithPrefix): Promise<void> {
+        await this.core.conflictResolver?.resolve(filename);
+    }
+    async resolveByNewest(filename: FilePathWithPrefix): Promise<boolean> {
+        return (await this.core.conflictResolver?.resolveByNewest(filename)) ?? false;
     }
-    async resolve(filename: FilePathWithPrefix): Promise<void> {}
-    async resolveByNewest(filename: FilePathWithPrefix): Promise<boolean> { return true; }
 }
 
 class FridaySettingService extends ServiceBase implements SettingService {
@@ -1089,7 +1115,7 @@ class FridaySettingService extends ServiceBase implements SettingService {
     async decryptSettings(settings: ObsidianLiveSyncSettings): Promise<ObsidianLiveSyncSettings> { return settings; }
     async adjustSettings(settings: ObsidianLiveSyncSettings): Promise<ObsidianLiveSyncSettings> { return settings; }
     async loadSettings(): Promise<void> {}
-    getDeviceAndVaultName(): string { return "friday-device"; }
+    getDeviceAndVaultName(): string { return this.core.deviceName || "friday-device"; }
     setDeviceAndVaultName(name: string): void {}
     saveDeviceAndVaultName(): void {}
     async saveSettingData(): Promise<void> {}
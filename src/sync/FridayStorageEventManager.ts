@@ -418,6 +418,13 @@ export class FridayStorageEventManager {
         }
         
         if (file instanceof TFolder) return;
+        // Moving a note out of this device's sync profile only stops replicating it from here:
+        // the CREATE is dropped as not a target, so the DELETE must be dropped too,
+        // otherwise the document would be deleted on every other device
+        if (this.core.isExcludedBySyncProfile(file.path)) {
+            Logger(`File moved out of the sync profile, keeping the remote copy: ${oldPath} -> ${file.path}`, LOG_LEVEL_VERBOSE);
+            return;
+        }
         // Note: LiveSync does NOT call unmarkChanges here
         // Rename is handled as DELETE old + CREATE new
         this.enqueueEvent({
@@ -691,6 +698,7 @@ export class FridayStorageEventManager {
                 datatype: datatype,
                 type: datatype,
                 eden: {},
+                deviceName: this.core.deviceName,
             };
             
             // Store to database (this will handle chunking and the actual write)
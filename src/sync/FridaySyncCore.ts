@@ -5,7 +5,7 @@
  * to enable full CouchDB synchronization functionality.
  */
 
-import {Plugin} from "obsidian";
+import {Platform, Plugin} from "obsidian";
 import {reactiveSource, type ReactiveSource} from "octagonal-wheels/dataobject/reactive";
 
 // Import file progress types
@@ -26,6 +26,7 @@ import {
 	LOG_LEVEL_VERBOSE,
 	type ObsidianLiveSyncSettings,
 	REMOTE_COUCHDB,
+	REMOTE_MINIO,
 	type RemoteDBSettings,
 } from "./core/common/types";
 
@@ -35,7 +36,12 @@ import {
 	LiveSyncCouchDBReplicator,
 	type LiveSyncCouchDBReplicatorEnv
 } from "./core/replication/couchdb/LiveSyncReplicator";
-import {type ReplicationStat} from "./core/replication/LiveSyncAbstractReplicator";
+import {
+	LiveSyncJournalReplicator,
+	type JournalObjectStore,
+	type LiveSyncJournalReplicatorEnv
+} from "./core/replication/journal/LiveSyncJournalReplicator";
+import {type LiveSyncAbstractReplicator, type ReplicationStat} from "./core/replication/LiveSyncAbstractReplicator";
 import {LiveSyncManagers} from "./core/managers/LiveSyncManagers";
 import {type KeyValueDatabase} from "./core/interfaces/KeyValueDatabase";
 import {type SimpleStore} from "octagonal-wheels/databases/SimpleStoreBase";
@@ -45,9 +51,11 @@ import {$msg} from "./core/common/i18n";
 
 // Import services
 import {FridayServiceHub} from "./FridayServiceHub";
-import type {SyncConfig, SyncStatus, SyncStatusCallback} from "./SyncService";
+import {DEFAULT_BUCKET_CONFIG, type SyncConfig, type SyncProfile, type SyncStatus, type SyncStatusCallback} from "./SyncService";
 import {FridayStorageEventManager} from "./FridayStorageEventManager";
 import { initializeSameChangePairs } from "./utils/sameChangePairs";
+import { buildProfileSelector, isPathInProfile, isRestrictiveProfile } from "./utils/syncProfiles";
+import { S3JournalStore } from "./utils/S3JournalStore";
 import type { SyncStatusDisplay } from "./SyncStatusDisplay";
 
 // Import HiddenFileSync module
@@ -59,6 +67,11 @@ import {FridayNetworkEvents} from "./features/NetworkEvents";
 import {FridayConnectionMonitor} from "./features/ConnectionMonitor";
 import {FridayConnectionFailureHandler} from "./features/ConnectionFailure";
 import {FridayOfflineTracker} from "./features/OfflineTracker";
+import {FridayConflictResolver} from "./features/ConflictResolver";
+import {FridayFileHistory} from "./features/FileHistory";
+import {FridaySyncLog, redactSettings, redactText} from "./features/SyncLog";
+import {FridaySyncHealth} from "./features/SyncHealth";
+import {FridayChunkGC} from "./features/ChunkGC";
 import {ServerConnectivityChecker, type ServerStatus} from "./features/ServerConnectivity";
 
 // Import hidden file utilities
@@ -74,6 +87,10 @@ import {replicationFilter} from "./core/pouchdb/compress";
 // Import path utilities for correct document ID generation
 import {id2path_base, path2id_base, isAccepted} from "./core/string_and_binary/path";
 
+const DEVICE_NAME_KEY = "device-name";
+const SYNC_PROFILE_KEY = "sync-profile";
+const LAST_SYNC_KEY = "last-sync";
+
 /**
  * Simple KeyValue Database implementation using localStorage
  */
@@ -169,11 +186,12 @@ class FridaySimpleStore<T> implements SimpleStore<T> {
 /**
  * FridaySyncCore - Main sync core implementation
  */
-export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplicatorEnv {
+export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplicatorEnv, LiveSyncJournalReplicatorEnv {
     private plugin: Plugin;
     private _settings: ObsidianLiveSyncSettings;
     private _localDatabase: LiveSyncLocalDB | null = null;
-    private _replicator: LiveSyncCouchDBReplicator | null = null;
+    private _replicator: LiveSyncAbstractReplicator | null = null;
+    private _journalStore: JournalObjectStore | null = null;
     private _managers: LiveSyncManagers | null = null;
     private _services: FridayServiceHub;
     private _kvDB: KeyValueDatabase;
@@ -228,6 +246,27 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
     private _connectionMonitor: FridayConnectionMonitor | null = null;
     private _connectionFailureHandler: FridayConnectionFailureHandler | null = null;
     private _offlineTracker: FridayOfflineTracker | null = null;
+
+    // Conflict resolution (auto-merge and interactive diff)
+    private _conflictResolver: FridayConflictResolver | null = null;
+
+    // Revision history browser and restore
+    private _fileHistory: FridayFileHistory | null = null;
+    
+    // Persistent history of log messages (for the sync log view and diagnostics)
+    private _syncLog: FridaySyncLog;
+    
+    // Database statistics and integrity check (for the sync status view)
+    private _syncHealth: FridaySyncHealth | null = null;
+    
+    // Orphan chunk garbage collection (manual and scheduled)
+    private _chunkGC: FridayChunkGC | null = null;
+    
+    // Last time documents moved in each direction (kvDB, per device)
+    private _lastSyncAt: { pull: number | null; push: number | null } = { pull: null, push: null };
+
+    // Name of this device, stamped on every revision written from here
+    private _deviceName: string = "";
     
     // Server connectivity checker for pre-sync validation
     private _serverChecker: ServerConnectivityChecker | null = null;
@@ -257,6 +296,10 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
         syncPdf: false,
     };
     
+    // Sync profiles (folder selection) and the one chosen on this device (stored in kvDB)
+    private _syncProfiles: SyncProfile[] = [];
+    private _activeSyncProfileId: string | null = null;
+    
     // File extension mappings for selective sync
     private static readonly IMAGE_EXTENSIONS = ['bmp', 'png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'avif'];
     private static readonly AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', '3gp', 'flac', 'ogg', 'oga', 'opus'];
@@ -279,12 +322,39 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
             }
         };
         
+        this._syncLog = new FridaySyncLog(plugin);
+        void this._syncLog.load();
+        
+        // Remember when each direction last transferred documents
+        let lastPullSeq = 0;
+        let lastPushSeq = 0;
+        this.replicationStat.onChanged(({ value }) => {
+            const now = Date.now();
+            let changed = false;
+            if (value.lastSyncPullSeq !== lastPullSeq) {
+                if (value.lastSyncPullSeq > 0) this._lastSyncAt.pull = now;
+                lastPullSeq = value.lastSyncPullSeq;
+                changed = true;
+            }
+            if (value.lastSyncPushSeq !== lastPushSeq) {
+                if (value.lastSyncPushSeq > 0) this._lastSyncAt.push = now;
+                lastPushSeq = value.lastSyncPushSeq;
+                changed = true;
+            }
+            if (changed) {
+                void this._kvDB.set(LAST_SYNC_KEY, this._lastSyncAt);
+            }
+        });
+        
         // Set up global logging that also notifies status display
         // This matches livesync's pattern: all logs go to status display
         setGlobalLogFunction((message: any, level?: number, key?: string) => {
             const msgStr = String(message);
             const logLevel = level ?? LOG_LEVEL_INFO;
             
+            // Keep every message in the sync log history
+            this._syncLog.add(message, logLevel, key);
+            
             // Notify status display callback
             // All logs are displayed in logMessage area
             // Only LOG_LEVEL_NOTICE shows Notice popup
@@ -365,7 +435,7 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
         return this._localDatabase;
     }
 
-    get replicator(): LiveSyncCouchDBReplicator | null {
+    get replicator(): LiveSyncAbstractReplicator | null {
         return this._replicator;
     }
 
@@ -387,6 +457,57 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
     isServerReachable(): boolean {
         return this._serverChecker?.isServerReachable ?? false;
     }
+    
+    /**
+     * Object store for the configured bucket (used by the journal replicator)
+     */
+    getJournalStore(): JournalObjectStore {
+        if (!this._journalStore) {
+            this._journalStore = new S3JournalStore(this._settings);
+        }
+        return this._journalStore;
+    }
+    
+    /**
+     * Replicator for the configured remote: CouchDB, or journal packs in an S3 bucket
+     */
+    private createReplicator(): LiveSyncAbstractReplicator {
+        if (this._settings.remoteType === REMOTE_MINIO) {
+            return new LiveSyncJournalReplicator(this);
+        }
+        return new LiveSyncCouchDBReplicator(this);
+    }
+
+    get conflictResolver(): FridayConflictResolver | null {
+        return this._conflictResolver;
+    }
+
+    get fileHistory(): FridayFileHistory | null {
+        return this._fileHistory;
+    }
+
+    get deviceName(): string {
+        return this._deviceName;
+    }
+
+    get syncLog(): FridaySyncLog {
+        return this._syncLog;
+    }
+
+    get syncHealth(): FridaySyncHealth | null {
+        return this._syncHealth;
+    }
+
+    get chunkGC(): FridayChunkGC | null {
+        return this._chunkGC;
+    }
+
+    /**
+     * When documents last moved in each direction on this device (null = never)
+     */
+    get lastSyncAt(): { pull: number | null; push: number | null } {
+        return { ...this._lastSyncAt };
+    }
 
     get offlineTracker(): FridayOfflineTracker | null {
         return this._offlineTracker;
@@ -521,20 +642,32 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
                 };
             }
             
+            this._syncProfiles = config.syncProfiles ?? [];
+            
             // Update settings from config
+            const bucket = { ...DEFAULT_BUCKET_CONFIG, ...config.bucket };
+            this._journalStore = null;
             this._settings = {
                 ...DEFAULT_SETTINGS,
                 couchDB_URI: config.couchDB_URI,
                 couchDB_USER: config.couchDB_USER,
                 couchDB_PASSWORD: config.couchDB_PASSWORD,
                 couchDB_DBNAME: config.couchDB_DBNAME,
+                // S3-compatible bucket (used when remoteType is "s3")
+                endpoint: bucket.endpoint,
+                region: bucket.region,
+                bucket: bucket.bucket,
+                accessKey: bucket.accessKey,
+                secretKey: bucket.secretKey,
+                bucketPrefix: bucket.prefix,
+                forcePathStyle: bucket.forcePathStyle,
                 encrypt: config.encrypt,
                 passphrase: config.passphrase,
                 usePathObfuscation: config.usePathObfuscation,
                 liveSync: config.liveSync,
                 syncOnStart: config.syncOnStart,
                 syncOnSave: config.syncOnSave,
-                remoteType: REMOTE_COUCHDB,
+                remoteType: config.remoteType === "s3" ? REMOTE_MINIO : REMOTE_COUCHDB,
                 isConfigured: true,
                 // Livesync ignore file settings (disabled - we use in-memory patterns)
                 useIgnoreFiles: false,
@@ -591,7 +724,7 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
                             // The replicator must be initialized first (happens after db init)
                             if (!this._replicator) {
                                 // Create a temporary replicator just for salt retrieval
-                                const tempReplicator = new LiveSyncCouchDBReplicator(this);
+                                const tempReplicator = this.createReplicator();
 								return await tempReplicator.getReplicationPBKDF2Salt(this._settings);
                             }
 							return await this._replicator.getReplicationPBKDF2Salt(this._settings);
@@ -605,6 +738,10 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
                 return true;
             });
 
+            this._deviceName = await this.loadDeviceName();
+            this._activeSyncProfileId = (await this._kvDB.get<string>(SYNC_PROFILE_KEY)) ?? null;
+            this._lastSyncAt = (await this._kvDB.get<typeof this._lastSyncAt>(LAST_SYNC_KEY)) ?? this._lastSyncAt;
+
             // Initialize local database
             const vaultName = this.getVaultName();
             this._localDatabase = new LiveSyncLocalDB(vaultName, this);
@@ -622,11 +759,24 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
             
             // Initialize replicator first (needed for salt retrieval)
             // Note: Encryption will be set up when startSync is called
-            this._replicator = new LiveSyncCouchDBReplicator(this);
+            this._replicator = this.createReplicator();
             
             // Initialize storage event manager for watching file changes
             this._storageEventManager = new FridayStorageEventManager(this.plugin, this);
             
+            // Initialize conflict resolver (resolves documents with multiple leaf revisions)
+            this._conflictResolver = new FridayConflictResolver(this.plugin, this);
+            
+            // Initialize file history (lists and restores revisions kept in the local database)
+            this._fileHistory = new FridayFileHistory(this.plugin, this);
+            
+            // Initialize sync health (statistics and integrity check for the status view)
+            this._syncHealth = new FridaySyncHealth(this.plugin, this);
+            
+            // Initialize chunk garbage collection (runs on its own schedule when enabled)
+            this._chunkGC = new FridayChunkGC(this.plugin, this, config.chunkGC);
+            this._chunkGC.startSchedule();
+            
             // Initialize hidden file sync module (for .obsidian synchronization)
             // Default: enabled with Obsidian official sync best practices
             if (this._settings.syncInternalFiles !== false) {
@@ -773,7 +923,7 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
     async startSync(
         continuous: boolean = true,
         options?: {
-            reason?: "PLUGIN_STARTUP" | "AUTO_RECONNECT" | "NETWORK_RECOVERY";
+            reason?: "PLUGIN_STARTUP" | "AUTO_RECONNECT" | "NETWORK_RECOVERY" | "PROFILE_CHANGED";
             forceCheck?: boolean;
         }
     ): Promise<boolean> {
@@ -1155,6 +1305,13 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
             return false;
         }
 
+        // Rebuilding from a partial vault would drop the excluded folders from the server
+        const profile = this.activeSyncProfile;
+        if (isRestrictiveProfile(profile)) {
+            Logger($msg("fridaySync.profile.rebuildBlocked", { name: profile.name }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+
         return this._executeManualOperation("RESET", async () => {
             try {
                 this.setStatus("STARTED", "Uploading your files...");
@@ -1912,42 +2069,47 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
      * 
      * Note: This uses the same batch size as ChunkFetcher (100 chunks per request)
      * to maintain consistency with the rest of the system.
+     * 
+     * @param chunkIds - Only consider these chunks (e.g. the children of one file);
+     *                   all chunks referenced by the database when omitted
+     * @returns Number of chunks fetched
      */
-    private async fetchAllMissingChunksFromRemote(): Promise<void> {
+    async fetchAllMissingChunksFromRemote(chunkIds?: string[]): Promise<number> {
         if (!this._replicator || !this._localDatabase) {
             console.error("[fetchAllMissingChunks] ❌ Cannot fetch chunks: Replicator or LocalDatabase not initialized");
-            return;
+            return 0;
         }
         
         try {
             // Step 1: Collect all chunk IDs that are referenced by documents
             const localDB = this._localDatabase.localDatabase;
-            const referencedChunkIds = new Set<string>();
+            const referencedChunkIds = new Set<string>(chunkIds ?? []);
             
             // Query all documents with children (i.e., files with chunks)
-            const allDocs = await localDB.allDocs({
-                include_docs: true,
-                attachments: false,
-            });
-            
-            for (const row of allDocs.rows) {
-                const doc = row.doc as any;
-                if (doc && doc.children && Array.isArray(doc.children)) {
-                    doc.children.forEach((chunkId: string) => {
-                        referencedChunkIds.add(chunkId);
-                    });
+            if (!chunkIds) {
+                const allDocs = await localDB.allDocs({
+                    include_docs: true,
+                    attachments: false,
+                });
+                
+                for (const row of allDocs.rows) {
+                    const doc = row.doc as any;
+                    if (doc && doc.children && Array.isArray(doc.children)) {
+                        doc.children.forEach((chunkId: string) => {
+                            referencedChunkIds.add(chunkId);
+                        });
+                    }
                 }
             }
 
             if (referencedChunkIds.size === 0) {
                 Logger("No chunk references found", LOG_LEVEL_VERBOSE);
-                return;
+                return 0;
             }
             
             // Step 2: Check which chunks are missing locally
-            const chunkIds = Array.from(referencedChunkIds);
             const localChunksResult = await localDB.allDocs({
-                keys: chunkIds,
+                keys: Array.from(referencedChunkIds),
             });
             
             const missingChunkIds = localChunksResult.rows
@@ -1956,7 +2118,7 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
             
             if (missingChunkIds.length === 0) {
                 Logger("All chunks are already present locally", LOG_LEVEL_VERBOSE);
-                return;
+                return 0;
             }
             
             Logger(
@@ -2025,12 +2187,14 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
                     LOG_LEVEL_NOTICE
                 );
             }
+            return fetchedTotal;
         } catch (ex) {
             Logger(
                 `Error in fetchAllMissingChunksFromRemote: ${ex}`,
                 LOG_LEVEL_NOTICE
             );
             Logger(ex, LOG_LEVEL_VERBOSE);
+            return 0;
         }
     }
 
@@ -2062,11 +2226,62 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
     async close(): Promise<void> {
         // Stop network monitoring (will check if it's started)
         this.stopNetworkMonitoring();
+        this._chunkGC?.stopSchedule();
 
         await this.stopSync();
         if (this._localDatabase) {
             await this._localDatabase.close();
         }
+        await this._syncLog.flush();
+    }
+    
+    /**
+     * Collect a diagnostics bundle for bug reports
+     * Settings are redacted and known secrets are removed from log messages
+     */
+    async buildDiagnostics(config: SyncConfig): Promise<Record<string, unknown>> {
+        const secrets = [
+            this._settings.couchDB_PASSWORD,
+            this._settings.passphrase,
+            this._settings.couchDB_USER,
+            this._settings.accessKey,
+            this._settings.secretKey,
+        ];
+        const toReport = (entries: ReturnType<FridaySyncLog["getEntries"]>) => entries.map((entry) => ({
+            time: new Date(entry.time).toISOString(),
+            level: entry.level,
+            operation: entry.operation,
+            message: redactText(entry.message, secrets),
+        }));
+        
+        let database: Record<string, unknown> = { initialized: false };
+        if (this._localDatabase) {
+            try {
+                const info = await this._localDatabase.localDatabase.info();
+                database = {
+                    initialized: true,
+                    docCount: info.doc_count,
+                    updateSeq: info.update_seq,
+                };
+            } catch (error) {
+                database = { initialized: true, error: String(error) };
+            }
+        }
+        
+        return {
+            generatedAt: new Date().toISOString(),
+            plugin: this.plugin.manifest.version,
+            platform: Platform.isMobile ? "mobile" : "desktop",
+            device: this._deviceName,
+            status: this._status,
+            replication: { ...this.replicationStat.value },
+            pendingOfflineChanges: this._offlineTracker?.pendingCount ?? 0,
+            syncProfile: this.activeSyncProfile?.name ?? null,
+            database,
+            settings: redactSettings(config),
+            recentErrors: toReport(this._syncLog.getEntries({ errorsOnly: true }).slice(-50)),
+            recentLog: toReport(this._syncLog.getEntries().slice(-300)),
+        };
     }
     
     /**
@@ -2078,6 +2293,18 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
 
     // ==================== Helper Methods ====================
 
+    /**
+     * Load this device's name from kvDB, generating one on first use.
+     * kvDB lives in localStorage, so the name never travels to other devices.
+     */
+    private async loadDeviceName(): Promise<string> {
+        const stored = await this._kvDB.get<string>(DEVICE_NAME_KEY);
+        if (stored) return stored;
+        const name = `${Platform.isMobile ? "Mobile" : "Desktop"}-${Math.random().toString(36).substring(2, 6)}`;
+        await this._kvDB.set(DEVICE_NAME_KEY, name);
+        return name;
+    }
+
     private getVaultName(): string {
         // @ts-ignore - accessing internal Obsidian API
         return this.plugin.app.vault.getName() || "friday-vault";
@@ -2126,6 +2353,14 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
      * Test connection to CouchDB
      */
     async testConnection(): Promise<{ success: boolean; message: string }> {
+        if (this._settings.remoteType === REMOTE_MINIO) {
+            try {
+                await this.getJournalStore().check();
+                return { success: true, message: `Connected to bucket ${this._settings.bucket}` };
+            } catch (error) {
+                return { success: false, message: error instanceof Error ? error.message : `Connection error: ${error}` };
+            }
+        }
         try {
             const uri = this._settings.couchDB_URI.replace(/\/$/, "");
             const dbUrl = `${uri}/${this._settings.couchDB_DBNAME}`;
@@ -2195,6 +2430,90 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
         Logger(`Updated internal files ignore patterns`, LOG_LEVEL_INFO);
     }
     
+    /**
+     * Update the defined sync profiles (for real-time settings update)
+     * Restarts replication when the folder selection of this device changed
+     */
+    async updateSyncProfiles(profiles: SyncProfile[]): Promise<void> {
+        const previous = JSON.stringify(this.getReplicationSelector() ?? null);
+        this._syncProfiles = profiles;
+        Logger(`Updated sync profiles: ${profiles.length} profiles`, LOG_LEVEL_INFO);
+        
+        if (JSON.stringify(this.getReplicationSelector() ?? null) !== previous) {
+            await this.restartReplicationForProfile();
+        }
+    }
+    
+    /**
+     * Sync profile chosen on this device (null = whole vault)
+     */
+    get activeSyncProfileId(): string | null {
+        return this._activeSyncProfileId;
+    }
+    
+    /**
+     * Active profile, or null when none is chosen or it was removed from settings
+     */
+    get activeSyncProfile(): SyncProfile | null {
+        if (!this._activeSyncProfileId) return null;
+        return this._syncProfiles.find((profile) => profile.id === this._activeSyncProfileId) ?? null;
+    }
+    
+    /**
+     * Choose the sync profile for this device
+     * The choice lives in kvDB (localStorage), so every device keeps its own
+     */
+    async setActiveSyncProfile(profileId: string | null): Promise<void> {
+        const previous = JSON.stringify(this.getReplicationSelector() ?? null);
+        this._activeSyncProfileId = profileId;
+        await this._kvDB.set(SYNC_PROFILE_KEY, profileId);
+        
+        const profile = this.activeSyncProfile;
+        if (profile) {
+            Logger($msg("fridaySync.profile.applied", { name: profile.name }), LOG_LEVEL_NOTICE);
+            if (isRestrictiveProfile(profile) && this._settings.usePathObfuscation) {
+                Logger($msg("fridaySync.profile.obfuscationUnsupported"), LOG_LEVEL_NOTICE);
+            }
+        } else {
+            Logger($msg("fridaySync.profile.cleared"), LOG_LEVEL_NOTICE);
+        }
+        
+        if (JSON.stringify(this.getReplicationSelector() ?? null) !== previous) {
+            await this.restartReplicationForProfile();
+        }
+    }
+    
+    /**
+     * Mango selector for the active profile, used by the replicator for push and pull
+     * Obfuscated paths cannot be matched on the server, so those vaults only filter on write
+     */
+    getReplicationSelector(): PouchDB.Find.Selector | undefined {
+        if (this._settings.usePathObfuscation) return undefined;
+        return buildProfileSelector(this.activeSyncProfile);
+    }
+    
+    /**
+     * Check if a file is outside the folders of the active sync profile
+     */
+    isExcludedBySyncProfile(filepath: string): boolean {
+        return !isPathInProfile(this.activeSyncProfile, filepath);
+    }
+    
+    /**
+     * Reopen live replication so the new selector applies
+     * One-shot and manual operations pick up the selector on their next run
+     */
+    private async restartReplicationForProfile(): Promise<void> {
+        if (!this._replicator || !this._settings.liveSync || this.isManualOperation) return;
+        
+        const status = this.replicationStat.value.syncStatus;
+        if (status === "CLOSED" || status === "NOT_CONNECTED" || status === "ERRORED") return;
+        
+        Logger("Restarting replication for the new sync profile", LOG_LEVEL_INFO);
+        this._replicator.closeReplication();
+        await this.startSync(true, { reason: "PROFILE_CHANGED", forceCheck: false });
+    }
+    
     /**
      * Check if a file is ignored by user-defined ignore patterns
      * Uses gitignore-style pattern matching directly from memory
@@ -2258,6 +2577,12 @@ export class FridaySyncCore implements LiveSyncLocalDBEnv, LiveSyncCouchDBReplic
             return false;
         }
         
+        // Check the sync profile of this device: changes (including deletions)
+        // in excluded folders are never recorded, so they are never pushed
+        if (this.isExcludedBySyncProfile(filepath)) {
+            return false;
+        }
+        
         // Check if database accepts this file
         if (this._localDatabase && !this._localDatabase.isTargetFile(filepath)) {
             return false;
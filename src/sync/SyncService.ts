@@ -10,6 +10,8 @@
 
 import {Notice, Plugin} from "obsidian";
 import {FridaySyncCore} from "./FridaySyncCore";
+import {DEFAULT_CHUNK_GC_CONFIG, type ChunkGCReport} from "./features/ChunkGC";
+import {S3JournalStore} from "./utils/S3JournalStore";
 
 /**
  * Selective sync settings for quick toggles
@@ -24,10 +26,64 @@ export interface SelectiveSyncSettings {
     syncPlugins: boolean;   // .obsidian/plugins
 }
 
+/**
+ * Named folder selection for selective sync
+ * Profiles are shared through the plugin settings; each device picks its own active profile
+ */
+export interface SyncProfile {
+    id: string;
+    name: string;
+    includeFolders: string[];   // Folders to replicate (empty = whole vault)
+    excludeFolders: string[];   // Folders never replicated, e.g. "Archive"
+}
+
+/**
+ * Orphan chunk garbage collection
+ */
+export interface ChunkGCConfig {
+    schedule: "off" | "daily" | "weekly";
+    includeRemote: boolean;     // Also sweep chunks that only exist on the server
+    compact: boolean;           // Compact the local database (and the server with includeRemote); removes file history
+}
+
+/**
+ * Where the vault is replicated to
+ * - couchdb: a CouchDB server (live replication)
+ * - s3: an S3-compatible bucket (AWS S3, MinIO, R2...), changes are stored as encrypted journal packs
+ */
+export type SyncRemoteType = "couchdb" | "s3";
+
+/**
+ * S3-compatible object storage for the journal backend
+ */
+export interface BucketConfig {
+    endpoint: string;           // e.g. http://localhost:9000; empty = AWS for the region
+    region: string;             // "auto" for Cloudflare R2
+    bucket: string;
+    accessKey: string;
+    secretKey: string;
+    prefix: string;             // Folder inside the bucket, so one bucket can hold several vaults
+    forcePathStyle: boolean;    // endpoint/bucket addressing (required by MinIO)
+}
+
+export const DEFAULT_BUCKET_CONFIG: BucketConfig = {
+    endpoint: "",
+    region: "us-east-1",
+    bucket: "",
+    accessKey: "",
+    secretKey: "",
+    prefix: "",
+    forcePathStyle: true,
+};
+
 /**
  * Sync configuration for CouchDB
  */
 export interface SyncConfig {
+    // Remote backend (default: couchdb)
+    remoteType?: SyncRemoteType;
+    bucket?: BucketConfig;
+    
     // CouchDB Server
     couchDB_URI: string;
     couchDB_USER: string;
@@ -51,6 +107,12 @@ export interface SyncConfig {
     // Selective sync settings (quick toggles for common file types)
     selectiveSync?: SelectiveSyncSettings;
     
+    // Sync profiles (folder selection); the active profile is stored per device
+    syncProfiles?: SyncProfile[];
+    
+    // Orphan chunk garbage collection (schedule and options)
+    chunkGC?: ChunkGCConfig;
+    
     // Hidden file sync (.obsidian folder synchronization)
     // Default: enabled with Obsidian official sync best practices
     syncInternalFiles?: boolean;                    // Enable .obsidian sync (default: true)
@@ -134,7 +196,12 @@ export class SyncService {
         
         try {
             // Validate configuration
-            if (!config.couchDB_URI || !config.couchDB_DBNAME) {
+            if (config.remoteType === "s3") {
+                if (!config.bucket?.bucket || !config.bucket.accessKey || !config.bucket.secretKey) {
+                    new Notice("Sync: bucket name, access key and secret key are required");
+                    return false;
+                }
+            } else if (!config.couchDB_URI || !config.couchDB_DBNAME) {
                 new Notice("Sync: CouchDB URI and database name are required");
                 return false;
             }
@@ -177,6 +244,29 @@ export class SyncService {
         return await this.core.testConnection();
     }
 
+    /**
+     * Test a bucket before it is saved (no core or local database needed)
+     */
+    static async testBucket(bucket: BucketConfig): Promise<{ success: boolean; message: string }> {
+        const store = new S3JournalStore({
+            endpoint: bucket.endpoint,
+            region: bucket.region,
+            bucket: bucket.bucket,
+            accessKey: bucket.accessKey,
+            secretKey: bucket.secretKey,
+            bucketPrefix: bucket.prefix,
+            forcePathStyle: bucket.forcePathStyle,
+            useCustomRequestHandler: false,
+            bucketCustomHeaders: "",
+        });
+        try {
+            await store.check();
+            return { success: true, message: `Connected to bucket ${bucket.bucket}` };
+        } catch (error) {
+            return { success: false, message: error instanceof Error ? error.message : `Connection error: ${error}` };
+        }
+    }
+
     /**
      * Start synchronization
      * 
@@ -325,6 +415,80 @@ export class SyncService {
         }
     }
 
+    /**
+     * Update the defined sync profiles
+     * 
+     * If the active profile on this device changed, replication restarts
+     * with the new folder selection.
+     * 
+     * @param profiles - All profiles from settings
+     */
+    async updateSyncProfiles(profiles: SyncProfile[]): Promise<void> {
+        if (this.config) {
+            this.config.syncProfiles = profiles;
+        }
+        if (this.core) {
+            await this.core.updateSyncProfiles(profiles);
+        }
+    }
+
+    /**
+     * Get the sync profile active on this device (null = whole vault)
+     */
+    getActiveSyncProfileId(): string | null {
+        return this.core?.activeSyncProfile?.id ?? null;
+    }
+
+    /**
+     * Choose the sync profile for this device
+     * 
+     * The choice is stored locally and never synced to other devices.
+     * 
+     * @param profileId - Profile id, or null to sync the whole vault
+     */
+    async setActiveSyncProfile(profileId: string | null): Promise<void> {
+        if (!this.core) {
+            new Notice("Sync: Not initialized. Please initialize first.");
+            return;
+        }
+        await this.core.setActiveSyncProfile(profileId);
+    }
+
+    /**
+     * Update the chunk garbage collection schedule and options
+     * 
+     * @param config - Options from settings
+     */
+    updateChunkGC(config: ChunkGCConfig): void {
+        if (this.config) {
+            this.config.chunkGC = config;
+        }
+        this.core?.chunkGC?.updateConfig(config);
+    }
+
+    /**
+     * Collect orphaned chunks now
+     * 
+     * @param dryRun - Only report what would be collected
+     * @returns The report, or null when sync is not ready or a run is in progress
+     */
+    async runChunkGC(dryRun: boolean): Promise<ChunkGCReport | null> {
+        const chunkGC = this.core?.chunkGC;
+        if (!chunkGC) {
+            new Notice("Sync: Not initialized. Please initialize first.");
+            return null;
+        }
+        const config = { ...DEFAULT_CHUNK_GC_CONFIG, ...this.config?.chunkGC };
+        return await chunkGC.run({ dryRun, includeRemote: config.includeRemote, compact: config.compact });
+    }
+
+    /**
+     * Report of the last (non dry-run) chunk garbage collection on this device
+     */
+    async getLastChunkGCReport(): Promise<ChunkGCReport | null> {
+        return (await this.core?.chunkGC?.getLastReport()) ?? null;
+    }
+
     /**
      * Check if there are any sync issues that need user attention
      * 
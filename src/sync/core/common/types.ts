@@ -1551,6 +1551,10 @@ export type EntryBase = {
      * Deleted flag.
      */
     deleted?: boolean;
+    /**
+     * The name of the device that wrote this revision.
+     */
+    deviceName?: string;
 };
 
 export type EdenChunk = {
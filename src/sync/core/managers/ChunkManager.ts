@@ -254,6 +254,14 @@ export class ChunkManager {
             return; // Ignore invalid documents
         }
 
+        // Deleted chunks (tombstones carry no type) must leave the cache,
+        // otherwise write() would skip them and new revisions would point at missing chunks
+        if (change.deleted && doc._id.startsWith("h:")) {
+            this.deleteCachedChunk(doc._id);
+            this.onChunkArrived(doc, true);
+            return;
+        }
+
         if (doc.type !== "leaf") {
             return; // Ignore if not a chunk document
         }
@@ -550,6 +550,9 @@ export class EntryManager {
                 type: note.datatype,
                 eden: {},
             };
+            if (note.deviceName) {
+                newDoc.deviceName = note.deviceName;
+            }
 
             return (
                 (await serialized("file:" + filename, async () => {
@@ -59,6 +59,13 @@ export interface LiveSyncReplicatorEnv {
      * Emits events for upload, download, and file write operations
      */
     onFileProgress?: (event: any) => void;
+
+    /**
+     * Mango selector limiting which documents this device replicates (provided by FridaySyncCore)
+     * Applied to both push and pull, so documents outside the active sync profile
+     * are never fetched, stored, or pushed
+     */
+    getReplicationSelector?: () => PouchDB.Find.Selector | undefined;
 }
 
 export type RemoteDBStatus = {
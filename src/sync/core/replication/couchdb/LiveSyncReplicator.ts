@@ -934,10 +934,10 @@ export class LiveSyncCouchDBReplicator extends LiveSyncAbstractReplicator {
                     : syncMode == "pullOnly"
                       ? localDB.replicate.from(db, {
                             ...syncOptionBase,
-                            ...(setting.readChunksOnline ? selectorOnDemandPull : {}),
+                            ...syncOptionBase.pull,
                         })
                       : syncMode == "pushOnly"
-                        ? localDB.replicate.to(db, { ...syncOptionBase })
+                        ? localDB.replicate.to(db, { ...syncOptionBase, ...syncOptionBase.push })
                         : (undefined as never);
             const syncResult = await this.processSync(
                 syncHandler,
@@ -1114,10 +1114,16 @@ export class LiveSyncCouchDBReplicator extends LiveSyncAbstractReplicator {
             batches_limit: setting.batches_limit,
             batch_size: setting.batch_size,
         };
-        syncOptionBase.push = {};
+        // Friday: the sync profile selector limits both directions (see getReplicationSelector)
+        const profileSelector = this.env.getReplicationSelector?.();
+        syncOptionBase.push = profileSelector ? { selector: profileSelector } : {};
 
         if (setting.readChunksOnline) {
-            syncOptionBase.pull = { ...selectorOnDemandPull };
+            syncOptionBase.pull = profileSelector
+                ? { selector: { $and: [selectorOnDemandPull.selector, profileSelector] } }
+                : { ...selectorOnDemandPull };
+        } else if (profileSelector) {
+            syncOptionBase.pull = { selector: profileSelector };
         }
         const syncOption: PouchDB.Replication.SyncOptions = keepAlive
             ? { live: true, retry: true, heartbeat: setting.useTimeouts ? false : 30000, ...syncOptionBase }
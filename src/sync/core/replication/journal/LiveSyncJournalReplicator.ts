@@ -0,0 +1,1047 @@
+import {
+    type EntryDoc,
+    type EntryLeaf,
+    type EntryMilestoneInfo,
+    type ChunkVersionRange,
+    type RemoteDBSettings,
+    type TweakValues,
+    type NodeData,
+    type DeviceInfo,
+    type SyncParameters,
+    MILESTONE_DOCID,
+    DEVICE_ID_PREFERRED,
+    TweakValuesTemplate,
+    DOCID_JOURNAL_SYNC_PARAMETERS,
+    DEFAULT_SYNC_PARAMETERS,
+    PREFIX_CHUNK,
+    ProtocolVersions,
+} from "../../common/types.ts";
+import { LOG_LEVEL_INFO, LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE, Logger } from "../../common/logger.ts";
+import { extractObject } from "../../common/utils.ts";
+import { preprocessIncoming, preprocessOutgoing } from "../../pouchdb/encryption.ts";
+import { ensureRemoteIsCompatible } from "../../pouchdb/LiveSyncDBFunctions.ts";
+import {
+    LiveSyncAbstractReplicator,
+    type LiveSyncReplicatorEnv,
+    type RemoteDBStatus,
+} from "../LiveSyncAbstractReplicator.ts";
+import { serialized } from "octagonal-wheels/concurrency/lock";
+import { $msg } from "../../common/i18n.ts";
+import {
+    clearHandlers,
+    createSyncParamsHanderForServer,
+    SyncParamsFetchError,
+    SyncParamsNotFoundError,
+    SyncParamsUpdateError,
+} from "../SyncParamsHandler.ts";
+import { arrayBufferToBase64Single, base64ToArrayBufferInternalBrowser } from "../../string_and_binary/convert.ts";
+import { matchesSelector } from "pouchdb-selector-core";
+
+/**
+ * Journal replication
+ *
+ * Instead of a database server, the remote is a plain object store (an S3 bucket).
+ * Every push uploads the changed documents and chunks as immutable "packs":
+ *
+ *   journal/<node id>/<created time>.json   { version, node, createdAt, docs }
+ *
+ * Docs keep their revision history (`_revisions`) and are encrypted with the same
+ * E2EE transform the CouchDB replicator uses, so pulling a pack is a
+ * `bulkDocs(..., { new_edits: false })` on the local database followed by the usual
+ * parseSynchroniseResult pipeline.
+ *
+ * Each device keeps its own checkpoint (last pushed local sequence, newest pulled pack of
+ * every device) in the key-value database. The milestone and the sync parameters live
+ * beside the packs as `_milestone.json` and `DOCID_JOURNAL_SYNC_PARAMETERS`.
+ */
+
+const currentVersionRange: ChunkVersionRange = {
+    min: 0,
+    max: 2400,
+    current: 2,
+};
+
+const JOURNAL_PREFIX = "journal/";
+const MILESTONE_KEY = "_milestone.json";
+const PACK_VERSION = 1;
+const PACK_MAX_DOCS = 500;
+const PACK_MAX_BYTES = 8 * 1024 * 1024;
+const CHANGES_BATCH_SIZE = 100;
+// Revisions received from a pack, kept until the next push has skipped them
+const RECEIVED_REVS_PREFIX = "_local/journal-received/";
+const LIVE_PUSH_DELAY = 2000;
+const LIVE_POLL_INTERVAL = 30000;
+
+export interface JournalObjectInfo {
+    key: string;
+    size: number;
+}
+
+/**
+ * Minimal object storage used by the journal replicator
+ * Keys are relative to the store's own prefix
+ */
+export interface JournalObjectStore {
+    /** Stable identifier of the bucket and prefix (used for checkpoints and caches) */
+    readonly id: string;
+    list(prefix: string, startAfter?: string): Promise<JournalObjectInfo[]>;
+    /** Sub-directories directly below the prefix, as "<prefix><name>/" */
+    listPrefixes(prefix: string): Promise<string[]>;
+    /** Returns false when the object does not exist */
+    get(key: string): Promise<string | false>;
+    put(key: string, body: string, contentType: string): Promise<void>;
+    delete(keys: string[]): Promise<void>;
+    /** Throws when the store cannot be reached or the credentials are wrong */
+    check(): Promise<void>;
+}
+
+export interface LiveSyncJournalReplicatorEnv extends LiveSyncReplicatorEnv {
+    /**
+     * Object store for the configured bucket (provided by FridaySyncCore)
+     */
+    getJournalStore(): JournalObjectStore;
+}
+
+// Documents are stored with their revision history, so pulls can rebuild the revision tree
+type JournalDoc = PouchDB.Core.ExistingDocument<EntryDoc> & { _revisions?: { start: number; ids: string[] } };
+
+interface JournalPack {
+    version: number;
+    node: string;
+    createdAt: number;
+    docs: JournalDoc[];
+}
+
+interface JournalCheckpoint {
+    /** Local update sequence up to which changes have been uploaded */
+    pushedSeq: number | string;
+    /**
+     * Newest pack applied from each device, by node id
+     * A device names its packs by strictly increasing creation time and uploads them one after
+     * another, so every pack listed after this key is new, however late or skewed its clock
+     */
+    pulled: Record<string, string>;
+    /** Replication selector the pulled packs were filtered with */
+    pulledSelector: string;
+    /** Applied packs whose revisions the next push has to skip */
+    receivedPacks: string[];
+    /** Creation time of the newest pack uploaded by this device */
+    lastPackTime: number;
+}
+
+type JournalSyncMode = "sync" | "pullOnly" | "pushOnly";
+
+function packKey(node: string, time: number): string {
+    return `${JOURNAL_PREFIX}${node}/${time.toString().padStart(15, "0")}.json`;
+}
+
+function parsePackKey(key: string): { time: number; node: string } | false {
+    const match = /^journal\/([^/]+)\/(\d{15})\.json$/.exec(key);
+    if (!match) return false;
+    return { time: Number(match[2]), node: match[1] };
+}
+
+function packTime(key: string): number {
+    const pack = parsePackKey(key);
+    return pack ? pack.time : 0;
+}
+
+export class LiveSyncJournalReplicator extends LiveSyncAbstractReplicator {
+    env: LiveSyncJournalReplicatorEnv;
+
+    // Files (not chunks) uploaded by the current push, for upload_progress events
+    private filesUploaded = 0;
+
+    constructor(env: LiveSyncJournalReplicatorEnv) {
+        super(env);
+        this.env = env;
+        void this.initializeDatabaseForReplication();
+        this.env.getDatabase().on("close", () => {
+            this.closeReplication();
+        });
+    }
+
+    // ==================== Sync parameters (PBKDF2 salt) ====================
+
+    private get store(): JournalObjectStore {
+        return this.env.getJournalStore();
+    }
+
+    protected override _getKnownSaltKey(_dbName: string): string {
+        return `known_salt_journal_${this.store.id}`;
+    }
+
+    async getSyncParameters(): Promise<SyncParameters> {
+        try {
+            const body = await this.store.get(DOCID_JOURNAL_SYNC_PARAMETERS);
+            if (body === false) {
+                throw new SyncParamsNotFoundError(`Sync parameters not found in the bucket`);
+            }
+            return JSON.parse(body) as SyncParameters;
+        } catch (ex) {
+            Logger(`Could not retrieve remote sync parameters`, LOG_LEVEL_INFO);
+            throw SyncParamsFetchError.fromError(ex);
+        }
+    }
+
+    async putSyncParameters(params: SyncParameters): Promise<boolean> {
+        try {
+            await this.store.put(DOCID_JOURNAL_SYNC_PARAMETERS, JSON.stringify(params), "application/json");
+            return true;
+        } catch (ex) {
+            Logger(`Could not store remote sync parameters`, LOG_LEVEL_INFO);
+            throw SyncParamsUpdateError.fromError(ex);
+        }
+    }
+
+    // Instance-level salt cache (session lifetime)
+    private _saltCache: Uint8Array<ArrayBuffer> | null = null;
+
+    /**
+     * Same caching as the CouchDB replicator: the local database decrypts with this salt,
+     * so it must be available offline once it has been fetched
+     */
+    override async getReplicationPBKDF2Salt(
+        setting: RemoteDBSettings,
+        refresh: boolean = false
+    ): Promise<Uint8Array<ArrayBuffer>> {
+        if (this._saltCache && !refresh) {
+            return this._saltCache;
+        }
+
+        const serverReachable = this.env.isServerReachable?.() ?? true;
+        if (!serverReachable) {
+            const cachedSalt = await this.getLocalCachedSalt();
+            if (cachedSalt) {
+                Logger("Using local salt cache (offline mode)", LOG_LEVEL_INFO);
+                this._saltCache = cachedSalt;
+                return cachedSalt;
+            }
+            throw new Error($msg("fridaySync.error.noCacheOffline") || "First-time setup requires server connection");
+        }
+
+        try {
+            const manager = createSyncParamsHanderForServer(`journal:${this.store.id}`, {
+                put: (params: SyncParameters) => this.putSyncParameters(params),
+                get: () => this.getSyncParameters(),
+                create: () =>
+                    Promise.resolve({
+                        ...DEFAULT_SYNC_PARAMETERS,
+                        protocolVersion: ProtocolVersions.ADVANCED_E2EE,
+                    } satisfies SyncParameters),
+            });
+            const salt = await manager.getPBKDF2Salt(refresh);
+            this._saltCache = salt;
+            await this.saveLocalSaltCache(salt);
+            Logger("Salt fetched from bucket and cached", LOG_LEVEL_VERBOSE);
+            return salt;
+        } catch (ex) {
+            Logger(`Failed to fetch salt from bucket: ${ex}`, LOG_LEVEL_VERBOSE);
+            const cachedSalt = await this.getLocalCachedSalt();
+            if (cachedSalt) {
+                Logger("Falling back to local salt cache", LOG_LEVEL_INFO);
+                this._saltCache = cachedSalt;
+                return cachedSalt;
+            }
+            throw ex;
+        }
+    }
+
+    private async saveLocalSaltCache(salt: Uint8Array<ArrayBuffer>): Promise<void> {
+        try {
+            const saltStore = this.env.services.database.openSimpleStore<string>("friday-sync-salt");
+            await saltStore.set(this._getKnownSaltKey(""), await arrayBufferToBase64Single(salt));
+        } catch (ex) {
+            Logger(`Failed to save salt cache: ${ex}`, LOG_LEVEL_VERBOSE);
+        }
+    }
+
+    private async getLocalCachedSalt(): Promise<Uint8Array<ArrayBuffer> | null> {
+        try {
+            const saltStore = this.env.services.database.openSimpleStore<string>("friday-sync-salt");
+            const saltBase64 = await saltStore.get(this._getKnownSaltKey(""));
+            return saltBase64 ? new Uint8Array(base64ToArrayBufferInternalBrowser(saltBase64)) : null;
+        } catch (ex) {
+            Logger(`Failed to read salt cache: ${ex}`, LOG_LEVEL_VERBOSE);
+            return null;
+        }
+    }
+
+    // ==================== Replication ====================
+
+    terminateSync() {
+        if (!this.controller) {
+            return;
+        }
+        this.controller.abort();
+        this.controller = undefined;
+    }
+
+    closeReplication() {
+        if (!this.controller) {
+            return;
+        }
+        this.controller.abort();
+        this.controller = undefined;
+        this.syncStatus = "CLOSED";
+        Logger($msg("liveSyncReplicator.replicationClosed"));
+        this.updateInfo();
+    }
+
+    async openReplication(setting: RemoteDBSettings, keepAlive: boolean, showResult: boolean, ignoreCleanLock: boolean) {
+        if (!ignoreCleanLock && this.remoteLockedAndDeviceNotAccepted) {
+            Logger($msg("fridaySync.saltChanged.syncBlocked"), LOG_LEVEL_NOTICE);
+            this.syncStatus = "ERRORED";
+            this.updateInfo();
+            return false;
+        }
+
+        await this.initializeDatabaseForReplication();
+        if (!keepAlive) {
+            return await this.openOneShotReplication(setting, showResult, "sync", ignoreCleanLock);
+        }
+        this.terminateSync();
+        Logger($msg("liveSyncReplicator.beforeLiveSync"));
+        if (!(await this.openOneShotReplication(setting, showResult, "sync", ignoreCleanLock))) {
+            return false;
+        }
+        Logger($msg("liveSyncReplicator.liveSyncBegin"));
+        this.startLiveSync(setting);
+        return true;
+    }
+
+    async openOneShotReplication(
+        setting: RemoteDBSettings,
+        showResult: boolean,
+        syncMode: JournalSyncMode,
+        ignoreCleanLock = false,
+        fromStart = false
+    ): Promise<boolean> {
+        if (!(await this.ensurePBKDF2Salt(setting, showResult))) {
+            if (this.env.isServerReachable?.() ?? true) {
+                this.syncStatus = "ERRORED";
+                this.updateInfo();
+            }
+            return false;
+        }
+        const saltCheck = await this.checkSaltConsistency(setting);
+        if (!saltCheck.ok) {
+            Logger(saltCheck.message!, LOG_LEVEL_NOTICE);
+            this.syncStatus = "ERRORED";
+            this.updateInfo();
+            return false;
+        }
+        Logger($msg("liveSyncReplicator.oneShotSyncBegin", { syncMode }));
+        return await this.runCycle(setting, syncMode, showResult, true, ignoreCleanLock, fromStart);
+    }
+
+    /**
+     * Poll the bucket and push local changes shortly after they happen, until aborted
+     */
+    private startLiveSync(setting: RemoteDBSettings) {
+        const controller = new AbortController();
+        this.controller = controller;
+        this.syncStatus = "PAUSED";
+        this.updateInfo();
+
+        let pushTimer: ReturnType<typeof setTimeout> | undefined;
+        const feed = this.env.getDatabase().changes({ since: "now", live: true });
+        feed.on("change", () => {
+            if (pushTimer) return;
+            pushTimer = setTimeout(() => {
+                pushTimer = undefined;
+                if (controller.signal.aborted || this.remoteLockedAndDeviceNotAccepted) return;
+                void this.runCycle(setting, "pushOnly", false, false);
+            }, LIVE_PUSH_DELAY);
+        });
+        const poll = setInterval(() => {
+            if (controller.signal.aborted) return;
+            void this.runCycle(setting, "sync", false, true).then((ok) => {
+                if (!ok && this.remoteLockedAndDeviceNotAccepted) {
+                    this.closeReplication();
+                }
+            });
+        }, LIVE_POLL_INTERVAL);
+
+        controller.signal.addEventListener("abort", () => {
+            feed.cancel();
+            clearInterval(poll);
+            if (pushTimer) clearTimeout(pushTimer);
+        });
+    }
+
+    /**
+     * One pull and/or push pass; cycles never overlap
+     * @param checkRemote Verify the milestone first (skipped for the frequent live pushes)
+     */
+    private runCycle(
+        setting: RemoteDBSettings,
+        syncMode: JournalSyncMode,
+        showResult: boolean,
+        checkRemote: boolean,
+        ignoreCleanLock = false,
+        fromStart = false
+    ): Promise<boolean> {
+        return serialized("journalReplication", async () => {
+            const store = this.store;
+            if (checkRemote && !(await this.checkJournalConnectivity(store, setting, showResult, ignoreCleanLock))) {
+                Logger(
+                    $msg("liveSyncReplicator.couldNotConnectToServer"),
+                    showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_INFO,
+                    "sync"
+                );
+                this.syncStatus = "ERRORED";
+                this.updateInfo();
+                return false;
+            }
+
+            const checkpoint = await this.loadCheckpoint(store, fromStart);
+            try {
+                let pulled = 0;
+                let pushed = 0;
+                if (syncMode !== "pushOnly") {
+                    this.syncStatus = "JOURNAL_RECEIVE";
+                    this.updateInfo();
+                    pulled = await this.pullJournal(store, checkpoint, fromStart);
+                }
+                if (syncMode !== "pullOnly") {
+                    this.syncStatus = "JOURNAL_SEND";
+                    this.updateInfo();
+                    pushed = await this.pushJournal(store, checkpoint);
+                }
+                if (pulled > 0 || pushed > 0) {
+                    Logger(`↑${pushed} ↓${pulled}`, showResult ? LOG_LEVEL_INFO : LOG_LEVEL_VERBOSE, "sync");
+                }
+            } catch (ex) {
+                this.syncStatus = "ERRORED";
+                this.updateInfo();
+                Logger($msg("liveSyncReplicator.replicationErrored"), LOG_LEVEL_NOTICE, "sync");
+                Logger(ex, LOG_LEVEL_VERBOSE);
+                return false;
+            }
+            this.syncStatus = this.controller ? "PAUSED" : "COMPLETED";
+            this.updateInfo();
+            return true;
+        });
+    }
+
+    /**
+     * Reach the bucket and check the milestone, mirroring the CouchDB connectivity check
+     */
+    private async checkJournalConnectivity(
+        store: JournalObjectStore,
+        setting: RemoteDBSettings,
+        showResult: boolean,
+        ignoreCleanLock: boolean
+    ): Promise<boolean> {
+        if (setting.versionUpFlash != "") {
+            Logger($msg("Replicator.Message.VersionUpFlash"), LOG_LEVEL_NOTICE);
+            return false;
+        }
+        let milestone: EntryMilestoneInfo | false;
+        try {
+            milestone = await this.readMilestone(store);
+        } catch (ex) {
+            Logger(
+                $msg("fridaySync.journal.connectFailed", { error: ex instanceof Error ? ex.message : `${ex}` }),
+                showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_INFO
+            );
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+
+        this.remoteCleaned = false;
+        this.remoteLocked = false;
+        this.remoteLockedAndDeviceNotAccepted = false;
+        this.tweakSettingsMismatched = false;
+        this.preferredTweakValue = undefined;
+        const checkpoint = await this.loadCheckpoint(store);
+        const info = {
+            app_version: this.env.services.API.getAppVersion(),
+            plugin_version: this.env.services.API.getPluginVersion(),
+            vault_name: this.env.services.vault.vaultName(),
+            device_name: this.env.services.vault.getVaultName(),
+            progress: `${Math.max(0, ...Object.values(checkpoint.pulled).map(packTime))}`,
+        } satisfies DeviceInfo;
+
+        // Last writer wins on the milestone; the read-modify-write window is kept short
+        const ensure = await ensureRemoteIsCompatible(milestone, setting, this.nodeid, currentVersionRange, info, (info) =>
+            this.writeMilestone(store, info)
+        );
+        if (ensure == "INCOMPATIBLE") {
+            Logger(
+                "The remote database has no compatibility with the running version. Please upgrade the plugin.",
+                LOG_LEVEL_NOTICE
+            );
+            return false;
+        } else if (ensure == "NODE_LOCKED") {
+            Logger(
+                "The remote database has been rebuilt or corrupted since we have synchronized last time. Fetch rebuilt DB, explicit unlocking or chunk clean-up is required.",
+                LOG_LEVEL_NOTICE
+            );
+            this.remoteLockedAndDeviceNotAccepted = true;
+            this.remoteLocked = true;
+            return false;
+        } else if (ensure == "LOCKED") {
+            this.remoteLocked = true;
+        } else if (ensure == "NODE_CLEANED") {
+            if (ignoreCleanLock) {
+                this.remoteLocked = true;
+            } else {
+                Logger(
+                    "The remote database has been cleaned up. Fetch rebuilt DB, explicit unlocking or chunk clean-up is required.",
+                    LOG_LEVEL_NOTICE
+                );
+                this.remoteLockedAndDeviceNotAccepted = true;
+                this.remoteLocked = true;
+                this.remoteCleaned = true;
+                return false;
+            }
+        } else if (ensure == "OK") {
+            // NO OP: FOR NARROWING TYPE
+        } else if (ensure[0] == "MISMATCHED") {
+            Logger(
+                `Configuration mismatching between the clients has been detected. This can be harmful or extra capacity consumption. We have to make these value unified.`,
+                LOG_LEVEL_NOTICE
+            );
+            this.tweakSettingsMismatched = true;
+            this.preferredTweakValue = ensure[1];
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Apply every pack created by other devices since the checkpoint
+     * @returns Number of documents applied
+     */
+    private async pullJournal(store: JournalObjectStore, checkpoint: JournalCheckpoint, fromStart: boolean) {
+        const db = this.env.getDatabase();
+        const selector = this.env.getReplicationSelector?.();
+        // Like a filtered CouchDB replication, another selector starts the pull over
+        const selectorKey = JSON.stringify(selector ?? null);
+        if (checkpoint.pulledSelector !== selectorKey) {
+            checkpoint.pulled = {};
+            checkpoint.pulledSelector = selectorKey;
+        }
+
+        const pending: string[] = [];
+        for (const nodePrefix of await store.listPrefixes(JOURNAL_PREFIX)) {
+            const node = nodePrefix.substring(JOURNAL_PREFIX.length, nodePrefix.length - 1);
+            // Our own packs are only needed when rebuilding this device from the bucket
+            if (node === this.nodeid && !fromStart) continue;
+            const objects = await store.list(nodePrefix, checkpoint.pulled[node]);
+            pending.push(...objects.map((object) => object.key).filter((key) => parsePackKey(key)));
+        }
+        // Packs of one device keep their order; devices are interleaved by creation time
+        pending.sort((a, b) => packTime(a) - packTime(b) || (a < b ? -1 : a > b ? 1 : 0));
+
+        this.maxPullSeq = this.lastSyncPullSeq + pending.length;
+        this.updateInfo();
+        let applied = 0;
+        // Chunks left out by the selector, by the pack they came in; a later note may still use them
+        const skippedChunks = new Map<string, string>();
+        for (const key of pending) {
+            if (this.controller?.signal.aborted) break;
+            const body = await store.get(key);
+            // Removed by a remote reset while we were pulling
+            if (body === false) continue;
+
+            let docs: JournalDoc[];
+            try {
+                const pack = JSON.parse(body) as JournalPack;
+                docs = [];
+                const chunks: JournalDoc[] = [];
+                for (const doc of pack.docs) {
+                    const decrypted = (await preprocessIncoming(doc)) as JournalDoc;
+                    if (selector && decrypted._id.startsWith(PREFIX_CHUNK)) {
+                        chunks.push(decrypted);
+                    } else if (!selector || matchesSelector(decrypted, selector)) {
+                        // Paths are only readable after decryption
+                        docs.push(decrypted);
+                    }
+                }
+                if (selector) {
+                    docs.push(...(await this.selectChunks(store, key, docs, chunks, skippedChunks)));
+                }
+            } catch (ex) {
+                Logger($msg("fridaySync.journal.packFailed", { key, error: `${ex}` }), LOG_LEVEL_NOTICE, "sync");
+                throw ex;
+            }
+
+            if (docs.length > 0) {
+                await db.bulkDocs(docs, { new_edits: false });
+                await this.saveReceivedRevs(key, docs);
+                checkpoint.receivedPacks = [...checkpoint.receivedPacks, key];
+            }
+            applied += docs.length;
+            this.docArrived += docs.length;
+            this.lastSyncPullSeq++;
+            this.updateInfo();
+
+            checkpoint.pulled[(parsePackKey(key) as { node: string }).node] = key;
+            await this.saveCheckpoint(store, checkpoint);
+
+            if (docs.length > 0) {
+                // _revisions is only needed to rebuild the revision tree
+                await this.env.services.replication.parseSynchroniseResult(
+                    docs.map(({ _revisions, ...doc }) => doc as PouchDB.Core.ExistingDocument<EntryDoc>)
+                );
+            }
+        }
+        return applied;
+    }
+
+    /**
+     * Keep only the chunks that the kept documents of a pack use
+     * Chunks a note shares with an earlier, skipped note are read again from the pack they came in.
+     * @returns Chunks to store with the pack
+     */
+    private async selectChunks(
+        store: JournalObjectStore,
+        key: string,
+        docs: JournalDoc[],
+        chunks: JournalDoc[],
+        skippedChunks: Map<string, string>
+    ) {
+        const used = new Set(docs.flatMap((doc) => ("children" in doc && Array.isArray(doc.children) ? doc.children : [])));
+        const selected = chunks.filter((chunk) => used.has(chunk._id));
+        for (const chunk of chunks) {
+            if (!used.has(chunk._id)) skippedChunks.set(chunk._id, key);
+        }
+
+        const earlier = new Map<string, Set<string>>();
+        for (const id of used) {
+            const source = skippedChunks.get(id);
+            if (source === undefined || source === key) continue;
+            earlier.set(source, (earlier.get(source) ?? new Set()).add(id));
+            skippedChunks.delete(id);
+        }
+        for (const [source, ids] of earlier) {
+            const body = await store.get(source);
+            if (body === false) continue;
+            for (const doc of (JSON.parse(body) as JournalPack).docs) {
+                if (ids.has(doc._id)) selected.push((await preprocessIncoming(doc)) as JournalDoc);
+            }
+        }
+        return selected;
+    }
+
+    /**
+     * Upload local changes since the checkpoint as packs
+     * @returns Number of documents uploaded
+     */
+    private async pushJournal(store: JournalObjectStore, checkpoint: JournalCheckpoint) {
+        const db = this.env.getDatabase();
+        this.maxPushSeq = Number(`${(await db.info()).update_seq}`.split("-")[0]);
+        this.updateInfo();
+        const selector = this.env.getReplicationSelector?.();
+        this.filesUploaded = 0;
+
+        let pending: JournalDoc[] = [];
+        let pendingBytes = 0;
+        let uploaded = 0;
+        let since = checkpoint.pushedSeq;
+        const receivedPacks = checkpoint.receivedPacks;
+        const received = await this.loadReceivedRevs(receivedPacks);
+
+        const flush = async (pushedSeq: number | string) => {
+            if (pending.length > 0) {
+                // Other devices pull packs after the newest one they have seen, so names never go back in time
+                const time = Math.max(Date.now(), checkpoint.lastPackTime + 1);
+                const pack: JournalPack = { version: PACK_VERSION, node: this.nodeid, createdAt: time, docs: pending };
+                await store.put(packKey(this.nodeid, time), JSON.stringify(pack), "application/json");
+                checkpoint.lastPackTime = time;
+                uploaded += pending.length;
+                this.docSent += pending.length;
+                this.emitUploadProgress(pending);
+                pending = [];
+                pendingBytes = 0;
+            }
+            checkpoint.pushedSeq = pushedSeq;
+            await this.saveCheckpoint(store, checkpoint);
+            this.updateInfo();
+        };
+
+        while (!this.controller?.signal.aborted) {
+            const changes = await db.changes({
+                since,
+                limit: CHANGES_BATCH_SIZE,
+                style: "all_docs",
+                ...(selector ? { selector } : {}),
+            } as PouchDB.Core.ChangesOptions);
+            if (changes.results.length == 0) break;
+
+            const revs = changes.results
+                .filter((change) => !change.id.startsWith("_design/"))
+                .flatMap((change) => change.changes.map(({ rev }) => ({ id: change.id, rev })))
+                .filter(({ id, rev }) => !received.has(`${id}@${rev}`));
+            if (revs.length > 0) {
+                const fetched = await db.bulkGet({ docs: revs, revs: true });
+                for (const result of fetched.results) {
+                    for (const item of result.docs) {
+                        if (!("ok" in item)) continue;
+                        const doc = (await preprocessOutgoing(item.ok as any)) as JournalDoc;
+                        const size = JSON.stringify(doc).length;
+                        if (pending.length >= PACK_MAX_DOCS || (pending.length > 0 && pendingBytes + size > PACK_MAX_BYTES)) {
+                            // Everything before this batch is uploaded now
+                            await flush(since);
+                        }
+                        pending.push(doc);
+                        pendingBytes += size;
+                    }
+                }
+            }
+            since = changes.last_seq;
+            this.lastSyncPushSeq = Number(`${since}`.split("-")[0]);
+        }
+        await flush(since);
+        if (!this.controller?.signal.aborted) {
+            await this.removeReceivedRevs(receivedPacks);
+            checkpoint.receivedPacks = [];
+            await this.saveCheckpoint(store, checkpoint);
+        }
+        return uploaded;
+    }
+
+    private emitUploadProgress(docs: JournalDoc[]) {
+        if (!this.env.onFileProgress) return;
+        const files = docs.filter((doc) => doc.type === "notes" || doc.type === "newnote" || doc.type === "plain");
+        if (files.length > 0) {
+            this.filesUploaded += files.length;
+            this.env.onFileProgress({
+                type: "upload_progress",
+                uploadedFiles: this.filesUploaded,
+                totalFiles: 0, // Total will be set by FridaySyncCore
+            });
+        }
+    }
+
+    // ==================== Checkpoint ====================
+
+    private checkpointKey(store: JournalObjectStore) {
+        return `journal-checkpoint-${store.id}`;
+    }
+
+    private async loadCheckpoint(store: JournalObjectStore, fromStart = false): Promise<JournalCheckpoint> {
+        const saved = await this.env.kvDB.get<JournalCheckpoint>(this.checkpointKey(store));
+        const checkpoint: JournalCheckpoint = {
+            pushedSeq: 0,
+            pulled: {},
+            pulledSelector: "",
+            receivedPacks: [],
+            lastPackTime: 0,
+        };
+        // Pack names of this device must keep increasing, even when starting over
+        return fromStart ? { ...checkpoint, lastPackTime: saved?.lastPackTime ?? 0 } : { ...checkpoint, ...saved };
+    }
+
+    private async saveCheckpoint(store: JournalObjectStore, checkpoint: JournalCheckpoint) {
+        await this.env.kvDB.set(this.checkpointKey(store), checkpoint);
+    }
+
+    private async resetCheckpoint(store: JournalObjectStore, part: "push" | "pull" | "all") {
+        const checkpoint = await this.loadCheckpoint(store);
+        if (part !== "pull") checkpoint.pushedSeq = 0;
+        if (part !== "push") checkpoint.pulled = {};
+        await this.removeReceivedRevs(checkpoint.receivedPacks);
+        checkpoint.receivedPacks = [];
+        await this.saveCheckpoint(store, checkpoint);
+    }
+
+    // ==================== Received revisions ====================
+    // Revisions written by a pull are skipped by the next push instead of being uploaded again.
+    // They can be many, so they live in local documents of the database, one per pack,
+    // rather than in the key-value database.
+
+    private get receivedRevsDB() {
+        return this.env.getDatabase() as unknown as PouchDB.Database<{ revs: string[] }>;
+    }
+
+    private async saveReceivedRevs(packKey: string, docs: JournalDoc[]) {
+        await this.receivedRevsDB.put({
+            _id: `${RECEIVED_REVS_PREFIX}${packKey}`,
+            revs: docs.map((doc) => `${doc._id}@${doc._rev}`),
+        });
+    }
+
+    private async loadReceivedRevs(packKeys: string[]): Promise<Set<string>> {
+        const received = new Set<string>();
+        for (const packKey of packKeys) {
+            const doc = await this.getReceivedRevs(packKey);
+            doc?.revs.forEach((rev) => received.add(rev));
+        }
+        return received;
+    }
+
+    private async removeReceivedRevs(packKeys: string[]) {
+        for (const packKey of packKeys) {
+            const doc = await this.getReceivedRevs(packKey);
+            if (doc) await this.receivedRevsDB.remove(doc);
+        }
+    }
+
+    private async getReceivedRevs(packKey: string) {
+        try {
+            return await this.receivedRevsDB.get(`${RECEIVED_REVS_PREFIX}${packKey}`);
+        } catch (ex) {
+            // Gone with a reset local database
+            if (ex?.status == 404) return undefined;
+            throw ex;
+        }
+    }
+
+    // ==================== Milestone ====================
+
+    private async readMilestone(store: JournalObjectStore): Promise<EntryMilestoneInfo | false> {
+        const body = await store.get(MILESTONE_KEY);
+        return body === false ? false : (JSON.parse(body) as EntryMilestoneInfo);
+    }
+
+    private async writeMilestone(store: JournalObjectStore, milestone: EntryMilestoneInfo) {
+        // A revision marker, so ensureRemoteIsCompatible knows the milestone has been stored
+        await store.put(MILESTONE_KEY, JSON.stringify({ ...milestone, _rev: `${Date.now()}` }), "application/json");
+    }
+
+    private defaultMilestone(locked: boolean, cleaned: boolean): EntryMilestoneInfo {
+        return {
+            _id: MILESTONE_DOCID,
+            type: "milestoneinfo",
+            created: (new Date() as any) / 1,
+            locked,
+            cleaned,
+            accepted_nodes: [this.nodeid],
+            node_chunk_info: { [this.nodeid]: currentVersionRange },
+            node_info: {},
+            tweak_values: {},
+        };
+    }
+
+    /**
+     * Read the milestone for a modification; logs and returns false when the bucket is unreachable
+     */
+    private async readMilestoneForUpdate(locked = false, cleaned = false): Promise<EntryMilestoneInfo | false> {
+        try {
+            const defInitPoint = this.defaultMilestone(locked, cleaned);
+            const remoteMilestone: EntryMilestoneInfo = {
+                ...defInitPoint,
+                ...(await this.readMilestone(this.store)),
+            };
+            remoteMilestone.node_chunk_info = { ...defInitPoint.node_chunk_info, ...remoteMilestone.node_chunk_info };
+            return remoteMilestone;
+        } catch (ex) {
+            Logger($msg("fridaySync.journal.connectFailed", { error: `${ex}` }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+    }
+
+    async markRemoteLocked(setting: RemoteDBSettings, locked: boolean, lockByClean: boolean) {
+        await this.initializeDatabaseForReplication();
+        const remoteMilestone = await this.readMilestoneForUpdate(locked, lockByClean);
+        if (!remoteMilestone) return;
+        remoteMilestone.accepted_nodes = [this.nodeid];
+        remoteMilestone.locked = locked;
+        remoteMilestone.cleaned = remoteMilestone.cleaned || lockByClean;
+        if (locked) {
+            Logger($msg("liveSyncReplicator.lockRemoteDb"), LOG_LEVEL_VERBOSE);
+        } else {
+            Logger($msg("liveSyncReplicator.unlockRemoteDb"), LOG_LEVEL_VERBOSE);
+        }
+        await this.writeMilestone(this.store, remoteMilestone);
+    }
+
+    async markRemoteResolved(setting: RemoteDBSettings) {
+        await this.initializeDatabaseForReplication();
+        const remoteMilestone = await this.readMilestoneForUpdate();
+        if (!remoteMilestone) return;
+        remoteMilestone.accepted_nodes = Array.from(new Set([...remoteMilestone.accepted_nodes, this.nodeid]));
+        Logger($msg("liveSyncReplicator.markDeviceResolved"), LOG_LEVEL_VERBOSE);
+        try {
+            await this.writeMilestone(this.store, remoteMilestone);
+        } catch (ex) {
+            Logger($msg("liveSyncReplicator.couldNotMarkResolveRemoteDb"), LOG_LEVEL_NOTICE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return;
+        }
+        this.remoteLockedAndDeviceNotAccepted = false;
+        this.remoteLocked = false;
+        this.remoteCleaned = false;
+        Logger($msg("liveSyncReplicator.remoteDbMarkedResolved"), LOG_LEVEL_VERBOSE);
+    }
+
+    async resetRemoteTweakSettings(setting: RemoteDBSettings): Promise<void> {
+        const remoteMilestone = await this.readMilestone(this.store);
+        if (!remoteMilestone) {
+            Logger($msg("liveSyncReplicator.couldNotRetrieveMilestone"), LOG_LEVEL_NOTICE);
+            throw new Error("Remote milestone not found");
+        }
+        remoteMilestone.tweak_values = {};
+        await this.writeMilestone(this.store, remoteMilestone);
+        Logger(`tweak values on the remote database have been cleared`, LOG_LEVEL_VERBOSE);
+    }
+
+    async setPreferredRemoteTweakSettings(setting: RemoteDBSettings): Promise<void> {
+        const remoteMilestone = await this.readMilestone(this.store);
+        if (!remoteMilestone) {
+            Logger($msg("liveSyncReplicator.couldNotRetrieveMilestone"), LOG_LEVEL_NOTICE);
+            throw new Error("Remote milestone not found");
+        }
+        remoteMilestone.tweak_values[DEVICE_ID_PREFERRED] = extractObject(TweakValuesTemplate, { ...setting });
+        await this.writeMilestone(this.store, remoteMilestone);
+        Logger(`Preferred tweak values has been registered`, LOG_LEVEL_VERBOSE);
+    }
+
+    async getRemotePreferredTweakValues(setting: RemoteDBSettings): Promise<TweakValues | false> {
+        try {
+            const remoteMilestone = await this.readMilestone(this.store);
+            if (!remoteMilestone) throw new Error("Remote milestone not found");
+            return remoteMilestone?.tweak_values?.[DEVICE_ID_PREFERRED] || false;
+        } catch (ex) {
+            Logger($msg("liveSyncReplicator.couldNotRetrieveMilestone"), LOG_LEVEL_NOTICE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    // ==================== Whole-remote operations ====================
+
+    replicateAllToServer(setting: RemoteDBSettings, showingNotice?: boolean) {
+        return this.openOneShotReplication(setting, showingNotice ?? false, "pushOnly");
+    }
+
+    async replicateAllFromServer(setting: RemoteDBSettings, showingNotice?: boolean) {
+        // Clear stored salt before fetching - this allows accepting new salt after database reset
+        await this.clearStoredSalt(setting);
+        await this.resetCheckpoint(this.store, "pull");
+        const result = await this.openOneShotReplication(setting, showingNotice ?? false, "pullOnly", true, true);
+        if (result) {
+            await this.updateStoredSalt(setting);
+        }
+        return result;
+    }
+
+    async tryConnectRemote(setting: RemoteDBSettings, showResult: boolean = true): Promise<boolean> {
+        try {
+            await this.store.check();
+        } catch (ex) {
+            Logger($msg("fridaySync.journal.connectFailed", { error: ex instanceof Error ? ex.message : `${ex}` }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+        if (showResult) {
+            Logger($msg("liveSyncReplicator.connectedSuccessfully", { dbName: this.store.id }), LOG_LEVEL_NOTICE);
+        }
+        return true;
+    }
+
+    /**
+     * Remove every pack and the milestone; the sync parameters (salt) are kept,
+     * like the CouchDB replicator which keeps the database itself
+     */
+    async tryResetRemoteDatabase(setting: RemoteDBSettings) {
+        this.closeReplication();
+        const store = this.store;
+        try {
+            const keys = (await store.list(""))
+                .map((object) => object.key)
+                .filter((key) => key !== DOCID_JOURNAL_SYNC_PARAMETERS);
+            await store.delete(keys);
+            Logger($msg("fridaySync.journal.remoteReset", { count: `${keys.length}` }), LOG_LEVEL_INFO);
+        } catch (ex) {
+            Logger($msg("fridaySync.journal.connectFailed", { error: `${ex}` }), LOG_LEVEL_NOTICE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return;
+        }
+        await this.resetCheckpoint(store, "all");
+        clearHandlers();
+        await this.ensurePBKDF2Salt(setting, true, false);
+        await this.updateStoredSalt(setting);
+    }
+
+    async tryCreateRemoteDatabase(setting: RemoteDBSettings) {
+        this.closeReplication();
+        clearHandlers();
+        await this.ensurePBKDF2Salt(setting, true, false);
+        Logger($msg("liveSyncReplicator.remoteDbCreatedOrConnected"), LOG_LEVEL_VERBOSE);
+    }
+
+    /**
+     * Chunks travel with the documents that use them, so this is only a fallback:
+     * scan packs from the newest until every requested chunk has been found
+     */
+    async fetchRemoteChunks(missingChunks: string[], showResult: boolean): Promise<false | EntryLeaf[]> {
+        const remaining = new Set(missingChunks);
+        const found: EntryLeaf[] = [];
+        try {
+            const keys = (await this.store.list(JOURNAL_PREFIX))
+                .map((object) => object.key)
+                .filter((key) => parsePackKey(key))
+                .sort((a, b) => packTime(b) - packTime(a));
+            for (const key of keys) {
+                if (remaining.size == 0) break;
+                const body = await this.store.get(key);
+                if (body === false) continue;
+                for (const doc of (JSON.parse(body) as JournalPack).docs) {
+                    if (!remaining.has(doc._id)) continue;
+                    const { _revisions, ...leaf } = (await preprocessIncoming(doc)) as JournalDoc;
+                    found.push(leaf as unknown as EntryLeaf);
+                    remaining.delete(doc._id);
+                }
+            }
+        } catch (ex) {
+            Logger(
+                `${$msg("liveSyncReplicator.couldNotConnectToServer")} ${ex}`,
+                showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_INFO,
+                "fetch"
+            );
+            return false;
+        }
+        if (remaining.size > 0) {
+            Logger(
+                `Some chunks are not exists both on remote and local database.`,
+                showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_INFO,
+                "fetch"
+            );
+            Logger(`Missing chunks: ${[...remaining].join(",")}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        this.docArrived += found.length;
+        this.updateInfo();
+        return found;
+    }
+
+    async getRemoteStatus(setting: RemoteDBSettings): Promise<RemoteDBStatus | false> {
+        try {
+            const objects = await this.store.list("");
+            const packs = objects.filter((object) => parsePackKey(object.key));
+            return {
+                objects: objects.length,
+                packs: packs.length,
+                estimatedSize: objects.reduce((total, object) => total + object.size, 0),
+            };
+        } catch (ex) {
+            Logger($msg("fridaySync.journal.connectFailed", { error: `${ex}` }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+    }
+
+    /**
+     * Packs are always written with the current encryption, so nothing can be compromised
+     */
+    async countCompromisedChunks(): Promise<number | boolean> {
+        return await Promise.resolve(0);
+    }
+
+    async getConnectedDeviceList(): Promise<false | { node_info: Record<string, NodeData>; accepted_nodes: string[] }> {
+        try {
+            const milestone = await this.readMilestone(this.store);
+            if (!milestone) {
+                Logger($msg("liveSyncReplicator.couldNotRetrieveMilestone"), LOG_LEVEL_NOTICE);
+                return false;
+            }
+            return { node_info: milestone.node_info, accepted_nodes: milestone.accepted_nodes || [] };
+        } catch (ex) {
+            Logger($msg("fridaySync.journal.connectFailed", { error: `${ex}` }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+    }
+}
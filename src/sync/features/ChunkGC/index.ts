@@ -0,0 +1,601 @@
+/**
+ * FridayChunkGC - Orphan chunk garbage collection and compaction
+ *
+ * Chunks are shared, content-addressed documents: ChunkManager writes them once
+ * and every revision that contains the same text points at them. Nothing removes
+ * a chunk when the last revision using it goes away, so this module:
+ * - Finds chunks that no stored revision references, here or on the server
+ *   (current, conflicting and older revisions, so file history keeps working)
+ * - Deletes them in two phases: a chunk is first marked, and only swept after a
+ *   grace period once every other device has connected since it was marked
+ *   (so edits they have not pushed yet can still claim it)
+ * - Re-checks the changes made here and on the server since the scan right before sweeping
+ * - Keeps the marks in the local key-value store, so an interrupted run resumes
+ * - Compacts the databases only when asked: compaction removes the older revisions
+ *   that file history shows, so it is off by default
+ *
+ * Deleting a chunk writes a tombstone, which replication carries to the server and
+ * to other devices. That is why chunks are only deleted when neither this device nor
+ * the server references them, even when the remote pass is off. A device can still
+ * write a document that uses a chunk before the tombstone reaches it (an offline edit
+ * that reused a chunk it already had); when the tombstone arrives, chunks that its
+ * documents still use are written again and replicate back (restoreReferencedChunks).
+ * Revisions kept only in another device's history, after the server dropped them,
+ * can lose their chunks; file history reports those revisions as unavailable.
+ */
+
+import { Platform, Plugin } from "obsidian";
+import { Logger } from "../../core/common/logger";
+import { LOG_LEVEL_INFO, LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE, type EntryDoc } from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import { LiveSyncCouchDBReplicator } from "../../core/replication/couchdb/LiveSyncReplicator";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+import type { ChunkGCConfig } from "../../SyncService";
+
+const STATE_KEY = "chunk-gc";
+const CHUNK_PREFIX = "h:";
+const BATCH_SIZE = 100;
+/** Revisions requested per bulkGet when collecting the references of stored revisions */
+const REVISION_BATCH_SIZE = 1000;
+/** Chunk deletions received from other devices are checked once replication settles */
+const RESTORE_DELAY = 5 * 1000;
+
+/** A marked chunk is never swept sooner than this */
+const GRACE_PERIOD = 24 * 60 * 60 * 1000;
+/** Devices that have not connected for this long no longer hold back a sweep */
+const STALE_DEVICE_AGE = 30 * 24 * 60 * 60 * 1000;
+
+const SCHEDULE_CHECK_INTERVAL = 60 * 60 * 1000;
+const SCHEDULE_FIRST_CHECK_DELAY = 5 * 60 * 1000;
+const SCHEDULE_PERIODS: Record<ChunkGCConfig["schedule"], number> = {
+    off: 0,
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_CHUNK_GC_CONFIG: ChunkGCConfig = {
+    schedule: "off",
+    includeRemote: false,
+    compact: false,
+};
+
+export interface ChunkGCOptions {
+    /** Only report; nothing is marked, deleted or compacted */
+    dryRun: boolean;
+    /** Also sweep chunks that only exist on the server */
+    includeRemote: boolean;
+    /** Compact the local database, and the server with includeRemote (drops the older revisions of file history) */
+    compact: boolean;
+}
+
+export interface ChunkGCReport {
+    dryRun: boolean;
+    startedAt: number;
+    finishedAt: number;
+    localChunks: number;
+    remoteChunks: number | null;
+    /** Chunks referenced by no live revision */
+    orphaned: number;
+    deletedLocal: number;
+    deletedRemote: number;
+    /** Orphaned chunks still waiting for the grace period or other devices */
+    pending: number;
+    /** Devices that have to connect before the pending chunks can be swept */
+    waitingFor: string[];
+    /** Storage freed, measured where the platform allows it, else the size of the deleted chunk data */
+    bytesReclaimed: number;
+    /** Change of the browser storage used by this vault, when the platform reports it */
+    localStorageReclaimed: number | null;
+    remoteSizeBefore: number | null;
+    remoteSizeAfter: number | null;
+    error?: string;
+}
+
+interface ChunkGCState {
+    /** Chunk id -> time it was first found orphaned */
+    candidates: Record<string, number>;
+    lastRunAt: number | null;
+    lastReport: ChunkGCReport | null;
+}
+
+/**
+ * Chunks of one database and the chunks its documents reference
+ */
+interface ChunkScan {
+    /** Chunk id -> current revision */
+    chunks: Map<string, string>;
+    referenced: Set<string>;
+    /** Update sequence before the scan, to re-check later changes when sweeping */
+    since: number | string;
+}
+
+type Database = PouchDB.Database<EntryDoc>;
+
+export class FridayChunkGC {
+    private plugin: Plugin;
+    private core: FridaySyncCore;
+    private config: ChunkGCConfig;
+    private running = false;
+    private scheduleTimer: number | null = null;
+    private firstCheckTimer: number | null = null;
+    private deletedChunks = new Set<string>();
+    private restoreTimer: number | null = null;
+
+    constructor(plugin: Plugin, core: FridaySyncCore, config: ChunkGCConfig | undefined) {
+        this.plugin = plugin;
+        this.core = core;
+        this.config = { ...DEFAULT_CHUNK_GC_CONFIG, ...config };
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    async getLastReport(): Promise<ChunkGCReport | null> {
+        return (await this.loadState()).lastReport;
+    }
+
+    // ==================== Schedule ====================
+
+    updateConfig(config: ChunkGCConfig): void {
+        this.config = { ...DEFAULT_CHUNK_GC_CONFIG, ...config };
+        this.startSchedule();
+    }
+
+    /**
+     * Check hourly whether a scheduled run is due
+     */
+    startSchedule(): void {
+        this.stopSchedule();
+        if (this.config.schedule === "off") return;
+
+        this.firstCheckTimer = window.setTimeout(() => void this.runIfDue(), SCHEDULE_FIRST_CHECK_DELAY);
+        this.scheduleTimer = window.setInterval(() => void this.runIfDue(), SCHEDULE_CHECK_INTERVAL);
+    }
+
+    stopSchedule(): void {
+        if (this.firstCheckTimer !== null) {
+            window.clearTimeout(this.firstCheckTimer);
+            this.firstCheckTimer = null;
+        }
+        if (this.scheduleTimer !== null) {
+            window.clearInterval(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+        if (this.restoreTimer !== null) {
+            window.clearTimeout(this.restoreTimer);
+            this.restoreTimer = null;
+        }
+    }
+
+    private async runIfDue(): Promise<void> {
+        const period = SCHEDULE_PERIODS[this.config.schedule];
+        if (!period || this.running) return;
+
+        const { lastRunAt } = await this.loadState();
+        if (lastRunAt && Date.now() - lastRunAt < period) return;
+
+        Logger($msg("fridaySync.gc.scheduled"), LOG_LEVEL_INFO);
+        await this.run({ dryRun: false, includeRemote: this.config.includeRemote, compact: this.config.compact });
+    }
+
+    // ==================== Run ====================
+
+    /**
+     * Mark orphaned chunks, sweep the ones that are safe to delete, then compact
+     * @returns The report, or null when a run is already in progress or sync is not ready
+     */
+    async run(options: ChunkGCOptions): Promise<ChunkGCReport | null> {
+        const localDB = this.core.localDatabase?.localDatabase;
+        const replicator = this.core.replicator;
+        if (!localDB || !replicator || this.running) return null;
+
+        this.running = true;
+        const report: ChunkGCReport = {
+            dryRun: options.dryRun,
+            startedAt: Date.now(),
+            finishedAt: 0,
+            localChunks: 0,
+            remoteChunks: null,
+            orphaned: 0,
+            deletedLocal: 0,
+            deletedRemote: 0,
+            pending: 0,
+            waitingFor: [],
+            bytesReclaimed: 0,
+            localStorageReclaimed: null,
+            remoteSizeBefore: null,
+            remoteSizeAfter: null,
+        };
+        Logger($msg(options.dryRun ? "fridaySync.gc.dryRunStarted" : "fridaySync.gc.started"), LOG_LEVEL_NOTICE, "chunk-gc");
+
+        try {
+            // Journal packs in a bucket are immutable and cannot be scanned cheaply for references
+            if (!(replicator instanceof LiveSyncCouchDBReplicator)) {
+                throw new Error($msg("fridaySync.gc.unsupportedRemote"));
+            }
+
+            const storageBefore = await estimateStorageUsage();
+
+            // Compacting first drops old revisions, so their chunks are collected in this run
+            if (options.compact && !options.dryRun) {
+                Logger($msg("fridaySync.gc.compactingHistory"), LOG_LEVEL_INFO);
+                await localDB.compact();
+            }
+
+            const remote = await replicator.connectRemoteCouchDBWithSetting(this.core.settings, Platform.isMobile, true);
+            if (typeof remote === "string") {
+                throw new Error($msg("fridaySync.gc.remoteUnavailable", { error: remote }));
+            }
+            const remoteDB = remote.db;
+            report.remoteSizeBefore = await remoteFileSize(remoteDB);
+
+            const local = await scanChunks(localDB);
+            const server = await scanChunks(remoteDB);
+            report.localChunks = local.chunks.size;
+            report.remoteChunks = server.chunks.size;
+
+            const referenced = new Set([...local.referenced, ...server.referenced]);
+            const orphanedLocal = [...local.chunks.keys()].filter((id) => !referenced.has(id));
+            const orphanedRemote = options.includeRemote
+                ? [...server.chunks.keys()].filter((id) => !referenced.has(id) && !local.chunks.has(id))
+                : [];
+            const orphaned = [...orphanedLocal, ...orphanedRemote];
+            report.orphaned = orphaned.length;
+
+            // Mark: keep the first time each chunk was seen orphaned
+            const state = await this.loadState();
+            const now = Date.now();
+            const candidates: Record<string, number> = {};
+            for (const id of orphaned) {
+                candidates[id] = state.candidates[id] ?? now;
+            }
+
+            const { sweepBefore, waitingFor } = await this.getSweepHorizon(now);
+            report.waitingFor = waitingFor;
+            const isEligible = (id: string) => candidates[id] <= sweepBefore;
+
+            if (options.dryRun) {
+                report.pending = orphaned.filter((id) => !(id in state.candidates) || !isEligible(id)).length;
+                report.deletedLocal = orphanedLocal.filter((id) => id in state.candidates && isEligible(id)).length;
+                report.deletedRemote = orphanedRemote.filter((id) => id in state.candidates && isEligible(id)).length;
+            } else {
+                state.candidates = candidates;
+                await this.saveState(state);
+
+                // Sweep: local deletions reach the server through replication
+                const sweepLocal = orphanedLocal.filter(isEligible);
+                const sweepRemote = orphanedRemote.filter(isEligible);
+                let localBytes = 0;
+                let remoteBytes = 0;
+                for (let i = 0; i < sweepLocal.length; i += BATCH_SIZE) {
+                    const batch = await excludeReclaimed([[localDB, local], [remoteDB, server]], sweepLocal.slice(i, i + BATCH_SIZE));
+                    const result = await deleteChunks(localDB, batch, local.chunks);
+                    report.deletedLocal += result.deleted.length;
+                    localBytes += result.bytes;
+                    await this.forgetCandidates(state, batch);
+                }
+                for (let i = 0; i < sweepRemote.length; i += BATCH_SIZE) {
+                    const batch = await excludeReclaimed([[localDB, local], [remoteDB, server]], sweepRemote.slice(i, i + BATCH_SIZE));
+                    const result = await deleteChunks(remoteDB, batch, server.chunks);
+                    report.deletedRemote += result.deleted.length;
+                    remoteBytes += result.bytes;
+                    await this.forgetCandidates(state, batch);
+                }
+                report.pending = Object.keys(state.candidates).length;
+
+                if (options.compact) {
+                    await localDB.compact();
+                    const storageAfter = await estimateStorageUsage();
+                    if (storageBefore !== null && storageAfter !== null) {
+                        report.localStorageReclaimed = Math.max(0, storageBefore - storageAfter);
+                    }
+                }
+                if (options.includeRemote && options.compact) {
+                    await replicator.compactRemote(this.core.settings);
+                    report.remoteSizeAfter = await remoteFileSize(remoteDB);
+                }
+                const remoteReclaimed = report.remoteSizeBefore !== null && report.remoteSizeAfter !== null
+                    ? Math.max(0, report.remoteSizeBefore - report.remoteSizeAfter)
+                    : remoteBytes;
+                report.bytesReclaimed = (report.localStorageReclaimed ?? localBytes) + remoteReclaimed;
+            }
+
+            Logger($msg("fridaySync.gc.finished", {
+                orphaned: String(report.orphaned),
+                deleted: String(report.deletedLocal + report.deletedRemote),
+                pending: String(report.pending),
+            }), LOG_LEVEL_NOTICE, "chunk-gc");
+        } catch (error) {
+            report.error = error instanceof Error ? error.message : String(error);
+            Logger($msg("fridaySync.gc.failed", { error: report.error }), LOG_LEVEL_NOTICE, "chunk-gc");
+            Logger(error, LOG_LEVEL_VERBOSE);
+        } finally {
+            this.running = false;
+        }
+
+        report.finishedAt = Date.now();
+        if (!options.dryRun) {
+            const state = await this.loadState();
+            // A failed run is retried at the next scheduled check
+            if (!report.error) state.lastRunAt = report.finishedAt;
+            state.lastReport = report;
+            await this.saveState(state);
+        }
+        return report;
+    }
+
+    /**
+     * Chunks marked before the returned time may be swept: the grace period has passed
+     * and every other active device has connected to the server since
+     */
+    private async getSweepHorizon(now: number): Promise<{ sweepBefore: number; waitingFor: string[] }> {
+        let sweepBefore = now - GRACE_PERIOD;
+        const waitingFor: string[] = [];
+
+        const devices = await this.core.replicator?.getConnectedDeviceList(this.core.settings);
+        if (!devices) {
+            throw new Error($msg("fridaySync.gc.devicesUnavailable"));
+        }
+        const ownNode = this.core.replicator?.nodeid;
+        for (const [nodeId, info] of Object.entries(devices.node_info ?? {})) {
+            if (nodeId === ownNode) continue;
+            const lastConnected = info.last_connected ?? 0;
+            if (now - lastConnected > STALE_DEVICE_AGE) continue;
+            if (lastConnected < sweepBefore) {
+                sweepBefore = lastConnected;
+                waitingFor.push(info.device_name || nodeId);
+            }
+        }
+        return { sweepBefore, waitingFor };
+    }
+
+    // ==================== Deletions from other devices ====================
+
+    /**
+     * Chunk tombstones received by replication; checked together once replication settles
+     */
+    onChunksDeleted(ids: string[]): void {
+        if (ids.length === 0) return;
+        ids.forEach((id) => this.deletedChunks.add(id));
+
+        if (this.restoreTimer !== null) {
+            window.clearTimeout(this.restoreTimer);
+        }
+        this.restoreTimer = window.setTimeout(() => {
+            this.restoreTimer = null;
+            void this.restoreReferencedChunks().catch((error) => {
+                Logger(`Could not restore deleted chunks: ${error}`, LOG_LEVEL_VERBOSE);
+            });
+        }, RESTORE_DELAY);
+    }
+
+    /**
+     * Write deleted chunks again from their last revision when a current or conflicting
+     * revision here still uses them; the new revision replicates back to the server
+     */
+    private async restoreReferencedChunks(): Promise<void> {
+        const localDB = this.core.localDatabase?.localDatabase;
+        if (!localDB || this.deletedChunks.size === 0) return;
+
+        const ids = [...this.deletedChunks];
+        this.deletedChunks.clear();
+
+        const referenced = new Set<string>();
+        const ranges = [{ endkey: CHUNK_PREFIX }, { startkey: `${CHUNK_PREFIX}\uffff` }];
+        for (const range of ranges) {
+            const result = await localDB.allDocs({ ...range, include_docs: true, conflicts: true });
+            const conflicts: { id: string; rev: string }[] = [];
+            for (const row of result.rows) {
+                const doc = row.doc as (EntryDoc & PouchDB.Core.GetMeta) | undefined;
+                if (!doc || !("children" in doc)) continue;
+                collectChildren(doc, referenced);
+                (doc._conflicts ?? []).forEach((rev) => conflicts.push({ id: doc._id, rev }));
+            }
+            await collectRevisionChildren(localDB, conflicts, referenced);
+        }
+
+        const restored: string[] = [];
+        for (const id of ids.filter((id) => referenced.has(id))) {
+            const data = await readDeletedChunk(localDB, id);
+            if (data === null) {
+                Logger(`Deleted chunk ${id} is still in use but its data is gone`, LOG_LEVEL_VERBOSE);
+                continue;
+            }
+            try {
+                await localDB.put(data as any);
+                restored.push(id);
+            } catch (error) {
+                // Written again in the meantime (e.g. by the writer of a new revision)
+                Logger(`Could not restore chunk ${id}: ${error}`, LOG_LEVEL_VERBOSE);
+            }
+        }
+        if (restored.length > 0) {
+            Logger($msg("fridaySync.gc.chunksRestored", { count: String(restored.length) }), LOG_LEVEL_INFO);
+        }
+    }
+
+    private async forgetCandidates(state: ChunkGCState, ids: string[]): Promise<void> {
+        for (const id of ids) {
+            delete state.candidates[id];
+        }
+        await this.saveState(state);
+    }
+
+    private async loadState(): Promise<ChunkGCState> {
+        const saved = await this.core.kvDB.get<ChunkGCState>(STATE_KEY);
+        return {
+            candidates: saved?.candidates ?? {},
+            lastRunAt: saved?.lastRunAt ?? null,
+            lastReport: saved?.lastReport ?? null,
+        };
+    }
+
+    private async saveState(state: ChunkGCState): Promise<void> {
+        await this.core.kvDB.set(STATE_KEY, state);
+    }
+}
+
+/**
+ * List the chunks of a database and the chunks referenced by every revision it still
+ * stores: current, conflicting and older revisions (file history, here and on other devices)
+ */
+async function scanChunks(db: Database): Promise<ChunkScan> {
+    const scan: ChunkScan = { chunks: new Map(), referenced: new Set(), since: (await db.info()).update_seq };
+
+    // Chunk ids only; reading their data is not needed to decide
+    const chunkRows = await db.allDocs({ startkey: CHUNK_PREFIX, endkey: `${CHUNK_PREFIX}\uffff` });
+    for (const row of chunkRows.rows) {
+        scan.chunks.set(row.id, row.value.rev);
+    }
+
+    const ranges = [{ endkey: CHUNK_PREFIX }, { startkey: `${CHUNK_PREFIX}\uffff` }];
+    for (const range of ranges) {
+        const result = await db.allDocs({ ...range, include_docs: true, conflicts: true });
+        const docs: (EntryDoc & PouchDB.Core.GetMeta)[] = [];
+        for (const row of result.rows) {
+            const doc = row.doc as (EntryDoc & PouchDB.Core.GetMeta) | undefined;
+            if (!doc || !("children" in doc)) continue;
+            collectChildren(doc, scan.referenced);
+            docs.push(doc);
+        }
+        for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+            await collectStoredRevisions(db, docs.slice(i, i + BATCH_SIZE), scan.referenced);
+        }
+    }
+    return scan;
+}
+
+/**
+ * Collect the chunks of the conflicting and older revisions of these documents;
+ * revisions whose body was removed by compaction are skipped
+ */
+async function collectStoredRevisions(
+    db: Database,
+    docs: (EntryDoc & PouchDB.Core.GetMeta)[],
+    into: Set<string>
+): Promise<void> {
+    const revisions: { id: string; rev: string }[] = [];
+    try {
+        const trees = await db.bulkGet({ docs: docs.map((doc) => ({ id: doc._id, rev: doc._rev })), revs: true });
+        for (const result of trees.results) {
+            for (const entry of result.docs) {
+                const history = "ok" in entry ? (entry.ok as PouchDB.Core.GetMeta)._revisions : undefined;
+                if (!history) continue;
+                history.ids.slice(1).forEach((hash, i) => {
+                    revisions.push({ id: result.id, rev: `${history.start - i - 1}-${hash}` });
+                });
+            }
+        }
+    } catch (error) {
+        Logger(`Could not read revision history: ${error}`, LOG_LEVEL_VERBOSE);
+    }
+    for (const doc of docs) {
+        (doc._conflicts ?? []).forEach((rev) => revisions.push({ id: doc._id, rev }));
+    }
+
+    for (let i = 0; i < revisions.length; i += REVISION_BATCH_SIZE) {
+        await collectRevisionChildren(db, revisions.slice(i, i + REVISION_BATCH_SIZE), into);
+    }
+}
+
+async function collectRevisionChildren(db: Database, revisions: { id: string; rev: string }[], into: Set<string>): Promise<void> {
+    if (revisions.length === 0) return;
+    try {
+        const result = await db.bulkGet({ docs: revisions });
+        for (const { docs } of result.results) {
+            for (const entry of docs) {
+                if ("ok" in entry) collectChildren(entry.ok, into);
+            }
+        }
+    } catch (error) {
+        Logger(`Could not read stored revisions: ${error}`, LOG_LEVEL_VERBOSE);
+    }
+}
+
+/**
+ * Drop chunks that documents written here or on the server since the scan use again
+ */
+async function excludeReclaimed(sources: [Database, ChunkScan][], ids: string[]): Promise<string[]> {
+    const reused = new Set<string>();
+    for (const [db, scan] of sources) {
+        const changes = await db.changes({ since: scan.since, include_docs: true });
+        for (const change of changes.results) {
+            collectChildren(change.doc, reused);
+        }
+    }
+    return ids.filter((id) => !reused.has(id));
+}
+
+/**
+ * The last stored body of a deleted chunk, without its revision, ready to be written again
+ */
+async function readDeletedChunk(db: Database, id: string): Promise<PouchDB.Core.PutDocument<EntryDoc> | null> {
+    try {
+        const [leaf] = await db.get(id, { open_revs: "all", revs: true });
+        if (!leaf || !("ok" in leaf) || !leaf.ok._deleted) return null;
+
+        const history = (leaf.ok as PouchDB.Core.GetMeta)._revisions;
+        if (!history || history.ids.length < 2) return null;
+        const previous = await db.get(id, { rev: `${history.start - 1}-${history.ids[1]}` });
+        if ((previous as { _deleted?: boolean })._deleted) return null;
+
+        // Continue the revision tree from the tombstone
+        return { ...previous, _rev: leaf.ok._rev };
+    } catch {
+        return null;
+    }
+}
+
+function collectChildren(doc: unknown, into: Set<string>): void {
+    const children = (doc as { children?: unknown } | undefined)?.children;
+    if (Array.isArray(children)) {
+        children.forEach((id) => typeof id === "string" && into.add(id));
+    }
+}
+
+/**
+ * Delete chunks by writing tombstones at the revision seen in the scan
+ * (a chunk rewritten since then is left alone)
+ */
+async function deleteChunks(
+    db: Database,
+    ids: string[],
+    revs: Map<string, string>
+): Promise<{ deleted: string[]; bytes: number }> {
+    if (ids.length === 0) return { deleted: [], bytes: 0 };
+
+    const sizes = new Map<string, number>();
+    const existing = await db.allDocs({ keys: ids, include_docs: true });
+    for (const row of existing.rows) {
+        const data = "doc" in row ? (row.doc as { data?: unknown } | undefined)?.data : undefined;
+        if (typeof data === "string") sizes.set(row.key, data.length);
+    }
+
+    const tombstones = ids.map((id) => ({ _id: id, _rev: revs.get(id), _deleted: true }));
+    const results = await db.bulkDocs(tombstones as any);
+    const deleted = results.filter((result) => "ok" in result && result.ok).map((result) => result.id as string);
+    if (deleted.length < ids.length) {
+        Logger(`Skipped ${ids.length - deleted.length} chunks that changed during collection`, LOG_LEVEL_VERBOSE);
+    }
+    const bytes = deleted.reduce((total, id) => total + (sizes.get(id) ?? 0), 0);
+    return { deleted, bytes };
+}
+
+async function remoteFileSize(db: Database): Promise<number | null> {
+    try {
+        const info = await db.info();
+        return (info as any)?.sizes?.file ?? null;
+    } catch {
+        return null;
+    }
+}
+
+async function estimateStorageUsage(): Promise<number | null> {
+    try {
+        const estimate = await navigator.storage?.estimate?.();
+        return estimate?.usage ?? null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * ConflictListModal - Lists notes with unresolved sync conflicts
+ *
+ * Choosing an entry queues it for resolution, which opens the diff modal
+ * when the conflict cannot be merged automatically.
+ */
+
+import { App, SuggestModal } from "obsidian";
+import type { FilePathWithPrefix } from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import type { FridayConflictResolver } from "./index";
+
+export class ConflictListModal extends SuggestModal<FilePathWithPrefix> {
+    private resolver: FridayConflictResolver;
+    private paths: FilePathWithPrefix[];
+
+    constructor(app: App, resolver: FridayConflictResolver, paths: FilePathWithPrefix[]) {
+        super(app);
+        this.resolver = resolver;
+        this.paths = paths;
+        this.setPlaceholder($msg("fridaySync.conflict.listPlaceholder"));
+        this.emptyStateText = $msg("fridaySync.conflict.noConflicts");
+    }
+
+    getSuggestions(query: string): FilePathWithPrefix[] {
+        const lowerQuery = query.toLowerCase();
+        return this.paths.filter((path) => path.toLowerCase().includes(lowerQuery));
+    }
+
+    renderSuggestion(path: FilePathWithPrefix, el: HTMLElement) {
+        const fileName = path.split("/").pop() ?? path;
+        el.createDiv({ text: fileName });
+        el.createEl("small", { text: path, cls: "friday-conflict-list-path" });
+    }
+
+    onChooseSuggestion(path: FilePathWithPrefix) {
+        void this.resolver.queueCheckFor(path);
+    }
+}
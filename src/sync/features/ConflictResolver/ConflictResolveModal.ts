@@ -0,0 +1,125 @@
+/**
+ * ConflictResolveModal - Side-by-side diff for a conflicted note
+ *
+ * Shows both leaf revisions with their differences highlighted and lets the user
+ * keep one side or edit a merged version by hand.
+ *
+ * Source: livesync ConflictResolveModal.ts
+ */
+
+import { App, Modal } from "obsidian";
+import { DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from "diff-match-patch";
+import { CANCELLED, type diff_result, type diff_result_leaf, type FilePathWithPrefix } from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+
+export type ConflictResolution =
+    | { action: "keep-left" }
+    | { action: "keep-right" }
+    | { action: "merge"; content: string };
+
+export class ConflictResolveModal extends Modal {
+    private path: FilePathWithPrefix;
+    private conflict: diff_result;
+    private localSide: "left" | "right";
+    private result: ConflictResolution | typeof CANCELLED = CANCELLED;
+    private resolveResult: ((result: ConflictResolution | typeof CANCELLED) => void) | null = null;
+    private resultPromise: Promise<ConflictResolution | typeof CANCELLED>;
+
+    constructor(app: App, path: FilePathWithPrefix, conflict: diff_result, localSide: "left" | "right") {
+        super(app);
+        this.path = path;
+        this.conflict = conflict;
+        this.localSide = localSide;
+        this.resultPromise = new Promise((resolve) => {
+            this.resolveResult = resolve;
+        });
+    }
+
+    /**
+     * Resolves once the modal is closed, with CANCELLED if no choice was made
+     */
+    waitForResult(): Promise<ConflictResolution | typeof CANCELLED> {
+        return this.resultPromise;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+        this.modalEl.addClass("friday-conflict-modal");
+        titleEl.setText($msg("fridaySync.conflict.modalTitle"));
+        contentEl.createEl("p", { text: this.path, cls: "friday-conflict-path" });
+
+        const columns = contentEl.createDiv("friday-conflict-columns");
+        this.renderPane(columns, this.conflict.left, DIFF_DELETE, this.localSide === "left");
+        this.renderPane(columns, this.conflict.right, DIFF_INSERT, this.localSide === "right");
+
+        // Hand-merge editor, prefilled with both versions interleaved
+        const mergeContainer = contentEl.createDiv("friday-conflict-merge");
+        mergeContainer.hide();
+        mergeContainer.createEl("p", { text: $msg("fridaySync.conflict.mergeHint"), cls: "setting-item-description" });
+        const mergeInput = mergeContainer.createEl("textarea", { cls: "friday-conflict-merge-input" });
+        mergeInput.value = this.conflict.diff.map((e) => e[1]).join("");
+
+        const buttonContainer = contentEl.createDiv("modal-button-container");
+
+        const keepLocal = this.localSide === "left" ? "keep-left" : "keep-right";
+        const keepRemote = this.localSide === "left" ? "keep-right" : "keep-left";
+
+        buttonContainer.createEl("button", { text: $msg("fridaySync.conflict.keepLocal") })
+            .addEventListener("click", () => this.choose({ action: keepLocal }));
+        buttonContainer.createEl("button", { text: $msg("fridaySync.conflict.keepRemote") })
+            .addEventListener("click", () => this.choose({ action: keepRemote }));
+
+        const mergeButton = buttonContainer.createEl("button", { text: $msg("fridaySync.conflict.mergeByHand") });
+        mergeButton.addEventListener("click", () => {
+            if (!mergeContainer.isShown()) {
+                columns.hide();
+                mergeContainer.show();
+                mergeButton.setText($msg("fridaySync.conflict.saveMerged"));
+                mergeButton.addClass("mod-cta");
+                mergeInput.focus();
+                return;
+            }
+            this.choose({ action: "merge", content: mergeInput.value });
+        });
+
+        buttonContainer.createEl("button", { text: $msg("fridaySync.conflict.later") })
+            .addEventListener("click", () => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolveResult?.(this.result);
+        this.resolveResult = null;
+    }
+
+    private choose(result: ConflictResolution) {
+        this.result = result;
+        this.close();
+    }
+
+    /**
+     * Render one revision, highlighting the parts that only exist on this side
+     */
+    private renderPane(container: HTMLElement, leaf: diff_result_leaf, ownOp: number, isLocal: boolean) {
+        const pane = container.createDiv("friday-conflict-pane");
+        const header = pane.createDiv("friday-conflict-pane-header");
+        header.createEl("strong", {
+            text: isLocal ? $msg("fridaySync.conflict.local") : $msg("fridaySync.conflict.remote"),
+        });
+        header.createSpan({
+            text: leaf.deleted
+                ? $msg("fridaySync.conflict.deleted")
+                : $msg("fridaySync.conflict.modified", { date: new Date(leaf.mtime).toLocaleString() }),
+            cls: "friday-conflict-pane-meta",
+        });
+
+        const body = pane.createEl("pre", { cls: "friday-conflict-pane-body" });
+        for (const [op, text] of this.conflict.diff) {
+            if (op === DIFF_EQUAL) {
+                body.appendText(text);
+            } else if (op === ownOp) {
+                body.createSpan({ text, cls: "friday-conflict-only-here" });
+            }
+        }
+    }
+}
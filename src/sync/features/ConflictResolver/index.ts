@@ -0,0 +1,437 @@
+/**
+ * FridayConflictResolver - Conflict detection and resolution
+ *
+ * Handles documents that have more than one leaf revision in the local database:
+ * - Queues conflict checks for paths that arrived through replication
+ * - Auto-merges markdown/JSON where a common ancestor allows it (ConflictManager.tryAutoMerge)
+ * - Falls back to newest-wins for binary files and identical leaves
+ * - Asks the user through ConflictResolveModal for everything else
+ *
+ * Source: livesync ModuleConflictResolver.ts / ModuleInteractiveConflictResolver.ts
+ */
+
+import { Plugin, TFile } from "obsidian";
+import { diff_match_patch } from "diff-match-patch";
+import { Logger } from "../../core/common/logger";
+import {
+    LOG_LEVEL_INFO,
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    AUTO_MERGED,
+    CANCELLED,
+    MISSING_OR_ERROR,
+    NOT_CONFLICTED,
+    type diff_check_result,
+    type diff_result,
+    type EntryDoc,
+    type FilePathWithPrefix,
+    type SavingEntry,
+} from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import { createTextBlob, determineTypeFromBlob, isDocContentSame, readContent, isTextDocument } from "../../core/common/utils";
+import { isPlainText } from "../../core/string_and_binary/path";
+import { isInternalMetadata } from "../../utils/hiddenFileUtils";
+import { compareMtime } from "../../FridayStorageEventManager";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+import { ConflictResolveModal, type ConflictResolution } from "./ConflictResolveModal";
+
+export { ConflictListModal } from "./ConflictListModal";
+
+export class FridayConflictResolver {
+    private plugin: Plugin;
+    private core: FridaySyncCore;
+    private queue: FilePathWithPrefix[] = [];
+    private queued: Set<string> = new Set();
+    private processing: Promise<void> | null = null;
+    // Paths waiting for the user; dialogs are shown one at a time, outside the check queue
+    private awaitingUser: Set<string> = new Set();
+    private interaction: Promise<void> = Promise.resolve();
+
+    constructor(plugin: Plugin, core: FridaySyncCore) {
+        this.plugin = plugin;
+        this.core = core;
+        this.core.services.conflict.handleResolveByUserInteraction(this.resolveByUserInteraction.bind(this));
+    }
+
+    // ==================== Queue ====================
+
+    /**
+     * Queue a conflict check for a path (deduplicated while queued)
+     */
+    async queueCheckFor(path: FilePathWithPrefix): Promise<void> {
+        if (isInternalMetadata(path)) return;
+        if (this.queued.has(path)) return;
+        this.queued.add(path);
+        this.queue.push(path);
+        this.core.conflictProcessQueueCount.value = this.queue.length;
+        if (!this.processing) {
+            this.processing = this.processQueue().finally(() => {
+                this.processing = null;
+            });
+        }
+    }
+
+    /**
+     * Queue a conflict check only if the file is currently open in the editor
+     */
+    async queueCheckForIfOpen(path: FilePathWithPrefix): Promise<void> {
+        const activeFile = this.plugin.app.workspace.getActiveFile();
+        if (activeFile && activeFile.path === path) {
+            await this.queueCheckFor(path);
+        }
+    }
+
+    /**
+     * Wait until every queued check has been processed.
+     * Conflicts waiting for the user do not count, so an open dialog does not hold up sync.
+     */
+    async ensureAllProcessed(): Promise<boolean> {
+        while (this.processing) {
+            await this.processing;
+        }
+        return this.queue.length === 0;
+    }
+
+    private async processQueue(): Promise<void> {
+        while (this.queue.length > 0) {
+            const path = this.queue.shift()!;
+            this.queued.delete(path);
+            this.core.conflictProcessQueueCount.value = this.queue.length;
+            try {
+                await this.resolve(path);
+            } catch (error) {
+                Logger($msg("fridaySync.conflict.resolveFailed", { path }), LOG_LEVEL_NOTICE);
+                Logger(error, LOG_LEVEL_VERBOSE);
+            }
+        }
+        this.core.conflictProcessQueueCount.value = 0;
+    }
+
+    // ==================== Listing ====================
+
+    /**
+     * Collect the paths of all documents that currently have conflicted revisions
+     */
+    async getConflictedFiles(): Promise<FilePathWithPrefix[]> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return [];
+
+        const paths: FilePathWithPrefix[] = [];
+        for await (const doc of localDB.findAllNormalDocs({ conflicts: true })) {
+            const conflicts = (doc as PouchDB.Core.GetMeta)._conflicts;
+            if (!conflicts || conflicts.length === 0) continue;
+            const path = this.core.id2path(doc._id, doc);
+            if (isInternalMetadata(path)) continue;
+            paths.push(path);
+        }
+        return paths.sort((a, b) => a.localeCompare(b));
+    }
+
+    // ==================== Resolution ====================
+
+    /**
+     * Check a path for conflicts and resolve it automatically or interactively
+     */
+    async resolve(path: FilePathWithPrefix): Promise<void> {
+        const result = await this.checkConflictAndPerformAutoMerge(path);
+        if (result === MISSING_OR_ERROR || result === NOT_CONFLICTED || result === CANCELLED) {
+            return;
+        }
+        if (result === AUTO_MERGED) {
+            // More than two leaves may exist, check again until settled
+            await this.queueCheckFor(path);
+            return;
+        }
+        this.askUser(path, result);
+    }
+
+    /**
+     * Queue the resolve dialog for a path, then check the path again once the user has decided
+     */
+    private askUser(path: FilePathWithPrefix, conflict: diff_result): void {
+        if (this.awaitingUser.has(path)) return;
+        this.awaitingUser.add(path);
+        this.interaction = this.interaction.then(async () => {
+            let resolved: boolean | undefined = false;
+            try {
+                resolved = await this.core.services.conflict.resolveByUserInteraction(path, conflict);
+            } catch (error) {
+                Logger($msg("fridaySync.conflict.resolveFailed", { path }), LOG_LEVEL_NOTICE);
+                Logger(error, LOG_LEVEL_VERBOSE);
+            } finally {
+                this.awaitingUser.delete(path);
+            }
+            // More than two leaves may exist
+            if (resolved) {
+                await this.queueCheckFor(path);
+            }
+        });
+    }
+
+    /**
+     * Try every non-interactive strategy, returning the diff when the user has to decide
+     */
+    private async checkConflictAndPerformAutoMerge(path: FilePathWithPrefix): Promise<diff_check_result> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return MISSING_OR_ERROR;
+
+        // Cheap metadata-only check first, most arrived documents are not conflicted
+        try {
+            const raw = await localDB.getRaw<EntryDoc>(await this.core.path2id(path), { conflicts: true });
+            if (!raw._conflicts || raw._conflicts.length === 0) return NOT_CONFLICTED;
+        } catch {
+            return MISSING_OR_ERROR;
+        }
+
+        const ret = await localDB.tryAutoMerge(path, true);
+        if ("ok" in ret) {
+            return ret.ok;
+        }
+
+        if ("result" in ret) {
+            // Merged content: store it on top of the current revision, then drop the conflicted one
+            if (!(await this.storeMergedContent(path, ret.result))) {
+                Logger($msg("fridaySync.conflict.resolveFailed", { path }), LOG_LEVEL_NOTICE);
+                return MISSING_OR_ERROR;
+            }
+            Logger($msg("fridaySync.conflict.autoMerged", { path }), LOG_LEVEL_INFO);
+            return await this.resolveByDeletingRevision(path, ret.conflictedRev, "Sensible");
+        }
+
+        const { rightRev, leftLeaf, rightLeaf } = ret;
+        if (leftLeaf === false) {
+            Logger(`Could not load the current revision of ${path}`, LOG_LEVEL_VERBOSE);
+            return MISSING_OR_ERROR;
+        }
+        if (rightLeaf === false) {
+            // The conflicted revision cannot be read anymore, nothing to compare against
+            return await this.resolveByDeletingRevision(path, rightRev, "Missing revision");
+        }
+
+        const isSame = leftLeaf.data === rightLeaf.data && leftLeaf.deleted === rightLeaf.deleted;
+        if (isSame || !isPlainText(path)) {
+            const loser = compareMtime(leftLeaf.mtime, rightLeaf.mtime) === "TARGET_IS_NEW" ? leftLeaf : rightLeaf;
+            return await this.resolveByDeletingRevision(path, loser.rev, isSame ? "Same content" : "Newer file");
+        }
+
+        const dmp = new diff_match_patch();
+        const diff = dmp.diff_main(leftLeaf.data, rightLeaf.data);
+        dmp.diff_cleanupSemantic(diff);
+        Logger($msg("fridaySync.conflict.needsAttention", { path }), LOG_LEVEL_INFO);
+        return { left: leftLeaf, right: rightLeaf, diff };
+    }
+
+    /**
+     * Delete one leaf revision and reflect the surviving revision to the vault
+     */
+    async resolveByDeletingRevision(
+        path: FilePathWithPrefix,
+        deleteRevision: string,
+        title: string
+    ): Promise<typeof MISSING_OR_ERROR | typeof AUTO_MERGED> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return MISSING_OR_ERROR;
+
+        const id = await this.core.path2id(path);
+        if (!(await localDB.removeRevision(id, deleteRevision))) {
+            Logger(`Could not remove revision ${deleteRevision} of ${path}`, LOG_LEVEL_VERBOSE);
+            return MISSING_OR_ERROR;
+        }
+        if (!(await this.writeEntryToStorage(path))) {
+            return MISSING_OR_ERROR;
+        }
+        Logger($msg("fridaySync.conflict.resolved", { path, title }), LOG_LEVEL_INFO);
+        return AUTO_MERGED;
+    }
+
+    /**
+     * Keep the leaf with the newest mtime and delete all others
+     */
+    async resolveByNewest(path: FilePathWithPrefix): Promise<boolean> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return false;
+
+        const id = await this.core.path2id(path);
+        let doc: EntryDoc & PouchDB.Core.GetMeta;
+        try {
+            doc = await localDB.getRaw<EntryDoc>(id, { conflicts: true });
+        } catch {
+            Logger(`Could not read ${path} for conflict resolution`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        const conflicts = doc._conflicts ?? [];
+        if (conflicts.length === 0) return true;
+
+        const leaves = await Promise.all(
+            [doc._rev!, ...conflicts].map(async (rev) => {
+                const leaf = await localDB.getConflictedDoc(path, rev);
+                return { rev, mtime: leaf ? leaf.mtime : 0 };
+            })
+        );
+        leaves.sort((a, b) => b.mtime - a.mtime);
+
+        for (const leaf of leaves.slice(1)) {
+            if ((await this.resolveByDeletingRevision(path, leaf.rev, "Newest")) === MISSING_OR_ERROR) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Show the diff modal and apply the user's decision
+     */
+    private async resolveByUserInteraction(path: FilePathWithPrefix, conflict: diff_result): Promise<boolean> {
+        const localSide = await this.detectLocalSide(path, conflict);
+        const modal = new ConflictResolveModal(this.plugin.app, path, conflict, localSide);
+        modal.open();
+        const selected: ConflictResolution | typeof CANCELLED = await modal.waitForResult();
+        if (selected === CANCELLED) {
+            return false;
+        }
+
+        const localDB = this.core.localDatabase;
+        if (!localDB) return false;
+
+        // Another device (or an earlier pass) may have settled it while the dialog was open
+        const current = await localDB.getDBEntry(path, { conflicts: true }, false, true, true);
+        if (current === false || !current._conflicts || current._conflicts.length === 0) {
+            return true;
+        }
+
+        let result: typeof MISSING_OR_ERROR | typeof AUTO_MERGED = MISSING_OR_ERROR;
+        switch (selected.action) {
+            case "keep-left":
+                result = await this.resolveByDeletingRevision(path, conflict.right.rev, "Kept local");
+                break;
+            case "keep-right":
+                result = await this.resolveByDeletingRevision(path, conflict.left.rev, "Kept remote");
+                break;
+            case "merge":
+                if (await this.storeMergedContent(path, selected.content)) {
+                    result = await this.resolveByDeletingRevision(path, conflict.right.rev, "Hand merged");
+                }
+                break;
+        }
+
+        if (result === MISSING_OR_ERROR) {
+            // The conflict stays in the database and can be picked again from the conflict list
+            Logger($msg("fridaySync.conflict.resolveFailed", { path }), LOG_LEVEL_NOTICE);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Work out which leaf matches the file currently in the vault.
+     * The winning revision is chosen by the database, so it is not necessarily ours.
+     */
+    private async detectLocalSide(path: FilePathWithPrefix, conflict: diff_result): Promise<"left" | "right"> {
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return "left";
+        try {
+            const content = await this.plugin.app.vault.read(file);
+            if (content !== conflict.left.data && content === conflict.right.data) {
+                return "right";
+            }
+        } catch (error) {
+            Logger(`Could not read ${path} to detect local revision: ${error}`, LOG_LEVEL_VERBOSE);
+        }
+        return "left";
+    }
+
+    // ==================== Storage ====================
+
+    /**
+     * Save text as a new revision on top of the current winning revision
+     */
+    private async storeMergedContent(path: FilePathWithPrefix, content: string): Promise<boolean> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return false;
+
+        const current = await localDB.getDBEntryMeta(path, undefined, true);
+        const blob = createTextBlob(content);
+        const datatype = determineTypeFromBlob(blob);
+        const now = Date.now();
+        const savingEntry: SavingEntry = {
+            _id: await this.core.path2id(path),
+            path: path,
+            data: blob,
+            ctime: current ? current.ctime : now,
+            mtime: now,
+            size: blob.size,
+            children: [],
+            datatype: datatype,
+            type: datatype,
+            eden: {},
+            deviceName: this.core.deviceName,
+        };
+        return (await localDB.putDBEntry(savingEntry)) !== false;
+    }
+
+    /**
+     * Write the current winning revision of a document to the vault
+     */
+    private async writeEntryToStorage(path: FilePathWithPrefix): Promise<boolean> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return false;
+
+        const entry = await localDB.getDBEntry(path, undefined, false, true, true);
+        if (entry === false) {
+            Logger(`Could not read ${path} from the local database`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+
+        const vault = this.plugin.app.vault;
+        const storageEventManager = this.core.storageEventManager;
+        const existingFile = vault.getAbstractFileByPath(path);
+        storageEventManager?.markFileProcessing(path);
+        try {
+            if (entry.deleted || entry._deleted) {
+                if (existingFile instanceof TFile) {
+                    await this.plugin.app.fileManager.trashFile(existingFile);
+                }
+                return true;
+            }
+
+            const content = readContent(entry);
+            const isText = isTextDocument(entry);
+            if (existingFile instanceof TFile) {
+                const localContent = isText ? await vault.read(existingFile) : await vault.readBinary(existingFile);
+                if (await isDocContentSame(content, localContent)) {
+                    return true;
+                }
+                if (isText) {
+                    await vault.modify(existingFile, content as string);
+                } else {
+                    await vault.modifyBinary(existingFile, content as ArrayBuffer);
+                }
+            } else {
+                const dirPath = path.substring(0, path.lastIndexOf("/"));
+                if (dirPath && !vault.getAbstractFileByPath(dirPath)) {
+                    await vault.createFolder(dirPath).catch(() => {});
+                }
+                if (isText) {
+                    await vault.create(path, content as string);
+                } else {
+                    await vault.createBinary(path, content as ArrayBuffer);
+                }
+            }
+
+            const writtenFile = vault.getAbstractFileByPath(path);
+            if (writtenFile instanceof TFile && storageEventManager) {
+                storageEventManager.touch(path, writtenFile.stat.mtime, writtenFile.stat.size);
+            }
+            return true;
+        } catch (error) {
+            Logger(`Could not write ${path} to the vault: ${error}`, LOG_LEVEL_VERBOSE);
+            return false;
+        } finally {
+            if (storageEventManager) {
+                setTimeout(() => {
+                    storageEventManager.unmarkFileProcessing(path);
+                }, 1000);
+            }
+        }
+    }
+}
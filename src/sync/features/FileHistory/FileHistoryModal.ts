@@ -0,0 +1,145 @@
+/**
+ * FileHistoryModal - Browse and restore revisions of a synced file
+ *
+ * Left: revisions from the local database (time, source device, size).
+ * Right: diff of the selected revision against the current vault content.
+ */
+
+import { App, Modal, TFile } from "obsidian";
+import { diff_match_patch, DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from "diff-match-patch";
+import type { FilePathWithPrefix } from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import type { FileRevision, FridayFileHistory } from "./index";
+
+export class FileHistoryModal extends Modal {
+    private history: FridayFileHistory;
+    private file: TFile;
+    private revisions: FileRevision[] = [];
+    private selected: FileRevision | null = null;
+    private listEl: HTMLElement;
+    private previewEl: HTMLElement;
+    private restoreButton: HTMLButtonElement;
+
+    constructor(app: App, history: FridayFileHistory, file: TFile) {
+        super(app);
+        this.history = history;
+        this.file = file;
+    }
+
+    async onOpen() {
+        const { contentEl, titleEl } = this;
+        this.modalEl.addClass("friday-history-modal");
+        titleEl.setText($msg("fridaySync.history.title", { name: this.file.name }));
+
+        const layout = contentEl.createDiv("friday-history-layout");
+        this.listEl = layout.createDiv("friday-history-list");
+        this.previewEl = layout.createDiv("friday-history-preview");
+        this.listEl.createDiv({ text: $msg("fridaySync.history.loading"), cls: "friday-history-empty" });
+
+        const buttonContainer = contentEl.createDiv("modal-button-container");
+        this.restoreButton = buttonContainer.createEl("button", {
+            text: $msg("fridaySync.history.restore"),
+            cls: "mod-cta",
+        });
+        this.restoreButton.disabled = true;
+        this.restoreButton.addEventListener("click", () => void this.restoreSelected());
+        buttonContainer.createEl("button", { text: $msg("fridaySync.history.close") })
+            .addEventListener("click", () => this.close());
+
+        this.revisions = await this.history.getRevisions(this.file.path as FilePathWithPrefix);
+        this.renderList();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private renderList() {
+        this.listEl.empty();
+        if (this.revisions.length === 0) {
+            this.listEl.createDiv({ text: $msg("fridaySync.history.empty"), cls: "friday-history-empty" });
+            return;
+        }
+
+        for (const revision of this.revisions) {
+            const item = this.listEl.createDiv("friday-history-item");
+            const header = item.createDiv("friday-history-item-header");
+            header.createSpan({ text: new Date(revision.mtime).toLocaleString() });
+            if (revision.isCurrent) {
+                header.createSpan({ text: $msg("fridaySync.history.current"), cls: "friday-history-badge" });
+            }
+            const meta = [
+                revision.deviceName ?? $msg("fridaySync.history.unknownDevice"),
+                revision.deleted ? $msg("fridaySync.history.deleted") : this.formatSize(revision.size),
+            ];
+            item.createDiv({ text: meta.join(" · "), cls: "friday-history-item-meta" });
+
+            item.addEventListener("click", () => {
+                this.listEl.querySelectorAll(".is-selected").forEach((el) => el.removeClass("is-selected"));
+                item.addClass("is-selected");
+                void this.selectRevision(revision);
+            });
+        }
+    }
+
+    private async selectRevision(revision: FileRevision) {
+        this.selected = revision;
+        this.restoreButton.disabled = revision.isCurrent || revision.deleted;
+        this.previewEl.empty();
+
+        if (revision.deleted) {
+            this.previewEl.createDiv({ text: $msg("fridaySync.history.deleted"), cls: "friday-history-empty" });
+            return;
+        }
+
+        const revisionText = await this.history.getRevisionText(this.file.path as FilePathWithPrefix, revision.rev);
+        // Another revision may have been clicked while this one was loading
+        if (this.selected !== revision) return;
+        if ("unavailable" in revisionText) {
+            const missing = revisionText.unavailable === "missing";
+            this.previewEl.createDiv({
+                text: $msg(missing ? "fridaySync.history.unavailable" : "fridaySync.history.noPreview"),
+                cls: "friday-history-empty",
+            });
+            if (missing) this.restoreButton.disabled = true;
+            return;
+        }
+
+        const currentText = await this.app.vault.read(this.file);
+        const dmp = new diff_match_patch();
+        const diff = dmp.diff_main(currentText, revisionText.text);
+        dmp.diff_cleanupSemantic(diff);
+
+        if (diff.every(([op]) => op === DIFF_EQUAL)) {
+            this.previewEl.createDiv({ text: $msg("fridaySync.history.sameAsCurrent"), cls: "friday-history-empty" });
+        }
+        this.previewEl.createDiv({ text: $msg("fridaySync.history.diffHint"), cls: "setting-item-description" });
+        const body = this.previewEl.createEl("pre", { cls: "friday-history-diff" });
+        for (const [op, text] of diff) {
+            if (op === DIFF_EQUAL) {
+                body.appendText(text);
+            } else if (op === DIFF_INSERT) {
+                body.createSpan({ text, cls: "friday-history-added" });
+            } else if (op === DIFF_DELETE) {
+                body.createSpan({ text, cls: "friday-history-removed" });
+            }
+        }
+    }
+
+    private async restoreSelected() {
+        if (!this.selected) return;
+        this.restoreButton.disabled = true;
+        const restored = await this.history.restoreRevision(this.file.path as FilePathWithPrefix, this.selected.rev);
+        if (restored) {
+            this.close();
+        } else {
+            this.restoreButton.disabled = false;
+        }
+    }
+
+    private formatSize(size: number): string {
+        if (size >= 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)} MB`;
+        if (size >= 1024) return `${(size / 1024).toFixed(1)} KB`;
+        return `${size} B`;
+    }
+}
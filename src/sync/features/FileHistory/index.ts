@@ -0,0 +1,177 @@
+/**
+ * FridayFileHistory - Revision history for synced files
+ *
+ * Every edit lands in the local PouchDB as a new revision. This module:
+ * - Lists the revisions of a file that are still available locally
+ * - Loads the text of any revision for diffing
+ * - Restores a revision into the vault and stores it through
+ *   FridayStorageEventManager, so the restore syncs like a normal edit
+ *
+ * History is whatever PouchDB still holds on this device. It does not survive
+ * compaction (storage cleanup with "compact" enabled keeps only the leaf revisions),
+ * and a revision body can outlive the chunks it points to. Such revisions are reported
+ * as unavailable instead of failing.
+ */
+
+import { Plugin, TFile } from "obsidian";
+import { Logger } from "../../core/common/logger";
+import {
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type EntryDoc,
+    type FilePath,
+    type FilePathWithPrefix,
+} from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import { isAnyNote, isTextDocument, readContent } from "../../core/common/utils";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+
+export { FileHistoryModal } from "./FileHistoryModal";
+
+export interface FileRevision {
+    rev: string;
+    mtime: number;
+    size: number;
+    deleted: boolean;
+    deviceName?: string;
+    isCurrent: boolean;
+}
+
+/**
+ * Text of a revision, or why it cannot be shown
+ */
+export type RevisionText = { text: string } | { unavailable: "binary" | "missing" };
+
+export class FridayFileHistory {
+    private plugin: Plugin;
+    private core: FridaySyncCore;
+
+    constructor(plugin: Plugin, core: FridaySyncCore) {
+        this.plugin = plugin;
+        this.core = core;
+    }
+
+    /**
+     * List the revisions of a file whose bodies are still in the local database, newest first
+     */
+    async getRevisions(path: FilePathWithPrefix): Promise<FileRevision[]> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return [];
+
+        const id = await this.core.path2id(path);
+        let doc: EntryDoc & PouchDB.Core.GetMeta;
+        try {
+            doc = await localDB.getRaw<EntryDoc>(id, { revs_info: true });
+        } catch (error) {
+            Logger(`No history for ${path}: ${error}`, LOG_LEVEL_VERBOSE);
+            return [];
+        }
+
+        const revisions: FileRevision[] = [];
+        for (const info of doc._revs_info ?? []) {
+            if (info.status !== "available") continue;
+            try {
+                const leaf = await localDB.getRaw<EntryDoc>(id, { rev: info.rev });
+                if (!isAnyNote(leaf)) continue;
+                revisions.push({
+                    rev: info.rev,
+                    mtime: leaf.mtime,
+                    size: leaf.size,
+                    deleted: leaf.deleted === true || leaf._deleted === true,
+                    deviceName: leaf.deviceName,
+                    isCurrent: info.rev === doc._rev,
+                });
+            } catch (error) {
+                Logger(`Could not read revision ${info.rev} of ${path}: ${error}`, LOG_LEVEL_VERBOSE);
+            }
+        }
+        return revisions;
+    }
+
+    /**
+     * Load the text of one revision
+     */
+    async getRevisionText(path: FilePathWithPrefix, rev: string): Promise<RevisionText> {
+        const entry = await this.readRevision(path, rev);
+        if (entry === false) return { unavailable: "missing" };
+        if (!isTextDocument(entry)) return { unavailable: "binary" };
+        return { text: readContent(entry) as string };
+    }
+
+    /**
+     * Write a revision back into the vault and store it as a new revision
+     */
+    async restoreRevision(path: FilePathWithPrefix, rev: string): Promise<boolean> {
+        const localDB = this.core.localDatabase;
+        const storageEventManager = this.core.storageEventManager;
+        if (!localDB || !storageEventManager) return false;
+
+        const entry = await this.readRevision(path, rev);
+        if (entry === false) {
+            Logger($msg("fridaySync.history.unavailable"), LOG_LEVEL_NOTICE);
+            return false;
+        }
+
+        const vault = this.plugin.app.vault;
+        const content = readContent(entry);
+        const isText = isTextDocument(entry);
+        try {
+            const existingFile = vault.getAbstractFileByPath(path);
+            if (existingFile instanceof TFile) {
+                if (isText) {
+                    await vault.modify(existingFile, content as string);
+                } else {
+                    await vault.modifyBinary(existingFile, content as ArrayBuffer);
+                }
+            } else {
+                const dirPath = path.substring(0, path.lastIndexOf("/"));
+                if (dirPath && !vault.getAbstractFileByPath(dirPath)) {
+                    await vault.createFolder(dirPath).catch(() => {});
+                }
+                if (isText) {
+                    await vault.create(path, content as string);
+                } else {
+                    await vault.createBinary(path, content as ArrayBuffer);
+                }
+            }
+        } catch (error) {
+            Logger($msg("fridaySync.history.restoreFailed", { path }), LOG_LEVEL_NOTICE);
+            Logger(error, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+
+        const file = vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return false;
+
+        // Store it ourselves right away; the touch keeps the watcher from storing it twice
+        storageEventManager.touch(path, file.stat.mtime, file.stat.size);
+        const stored = await storageEventManager.processFileEventDirect({
+            type: "CHANGED",
+            path: path as FilePath,
+            file,
+            mtime: file.stat.mtime,
+            size: file.stat.size,
+        });
+        if (stored) {
+            Logger(
+                $msg("fridaySync.history.restored", { path, date: new Date(entry.mtime).toLocaleString() }),
+                LOG_LEVEL_NOTICE
+            );
+        }
+        return stored;
+    }
+
+    /**
+     * Read a revision with its content, or false when it was compacted away or its chunks are gone
+     */
+    private async readRevision(path: FilePathWithPrefix, rev: string) {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return false;
+        try {
+            return await localDB.getDBEntry(path, { rev }, false, true, true);
+        } catch (error) {
+            Logger(`Revision ${rev} of ${path} is not available: ${error}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+}
@@ -8,8 +8,16 @@
  * 3. Prevention of misleading error messages
  */
 
+import { requestUrl } from "obsidian";
 import { Logger, LOG_LEVEL_INFO, LOG_LEVEL_VERBOSE } from "../../core/common/logger";
-import type { RemoteDBSettings } from "../../core/common/types";
+import { REMOTE_MINIO, type BucketSyncSetting, type ObsidianLiveSyncSettings, type RemoteDBSettings } from "../../core/common/types";
+
+/**
+ * CouchDB settings, plus the bucket endpoint when syncing through object storage
+ */
+export type ConnectivitySettings = RemoteDBSettings &
+    Partial<Pick<BucketSyncSetting, "endpoint" | "region">> &
+    Partial<Pick<ObsidianLiveSyncSettings, "remoteType">>;
 
 export type ServerStatus = "REACHABLE" | "UNREACHABLE" | "UNKNOWN";
 
@@ -55,7 +63,7 @@ export class ServerConnectivityChecker {
      * @returns Connectivity check result
      */
     async checkConnectivity(
-        setting: RemoteDBSettings,
+        setting: ConnectivitySettings,
         forceCheck: boolean = false
     ): Promise<ConnectivityCheckResult> {
         const now = Date.now();
@@ -112,8 +120,11 @@ export class ServerConnectivityChecker {
      * Note: Even 401/403 responses mean server is reachable
      */
     private async pingServer(
-        setting: RemoteDBSettings
+        setting: ConnectivitySettings
     ): Promise<{ ok: boolean; error?: string }> {
+        if (setting.remoteType === REMOTE_MINIO) {
+            return await this.pingBucket(setting);
+        }
         try {
             const uri = setting.couchDB_URI;
             if (!uri) {
@@ -154,6 +165,27 @@ export class ServerConnectivityChecker {
         }
     }
 
+    /**
+     * Ping the object storage endpoint through requestUrl (buckets rarely allow CORS)
+     * Any HTTP response, including 403 for the unsigned request, means it is reachable
+     */
+    private async pingBucket(setting: ConnectivitySettings): Promise<{ ok: boolean; error?: string }> {
+        const endpoint = setting.endpoint?.trim() || `https://s3.${setting.region || "us-east-1"}.amazonaws.com`;
+        const uri = /^https?:\/\//i.test(endpoint) ? endpoint : `https://${endpoint}`;
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<{ ok: boolean; error?: string }>((resolve) => {
+            timeoutId = setTimeout(() => resolve({ ok: false, error: "Connection timeout (10s)" }), 10000);
+        });
+        const ping = requestUrl({ url: uri, method: "HEAD", throw: false })
+            .then(() => ({ ok: true }))
+            .catch((ex: any) => ({ ok: false, error: ex?.message || "Cannot reach server" }));
+        try {
+            return await Promise.race([ping, timeout]);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
     /**
      * Get authentication headers for the request
      */
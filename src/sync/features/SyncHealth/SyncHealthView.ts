@@ -0,0 +1,296 @@
+/**
+ * SyncHealthView - Sync status pane
+ *
+ * Sections: local database, remote database, replication, vault vs database.
+ * Actions: refresh, verify integrity, repair files with missing chunks.
+ */
+
+import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import { $msg } from "../../core/common/i18n";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+import type { FridaySyncHealth, IntegrityIssue, IntegrityReport, SyncHealthStats } from "./index";
+
+export const VIEW_TYPE_FRIDAY_SYNC_HEALTH = "friday-sync-health";
+
+const MAX_LISTED_PATHS = 200;
+
+export class SyncHealthView extends ItemView {
+    private getCore: () => FridaySyncCore | null;
+    private stats: SyncHealthStats | null = null;
+    private report: IntegrityReport | null = null;
+    private busy = false;
+
+    private statusEl: HTMLElement;
+    private statsEl: HTMLElement;
+    private integrityEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, getCore: () => FridaySyncCore | null) {
+        super(leaf);
+        this.getCore = getCore;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_FRIDAY_SYNC_HEALTH;
+    }
+
+    getDisplayText(): string {
+        return $msg("fridaySync.health.title");
+    }
+
+    getIcon(): string {
+        return "activity";
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("friday-sync-health");
+
+        const toolbar = container.createDiv("friday-sync-health-toolbar");
+        toolbar.createEl("button", { text: $msg("fridaySync.health.refresh") })
+            .addEventListener("click", () => void this.refresh());
+        toolbar.createEl("button", { text: $msg("fridaySync.health.verify"), cls: "mod-cta" })
+            .addEventListener("click", () => void this.verify());
+        this.statusEl = toolbar.createSpan("friday-sync-health-status");
+
+        this.statsEl = container.createDiv("friday-sync-health-stats");
+        this.integrityEl = container.createDiv("friday-sync-health-integrity");
+
+        await this.refresh();
+    }
+
+    private get health(): FridaySyncHealth | null {
+        return this.getCore()?.syncHealth ?? null;
+    }
+
+    async refresh(): Promise<void> {
+        const health = this.health;
+        if (!health) {
+            this.renderNotInitialized();
+            return;
+        }
+        if (!this.begin($msg("fridaySync.health.collecting"))) return;
+        try {
+            this.stats = await health.collectStats();
+            this.renderStats();
+        } catch (error) {
+            console.error("[Friday Sync] Failed to collect sync status:", error);
+            new Notice($msg("fridaySync.health.failed"));
+        } finally {
+            this.end();
+        }
+    }
+
+    private async verify(): Promise<void> {
+        const health = this.health;
+        if (!health) {
+            this.renderNotInitialized();
+            return;
+        }
+        if (!this.begin($msg("fridaySync.health.verifying", { done: "0", total: "?" }))) return;
+        try {
+            this.report = await health.verifyIntegrity((done, total) => {
+                this.statusEl.setText($msg("fridaySync.health.verifying", { done: String(done), total: String(total) }));
+            });
+            this.renderIntegrity();
+        } catch (error) {
+            console.error("[Friday Sync] Integrity check failed:", error);
+            new Notice($msg("fridaySync.health.failed"));
+        } finally {
+            this.end();
+        }
+    }
+
+    private async repair(issues: IntegrityIssue[]): Promise<void> {
+        const health = this.health;
+        if (!health || !this.report) return;
+        if (!this.begin($msg("fridaySync.health.repairing", { count: String(issues.length) }))) return;
+
+        let repaired = 0;
+        try {
+            for (const issue of issues) {
+                const remaining = await health.repairFile(issue);
+                const index = this.report.issues.indexOf(issue);
+                if (remaining) {
+                    this.report.issues.splice(index, 1, remaining);
+                } else {
+                    this.report.issues.splice(index, 1);
+                    repaired++;
+                }
+            }
+        } catch (error) {
+            console.error("[Friday Sync] Repair failed:", error);
+        } finally {
+            this.end();
+        }
+        new Notice($msg("fridaySync.health.repaired", { repaired: String(repaired), total: String(issues.length) }));
+        this.renderIntegrity();
+    }
+
+    private begin(status: string): boolean {
+        if (this.busy) return false;
+        this.busy = true;
+        this.statusEl.setText(status);
+        return true;
+    }
+
+    private end(): void {
+        this.busy = false;
+        this.statusEl.setText("");
+    }
+
+    private renderNotInitialized(): void {
+        this.statsEl.empty();
+        this.integrityEl.empty();
+        this.statsEl.createDiv({ text: $msg("fridaySync.health.notInitialized"), cls: "friday-sync-health-empty" });
+    }
+
+    // ==================== Statistics ====================
+
+    private renderStats(): void {
+        this.statsEl.empty();
+        const stats = this.stats;
+        if (!stats) {
+            this.renderNotInitialized();
+            return;
+        }
+
+        this.renderSection($msg("fridaySync.health.local"), [
+            [$msg("fridaySync.health.docCount"), formatNumber(stats.local.docCount)],
+            [$msg("fridaySync.health.files"), formatNumber(stats.local.files)],
+            [$msg("fridaySync.health.deletedFiles"), formatNumber(stats.local.deletedFiles)],
+            [$msg("fridaySync.health.hiddenFiles"), formatNumber(stats.local.hiddenFiles)],
+            [$msg("fridaySync.health.chunks"), formatNumber(stats.local.chunks)],
+            [$msg("fridaySync.health.orphanedChunks"), formatNumber(stats.local.orphanedChunks)],
+            [$msg("fridaySync.health.missingChunks"), formatNumber(stats.local.missingChunks)],
+            [$msg("fridaySync.health.chunkSize"), formatBytes(stats.local.chunkBytes)],
+            [$msg("fridaySync.health.updateSeq"), String(stats.local.updateSeq)],
+        ]);
+
+        if (stats.remote) {
+            this.renderSection($msg("fridaySync.health.remote"), [
+                [$msg("fridaySync.health.docCount"), formatOptionalNumber(stats.remote.docCount)],
+                [$msg("fridaySync.health.chunks"), formatOptionalNumber(stats.remote.chunks)],
+                [$msg("fridaySync.health.storageSize"), formatBytes(stats.remote.sizeBytes)],
+            ]);
+        } else {
+            this.renderSection($msg("fridaySync.health.remote"), [
+                [$msg("fridaySync.health.unavailable"), stats.remoteError ?? ""],
+            ]);
+        }
+
+        const replication = stats.replication;
+        this.renderSection($msg("fridaySync.health.replication"), [
+            [$msg("fridaySync.health.syncStatus"), replication.syncStatus],
+            [$msg("fridaySync.health.sent"), formatNumber(replication.sent)],
+            [$msg("fridaySync.health.arrived"), formatNumber(replication.arrived)],
+            [$msg("fridaySync.health.pushSeq"), `${replication.lastSyncPushSeq} / ${replication.maxPushSeq}`],
+            [$msg("fridaySync.health.pullSeq"), `${replication.lastSyncPullSeq} / ${replication.maxPullSeq}`],
+            [$msg("fridaySync.health.lastPush"), formatTime(stats.lastSyncAt.push)],
+            [$msg("fridaySync.health.lastPull"), formatTime(stats.lastSyncAt.pull)],
+        ]);
+
+        this.renderPathList($msg("fridaySync.health.onlyInVault", { count: String(stats.onlyInVault.length) }), stats.onlyInVault);
+        this.renderPathList($msg("fridaySync.health.onlyInDatabase", { count: String(stats.onlyInDatabase.length) }), stats.onlyInDatabase);
+
+        this.statsEl.createDiv({
+            text: $msg("fridaySync.health.collectedAt", { time: formatTime(stats.collectedAt) }),
+            cls: "friday-sync-health-note",
+        });
+    }
+
+    private renderSection(title: string, rows: [string, string][]): void {
+        const section = this.statsEl.createDiv("friday-sync-health-section");
+        section.createEl("h4", { text: title });
+        const table = section.createEl("table");
+        for (const [label, value] of rows) {
+            const tr = table.createEl("tr");
+            tr.createEl("td", { text: label });
+            tr.createEl("td", { text: value });
+        }
+    }
+
+    private renderPathList(title: string, paths: string[]): void {
+        const details = this.statsEl.createEl("details", { cls: "friday-sync-health-section" });
+        details.createEl("summary", { text: title });
+        if (paths.length === 0) return;
+
+        const list = details.createEl("ul");
+        for (const path of paths.slice(0, MAX_LISTED_PATHS)) {
+            list.createEl("li", { text: path });
+        }
+        if (paths.length > MAX_LISTED_PATHS) {
+            details.createDiv({
+                text: $msg("fridaySync.health.more", { count: String(paths.length - MAX_LISTED_PATHS) }),
+                cls: "friday-sync-health-note",
+            });
+        }
+    }
+
+    // ==================== Integrity ====================
+
+    private renderIntegrity(): void {
+        this.integrityEl.empty();
+        const report = this.report;
+        if (!report) return;
+
+        const section = this.integrityEl.createDiv("friday-sync-health-section");
+        section.createEl("h4", { text: $msg("fridaySync.health.integrity") });
+        section.createDiv({
+            text: $msg("fridaySync.health.integritySummary", {
+                checked: String(report.checked),
+                issues: String(report.issues.length),
+            }),
+        });
+        if (report.issues.length === 0) return;
+
+        const repairable = report.issues.filter((issue) => issue.problem === "missing_chunks");
+        if (repairable.length > 1) {
+            section.createEl("button", { text: $msg("fridaySync.health.repairAll", { count: String(repairable.length) }) })
+                .addEventListener("click", () => void this.repair(repairable));
+        }
+
+        const list = section.createDiv("friday-sync-health-issues");
+        for (const issue of report.issues) {
+            const row = list.createDiv("friday-sync-health-issue");
+            const link = row.createEl("a", { text: issue.path, cls: "friday-sync-health-path" });
+            link.addEventListener("click", () => void this.app.workspace.openLinkText(issue.path, "", false));
+            row.createSpan({ text: this.problemLabel(issue), cls: "friday-sync-health-problem" });
+            if (issue.problem === "missing_chunks") {
+                row.createEl("button", { text: $msg("fridaySync.health.repair") })
+                    .addEventListener("click", () => void this.repair([issue]));
+            }
+        }
+    }
+
+    private problemLabel(issue: IntegrityIssue): string {
+        if (issue.problem === "missing_chunks") {
+            return $msg("fridaySync.health.problem.missing_chunks", { count: String(issue.missingChunks.length) });
+        }
+        return $msg(`fridaySync.health.problem.${issue.problem}`);
+    }
+}
+
+function formatNumber(value: number): string {
+    return value.toLocaleString();
+}
+
+function formatOptionalNumber(value: number | null): string {
+    return value === null ? "-" : formatNumber(value);
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ["KB", "MB", "GB"];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatTime(time: number | null): string {
+    return time ? new Date(time).toLocaleString() : $msg("fridaySync.health.never");
+}
@@ -0,0 +1,329 @@
+/**
+ * FridaySyncHealth - Database statistics and integrity check
+ *
+ * Collects what the sync status view shows:
+ * - Local and remote document and chunk counts, orphaned chunks, storage size
+ * - Replication positions and the last transfer in each direction
+ * - Files that exist in the vault but not in the database, and vice versa
+ *
+ * The integrity check reads every file entry through getDBEntryFromMeta,
+ * reports missing chunks and content that differs from the vault, and repairs
+ * missing chunks per file with fetchAllMissingChunksFromRemote.
+ */
+
+import { Platform, Plugin, TFile } from "obsidian";
+import { Logger } from "../../core/common/logger";
+import { $msg } from "../../core/common/i18n";
+import { LOG_LEVEL_VERBOSE, type EntryDoc, type FilePath, type MetaEntry } from "../../core/common/types";
+import { isDocContentSame, readContent, isTextDocument } from "../../core/common/utils";
+import type { ReplicationStat } from "../../core/replication/LiveSyncAbstractReplicator";
+import { LiveSyncCouchDBReplicator } from "../../core/replication/couchdb/LiveSyncReplicator";
+import { isInternalMetadata } from "../../utils/hiddenFileUtils";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+
+export { SyncHealthView, VIEW_TYPE_FRIDAY_SYNC_HEALTH } from "./SyncHealthView";
+
+const CHUNK_PREFIX = "h:";
+/** Documents read per allDocs call while scanning the local database */
+const PAGE_SIZE = 500;
+
+export interface SyncHealthStats {
+    collectedAt: number;
+    local: {
+        docCount: number;
+        updateSeq: number | string;
+        files: number;
+        deletedFiles: number;
+        hiddenFiles: number;
+        chunks: number;
+        orphanedChunks: number;
+        missingChunks: number;
+        /** Approximate size of the chunk data in bytes */
+        chunkBytes: number;
+    };
+    remote: {
+        /** Null when the remote cannot count documents (journal packs in a bucket) */
+        docCount: number | null;
+        chunks: number | null;
+        sizeBytes: number;
+    } | null;
+    remoteError?: string;
+    replication: ReplicationStat;
+    lastSyncAt: { pull: number | null; push: number | null };
+    onlyInVault: string[];
+    onlyInDatabase: string[];
+}
+
+export type IntegrityProblem = "missing_chunks" | "unreadable" | "missing_in_vault" | "mismatch";
+
+export interface IntegrityIssue {
+    path: string;
+    problem: IntegrityProblem;
+    missingChunks: string[];
+}
+
+export interface IntegrityReport {
+    checkedAt: number;
+    checked: number;
+    issues: IntegrityIssue[];
+}
+
+/**
+ * One pass over the local database
+ */
+interface LocalScan {
+    docCount: number;
+    updateSeq: number | string;
+    /** Current file entries (including deleted ones), internal files excluded */
+    files: MetaEntry[];
+    hiddenFiles: number;
+    chunkIds: Set<string>;
+    chunkBytes: number;
+    /** Chunks used by the current and conflicting revisions of every entry */
+    referencedChunks: Set<string>;
+}
+
+export class FridaySyncHealth {
+    private plugin: Plugin;
+    private core: FridaySyncCore;
+
+    constructor(plugin: Plugin, core: FridaySyncCore) {
+        this.plugin = plugin;
+        this.core = core;
+    }
+
+    /**
+     * Collect statistics for the status view (the remote part is skipped when offline)
+     */
+    async collectStats(): Promise<SyncHealthStats | null> {
+        const scan = await this.scanLocalDatabase();
+        if (!scan) return null;
+
+        const live = scan.files.filter((meta) => !this.isDeleted(meta));
+        const missingChunks = [...scan.referencedChunks].filter((id) => !scan.chunkIds.has(id)).length;
+        const orphanedChunks = [...scan.chunkIds].filter((id) => !scan.referencedChunks.has(id)).length;
+
+        // Vault against database, limited to files this device syncs
+        const databasePaths = new Set<string>();
+        for (const meta of live) {
+            if (await this.core.isTargetFile(meta.path)) databasePaths.add(meta.path);
+        }
+        const vaultPaths = new Set<string>();
+        for (const file of this.plugin.app.vault.getFiles()) {
+            if (await this.core.isTargetFile(file.path)) vaultPaths.add(file.path);
+        }
+
+        const stats: SyncHealthStats = {
+            collectedAt: Date.now(),
+            local: {
+                docCount: scan.docCount,
+                updateSeq: scan.updateSeq,
+                files: live.length,
+                deletedFiles: scan.files.length - live.length,
+                hiddenFiles: scan.hiddenFiles,
+                chunks: scan.chunkIds.size,
+                orphanedChunks,
+                missingChunks,
+                chunkBytes: scan.chunkBytes,
+            },
+            remote: null,
+            replication: { ...this.core.replicationStat.value },
+            lastSyncAt: this.core.lastSyncAt,
+            onlyInVault: [...vaultPaths].filter((path) => !databasePaths.has(path)).sort(),
+            onlyInDatabase: [...databasePaths].filter((path) => !vaultPaths.has(path)).sort(),
+        };
+
+        try {
+            stats.remote = await this.collectRemoteStats();
+        } catch (error) {
+            stats.remoteError = error instanceof Error ? error.message : String(error);
+        }
+        return stats;
+    }
+
+    /**
+     * Read every file entry and compare it with the vault
+     */
+    async verifyIntegrity(onProgress?: (done: number, total: number) => void): Promise<IntegrityReport | null> {
+        const scan = await this.scanLocalDatabase();
+        if (!scan) return null;
+
+        const targets: MetaEntry[] = [];
+        for (const meta of scan.files) {
+            if (!this.isDeleted(meta) && (await this.core.isTargetFile(meta.path))) targets.push(meta);
+        }
+
+        const issues: IntegrityIssue[] = [];
+        for (let i = 0; i < targets.length; i++) {
+            const issue = await this.verifyEntry(targets[i], scan.chunkIds);
+            if (issue) issues.push(issue);
+            onProgress?.(i + 1, targets.length);
+        }
+
+        return { checkedAt: Date.now(), checked: targets.length, issues };
+    }
+
+    /**
+     * Fetch the missing chunks of one file from the server and check it again
+     * @returns The remaining issue, or null when the file is healthy now
+     */
+    async repairFile(issue: IntegrityIssue): Promise<IntegrityIssue | null> {
+        const localDB = this.core.localDatabase;
+        if (!localDB) return issue;
+
+        if (issue.missingChunks.length > 0) {
+            await this.core.fetchAllMissingChunksFromRemote(issue.missingChunks);
+        }
+
+        const entry = await localDB.getDBEntryMeta(issue.path as FilePath);
+        if (!entry) return issue;
+        const meta = entry as unknown as MetaEntry;
+        const present = await this.presentChunks(meta.children ?? []);
+        return await this.verifyEntry(meta, present);
+    }
+
+    private async verifyEntry(meta: MetaEntry, localChunks: Set<string>): Promise<IntegrityIssue | null> {
+        const path = meta.path;
+        const eden = meta.eden ?? {};
+        const missingChunks = (meta.children ?? []).filter((id) => !localChunks.has(id) && !(id in eden));
+        if (missingChunks.length > 0) {
+            return { path, problem: "missing_chunks", missingChunks };
+        }
+
+        // All chunks are local, so reading does not wait for the network
+        let entry;
+        try {
+            entry = await this.core.localDatabase!.getDBEntryFromMeta(meta, false, false);
+        } catch (error) {
+            Logger(`Integrity check could not read ${path}: ${error}`, LOG_LEVEL_VERBOSE);
+            entry = false as const;
+        }
+        if (entry === false) {
+            return { path, problem: "unreadable", missingChunks: [] };
+        }
+
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            return { path, problem: "missing_in_vault", missingChunks: [] };
+        }
+        const vault = this.plugin.app.vault;
+        const vaultContent = isTextDocument(entry) ? await vault.read(file) : await vault.readBinary(file);
+        if (!(await isDocContentSame(readContent(entry), vaultContent))) {
+            return { path, problem: "mismatch", missingChunks: [] };
+        }
+        return null;
+    }
+
+    private async scanLocalDatabase(): Promise<LocalScan | null> {
+        const localDB = this.core.localDatabase?.localDatabase;
+        if (!localDB) return null;
+
+        const info = await localDB.info();
+        const scan: LocalScan = {
+            docCount: info.doc_count,
+            updateSeq: info.update_seq,
+            files: [],
+            hiddenFiles: 0,
+            chunkIds: new Set(),
+            chunkBytes: 0,
+            referencedChunks: new Set(),
+        };
+
+        // Chunk ids only; their data is read a page at a time just to add up the size
+        const chunkRows = await localDB.allDocs({ startkey: CHUNK_PREFIX, endkey: `${CHUNK_PREFIX}\uffff` });
+        const chunkIds = chunkRows.rows.map((row) => row.id);
+        chunkIds.forEach((id) => scan.chunkIds.add(id));
+        for (let i = 0; i < chunkIds.length; i += PAGE_SIZE) {
+            const page = await localDB.allDocs({ keys: chunkIds.slice(i, i + PAGE_SIZE), include_docs: true });
+            for (const row of page.rows) {
+                const doc = "doc" in row ? (row.doc as EntryDoc | null | undefined) : undefined;
+                if (doc && "data" in doc && typeof doc.data === "string") scan.chunkBytes += doc.data.length;
+            }
+        }
+
+        const ranges = [{ endkey: CHUNK_PREFIX }, { startkey: `${CHUNK_PREFIX}\uffff` }];
+        for (const range of ranges) {
+            let next: { startkey?: string; skip?: number } = {};
+            for (;;) {
+                const page = await localDB.allDocs({
+                    ...range,
+                    ...next,
+                    limit: PAGE_SIZE,
+                    include_docs: true,
+                    conflicts: true,
+                    attachments: false,
+                });
+                for (const row of page.rows) {
+                    await this.scanEntry(localDB, row.doc as (EntryDoc & PouchDB.Core.GetMeta) | undefined, scan);
+                }
+                if (page.rows.length < PAGE_SIZE) break;
+                // Continue after the last row of this page
+                next = { startkey: page.rows[page.rows.length - 1].id, skip: 1 };
+            }
+        }
+        return scan;
+    }
+
+    private async scanEntry(
+        localDB: PouchDB.Database<EntryDoc>,
+        doc: (EntryDoc & PouchDB.Core.GetMeta) | undefined,
+        scan: LocalScan
+    ): Promise<void> {
+        if (!doc || !("children" in doc) || !Array.isArray(doc.children)) return;
+
+        doc.children.forEach((id) => scan.referencedChunks.add(id));
+        for (const rev of doc._conflicts ?? []) {
+            try {
+                const conflicted = await localDB.get(doc._id, { rev });
+                if ("children" in conflicted && Array.isArray(conflicted.children)) {
+                    conflicted.children.forEach((id) => scan.referencedChunks.add(id));
+                }
+            } catch (error) {
+                Logger(`Could not read conflicted revision ${rev} of ${doc._id}: ${error}`, LOG_LEVEL_VERBOSE);
+            }
+        }
+
+        const meta = doc as unknown as MetaEntry;
+        if (isInternalMetadata(doc._id) || (meta.path && isInternalMetadata(meta.path))) {
+            scan.hiddenFiles++;
+        } else if (meta.path) {
+            scan.files.push(meta);
+        }
+    }
+
+    private async collectRemoteStats(): Promise<SyncHealthStats["remote"]> {
+        const replicator = this.core.replicator;
+        if (!replicator) return null;
+
+        if (!(replicator instanceof LiveSyncCouchDBReplicator)) {
+            const status = await replicator.getRemoteStatus(this.core.settings);
+            if (!status) {
+                throw new Error($msg("liveSyncReplicator.couldNotConnectToServer"));
+            }
+            return { docCount: null, chunks: null, sizeBytes: status.estimatedSize ?? 0 };
+        }
+
+        const connection = await replicator.connectRemoteCouchDBWithSetting(this.core.settings, Platform.isMobile, true);
+        if (typeof connection === "string") {
+            throw new Error(connection);
+        }
+        const info = await connection.db.info();
+        const chunks = await connection.db.allDocs({ startkey: CHUNK_PREFIX, endkey: `${CHUNK_PREFIX}\uffff` });
+        return {
+            docCount: info.doc_count,
+            chunks: chunks.rows.length,
+            sizeBytes: (info as any)?.sizes?.file ?? 0,
+        };
+    }
+
+    private async presentChunks(ids: string[]): Promise<Set<string>> {
+        const localDB = this.core.localDatabase?.localDatabase;
+        if (!localDB || ids.length === 0) return new Set();
+        const result = await localDB.allDocs({ keys: ids });
+        return new Set(result.rows.filter((row) => !("error" in row)).map((row) => row.key));
+    }
+
+    private isDeleted(meta: MetaEntry): boolean {
+        return meta.deleted === true || (meta as any)._deleted === true;
+    }
+}
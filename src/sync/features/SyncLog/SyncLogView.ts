@@ -0,0 +1,251 @@
+/**
+ * SyncLogView - Browse the sync log history
+ *
+ * Toolbar: level, operation, file path and text filters, diagnostics export, clear.
+ * List: newest entries first, updated live while sync runs.
+ */
+
+import { ItemView, Notice, TFile, WorkspaceLeaf, normalizePath } from "obsidian";
+import { LOG_LEVEL_INFO, LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "../../core/common/types";
+import { $msg } from "../../core/common/i18n";
+import type { FridaySyncCore } from "../../FridaySyncCore";
+import type { SyncConfig } from "../../SyncService";
+import type { FridaySyncLog, SyncLogEntry, SyncLogFilter, SyncLogOperation } from "./index";
+
+export const VIEW_TYPE_FRIDAY_SYNC_LOG = "friday-sync-log";
+
+const MAX_RENDERED = 500;
+const RENDER_DELAY = 300;
+
+type LevelFilter = "all" | "info" | "notice" | "errors";
+
+const OPERATIONS: SyncLogOperation[] = ["push", "pull", "chunk", "hidden", "other"];
+
+export class SyncLogView extends ItemView {
+    private getCore: () => FridaySyncCore | null;
+    private getConfig: () => SyncConfig;
+    private log: FridaySyncLog | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+    private level: LevelFilter = "all";
+    private operation: SyncLogOperation | "" = "";
+    private path = "";
+    private search = "";
+
+    private pathInput: HTMLInputElement;
+    private summaryEl: HTMLElement;
+    private listEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, getCore: () => FridaySyncCore | null, getConfig: () => SyncConfig) {
+        super(leaf);
+        this.getCore = getCore;
+        this.getConfig = getConfig;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_FRIDAY_SYNC_LOG;
+    }
+
+    getDisplayText(): string {
+        return $msg("fridaySync.log.title");
+    }
+
+    getIcon(): string {
+        return "scroll-text";
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("friday-sync-log");
+
+        const toolbar = container.createDiv("friday-sync-log-toolbar");
+
+        const levelSelect = toolbar.createEl("select", { cls: "dropdown" });
+        for (const level of ["all", "info", "notice", "errors"] as LevelFilter[]) {
+            levelSelect.createEl("option", { value: level, text: $msg(`fridaySync.log.level.${level}`) });
+        }
+        levelSelect.addEventListener("change", () => {
+            this.level = levelSelect.value as LevelFilter;
+            this.renderList();
+        });
+
+        const operationSelect = toolbar.createEl("select", { cls: "dropdown" });
+        operationSelect.createEl("option", { value: "", text: $msg("fridaySync.log.operation.all") });
+        for (const operation of OPERATIONS) {
+            operationSelect.createEl("option", { value: operation, text: $msg(`fridaySync.log.operation.${operation}`) });
+        }
+        operationSelect.addEventListener("change", () => {
+            this.operation = operationSelect.value as SyncLogOperation | "";
+            this.renderList();
+        });
+
+        this.pathInput = toolbar.createEl("input", {
+            type: "text",
+            placeholder: $msg("fridaySync.log.pathPlaceholder"),
+        });
+        this.pathInput.value = this.path;
+        this.pathInput.addEventListener("input", () => {
+            this.path = this.pathInput.value;
+            this.scheduleRender();
+        });
+
+        const searchInput = toolbar.createEl("input", {
+            type: "search",
+            placeholder: $msg("fridaySync.log.searchPlaceholder"),
+        });
+        searchInput.addEventListener("input", () => {
+            this.search = searchInput.value;
+            this.scheduleRender();
+        });
+
+        const actions = toolbar.createDiv("friday-sync-log-actions");
+        actions.createEl("button", { text: $msg("fridaySync.log.export"), cls: "mod-cta" })
+            .addEventListener("click", () => void this.exportDiagnostics());
+        actions.createEl("button", { text: $msg("fridaySync.log.clear") })
+            .addEventListener("click", () => void this.log?.clear());
+
+        this.summaryEl = container.createDiv("friday-sync-log-summary");
+        this.listEl = container.createDiv("friday-sync-log-list");
+
+        // The sync core is recreated when sync settings change; follow the current one
+        this.registerInterval(window.setInterval(() => this.bindLog(), 2000));
+        this.bindLog();
+        this.renderList();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        if (this.renderTimer) {
+            clearTimeout(this.renderTimer);
+            this.renderTimer = null;
+        }
+    }
+
+    /**
+     * Show only entries mentioning this path (used by the "current file" command)
+     */
+    setPathFilter(path: string): void {
+        this.path = path;
+        if (this.pathInput) this.pathInput.value = path;
+        this.renderList();
+    }
+
+    private bindLog(): void {
+        const log = this.getCore()?.syncLog ?? null;
+        if (log === this.log) return;
+
+        this.unsubscribe?.();
+        this.log = log;
+        this.unsubscribe = log?.onChange(() => this.scheduleRender()) ?? null;
+        this.renderList();
+    }
+
+    private scheduleRender(): void {
+        if (this.renderTimer) return;
+        this.renderTimer = setTimeout(() => {
+            this.renderTimer = null;
+            this.renderList();
+        }, RENDER_DELAY);
+    }
+
+    private get filter(): SyncLogFilter {
+        const minLevel = {
+            all: LOG_LEVEL_VERBOSE,
+            info: LOG_LEVEL_INFO,
+            notice: LOG_LEVEL_NOTICE,
+            errors: undefined,
+        }[this.level];
+        return {
+            minLevel,
+            errorsOnly: this.level === "errors",
+            operation: this.operation,
+            path: this.path,
+            search: this.search,
+        };
+    }
+
+    private renderList(): void {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        if (!this.log) {
+            this.summaryEl.setText("");
+            this.listEl.createDiv({ text: $msg("fridaySync.log.notInitialized"), cls: "friday-sync-log-empty" });
+            return;
+        }
+
+        const entries = this.log.getEntries(this.filter);
+        this.summaryEl.setText($msg("fridaySync.log.summary", {
+            shown: String(Math.min(entries.length, MAX_RENDERED)),
+            matched: String(entries.length),
+            total: String(this.log.size),
+        }));
+
+        if (entries.length === 0) {
+            this.listEl.createDiv({ text: $msg("fridaySync.log.empty"), cls: "friday-sync-log-empty" });
+            return;
+        }
+
+        for (const entry of entries.slice(-MAX_RENDERED).reverse()) {
+            this.renderEntry(entry);
+        }
+    }
+
+    private renderEntry(entry: SyncLogEntry): void {
+        const row = this.listEl.createDiv("friday-sync-log-entry");
+        if (entry.error) row.addClass("is-error");
+
+        const meta = row.createDiv("friday-sync-log-meta");
+        meta.createSpan({ text: new Date(entry.time).toLocaleString(), cls: "friday-sync-log-time" });
+        meta.createSpan({ text: this.levelLabel(entry.level), cls: "friday-sync-log-badge" });
+        if (entry.operation !== "other") {
+            meta.createSpan({ text: $msg(`fridaySync.log.operation.${entry.operation}`), cls: "friday-sync-log-badge" });
+        }
+        row.createDiv({ text: entry.message, cls: "friday-sync-log-message" });
+    }
+
+    private levelLabel(level: number): string {
+        if (level >= LOG_LEVEL_NOTICE) return "NOTICE";
+        if (level >= LOG_LEVEL_INFO) return "INFO";
+        return "VERBOSE";
+    }
+
+    /**
+     * Write the redacted diagnostics bundle to a note and open it
+     */
+    private async exportDiagnostics(): Promise<void> {
+        const core = this.getCore();
+        if (!core) {
+            new Notice($msg("fridaySync.log.notInitialized"));
+            return;
+        }
+
+        try {
+            const diagnostics = await core.buildDiagnostics(this.getConfig());
+            const stamp = new Date().toISOString().replace(/[:.]/g, "-").substring(0, 19);
+            const path = normalizePath(`Friday Sync Diagnostics ${stamp}.md`);
+            const content = [
+                `# ${$msg("fridaySync.log.diagnosticsTitle")}`,
+                "",
+                $msg("fridaySync.log.diagnosticsNote"),
+                "",
+                "```json",
+                JSON.stringify(diagnostics, null, 2),
+                "```",
+                "",
+            ].join("\n");
+
+            const file = await this.app.vault.create(path, content);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf(true).openFile(file);
+            }
+            new Notice($msg("fridaySync.log.exported", { path }));
+        } catch (error) {
+            console.error("[Friday Sync] Failed to export diagnostics:", error);
+            new Notice($msg("fridaySync.log.exportFailed"));
+        }
+    }
+}
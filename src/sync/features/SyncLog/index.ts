@@ -0,0 +1,238 @@
+/**
+ * FridaySyncLog - Persistent history of sync log messages
+ *
+ * Every Logger call from the sync core passes through setGlobalLogFunction.
+ * This module keeps them in a ring buffer so they can be inspected later:
+ * - Entries are classified by operation (push, pull, chunk fetch, hidden files)
+ * - The buffer is saved to the plugin folder (debounced) and reloaded on start
+ * - Diagnostics bundles redact credentials before they leave the device
+ */
+
+import { Plugin } from "obsidian";
+import { LOG_LEVEL_DEBUG, LOG_LEVEL_URGENT } from "../../core/common/types";
+
+export { SyncLogView, VIEW_TYPE_FRIDAY_SYNC_LOG } from "./SyncLogView";
+
+export type SyncLogOperation = "push" | "pull" | "chunk" | "hidden" | "other";
+
+export interface SyncLogEntry {
+    time: number;
+    level: number;
+    message: string;
+    key?: string;
+    operation: SyncLogOperation;
+    /** Logged as an Error object, or worded as a failure */
+    error: boolean;
+}
+
+/**
+ * Filter applied by the log view (all fields optional)
+ */
+export interface SyncLogFilter {
+    minLevel?: number;
+    errorsOnly?: boolean;
+    operation?: SyncLogOperation | "";
+    path?: string;
+    search?: string;
+}
+
+const LOG_FILE = "sync-log.json";
+const MAX_ENTRIES = 5000;
+const MAX_MESSAGE_LENGTH = 2000;
+const SAVE_DELAY = 5000;
+
+const ERROR_PATTERN = /\b(error|errors|failed|failure|exception|unreachable|refused|denied)\b/i;
+
+// Checked in order: chunk and hidden file messages often mention push/pull too
+const OPERATION_PATTERNS: [SyncLogOperation, RegExp][] = [
+    ["hidden", /hidden file|internal file|\.obsidian\/|\bi:/i],
+    ["chunk", /\bchunks?\b/i],
+    ["push", /\b(push|pushing|pushed|upload|uploading|uploaded|sent)\b|↑/i],
+    ["pull", /\b(pull|pulling|pulled|download|downloading|downloaded|fetch|fetching|arrived)\b|↓/i],
+];
+
+export class FridaySyncLog {
+    private plugin: Plugin;
+    private entries: SyncLogEntry[] = [];
+    private listeners = new Set<() => void>();
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Load the saved log; entries recorded before loading finished are kept after it
+     */
+    async load(): Promise<void> {
+        try {
+            const adapter = this.plugin.app.vault.adapter;
+            if (!(await adapter.exists(this.logPath))) return;
+            const saved = JSON.parse(await adapter.read(this.logPath)) as SyncLogEntry[];
+            if (Array.isArray(saved)) {
+                this.entries = [...saved, ...this.entries].slice(-MAX_ENTRIES);
+                this.notify();
+            }
+        } catch (error) {
+            console.warn("[Friday Sync] Failed to load sync log:", error);
+        }
+    }
+
+    /**
+     * Record one Logger call (debug messages are skipped)
+     */
+    add(message: unknown, level: number, key?: string): void {
+        if (level <= LOG_LEVEL_DEBUG) return;
+
+        const isErrorObject = message instanceof Error;
+        let text = isErrorObject ? `${message.name}: ${message.message}` : typeof message === "string" ? message : safeStringify(message);
+        if (text.length > MAX_MESSAGE_LENGTH) {
+            text = `${text.substring(0, MAX_MESSAGE_LENGTH)}…`;
+        }
+
+        this.entries.push({
+            time: Date.now(),
+            level,
+            message: text,
+            key,
+            operation: classifyOperation(`${key ?? ""} ${text}`),
+            error: isErrorObject || level >= LOG_LEVEL_URGENT || ERROR_PATTERN.test(text),
+        });
+        if (this.entries.length > MAX_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+        }
+
+        this.notify();
+        this.scheduleSave();
+    }
+
+    /**
+     * Entries matching the filter, oldest first
+     */
+    getEntries(filter: SyncLogFilter = {}): SyncLogEntry[] {
+        const search = filter.search?.trim().toLowerCase();
+        const path = filter.path?.trim();
+        return this.entries.filter((entry) => {
+            if (filter.minLevel !== undefined && entry.level < filter.minLevel) return false;
+            if (filter.errorsOnly && !entry.error) return false;
+            if (filter.operation && entry.operation !== filter.operation) return false;
+            if (path && !entry.message.includes(path)) return false;
+            if (search && !`${entry.key ?? ""} ${entry.message}`.toLowerCase().includes(search)) return false;
+            return true;
+        });
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Subscribe to new entries; returns the unsubscribe function
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        this.notify();
+        await this.save();
+    }
+
+    /**
+     * Write pending entries now (called when the sync core closes)
+     */
+    async flush(): Promise<void> {
+        if (!this.saveTimer) return;
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        await this.save();
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            void this.save();
+        }, SAVE_DELAY);
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.plugin.app.vault.adapter.write(this.logPath, JSON.stringify(this.entries));
+        } catch (error) {
+            console.warn("[Friday Sync] Failed to save sync log:", error);
+        }
+    }
+
+    private notify(): void {
+        this.listeners.forEach((listener) => listener());
+    }
+
+    private get logPath(): string {
+        return `${this.plugin.manifest.dir}/${LOG_FILE}`;
+    }
+}
+
+function classifyOperation(text: string): SyncLogOperation {
+    for (const [operation, pattern] of OPERATION_PATTERNS) {
+        if (pattern.test(text)) return operation;
+    }
+    return "other";
+}
+
+function safeStringify(value: unknown): string {
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+// ==================== Redaction ====================
+
+const SECRET_KEY_PATTERN = /password|passphrase|secret|token|credential|licen[cs]e|jwt|apikey|api_key|accesskey|_USER$/i;
+const REDACTED = "<redacted>";
+
+/**
+ * Copy of a settings object with secrets replaced and credentials removed from URLs
+ */
+export function redactSettings<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map((item) => redactSettings(item)) as unknown as T;
+    }
+    if (value && typeof value === "object") {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+            if (SECRET_KEY_PATTERN.test(key) && item !== "" && item !== undefined && typeof item !== "boolean") {
+                result[key] = REDACTED;
+            } else {
+                result[key] = redactSettings(item);
+            }
+        }
+        return result as T;
+    }
+    if (typeof value === "string") {
+        return stripUrlCredentials(value) as unknown as T;
+    }
+    return value;
+}
+
+/**
+ * Remove known secret values and URL credentials from a log message
+ */
+export function redactText(text: string, secrets: string[]): string {
+    let result = stripUrlCredentials(text);
+    for (const secret of secrets) {
+        // Very short values would blank out ordinary words
+        if (secret && secret.length >= 4) {
+            result = result.split(secret).join(REDACTED);
+        }
+    }
+    return result;
+}
+
+function stripUrlCredentials(text: string): string {
+    return text.replace(/(\w+:\/\/)[^\s/@]+@/g, `$1${REDACTED}@`);
+}
@@ -6,7 +6,7 @@
  */
 
 // Export the main SyncService
-export { SyncService, type SyncConfig, type SyncStatus, type SyncStatusCallback } from "./SyncService";
+export { SyncService, DEFAULT_BUCKET_CONFIG, type BucketConfig, type ChunkGCConfig, type SyncConfig, type SyncProfile, type SyncRemoteType, type SyncStatus, type SyncStatusCallback } from "./SyncService";
 
 // Export the sync core (for advanced usage)
 export { FridaySyncCore } from "./FridaySyncCore";
@@ -20,6 +20,19 @@ export { FridayStorageEventManager, type FileEvent, type FileEventType } from ".
 // Export the hidden file sync module (for .obsidian synchronization)
 export { FridayHiddenFileSync } from "./features/HiddenFileSync";
 
+// Export the conflict resolver (auto-merge and interactive diff)
+export { FridayConflictResolver, ConflictListModal } from "./features/ConflictResolver";
+
+// Export the file history browser (revisions kept in the local database)
+export { FridayFileHistory, FileHistoryModal, type FileRevision } from "./features/FileHistory";
+
+// Export the sync log history and its view
+export { FridaySyncLog, SyncLogView, VIEW_TYPE_FRIDAY_SYNC_LOG, type SyncLogEntry } from "./features/SyncLog";
+export { FridaySyncHealth, SyncHealthView, VIEW_TYPE_FRIDAY_SYNC_HEALTH, type SyncHealthStats, type IntegrityReport } from "./features/SyncHealth";
+
+// Export orphan chunk garbage collection
+export { FridayChunkGC, DEFAULT_CHUNK_GC_CONFIG, type ChunkGCReport } from "./features/ChunkGC";
+
 // Export hidden file utilities
 export { 
     isInternalMetadata, 
@@ -27,6 +40,12 @@ export {
     addInternalPrefix,
 } from "./utils/hiddenFileUtils";
 
+// Export sync profile helpers (per-device folder selection)
+export { createSyncProfile, normalizeProfileFolder } from "./utils/syncProfiles";
+
+// Export the S3-compatible object store used by the journal replicator
+export { S3JournalStore } from "./utils/S3JournalStore";
+
 // Export utilities for cache management
 export { clearHandlers as clearSyncHandlerCache } from "./core/replication/SyncParamsHandler";
 
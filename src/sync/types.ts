@@ -76,6 +76,16 @@ export {
     LiveSyncCouchDBReplicator 
 } from "./core/replication/couchdb/LiveSyncReplicator";
 
+export type { 
+    LiveSyncJournalReplicatorEnv,
+    JournalObjectStore,
+    JournalObjectInfo,
+} from "./core/replication/journal/LiveSyncJournalReplicator";
+
+export { 
+    LiveSyncJournalReplicator 
+} from "./core/replication/journal/LiveSyncJournalReplicator";
+
 // Re-export local database types
 export type { 
     LiveSyncLocalDBEnv,
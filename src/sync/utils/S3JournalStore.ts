@@ -0,0 +1,233 @@
+/**
+ * S3 Journal Store - Object storage for the journal replicator
+ *
+ * Talks to any S3-compatible service (AWS S3, MinIO, Cloudflare R2, ...)
+ * through Obsidian's requestUrl, so it works on desktop and mobile alike.
+ * Requests are signed with AWS Signature Version 4.
+ *
+ * Keys passed in and returned are relative to the configured bucket prefix.
+ */
+
+import { requestUrl } from "obsidian";
+import type { BucketSyncSetting } from "../core/common/types";
+import { parseHeaderValues } from "../core/common/utils";
+import type { JournalObjectInfo, JournalObjectStore } from "../core/replication/journal/LiveSyncJournalReplicator";
+import {
+    EMPTY_PAYLOAD_HASH,
+    encodeRfc3986,
+    sha256Base64,
+    sha256Hex,
+    signRequest,
+    type SigV4Credentials,
+} from "../../utils/sigv4";
+
+const DEFAULT_REGION = "us-east-1";
+const LIST_PAGE_SIZE = 1000;
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+interface S3Response {
+    status: number;
+    text: string;
+}
+
+export class S3JournalStore implements JournalObjectStore {
+    private setting: BucketSyncSetting;
+    private prefix: string;
+
+    constructor(setting: BucketSyncSetting) {
+        this.setting = setting;
+        this.prefix = normalizePrefix(setting.bucketPrefix);
+    }
+
+    /**
+     * Identifies the bucket and prefix, used to key checkpoints and the salt cache
+     */
+    get id(): string {
+        return `${this.endpoint().host}/${this.setting.bucket}/${this.prefix}`;
+    }
+
+    async list(prefix: string, startAfter?: string): Promise<JournalObjectInfo[]> {
+        const result: JournalObjectInfo[] = [];
+        await this.listPages({ prefix: `${this.prefix}${prefix}` }, startAfter, (page) => {
+            for (const contents of page.match(/<Contents>[\s\S]*?<\/Contents>/g) ?? []) {
+                const key = decodeXml(/<Key>([^<]*)<\/Key>/.exec(contents)?.[1] ?? "");
+                const size = Number(/<Size>(\d+)<\/Size>/.exec(contents)?.[1] ?? 0);
+                if (key.startsWith(this.prefix)) {
+                    result.push({ key: key.substring(this.prefix.length), size });
+                }
+            }
+        });
+        return result;
+    }
+
+    async listPrefixes(prefix: string): Promise<string[]> {
+        const result: string[] = [];
+        await this.listPages({ prefix: `${this.prefix}${prefix}`, delimiter: "/" }, undefined, (page) => {
+            for (const common of page.match(/<CommonPrefixes>[\s\S]*?<\/CommonPrefixes>/g) ?? []) {
+                const key = decodeXml(/<Prefix>([^<]*)<\/Prefix>/.exec(common)?.[1] ?? "");
+                if (key.startsWith(this.prefix)) {
+                    result.push(key.substring(this.prefix.length));
+                }
+            }
+        });
+        return result;
+    }
+
+    /**
+     * ListObjectsV2, following continuation tokens until the listing is complete
+     */
+    private async listPages(query: Record<string, string>, startAfter: string | undefined, onPage: (text: string) => void) {
+        let continuationToken: string | undefined;
+        do {
+            const pageQuery: Record<string, string> = { ...query, "list-type": "2", "max-keys": `${LIST_PAGE_SIZE}` };
+            if (continuationToken) {
+                pageQuery["continuation-token"] = continuationToken;
+            } else if (startAfter) {
+                pageQuery["start-after"] = `${this.prefix}${startAfter}`;
+            }
+            const response = await this.send("GET", this.bucketUrl(pageQuery));
+            if (response.status !== 200) {
+                throw toError(response, "List objects");
+            }
+            onPage(response.text);
+            const truncated = /<IsTruncated>true<\/IsTruncated>/.test(response.text);
+            continuationToken = truncated
+                ? decodeXml(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(response.text)?.[1] ?? "")
+                : undefined;
+        } while (continuationToken);
+    }
+
+    async get(key: string): Promise<string | false> {
+        const response = await this.send("GET", this.objectUrl(key));
+        if (response.status === 404) return false;
+        if (response.status !== 200) {
+            throw toError(response, `Get ${key}`);
+        }
+        return response.text;
+    }
+
+    async put(key: string, body: string, contentType: string): Promise<void> {
+        const response = await this.send("PUT", this.objectUrl(key), body, { "content-type": contentType });
+        if (response.status < 200 || response.status >= 300) {
+            throw toError(response, `Put ${key}`);
+        }
+    }
+
+    /**
+     * DeleteObjects in batches; keys that do not exist count as deleted
+     */
+    async delete(keys: string[]): Promise<void> {
+        for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+            const objects = keys
+                .slice(i, i + DELETE_BATCH_SIZE)
+                .map((key) => `<Object><Key>${encodeXml(`${this.prefix}${key}`)}</Key></Object>`);
+            const body = `<?xml version="1.0" encoding="UTF-8"?><Delete><Quiet>true</Quiet>${objects.join("")}</Delete>`;
+            // The request must carry a checksum of its body
+            const response = await this.send("POST", this.bucketUrl({ delete: "" }), body, {
+                "content-type": "application/xml",
+                "x-amz-checksum-sha256": await sha256Base64(body),
+            });
+            // In quiet mode the result only lists the keys that could not be deleted
+            if (response.status !== 200 || /<Error>/.test(response.text)) {
+                throw toError(response, `Delete ${objects.length} objects`);
+            }
+        }
+    }
+
+    /**
+     * Verify the credentials and that the bucket exists
+     */
+    async check(): Promise<void> {
+        if (!this.setting.bucket || !this.setting.accessKey || !this.setting.secretKey) {
+            throw new Error("Bucket, access key and secret key are required");
+        }
+        const response = await this.send("GET", this.bucketUrl({ "list-type": "2", "max-keys": "1" }));
+        if (response.status !== 200) {
+            throw toError(response, "Connect to bucket");
+        }
+    }
+
+    private async send(
+        method: string,
+        url: string,
+        body?: string,
+        headers: Record<string, string> = {}
+    ): Promise<S3Response> {
+        const credentials: SigV4Credentials = {
+            accessKeyId: this.setting.accessKey,
+            secretAccessKey: this.setting.secretKey,
+            region: this.setting.region || DEFAULT_REGION,
+            service: "s3",
+        };
+        const payloadHash = body === undefined ? EMPTY_PAYLOAD_HASH : await sha256Hex(body);
+        const requestHeaders = { ...parseHeaderValues(this.setting.bucketCustomHeaders ?? ""), ...headers };
+        const signedHeaders = await signRequest({ method, url, headers: requestHeaders, payloadHash }, credentials);
+        const response = await requestUrl({ url, method, headers: signedHeaders, body, throw: false });
+        return { status: response.status, text: response.text };
+    }
+
+    // ==================== Addresses ====================
+
+    private endpoint(): URL {
+        const region = this.setting.region || DEFAULT_REGION;
+        const endpoint = this.setting.endpoint?.trim() || `https://s3.${region}.amazonaws.com`;
+        return new URL(/^https?:\/\//i.test(endpoint) ? endpoint : `https://${endpoint}`);
+    }
+
+    /**
+     * Path-style: endpoint/bucket; virtual-hosted: bucket.endpoint
+     */
+    private bucketUrl(query?: Record<string, string>): string {
+        const endpoint = this.endpoint();
+        const basePath = endpoint.pathname.replace(/\/+$/, "");
+        const url = this.setting.forcePathStyle
+            ? `${endpoint.protocol}//${endpoint.host}${basePath}/${encodeRfc3986(this.setting.bucket)}/`
+            : `${endpoint.protocol}//${this.setting.bucket}.${endpoint.host}${basePath}/`;
+        if (!query) return url;
+        const search = Object.entries(query)
+            .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+            .join("&");
+        return `${url}?${search}`;
+    }
+
+    private objectUrl(key: string): string {
+        return this.bucketUrl() + `${this.prefix}${key}`.split("/").map(encodeRfc3986).join("/");
+    }
+}
+
+/**
+ * The prefix always has the form "dir/sub/"; empty means the bucket root
+ */
+function normalizePrefix(prefix?: string): string {
+    const trimmed = (prefix || "").trim().replace(/^\/+|\/+$/g, "");
+    return trimmed ? `${trimmed}/` : "";
+}
+
+/**
+ * S3 errors are XML: <Error><Code>...</Code><Message>...</Message></Error>
+ */
+function toError(response: S3Response, action: string): Error {
+    const code = /<Code>([^<]*)<\/Code>/.exec(response.text)?.[1];
+    const message = /<Message>([^<]*)<\/Message>/.exec(response.text)?.[1];
+    const detail = [code, message].filter(Boolean).join(": ") || `HTTP ${response.status}`;
+    return new Error(`${action} failed: ${detail}`);
+}
+
+function encodeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,98 @@
+/**
+ * Sync Profiles - Per-device folder selection for selective sync
+ *
+ * A profile names the folders a device replicates (includeFolders, empty = whole vault)
+ * and the folders it skips (excludeFolders). The active profile is turned into a
+ * Mango selector that PouchDB applies in both replication directions:
+ * - Pull: CouchDB evaluates the selector, so excluded metadata never reaches the device,
+ *   and their chunks are never requested (chunks are read online on demand)
+ * - Push: documents outside the profile are never sent, so a device that does not
+ *   hold a note can never push it as deleted
+ *
+ * Documents without a path (chunks, milestones, sync parameters, tombstones) and
+ * prefixed internal documents (`i:`, `ix:`, `ps:`) always pass.
+ */
+
+import type { SyncProfile } from "../SyncService";
+
+/**
+ * Normalize a folder entry to `Folder/Sub/` form (no leading slash, trailing slash)
+ */
+export function normalizeProfileFolder(folder: string): string {
+    const trimmed = folder.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+    return trimmed ? `${trimmed}/` : "";
+}
+
+function normalizeFolders(folders: string[] | undefined): string[] {
+    return [...new Set((folders ?? []).map(normalizeProfileFolder).filter(Boolean))];
+}
+
+/**
+ * Whether the profile limits replication at all
+ */
+export function isRestrictiveProfile(profile: SyncProfile | null | undefined): profile is SyncProfile {
+    if (!profile) return false;
+    return normalizeFolders(profile.includeFolders).length > 0 || normalizeFolders(profile.excludeFolders).length > 0;
+}
+
+/**
+ * Check if a vault path is replicated under the profile
+ */
+export function isPathInProfile(profile: SyncProfile | null | undefined, path: string): boolean {
+    if (!isRestrictiveProfile(profile)) return true;
+    // Internal / prefixed documents are handled by their own modules
+    if (/^[a-z]+:/.test(path)) return true;
+
+    const include = normalizeFolders(profile.includeFolders);
+    const exclude = normalizeFolders(profile.excludeFolders);
+    if (include.length > 0 && !include.some((folder) => path.startsWith(folder))) {
+        return false;
+    }
+    return !exclude.some((folder) => path.startsWith(folder));
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function folderRegex(folders: string[]): string {
+    return `^(?:${folders.map(escapeRegex).join("|")})`;
+}
+
+/**
+ * Mango selector for the profile, or undefined when everything is replicated
+ */
+export function buildProfileSelector(profile: SyncProfile | null | undefined): PouchDB.Find.Selector | undefined {
+    if (!isRestrictiveProfile(profile)) return undefined;
+
+    const include = normalizeFolders(profile.includeFolders);
+    const exclude = normalizeFolders(profile.excludeFolders);
+    const pathConditions: PouchDB.Find.Selector[] = [];
+    if (include.length > 0) {
+        pathConditions.push({ path: { $regex: folderRegex(include) } });
+    }
+    if (exclude.length > 0) {
+        // PouchDB only supports $not / $nor as combination operators, not on a field
+        pathConditions.push({ $nor: [{ path: { $regex: folderRegex(exclude) } }] });
+    }
+
+    return {
+        $or: [
+            { path: { $exists: false } },
+            { path: { $regex: "^[a-z]+:" } },
+            { $and: pathConditions },
+        ],
+    };
+}
+
+/**
+ * Create an empty profile with a unique id
+ */
+export function createSyncProfile(name: string): SyncProfile {
+    return {
+        id: `profile-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+        name,
+        includeFolders: [],
+        excludeFolders: [],
+    };
+}
@@ -9,6 +9,8 @@
 export type PublishMethod = 
 	| 'netlify'           // Netlify 发布
 	| 'ftp'               // FTP 发布
+	| 'git'               // Git 仓库（GitHub Pages、Gitea 等）
+	| 's3'                // S3 兼容对象存储（AWS、MinIO、R2、OSS）
 	| 'mdf-free'          // MDFriday Free（免费版，24小时有效期）
 	| 'mdf-share'         // MDFriday Share（快速分享）
 	| 'mdf-app'           // MDFriday App（子域名发布）
@@ -22,6 +24,8 @@ export type PublishMethod =
 export type ValidPublishMethod = 
 	| 'netlify'
 	| 'ftp'
+	| 'git'
+	| 's3'
 	| 'mdf-free'
 	| 'mdf-share'
 	| 'mdf-app'
@@ -34,6 +38,8 @@ export type ValidPublishMethod =
 export const VALID_PUBLISH_METHODS: readonly ValidPublishMethod[] = [
 	'netlify',
 	'ftp',
+	'git',
+	's3',
 	'mdf-free',
 	'mdf-share',
 	'mdf-app',
@@ -46,6 +52,40 @@ export const VALID_PUBLISH_METHODS: readonly ValidPublishMethod[] = [
  */
 export const DEFAULT_PUBLISH_METHOD: ValidPublishMethod = 'mdf-share';
 
+/**
+ * Git 发布的默认分支（GitHub Pages）
+ */
+export const DEFAULT_GIT_BRANCH = 'gh-pages';
+
+/**
+ * S3 发布的默认区域
+ */
+export const DEFAULT_S3_REGION = 'us-east-1';
+
+/**
+ * FTP 发布使用的协议：ftp（明文或显式 FTPS）、sftp（SSH）
+ */
+export type FtpProtocol = 'ftp' | 'sftp';
+
+/**
+ * FTP / SFTP 的默认端口
+ */
+export const DEFAULT_FTP_PORT = 21;
+export const DEFAULT_SFTP_PORT = 22;
+
+/**
+ * 发布预检：视为私有笔记的 frontmatter 标记、附件大小上限（MB）
+ */
+export const DEFAULT_PREFLIGHT_PRIVATE_FLAGS = 'publish: false, private: true';
+export const DEFAULT_PREFLIGHT_MAX_ATTACHMENT_MB = 10;
+
+/**
+ * FTP 需要密码；SFTP 可以使用密码或私钥
+ */
+export function hasFtpCredentials(ftp: { protocol?: string; password?: string; privateKeyPath?: string }): boolean {
+	return !!ftp.password || (ftp.protocol === 'sftp' && !!ftp.privateKeyPath?.trim());
+}
+
 /**
  * 检查是否是有效的发布方式
  */
@@ -80,9 +120,53 @@ export function normalizePublishMethod(method: PublishMethod | string): ValidPub
 export const PUBLISH_METHOD_LABELS: Record<ValidPublishMethod, string> = {
 	'netlify': 'Netlify',
 	'ftp': 'FTP',
+	'git': 'Git',
+	's3': 'S3',
 	'mdf-free': 'MDFriday Free',
 	'mdf-share': 'MDFriday Share',
 	'mdf-app': 'MDFriday App',
 	'mdf-custom': 'MDFriday Custom Domain',
 	'mdf-enterprise': 'MDFriday Enterprise'
 };
+
+/**
+ * 无界面发布的阶段
+ */
+export type PublishStage = 'preparing' | 'building' | 'publishing' | 'complete' | 'error';
+
+/**
+ * 发布进度事件（PublishOrchestrator 发出，面板与其他插件订阅）
+ */
+export interface PublishEvent {
+	projectName: string;
+	method: ValidPublishMethod;
+	stage: PublishStage;
+	percentage: number;   // 整体进度 0-100（构建 0-50，发布 50-100；跳过构建时发布 0-100）
+	message?: string;
+	filesCompleted?: number;  // publishing 阶段已上传的文件数（增量发布时只统计有变化的文件）
+	filesTotal?: number;
+	url?: string;         // complete 阶段的完整站点地址
+	error?: string;       // error 阶段的错误信息
+}
+
+/**
+ * 发布选项
+ */
+export interface PublishOptions {
+	sitePath?: string;    // 覆盖 mdf-app / mdf-custom / mdf-enterprise / netlify / git / s3 的 baseURL
+	build?: boolean;      // 默认 true；面板已生成预览时传 false
+	config?: any;         // 直接使用此发布配置，不从项目配置生成
+	onProgress?: (event: PublishEvent) => void;
+}
+
+/**
+ * 发布结果
+ */
+export interface PublishOutcome {
+	success: boolean;
+	projectName: string;
+	method: ValidPublishMethod;
+	url?: string;
+	error?: string;
+	duration: number;     // 毫秒
+}
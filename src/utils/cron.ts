@@ -0,0 +1,120 @@
+/**
+ * 简易 Cron 表达式解析
+ *
+ * 支持标准 5 段格式：分 时 日 月 周
+ * - `*`、`5`、`1,15`、`9-17`、`*\/10`、`0-30/5`
+ * - 周字段 0 和 7 都表示周日
+ * - 日与周同时受限时，任一匹配即可（与标准 cron 一致）
+ */
+
+interface CronField {
+	values: Set<number>;
+	restricted: boolean;
+}
+
+export interface CronSchedule {
+	minute: CronField;
+	hour: CronField;
+	dayOfMonth: CronField;
+	month: CronField;
+	dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+	[0, 59], // 分
+	[0, 23], // 时
+	[1, 31], // 日
+	[1, 12], // 月
+	[0, 7],  // 周
+];
+
+/**
+ * 解析单个字段
+ */
+function parseField(field: string, min: number, max: number): CronField {
+	const values = new Set<number>();
+
+	for (const part of field.split(',')) {
+		const [rangePart, stepPart] = part.split('/');
+		const step = stepPart === undefined ? 1 : Number(stepPart);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid step "${part}"`);
+		}
+
+		let start: number;
+		let end: number;
+		if (rangePart === '*') {
+			start = min;
+			end = max;
+		} else if (rangePart.includes('-')) {
+			const [from, to] = rangePart.split('-');
+			start = Number(from);
+			end = Number(to);
+		} else {
+			start = Number(rangePart);
+			// "5/15" 表示从 5 开始每 15 个单位
+			end = stepPart === undefined ? start : max;
+		}
+
+		if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+			throw new Error(`Value out of range "${part}" (${min}-${max})`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return { values, restricted: field !== '*' };
+}
+
+/**
+ * 解析 cron 表达式，格式错误时抛出异常
+ *
+ * @param expression - 5 段 cron 表达式，如 "0 9 * * 1-5"
+ */
+export function parseCron(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Expected 5 fields, got ${fields.length}`);
+	}
+
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, i) =>
+		parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+	);
+
+	// 7 和 0 都是周日
+	if (dayOfWeek.values.has(7)) {
+		dayOfWeek.values.add(0);
+	}
+
+	return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * 检查 cron 表达式是否有效
+ */
+export function isValidCron(expression: string): boolean {
+	try {
+		parseCron(expression);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * 判断给定时间（精确到分钟）是否命中计划
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+	if (!schedule.minute.values.has(date.getMinutes())) return false;
+	if (!schedule.hour.values.has(date.getHours())) return false;
+	if (!schedule.month.values.has(date.getMonth() + 1)) return false;
+
+	const domMatch = schedule.dayOfMonth.values.has(date.getDate());
+	const dowMatch = schedule.dayOfWeek.values.has(date.getDay());
+	if (schedule.dayOfMonth.restricted && schedule.dayOfWeek.restricted) {
+		return domMatch || dowMatch;
+	}
+	return domMatch && dowMatch;
+}
@@ -0,0 +1,56 @@
+/**
+ * 简易 glob 匹配
+ *
+ * 路径使用 / 分隔，与 .gitignore 规则相近：
+ * - `*` 匹配除 / 外的任意字符，`?` 匹配单个字符
+ * - `**` 匹配任意层目录，如 `drafts/**`、`**\/private/*.md`
+ * - `{a,b}` 匹配其中之一
+ * - 不含 / 的模式匹配任意目录下的文件名，如 `*.excalidraw.md`
+ */
+
+/**
+ * 把 glob 模式转换为正则表达式
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let glob = pattern.trim().replace(/\\/g, '/');
+	const anchored = glob.includes('/');
+	glob = glob.replace(/^\/+/, '');
+
+	let regex = '';
+	let inGroup = false;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				// "**/" 匹配零或多层目录，末尾的 "**" 匹配其余所有内容
+				const atSegmentEnd = glob[i + 2] === '/';
+				regex += atSegmentEnd ? '(?:.*/)?' : '.*';
+				i += atSegmentEnd ? 2 : 1;
+			} else {
+				regex += '[^/]*';
+			}
+		} else if (char === '?') {
+			regex += '[^/]';
+		} else if (char === '{') {
+			inGroup = true;
+			regex += '(?:';
+		} else if (char === '}' && inGroup) {
+			inGroup = false;
+			regex += ')';
+		} else if (char === ',' && inGroup) {
+			regex += '|';
+		} else {
+			regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	// 匹配目录时包含其下所有文件
+	return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${regex}(?:/.*)?$`);
+}
+
+/**
+ * 路径是否匹配任一模式（空列表不匹配）
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+	return patterns.some(pattern => pattern.trim() && globToRegExp(pattern).test(filePath));
+}
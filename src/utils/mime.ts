@@ -0,0 +1,64 @@
+/**
+ * 静态站点文件的 Content-Type / Cache-Control
+ *
+ * 对象存储（S3 等）不会自动推断类型，需要上传时指定
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+	html: 'text/html; charset=utf-8',
+	htm: 'text/html; charset=utf-8',
+	css: 'text/css; charset=utf-8',
+	js: 'application/javascript; charset=utf-8',
+	mjs: 'application/javascript; charset=utf-8',
+	json: 'application/json; charset=utf-8',
+	xml: 'application/xml; charset=utf-8',
+	txt: 'text/plain; charset=utf-8',
+	md: 'text/markdown; charset=utf-8',
+	webmanifest: 'application/manifest+json',
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	ico: 'image/x-icon',
+	bmp: 'image/bmp',
+	woff: 'font/woff',
+	woff2: 'font/woff2',
+	ttf: 'font/ttf',
+	otf: 'font/otf',
+	eot: 'application/vnd.ms-fontobject',
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	ogg: 'audio/ogg',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+	wasm: 'application/wasm',
+};
+
+function extensionOf(path: string): string {
+	const name = path.split('/').pop() || '';
+	const dot = name.lastIndexOf('.');
+	return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * 根据扩展名返回 Content-Type，未知类型为 application/octet-stream
+ */
+export function getContentType(path: string): string {
+	return CONTENT_TYPES[extensionOf(path)] || 'application/octet-stream';
+}
+
+/**
+ * HTML 与站点索引需要及时更新，其余静态资源允许缓存一天
+ */
+export function getCacheControl(path: string): string {
+	const extension = extensionOf(path);
+	if (extension === 'html' || extension === 'htm' || extension === 'xml' || extension === 'json') {
+		return 'public, max-age=0, must-revalidate';
+	}
+	return 'public, max-age=86400';
+}
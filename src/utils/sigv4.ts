@@ -0,0 +1,127 @@
+/**
+ * AWS Signature Version 4
+ *
+ * 用于 S3 兼容的对象存储（AWS S3、MinIO、Cloudflare R2、阿里云 OSS 等）
+ * 仅支持 Authorization 头签名，负载哈希由调用方传入（通常是内容的 SHA-256）
+ * 使用 Web Crypto 计算哈希与 HMAC，桌面端和移动端都可用（同步功能在移动端也会签名）
+ *
+ * 参考：https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ */
+
+export interface SigV4Credentials {
+	accessKeyId: string;
+	secretAccessKey: string;
+	region: string;
+	service: string;
+}
+
+export interface SigV4Request {
+	method: string;
+	url: string;
+	headers?: Record<string, string>;
+	payloadHash: string;
+}
+
+/**
+ * 空负载的 SHA-256
+ */
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', toBytes(data));
+	return toHex(digest);
+}
+
+/**
+ * Base64 编码的 SHA-256，用于 x-amz-checksum-sha256 请求头
+ */
+export async function sha256Base64(data: string | Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', toBytes(data));
+	return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * 按 RFC 3986 编码（S3 要求，encodeURIComponent 不编码 !'()*）
+ */
+export function encodeRfc3986(value: string): string {
+	return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 返回带签名的完整请求头（包含 x-amz-date、x-amz-content-sha256、authorization）
+ * host 参与签名但不写入返回值，由 HTTP 客户端根据 URL 设置
+ */
+export async function signRequest(
+	request: SigV4Request,
+	credentials: SigV4Credentials,
+	date = new Date()
+): Promise<Record<string, string>> {
+	const url = new URL(request.url);
+	const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+	const dateStamp = amzDate.slice(0, 8);
+
+	const headers: Record<string, string> = {
+		...request.headers,
+		'x-amz-date': amzDate,
+		'x-amz-content-sha256': request.payloadHash,
+	};
+
+	const signedEntries = Object.entries({ ...headers, host: url.host })
+		.map(([key, value]) => [key.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')] as const)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	const signedHeaders = signedEntries.map(([key]) => key).join(';');
+
+	const canonicalRequest = [
+		request.method.toUpperCase(),
+		canonicalPath(url.pathname),
+		canonicalQuery(url.searchParams),
+		signedEntries.map(([key, value]) => `${key}:${value}\n`).join(''),
+		signedHeaders,
+		request.payloadHash,
+	].join('\n');
+
+	const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+	const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+	let signingKey = toBytes(`AWS4${credentials.secretAccessKey}`);
+	for (const part of [dateStamp, credentials.region, credentials.service, 'aws4_request']) {
+		signingKey = await hmac(signingKey, part);
+	}
+	const signature = toHex(await hmac(signingKey, stringToSign));
+
+	headers['authorization'] =
+		`AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+		`SignedHeaders=${signedHeaders}, Signature=${signature}`;
+	return headers;
+}
+
+async function hmac(key: Uint8Array<ArrayBuffer>, data: string): Promise<Uint8Array<ArrayBuffer>> {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, toBytes(data)));
+}
+
+function toBytes(data: string | Uint8Array): Uint8Array<ArrayBuffer> {
+	return typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+}
+
+function toHex(data: ArrayBuffer | Uint8Array): string {
+	return Array.from(new Uint8Array(data), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 路径逐段编码；URL 对象已做过百分号编码，先解码避免重复编码
+ */
+function canonicalPath(pathname: string): string {
+	return pathname
+		.split('/')
+		.map(segment => encodeRfc3986(decodeURIComponent(segment)))
+		.join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+	return [...params.entries()]
+		.map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+		.sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+		.map(([key, value]) => `${key}=${value}`)
+		.join('&');
+}